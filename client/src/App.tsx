@@ -1,13 +1,16 @@
 import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
-import { AuthProvider, WalletProvider, CryptoProvider, useAuth } from './context';
-import { Login, Register, Dashboard, Market, Portfolio, Settings } from './pages';
+import { AuthProvider, WalletProvider, CryptoProvider, LockProvider, useAuth } from './context';
+import { Login, Register, ForgotPassword, ResetPassword, SecureAccount, UnlockAccount, VerifyEmail, ConfirmWithdrawalAddress, OidcCallback, WalletSetup, Dashboard, Market, Portfolio, Settings } from './pages';
 import { Layout, LoadingSpinner } from './components';
 import './App.css';
 
-// Protected Route Component
-const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { isAuthenticated, isLoading } = useAuth();
+// Protected Route Component (accounts without wallet keys are sent to set them up first)
+const ProtectedRoute: React.FC<{ children: React.ReactNode; requireWalletKeys?: boolean }> = ({
+  children,
+  requireWalletKeys = true
+}) => {
+  const { user, isAuthenticated, isLoading } = useAuth();
 
   if (isLoading) {
     return (
@@ -17,7 +20,15 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
     );
   }
 
-  return isAuthenticated ? <>{children}</> : <Navigate to="/login" replace />;
+  if (!isAuthenticated) {
+    return <Navigate to="/login" replace />;
+  }
+
+  if (requireWalletKeys && !user?.hdWalletCreatedAt) {
+    return <Navigate to="/wallet-setup" replace />;
+  }
+
+  return <>{children}</>;
 };
 
 // Public Route Component (redirect to dashboard if authenticated)
@@ -57,6 +68,39 @@ const AppRoutes: React.FC = () => {
             </PublicRoute>
           }
         />
+        <Route
+          path="/forgot-password"
+          element={
+            <PublicRoute>
+              <ForgotPassword />
+            </PublicRoute>
+          }
+        />
+        <Route
+          path="/reset-password"
+          element={
+            <PublicRoute>
+              <ResetPassword />
+            </PublicRoute>
+          }
+        />
+
+        {/* Open to everyone, signed in or not */}
+        <Route path="/verify-email" element={<VerifyEmail />} />
+        <Route path="/secure-account" element={<SecureAccount />} />
+        <Route path="/unlock-account" element={<UnlockAccount />} />
+        <Route path="/confirm-withdrawal-address" element={<ConfirmWithdrawalAddress />} />
+        <Route path="/oidc/callback" element={<OidcCallback />} />
+
+        {/* Recovery phrase backup after sign-up */}
+        <Route
+          path="/wallet-setup"
+          element={
+            <ProtectedRoute requireWalletKeys={false}>
+              <WalletSetup />
+            </ProtectedRoute>
+          }
+        />
 
         {/* Protected Routes */}
         <Route
@@ -85,11 +129,13 @@ const AppRoutes: React.FC = () => {
 const App: React.FC = () => {
   return (
     <AuthProvider>
-      <WalletProvider>
-        <CryptoProvider>
-          <AppRoutes />
-        </CryptoProvider>
-      </WalletProvider>
+      <LockProvider>
+        <WalletProvider>
+          <CryptoProvider>
+            <AppRoutes />
+          </CryptoProvider>
+        </WalletProvider>
+      </LockProvider>
     </AuthProvider>
   );
 };
@@ -0,0 +1,145 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { authService } from '../services';
+import { formatRelativeTime, getErrorMessage } from '../utils/formatters';
+import LoadingSpinner from './LoadingSpinner';
+import type { AuditEvent } from '../types';
+
+const ACTION_LABELS: Record<string, string> = {
+  'auth.register': 'Account created',
+  'auth.login': 'Sign-in',
+  'auth.token_refresh': 'Session refreshed',
+  'auth.reauthenticate': 'Identity confirmed',
+  'auth.oidc_link': 'Single sign-on linked',
+  'auth.logout': 'Signed out',
+  'auth.password_change': 'Password change',
+  'auth.password_reset': 'Password reset',
+  'auth.secure_account': 'Account secured after a sign-in alert',
+  'auth.unlock': 'Account unlocked',
+  'two_factor.setup': 'Two-factor setup started',
+  'two_factor.enable': 'Two-factor authentication enabled',
+  'two_factor.recovery_codes_regenerate': 'Recovery codes regenerated',
+  'two_factor.disable': 'Two-factor removal',
+  'passkey.add': 'Passkey added',
+  'passkey.remove': 'Passkey removed',
+  'api_key.create': 'API key created',
+  'api_key.revoke': 'API key revoked',
+  'session.revoke': 'Session signed out',
+  'session.revoke_all': 'Other sessions signed out',
+  'account.delete': 'Account deletion',
+  'lock_screen.update': 'Auto-lock settings updated',
+  'lock_screen.unlock': 'Unlocked app',
+  'profile.update': 'Profile updated',
+  'profile.picture.update': 'Profile picture updated',
+  'profile.picture.remove': 'Profile picture removed',
+  'wallet.settings.update': 'Wallet settings updated',
+  'wallet.hd_accounts_create': 'Wallet keys created',
+  'wallet.send': 'Sent cryptocurrency',
+  'wallet.deposit': 'Cash deposit',
+  'wallet.withdraw': 'Cash withdrawal',
+  'wallet.keystore_backup.create': 'Keystore backup saved',
+  'wallet.keystore_backup.update': 'Keystore backup replaced',
+  'wallet.keystore_backup.delete': 'Keystore backup deleted',
+  'withdrawal_address.add_requested': 'Withdrawal address addition requested',
+  'withdrawal_address.add': 'Withdrawal address added',
+  'withdrawal_address.remove_requested': 'Withdrawal address removal requested',
+  'withdrawal_address.remove': 'Withdrawal address removed',
+  'trade.buy': 'Bought cryptocurrency',
+  'trade.sell': 'Sold cryptocurrency'
+};
+
+const formatValue = (value: unknown) => value === undefined || value === null ? '—' : String(value);
+
+// One line per changed field, e.g. "currency: USD → EUR"
+const describeChanges = (event: AuditEvent) => event.changes
+  .map(change => `${change.field}: ${formatValue(change.before)} → ${formatValue(change.after)}`)
+  .join(', ');
+
+const describeEvent = (event: AuditEvent) => {
+  const label = ACTION_LABELS[event.action] || event.action;
+  const method = typeof event.metadata.method === 'string' ? ` (${event.metadata.method.replace('_', '-')})` : '';
+  return `${event.outcome === 'failure' ? 'Failed ' + label.toLowerCase() : label}${method}`;
+};
+
+export const AccountActivity: React.FC = () => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadEvents = useCallback(async (pageToLoad: number) => {
+    setLoading(true);
+    try {
+      const result = await authService.getAuditEvents(pageToLoad);
+      setEvents(current => pageToLoad === 1 ? result.events : [...current, ...result.events]);
+      setPage(pageToLoad);
+      setHasMore(result.pagination.hasNextPage);
+      setError('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load account activity'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEvents(1);
+  }, [loadEvents]);
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Account Activity</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Sign-ins, setting changes and trades on your account. If something here wasn't you, change your password.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {events.length > 0 && (
+        <ul className="divide-y divide-gray-200 border rounded-lg mb-4">
+          {events.map((event) => (
+            <li key={event.id} className="flex items-start p-4">
+              {event.outcome === 'failure' ? (
+                <XCircle className="w-5 h-5 text-red-500 mr-3 mt-0.5" />
+              ) : (
+                <CheckCircle className="w-5 h-5 text-green-500 mr-3 mt-0.5" />
+              )}
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">
+                  {describeEvent(event)}
+                  {event.actorType === 'apiKey' && (
+                    <span className="ml-2 text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded">API key</span>
+                  )}
+                </p>
+                {event.changes.length > 0 && (
+                  <p className="text-xs text-gray-600 break-words">{describeChanges(event)}</p>
+                )}
+                <p className="text-xs text-gray-500">
+                  {formatRelativeTime(event.createdAt)}
+                  {event.ipAddress && ` · ${event.ipAddress}`}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {loading ? (
+        <LoadingSpinner size="small" />
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-500">No activity recorded yet.</p>
+      ) : hasMore && (
+        <button onClick={() => loadEvents(page + 1)} className="btn btn-secondary">
+          Load More
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AccountActivity;
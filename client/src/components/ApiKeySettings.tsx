@@ -0,0 +1,224 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { KeySquare, Trash2, Copy } from 'lucide-react';
+import { authService } from '../services';
+import { copyToClipboard, formatDate, formatRelativeTime, getErrorMessage } from '../utils/formatters';
+import LoadingSpinner from './LoadingSpinner';
+import type { ApiKey, ApiKeyScope } from '../types';
+
+const SCOPES: { id: ApiKeyScope; label: string; description: string }[] = [
+  { id: 'read:wallet', label: 'Read wallet', description: 'Balances, holdings and portfolio history' },
+  { id: 'read:transactions', label: 'Read transactions', description: 'Transaction history' },
+  { id: 'trade', label: 'Trade', description: 'Buy and sell cryptocurrency' }
+];
+
+const EXPIRY_OPTIONS = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+  { days: 0, label: 'Never' }
+];
+
+export const ApiKeySettings: React.FC = () => {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['read:wallet']);
+  const [allowedIps, setAllowedIps] = useState('');
+  const [expiryDays, setExpiryDays] = useState(90);
+  const [newKey, setNewKey] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadApiKeys = useCallback(async () => {
+    try {
+      setApiKeys(await authService.getApiKeys());
+      setError('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load API keys'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadApiKeys();
+  }, [loadApiKeys]);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes(current => current.includes(scope)
+      ? current.filter(s => s !== scope)
+      : [...current, scope]);
+  };
+
+  const handleCreate = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      const expiresAt = expiryDays > 0
+        ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString()
+        : null;
+
+      const created = await authService.createApiKey({
+        name: name.trim(),
+        scopes,
+        allowedIps: allowedIps.split(/[\s,]+/).filter(Boolean),
+        expiresAt
+      });
+
+      setNewKey(created.key);
+      setName('');
+      setAllowedIps('');
+      await loadApiKeys();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create API key'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async (apiKeyId: string) => {
+    setBusy(true);
+    try {
+      await authService.revokeApiKey(apiKeyId);
+      await loadApiKeys();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to revoke API key'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-gray-900 mb-4">API Keys</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Use API keys to access your wallet from scripts. Send a key as <code>Authorization: Bearer &lt;key&gt;</code>.
+        Keys can only do what their scopes allow and cannot change account settings.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {/* The plaintext key is only returned once, right after it is created */}
+      {newKey && (
+        <div className="mb-4 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium text-yellow-800">New API Key</h4>
+            <button
+              onClick={() => copyToClipboard(newKey)}
+              className="text-sm text-yellow-800 hover:text-yellow-900 flex items-center"
+            >
+              <Copy className="w-4 h-4 mr-1" />
+              Copy
+            </button>
+          </div>
+          <p className="text-sm text-yellow-700 mb-3">
+            Copy this key now. It will not be shown again.
+          </p>
+          <code className="block bg-white p-2 rounded border font-mono text-sm break-all">{newKey}</code>
+          <button onClick={() => setNewKey('')} className="mt-3 text-sm text-yellow-800 hover:text-yellow-900">
+            Done
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner size="small" />
+      ) : apiKeys.length > 0 && (
+        <ul className="divide-y divide-gray-200 border rounded-lg mb-4">
+          {apiKeys.map((apiKey) => (
+            <li key={apiKey.id} className="flex items-center justify-between p-4">
+              <div className="flex items-center">
+                <KeySquare className="w-5 h-5 text-gray-500 mr-3" />
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {apiKey.name} <span className="font-mono text-gray-500">{apiKey.keyPrefix}…</span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {apiKey.scopes.join(', ')}
+                    {apiKey.allowedIps.length > 0 && ` · ${apiKey.allowedIps.join(', ')}`}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Created {formatRelativeTime(apiKey.createdAt)}
+                    {apiKey.lastUsedAt && ` · Last used ${formatRelativeTime(apiKey.lastUsedAt)}`}
+                    {apiKey.expiresAt
+                      ? ` · Expires ${formatDate(apiKey.expiresAt, { hour: undefined, minute: undefined })}`
+                      : ' · Never expires'}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => handleRevoke(apiKey.id)}
+                disabled={busy}
+                className="p-2 text-gray-500 hover:text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                title="Revoke API key"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name (e.g. Portfolio script)"
+          maxLength={50}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+
+        <div className="space-y-2">
+          {SCOPES.map((scope) => (
+            <label key={scope.id} className="flex items-start text-sm">
+              <input
+                type="checkbox"
+                checked={scopes.includes(scope.id)}
+                onChange={() => toggleScope(scope.id)}
+                className="mt-0.5 mr-2"
+              />
+              <span>
+                <span className="font-medium text-gray-900">{scope.label}</span>
+                <span className="text-gray-500"> — {scope.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <input
+          type="text"
+          value={allowedIps}
+          onChange={(e) => setAllowedIps(e.target.value)}
+          placeholder="Allowed IPs or ranges, comma separated (optional, e.g. 203.0.113.7, 10.0.0.0/8)"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+
+        <div className="flex gap-3">
+          <select
+            value={expiryDays}
+            onChange={(e) => setExpiryDays(Number(e.target.value))}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {EXPIRY_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days}>Expires: {option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleCreate}
+            disabled={busy || !name.trim() || scopes.length === 0}
+            className="btn btn-primary disabled:opacity-50"
+          >
+            Create API Key
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApiKeySettings;
@@ -0,0 +1,38 @@
+import React from 'react';
+import type { User } from '../types';
+
+interface AvatarProps {
+  user: User | null;
+  size?: 'small' | 'medium' | 'large';
+}
+
+const SIZE_CLASSES = {
+  small: 'w-8 h-8 text-sm',
+  medium: 'w-16 h-16 text-xl',
+  large: 'w-24 h-24 text-3xl'
+};
+
+// Shows the uploaded profile picture at the matching thumbnail size, or the user's initials
+export const Avatar: React.FC<AvatarProps> = ({ user, size = 'small' }) => {
+  const picture = user?.profilePictureSizes?.[size] || user?.profilePicture;
+
+  if (picture) {
+    return (
+      <img
+        src={picture}
+        alt={`${user?.firstName} ${user?.lastName}`}
+        className={`${SIZE_CLASSES[size]} rounded-full object-cover`}
+      />
+    );
+  }
+
+  return (
+    <div className={`${SIZE_CLASSES[size]} bg-gradient-to-r from-blue-400 to-purple-500 rounded-full flex items-center justify-center`}>
+      <span className="text-white font-medium">
+        {user?.firstName?.charAt(0)}{user?.lastName?.charAt(0)}
+      </span>
+    </div>
+  );
+};
+
+export default Avatar;
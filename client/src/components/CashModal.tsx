@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { useWallet } from '../context';
+import { walletService } from '../services';
+import { getErrorMessage } from '../utils/formatters';
+
+interface CashModalProps {
+  mode: 'deposit' | 'withdraw';
+  onClose: () => void;
+}
+
+/**
+ * Deposit fiat cash into the wallet or withdraw it, through the payment provider
+ */
+export const CashModal: React.FC<CashModalProps> = ({ mode, onClose }) => {
+  const { wallet, depositCash, withdrawCash } = useWallet();
+  const [amount, setAmount] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const currency = wallet?.settings.currency || 'USD';
+  const available = wallet?.availableBalance || 0;
+  const parsedAmount = parseFloat(amount);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError('');
+    setSuccess('');
+    try {
+      const submit = mode === 'deposit' ? depositCash : withdrawCash;
+      setSuccess(await submit({ amount: parsedAmount }));
+      setAmount('');
+    } catch (err) {
+      setError(getErrorMessage(err, mode === 'deposit' ? 'Deposit failed' : 'Withdrawal failed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl p-6 w-full max-w-md">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold">{mode === 'deposit' ? 'Deposit Cash' : 'Withdraw Cash'}</h3>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-700" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm mb-4">
+            {error}
+          </div>
+        )}
+        {success && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-green-700 text-sm mb-4">
+            {success}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="cashAmount" className="block text-sm font-medium text-gray-700 mb-2">
+              Amount ({currency})
+            </label>
+            <input
+              id="cashAmount"
+              type="number"
+              placeholder="0.00"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              step="0.01"
+              min="1"
+              max={mode === 'withdraw' ? available : undefined}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <p className="text-sm text-gray-600 mt-2">
+              Available: {walletService.formatCurrency(available, currency)}
+            </p>
+          </div>
+
+          <button
+            type="submit"
+            disabled={submitting || !(parsedAmount >= 1) || (mode === 'withdraw' && parsedAmount > available)}
+            className="w-full btn btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Processing...' : mode === 'deposit' ? 'Deposit' : 'Withdraw'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CashModal;
@@ -0,0 +1,138 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Monitor, Smartphone, LogOut } from 'lucide-react';
+import { authService } from '../services';
+import { formatRelativeTime, getErrorMessage } from '../utils/formatters';
+import LoadingSpinner from './LoadingSpinner';
+import type { ActiveSession } from '../types';
+
+const isMobile = (userAgent = '') => /mobile|android|iphone|ipad/i.test(userAgent);
+
+// Short, readable device label from a user agent string
+const describeDevice = (userAgent = '') => {
+  const browser = /edg\//i.test(userAgent) ? 'Edge'
+    : /chrome\//i.test(userAgent) ? 'Chrome'
+    : /firefox\//i.test(userAgent) ? 'Firefox'
+    : /safari\//i.test(userAgent) ? 'Safari'
+    : 'Unknown browser';
+  const os = /windows/i.test(userAgent) ? 'Windows'
+    : /android/i.test(userAgent) ? 'Android'
+    : /iphone|ipad|ios/i.test(userAgent) ? 'iOS'
+    : /mac os/i.test(userAgent) ? 'macOS'
+    : /linux/i.test(userAgent) ? 'Linux'
+    : 'Unknown OS';
+
+  return `${browser} on ${os}`;
+};
+
+export const DeviceSessions: React.FC = () => {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await authService.getSessions());
+      setError('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load devices'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (sessionId: string) => {
+    setBusy(true);
+    try {
+      await authService.revokeSession(sessionId);
+      await loadSessions();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to sign out device'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setBusy(true);
+    try {
+      await authService.revokeOtherSessions();
+      await loadSessions();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to sign out other devices'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const hasOtherSessions = sessions.some(session => !session.current);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900">Devices</h3>
+        {hasOtherSessions && (
+          <button
+            onClick={handleRevokeOthers}
+            disabled={busy}
+            className="text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+          >
+            Sign out all other devices
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner size="small" />
+      ) : (
+        <ul className="divide-y divide-gray-200 border rounded-lg">
+          {sessions.map((session) => {
+            const Icon = isMobile(session.userAgent) ? Smartphone : Monitor;
+            return (
+              <li key={session.id} className="flex items-center justify-between p-4">
+                <div className="flex items-center">
+                  <Icon className="w-5 h-5 text-gray-500 mr-3" />
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {describeDevice(session.userAgent)}
+                      {session.current && (
+                        <span className="ml-2 text-xs text-green-700 bg-green-100 px-2 py-0.5 rounded-full">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {session.ipAddress || 'Unknown IP'} · Last active {formatRelativeTime(session.lastSeenAt)}
+                    </p>
+                  </div>
+                </div>
+                {!session.current && (
+                  <button
+                    onClick={() => handleRevoke(session.id)}
+                    disabled={busy}
+                    className="p-2 text-gray-500 hover:text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                    title="Sign out this device"
+                  >
+                    <LogOut className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DeviceSessions;
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { MailWarning } from 'lucide-react';
+import { useAuth } from '../context';
+import { authService } from '../services';
+import { getErrorMessage } from '../utils/formatters';
+
+export const EmailVerificationBanner: React.FC = () => {
+  const { user } = useAuth();
+  const [status, setStatus] = useState('');
+  const [sending, setSending] = useState(false);
+
+  if (!user || user.isEmailVerified) return null;
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      setStatus(await authService.resendVerificationEmail());
+    } catch (error) {
+      setStatus(getErrorMessage(error, 'Failed to send verification email'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start">
+      <MailWarning className="w-5 h-5 text-yellow-600 mt-0.5 mr-3" />
+      <div className="flex-1">
+        <p className="text-sm text-yellow-800">
+          Please verify <span className="font-medium">{user.email}</span>. Trading and wallet changes are
+          disabled until your email address is confirmed.
+        </p>
+        {status && <p className="text-sm text-yellow-700 mt-1">{status}</p>}
+      </div>
+      <button
+        onClick={handleResend}
+        disabled={sending}
+        className="ml-4 text-sm font-medium text-yellow-800 hover:text-yellow-900 disabled:opacity-50"
+      >
+        {sending ? 'Sending...' : 'Resend email'}
+      </button>
+    </div>
+  );
+};
+
+export default EmailVerificationBanner;
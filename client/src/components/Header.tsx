@@ -1,6 +1,7 @@
 import React from 'react';
 import { Bell, Settings, LogOut } from 'lucide-react';
 import { useAuth } from '../context';
+import Avatar from './Avatar';
 
 export const Header: React.FC = () => {
   const { user, logout } = useAuth();
@@ -40,11 +41,7 @@ export const Header: React.FC = () => {
               <div className="text-xs text-gray-500">@{user?.username}</div>
             </div>
             
-            <div className="w-8 h-8 bg-gradient-to-r from-blue-400 to-purple-500 rounded-full flex items-center justify-center">
-              <span className="text-white text-sm font-medium">
-                {user?.firstName?.charAt(0)}{user?.lastName?.charAt(0)}
-              </span>
-            </div>
+            <Avatar user={user} />
           </div>
 
           {/* Dropdown Menu */}
@@ -0,0 +1,421 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Cloud, CloudOff, Download, KeyRound, Lock, Trash2 } from 'lucide-react';
+import { useAuth } from '../context';
+import { walletService } from '../services';
+import { downloadJson, formatRelativeTime, getErrorMessage } from '../utils/formatters';
+import {
+  changeKeystorePassword,
+  createKeystoreBackup,
+  createKeystoreEntry,
+  exportKeystoreEntry,
+  importV3KeystoreEntry,
+  restoreKeystoreBackup,
+} from '../utils/keystore';
+import { deleteKeystoreEntry, listKeystoreEntries, saveKeystoreEntry } from '../utils/keystoreDb';
+import LoadingSpinner from './LoadingSpinner';
+import type { KeystoreBackup, KeystoreEntry, KeystoreKdf } from '../types';
+
+type ImportSource = 'mnemonic' | 'privateKey' | 'v3';
+
+type EntryAction = 'export' | 'password' | 'backup' | 'restore';
+
+const MIN_KEYSTORE_PASSWORD_LENGTH = 8;
+
+const IMPORT_SOURCES: { id: ImportSource; label: string }[] = [
+  { id: 'mnemonic', label: 'Recovery phrase' },
+  { id: 'privateKey', label: 'Private key' },
+  { id: 'v3', label: 'Keystore file (JSON)' }
+];
+
+const ACTION_LABELS: Record<EntryAction, string> = {
+  export: 'Download keystore file',
+  password: 'Change password',
+  backup: 'Back up to server',
+  restore: 'Restore to this browser'
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+/**
+ * Password-encrypted keys kept in this browser's IndexedDB. Secrets are only
+ * decrypted here; the optional server backup holds ciphertext only.
+ */
+export const KeystoreSettings: React.FC = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [entries, setEntries] = useState<KeystoreEntry[]>([]);
+  const [backups, setBackups] = useState<KeystoreBackup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const [source, setSource] = useState<ImportSource>('mnemonic');
+  const [name, setName] = useState('');
+  const [secret, setSecret] = useState('');
+  const [filePassword, setFilePassword] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [kdf, setKdf] = useState<KeystoreKdf>('scrypt');
+
+  const [action, setAction] = useState<{ id: string; type: EntryAction } | null>(null);
+  const [actionPassword, setActionPassword] = useState('');
+  const [actionNewPassword, setActionNewPassword] = useState('');
+
+  const loadKeystore = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const [localEntries, serverBackups] = await Promise.all([
+        listKeystoreEntries(userId),
+        walletService.getKeystoreBackups()
+      ]);
+      setEntries(localEntries);
+      setBackups(serverBackups);
+      setError('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load keystore'));
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadKeystore();
+  }, [loadKeystore]);
+
+  const backupIds = new Set(backups.map(backup => backup.keystoreId));
+  const remoteOnly = backups.filter(backup => !entries.some(entry => entry.id === backup.keystoreId));
+
+  // Runs a keystore operation with shared busy, error and success handling
+  const run = async (operation: () => Promise<string>, fallback: string) => {
+    setBusy(true);
+    setError('');
+    setSuccess('');
+    try {
+      setSuccess(await operation());
+      await loadKeystore();
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openAction = (id: string, type: EntryAction) => {
+    setAction(current => current?.id === id && current.type === type ? null : { id, type });
+    setActionPassword('');
+    setActionNewPassword('');
+    setError('');
+    setSuccess('');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setSecret(await file.text());
+      if (!name) setName(file.name.replace(/\.json$/i, ''));
+    }
+  };
+
+  const handleImport = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId) return;
+
+    if (password.length < MIN_KEYSTORE_PASSWORD_LENGTH) {
+      setError(`The keystore password must be at least ${MIN_KEYSTORE_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    run(async () => {
+      const entry = source === 'v3'
+        ? await importV3KeystoreEntry(name, secret, filePassword, password)
+        : await createKeystoreEntry(name, source, secret, password, kdf);
+      await saveKeystoreEntry(userId, entry);
+
+      setName('');
+      setSecret('');
+      setFilePassword('');
+      setPassword('');
+      setConfirmPassword('');
+      return `${entry.name} was added to this browser`;
+    }, 'Failed to import key');
+  };
+
+  const handleAction = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId || !action) return;
+
+    const entry = entries.find(item => item.id === action.id);
+    const backup = backups.find(item => item.keystoreId === action.id);
+
+    run(async () => {
+      if (action.type === 'restore' && backup) {
+        const restored = await restoreKeystoreBackup(backup, actionPassword);
+        await saveKeystoreEntry(userId, restored);
+        setAction(null);
+        return `${restored.name} was restored to this browser`;
+      }
+      if (!entry) {
+        throw new Error('Keystore entry not found');
+      }
+
+      if (action.type === 'export') {
+        const file = await exportKeystoreEntry(entry, actionPassword);
+        downloadJson(`UTC--${new Date().toISOString().replace(/:/g, '-')}--${file.address}.json`, file);
+        setAction(null);
+        return 'Keystore file downloaded. It opens with the same password.';
+      }
+
+      if (action.type === 'password') {
+        if (actionNewPassword.length < MIN_KEYSTORE_PASSWORD_LENGTH) {
+          throw new Error(`The keystore password must be at least ${MIN_KEYSTORE_PASSWORD_LENGTH} characters`);
+        }
+        const updated = await changeKeystorePassword(entry, actionPassword, actionNewPassword);
+        // Keep the server copy openable with the same password as the local one
+        if (backupIds.has(entry.id)) {
+          await walletService.saveKeystoreBackup(entry.id, await createKeystoreBackup(updated, actionNewPassword));
+        }
+        await saveKeystoreEntry(userId, updated);
+        setAction(null);
+        return 'Keystore password changed';
+      }
+
+      await walletService.saveKeystoreBackup(entry.id, await createKeystoreBackup(entry, actionPassword));
+      setAction(null);
+      return `${entry.name} is backed up. The server cannot decrypt it without your keystore password.`;
+    }, 'Keystore operation failed');
+  };
+
+  const handleRemoveBackup = (keystoreId: string) => {
+    run(async () => {
+      await walletService.deleteKeystoreBackup(keystoreId);
+      return 'Server backup removed';
+    }, 'Failed to remove backup');
+  };
+
+  const handleDelete = (entry: KeystoreEntry) => {
+    if (!userId) return;
+    const warning = backupIds.has(entry.id)
+      ? `Remove ${entry.name} from this browser? The server backup is kept.`
+      : `Remove ${entry.name} from this browser? Without a backup it cannot be recovered here.`;
+    if (!window.confirm(warning)) return;
+
+    run(async () => {
+      await deleteKeystoreEntry(userId, entry.id);
+      return `${entry.name} was removed from this browser`;
+    }, 'Failed to remove key');
+  };
+
+  const renderActionForm = () => action && (
+    <form onSubmit={handleAction} className="mt-3 space-y-2">
+      <input
+        type="password"
+        value={actionPassword}
+        onChange={(e) => setActionPassword(e.target.value)}
+        placeholder={action.type === 'password' ? 'Current keystore password' : 'Keystore password'}
+        autoComplete="off"
+        className={inputClass}
+      />
+      {action.type === 'password' && (
+        <input
+          type="password"
+          value={actionNewPassword}
+          onChange={(e) => setActionNewPassword(e.target.value)}
+          placeholder="New keystore password"
+          autoComplete="new-password"
+          className={inputClass}
+        />
+      )}
+      <button
+        type="submit"
+        disabled={busy || !actionPassword || (action.type === 'password' && !actionNewPassword)}
+        className="btn btn-primary disabled:opacity-50"
+      >
+        {busy ? 'Working...' : ACTION_LABELS[action.type]}
+      </button>
+    </form>
+  );
+
+  const ethAddress = (entry: KeystoreEntry) =>
+    entry.addresses.find(address => address.chain === 'ETH')?.address;
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Keystore</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Keys are encrypted with a keystore password and kept in this browser. The password is not your account
+        password and cannot be reset; keys can be exported as standard Ethereum keystore files.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm mb-4">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-green-700 text-sm mb-4">
+          {success}
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner size="small" />
+      ) : (entries.length > 0 || remoteOnly.length > 0) && (
+        <ul className="divide-y divide-gray-200 border rounded-lg mb-4">
+          {entries.map((entry) => (
+            <li key={entry.id} className="p-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center min-w-0">
+                  <KeyRound className="w-5 h-5 text-gray-500 mr-3 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {entry.name}{' '}
+                      <span className="text-gray-500 font-normal">
+                        {entry.kind === 'mnemonic' ? 'Recovery phrase' : 'Private key'}
+                      </span>
+                    </p>
+                    <p className="text-xs text-gray-500 font-mono truncate">{ethAddress(entry)}</p>
+                    <p className="text-xs text-gray-500">
+                      Added {formatRelativeTime(entry.createdAt)} · {entry.crypto.kdf}
+                      {backupIds.has(entry.id) ? ' · Backed up' : ' · This browser only'}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center">
+                  <button onClick={() => openAction(entry.id, 'export')} disabled={busy} className="p-2 text-gray-500 hover:text-gray-700" title="Download keystore file">
+                    <Download className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => openAction(entry.id, 'password')} disabled={busy} className="p-2 text-gray-500 hover:text-gray-700" title="Change password">
+                    <Lock className="w-4 h-4" />
+                  </button>
+                  {backupIds.has(entry.id) ? (
+                    <button onClick={() => handleRemoveBackup(entry.id)} disabled={busy} className="p-2 text-gray-500 hover:text-gray-700" title="Remove server backup">
+                      <CloudOff className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button onClick={() => openAction(entry.id, 'backup')} disabled={busy} className="p-2 text-gray-500 hover:text-gray-700" title="Back up to server">
+                      <Cloud className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button onClick={() => handleDelete(entry)} disabled={busy} className="p-2 text-gray-500 hover:text-red-600" title="Remove from this browser">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              {action?.id === entry.id && renderActionForm()}
+            </li>
+          ))}
+          {remoteOnly.map((backup) => (
+            <li key={backup.keystoreId} className="p-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <Cloud className="w-5 h-5 text-gray-500 mr-3" />
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">Server backup</p>
+                    <p className="text-xs text-gray-500">
+                      Saved {formatRelativeTime(backup.updatedAt)} · Not in this browser
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center">
+                  <button onClick={() => openAction(backup.keystoreId, 'restore')} disabled={busy} className="p-2 text-gray-500 hover:text-gray-700" title="Restore to this browser">
+                    <Download className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleRemoveBackup(backup.keystoreId)} disabled={busy} className="p-2 text-gray-500 hover:text-red-600" title="Delete server backup">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              {action?.id === backup.keystoreId && renderActionForm()}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleImport} className="space-y-3">
+        <div className="flex gap-3">
+          <select
+            value={source}
+            onChange={(e) => { setSource(e.target.value as ImportSource); setSecret(''); }}
+            className={`flex-1 ${inputClass}`}
+          >
+            {IMPORT_SOURCES.map((option) => (
+              <option key={option.id} value={option.id}>Import: {option.label}</option>
+            ))}
+          </select>
+          {source !== 'v3' && (
+            <select value={kdf} onChange={(e) => setKdf(e.target.value as KeystoreKdf)} className={`flex-1 ${inputClass}`}>
+              <option value="scrypt">scrypt</option>
+              <option value="pbkdf2">PBKDF2-SHA256</option>
+            </select>
+          )}
+        </div>
+
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name (e.g. Hardware wallet backup)"
+          maxLength={50}
+          className={inputClass}
+        />
+
+        {source === 'v3' ? (
+          <>
+            <input type="file" accept=".json,application/json" onChange={handleFile} className="text-sm" />
+            <input
+              type="password"
+              value={filePassword}
+              onChange={(e) => setFilePassword(e.target.value)}
+              placeholder="Password of the keystore file"
+              autoComplete="off"
+              className={inputClass}
+            />
+          </>
+        ) : (
+          <textarea
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            rows={source === 'mnemonic' ? 3 : 2}
+            autoComplete="off"
+            autoCapitalize="none"
+            spellCheck={false}
+            placeholder={source === 'mnemonic' ? '12 or 24 words separated by spaces' : '64 hexadecimal characters, with or without 0x'}
+            className={`${inputClass} font-mono text-sm`}
+          />
+        )}
+
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Keystore password"
+          autoComplete="new-password"
+          className={inputClass}
+        />
+        <input
+          type="password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          placeholder="Confirm keystore password"
+          autoComplete="new-password"
+          className={inputClass}
+        />
+
+        <button
+          type="submit"
+          disabled={busy || !secret.trim() || !password || !confirmPassword || (source === 'v3' && !filePassword)}
+          className="btn btn-primary disabled:opacity-50"
+        >
+          {busy ? 'Encrypting...' : 'Add to Keystore'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default KeystoreSettings;
@@ -2,6 +2,9 @@ import React from 'react';
 import { Outlet } from 'react-router-dom';
 import Header from './Header';
 import Sidebar from './Sidebar';
+import EmailVerificationBanner from './EmailVerificationBanner';
+import ReauthModal from './ReauthModal';
+import LockScreen from './LockScreen';
 
 export const Layout: React.FC = () => {
   return (
@@ -16,10 +19,17 @@ export const Layout: React.FC = () => {
         {/* Main Content */}
         <main className="flex-1 ml-64 pt-16">
           <div className="p-6">
+            <EmailVerificationBanner />
             <Outlet />
           </div>
         </main>
       </div>
+
+      {/* Prompts for a fresh confirmation when a sensitive request needs one */}
+      <ReauthModal />
+
+      {/* Rendered last so it covers everything, including open modals */}
+      <LockScreen />
     </div>
   );
 };
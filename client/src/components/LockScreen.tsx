@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { useAuth, useLock } from '../context';
+import { getErrorMessage } from '../utils/formatters';
+
+/**
+ * Covers and blurs the app after it has been idle for the user's auto-lock timeout.
+ * Unlocks with the lock screen PIN, or the password when no PIN is set.
+ */
+export const LockScreen: React.FC = () => {
+  const { user, logout } = useAuth();
+  const { isLocked, unlock } = useLock();
+  const [usePassword, setUsePassword] = useState(false);
+  const [secret, setSecret] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!isLocked) return null;
+
+  const pinMode = !!user?.securitySettings?.lockPinEnabled && !usePassword;
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError('');
+    try {
+      await unlock(pinMode ? { pin: secret } : { password: secret });
+      setSecret('');
+      setUsePassword(false);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Unable to unlock'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const switchMode = () => {
+    setUsePassword(!usePassword);
+    setSecret('');
+    setError('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900 bg-opacity-40 backdrop-blur-xl p-4">
+      <div className="max-w-sm w-full bg-white rounded-2xl shadow-xl p-8 text-center">
+        <div className="inline-flex items-center justify-center w-16 h-16 bg-gradient-to-r from-blue-500 to-purple-600 rounded-2xl mb-4">
+          <Lock className="w-8 h-8 text-white" />
+        </div>
+        <h1 className="text-2xl font-bold text-gray-900 mb-1">Locked</h1>
+        <p className="text-gray-600 mb-6">
+          {user ? `Signed in as ${user.username}. ` : ''}
+          Enter your {pinMode ? 'PIN' : 'password'} to continue.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleUnlock} className="space-y-3">
+          <input
+            type="password"
+            inputMode={pinMode ? 'numeric' : undefined}
+            autoComplete={pinMode ? 'off' : 'current-password'}
+            value={secret}
+            onChange={(e) => setSecret(e.target.value)}
+            placeholder={pinMode ? 'PIN' : 'Password'}
+            maxLength={pinMode ? 8 : undefined}
+            autoFocus
+            className={`w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${pinMode ? 'text-center tracking-widest font-mono' : ''}`}
+          />
+          <button
+            type="submit"
+            disabled={busy || !secret}
+            className="w-full btn btn-primary disabled:opacity-50"
+          >
+            {busy ? 'Unlocking...' : 'Unlock'}
+          </button>
+        </form>
+
+        <div className="flex justify-between mt-4 text-sm">
+          {user?.securitySettings?.lockPinEnabled ? (
+            <button onClick={switchMode} className="text-blue-600 hover:text-blue-800">
+              {usePassword ? 'Use PIN' : 'Use password'}
+            </button>
+          ) : <span />}
+          <button onClick={logout} className="text-gray-600 hover:text-gray-900">
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LockScreen;
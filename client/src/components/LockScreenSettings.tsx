@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { useAuth, useLock } from '../context';
+import { authService } from '../services';
+import { getErrorMessage } from '../utils/formatters';
+import type { LockScreenSettings as LockScreenSettingsData } from '../types';
+
+const TIMEOUT_OPTIONS = [
+  { minutes: 1, label: '1 minute' },
+  { minutes: 5, label: '5 minutes' },
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 30, label: '30 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 0, label: 'Never' }
+];
+
+export const LockScreenSettings: React.FC = () => {
+  const { user, refreshUser } = useAuth();
+  const { autoLockMinutes, lock } = useLock();
+  const [pin, setPin] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const pinEnabled = user?.securitySettings?.lockPinEnabled ?? false;
+
+  const save = async (settings: LockScreenSettingsData) => {
+    setBusy(true);
+    setError('');
+    try {
+      await authService.updateLockScreen(settings);
+      await refreshUser();
+      setPin('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to update lock screen settings'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Auto-Lock</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Lock the app after a period of inactivity, in every open tab. Unlock with a short PIN, or your password if no PIN is set.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <label htmlFor="autoLockMinutes" className="text-sm font-medium text-gray-900">
+            Lock after inactivity
+          </label>
+          <select
+            id="autoLockMinutes"
+            value={autoLockMinutes}
+            onChange={(e) => save({ autoLockMinutes: Number(e.target.value) })}
+            disabled={busy}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {TIMEOUT_OPTIONS.map((option) => (
+              <option key={option.minutes} value={option.minutes}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-900 mb-2">
+            Unlock PIN {pinEnabled ? '(set)' : '(not set)'}
+          </p>
+          <div className="flex gap-3">
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              placeholder="4 to 8 digits"
+              maxLength={8}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              onClick={() => save({ pin })}
+              disabled={busy || pin.length < 4}
+              className="btn btn-primary disabled:opacity-50"
+            >
+              {pinEnabled ? 'Change PIN' : 'Set PIN'}
+            </button>
+            {pinEnabled && (
+              <button
+                onClick={() => save({ pin: null })}
+                disabled={busy}
+                className="btn btn-secondary disabled:opacity-50"
+              >
+                Remove PIN
+              </button>
+            )}
+          </div>
+        </div>
+
+        <button onClick={lock} className="btn btn-secondary flex items-center">
+          <Lock className="w-4 h-4 mr-2" />
+          Lock Now
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LockScreenSettings;
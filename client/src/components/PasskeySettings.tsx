@@ -0,0 +1,128 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { KeyRound, Trash2, Cloud } from 'lucide-react';
+import { browserSupportsWebAuthn } from '@simplewebauthn/browser';
+import { authService } from '../services';
+import { formatRelativeTime, getErrorMessage } from '../utils/formatters';
+import LoadingSpinner from './LoadingSpinner';
+import type { Passkey } from '../types';
+
+export const PasskeySettings: React.FC = () => {
+  const [passkeys, setPasskeys] = useState<Passkey[]>([]);
+  const [name, setName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadPasskeys = useCallback(async () => {
+    try {
+      setPasskeys(await authService.getPasskeys());
+      setError('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load passkeys'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPasskeys();
+  }, [loadPasskeys]);
+
+  const handleAdd = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      await authService.registerPasskey(name.trim());
+      setName('');
+      await loadPasskeys();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to add passkey'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async (passkeyId: string) => {
+    setBusy(true);
+    try {
+      await authService.removePasskey(passkeyId);
+      await loadPasskeys();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to remove passkey'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Passkeys</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Sign in without a password using your device's screen lock or a security key.
+        Passkeys can also confirm sensitive actions instead of an authentication code.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner size="small" />
+      ) : passkeys.length > 0 && (
+        <ul className="divide-y divide-gray-200 border rounded-lg mb-4">
+          {passkeys.map((passkey) => (
+            <li key={passkey.id} className="flex items-center justify-between p-4">
+              <div className="flex items-center">
+                <KeyRound className="w-5 h-5 text-gray-500 mr-3" />
+                <div>
+                  <p className="text-sm font-medium text-gray-900 flex items-center">
+                    {passkey.name}
+                    {passkey.backedUp && (
+                      <span title="Synced across your devices">
+                        <Cloud className="w-4 h-4 text-blue-500 ml-2" />
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Added {formatRelativeTime(passkey.createdAt)}
+                    {passkey.lastUsedAt && ` · Last used ${formatRelativeTime(passkey.lastUsedAt)}`}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => handleRemove(passkey.id)}
+                disabled={busy}
+                className="p-2 text-gray-500 hover:text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                title="Remove passkey"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {browserSupportsWebAuthn() ? (
+        <div className="flex gap-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (e.g. Work laptop)"
+            maxLength={50}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button onClick={handleAdd} disabled={busy} className="btn btn-primary disabled:opacity-50">
+            Add Passkey
+          </button>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">This browser does not support passkeys.</p>
+      )}
+    </div>
+  );
+};
+
+export default PasskeySettings;
@@ -0,0 +1,83 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { authService } from '../services';
+import type { PasswordCheck, PasswordCheckContext } from '../types';
+
+// Wait for a pause in typing before asking the server
+const CHECK_DELAY_MS = 300;
+
+const BAR_COLORS = ['bg-red-500', 'bg-orange-500', 'bg-yellow-500', 'bg-blue-500', 'bg-green-500'];
+const LABEL_COLORS = ['text-red-600', 'text-orange-600', 'text-yellow-600', 'text-blue-600', 'text-green-600'];
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  user?: PasswordCheckContext;
+  onResult?: (check: PasswordCheck | null) => void;
+}
+
+/**
+ * Live strength meter backed by the server's password policy, so it shows
+ * exactly what registration, password change and reset will accept.
+ */
+export const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({ password, user, onResult }) => {
+  const [check, setCheck] = useState<PasswordCheck | null>(null);
+  const onResultRef = useRef(onResult);
+
+  useEffect(() => {
+    onResultRef.current = onResult;
+  });
+
+  const { username, email, firstName, lastName } = user || {};
+
+  // The last result stays on screen while typing; the form only trusts a current one
+  useEffect(() => {
+    onResultRef.current?.(null);
+    if (!password) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await authService.checkPassword(password, { username, email, firstName, lastName });
+        if (!cancelled) {
+          setCheck(result);
+          onResultRef.current?.(result);
+        }
+      } catch (error) {
+        // The server still checks the password on submit
+        console.error('Password check failed:', error);
+      }
+    }, CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [password, username, email, firstName, lastName]);
+
+  if (!password || !check) return null;
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-gray-600">Password strength:</span>
+        <span className={`font-medium ${LABEL_COLORS[check.score]}`}>
+          {check.label}
+        </span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+        <div
+          className={`${BAR_COLORS[check.score]} h-1.5 rounded-full transition-all`}
+          style={{ width: `${((check.score + 1) / 5) * 100}%` }}
+        />
+      </div>
+      {check.errors.length > 0 && (
+        <ul className="mt-1 text-xs text-gray-600 space-y-0.5">
+          {check.errors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PasswordStrengthMeter;
@@ -0,0 +1,92 @@
+import React, { useRef, useState } from 'react';
+import { Upload, Trash2 } from 'lucide-react';
+import { useAuth } from '../context';
+import { authService } from '../services';
+import { getErrorMessage } from '../utils/formatters';
+import Avatar from './Avatar';
+
+// Matches the server limit (PROFILE_PICTURE_MAX_BYTES) so large files fail before uploading
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+const ACCEPTED_TYPES = 'image/jpeg,image/png,image/webp,image/gif';
+
+export const ProfilePictureSettings: React.FC = () => {
+  const { user, refreshUser } = useAuth();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (file.size > MAX_FILE_BYTES) {
+      setError('Profile pictures must be smaller than 5 MB');
+      return;
+    }
+
+    setBusy(true);
+    setError('');
+    try {
+      await authService.uploadProfilePicture(file);
+      await refreshUser();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to upload profile picture'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setBusy(true);
+    setError('');
+    try {
+      await authService.removeProfilePicture();
+      await refreshUser();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to remove profile picture'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Profile Picture</h3>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center gap-4">
+        <Avatar user={user} size="large" />
+        <div>
+          <div className="flex gap-3">
+            <button onClick={() => fileInput.current?.click()} disabled={busy} className="btn btn-primary disabled:opacity-50">
+              <Upload className="w-4 h-4 mr-2" />
+              {busy ? 'Saving...' : 'Upload Picture'}
+            </button>
+            {user?.profilePicture && (
+              <button onClick={handleRemove} disabled={busy} className="btn btn-secondary disabled:opacity-50">
+                <Trash2 className="w-4 h-4 mr-2" />
+                Remove
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">JPEG, PNG, WebP or GIF, up to 5 MB.</p>
+        </div>
+        <input
+          ref={fileInput}
+          type="file"
+          accept={ACCEPTED_TYPES}
+          onChange={handleFileSelected}
+          className="hidden"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePictureSettings;
@@ -0,0 +1,144 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ShieldCheck, KeyRound } from 'lucide-react';
+import { browserSupportsWebAuthn } from '@simplewebauthn/browser';
+import { useAuth } from '../context';
+import { apiService, authService } from '../services';
+import { getErrorMessage } from '../utils/formatters';
+import type { ReauthData } from '../types';
+
+/**
+ * Asks the user to confirm their identity when the server requires a recent
+ * re-authentication. The request that triggered it is replayed once this resolves.
+ */
+export const ReauthModal: React.FC = () => {
+  const { user } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const resolveRef = useRef<((confirmed: boolean) => void) | null>(null);
+
+  useEffect(() => {
+    apiService.setReauthHandler(() => new Promise<boolean>((resolve) => {
+      resolveRef.current = resolve;
+      setIsOpen(true);
+    }));
+
+    return () => {
+      apiService.setReauthHandler(null);
+      resolveRef.current?.(false);
+    };
+  }, []);
+
+  const close = (confirmed: boolean) => {
+    resolveRef.current?.(confirmed);
+    resolveRef.current = null;
+    setIsOpen(false);
+    setPassword('');
+    setCode('');
+    setError('');
+  };
+
+  const confirm = async (usePasskey = false) => {
+    setBusy(true);
+    setError('');
+    try {
+      const data: ReauthData = usePasskey
+        ? { passkey: await authService.confirmWithPasskey() }
+        : code.trim() ? { code: code.trim() } : { password };
+      await authService.reauthenticate(data);
+      close(true);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Unable to confirm your identity'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const twoFactorEnabled = user?.securitySettings?.twoFactorEnabled ?? false;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl p-6 w-full max-w-md">
+        <div className="flex items-center mb-4">
+          <ShieldCheck className="w-6 h-6 text-blue-600 mr-2" />
+          <h3 className="text-xl font-bold text-gray-900">Confirm It's You</h3>
+        </div>
+
+        <p className="text-gray-600 mb-4">
+          This action needs a recent confirmation. Enter your password
+          {twoFactorEnabled && ' or an authentication code'} to continue.
+        </p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm mb-4">
+            {error}
+          </div>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (password || code.trim()) confirm();
+          }}
+          className="space-y-3 mb-6"
+        >
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoComplete="current-password"
+            autoFocus
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          {twoFactorEnabled && (
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Or an authentication or recovery code"
+              autoComplete="one-time-code"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          )}
+          {browserSupportsWebAuthn() && (
+            <button
+              type="button"
+              onClick={() => confirm(true)}
+              disabled={busy}
+              className="flex items-center text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              <KeyRound className="w-4 h-4 mr-1" />
+              Use a passkey instead
+            </button>
+          )}
+          {/* Lets Enter submit the form */}
+          <button type="submit" className="hidden" />
+        </form>
+
+        <div className="flex gap-3">
+          <button
+            onClick={() => close(false)}
+            disabled={busy}
+            className="flex-1 btn btn-secondary"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => confirm()}
+            disabled={busy || (!password && !code.trim())}
+            className="flex-1 btn btn-primary disabled:opacity-50"
+          >
+            {busy ? 'Confirming...' : 'Confirm'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReauthModal;
@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import { Copy, Check, X } from 'lucide-react';
+import { useWallet } from '../context';
+import { walletService } from '../services';
+import { copyToClipboard, getErrorMessage } from '../utils/formatters';
+import LoadingSpinner from './LoadingSpinner';
+import type { ReceiveInfo } from '../types';
+
+interface TransferModalProps {
+  mode: 'send' | 'receive';
+  symbol?: string; // holding to preselect when sending
+  onClose: () => void;
+}
+
+/**
+ * Send a holding to another user by wallet address or username, or show
+ * the user's own address and QR code so others can send to them
+ */
+export const TransferModal: React.FC<TransferModalProps> = ({ mode, symbol, onClose }) => {
+  const { wallet, sendCryptocurrency } = useWallet();
+  const holdings = wallet?.currencies || [];
+
+  const [recipient, setRecipient] = useState('');
+  const [selectedSymbol, setSelectedSymbol] = useState(symbol || holdings[0]?.symbol || '');
+  const [amount, setAmount] = useState('');
+  const [notes, setNotes] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const [receiveInfo, setReceiveInfo] = useState<ReceiveInfo | null>(null);
+  const [copied, setCopied] = useState('');
+
+  useEffect(() => {
+    if (mode !== 'receive') return;
+    walletService.getReceiveInfo()
+      .then(setReceiveInfo)
+      .catch((err) => setError(getErrorMessage(err, 'Failed to load your address')));
+  }, [mode]);
+
+  const holding = holdings.find(currency => currency.symbol === selectedSymbol);
+  const parsedAmount = parseFloat(amount);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    setError('');
+    try {
+      const message = await sendCryptocurrency({
+        recipient: recipient.trim(),
+        symbol: selectedSymbol,
+        amount: parsedAmount,
+        notes: notes.trim() || undefined
+      });
+      setSuccess(message);
+      setRecipient('');
+      setAmount('');
+      setNotes('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to send'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleCopy = async (value: string) => {
+    if (await copyToClipboard(value)) {
+      setCopied(value);
+      setTimeout(() => setCopied(''), 2000);
+    }
+  };
+
+  const renderCopyable = (label: string, value: string) => (
+    <div>
+      <p className="text-sm text-gray-600 mb-1">{label}</p>
+      <div className="flex items-center gap-2">
+        <p className="flex-1 font-mono text-sm bg-gray-50 p-2 rounded border break-all">{value}</p>
+        <button onClick={() => handleCopy(value)} className="p-2 text-gray-500 hover:text-gray-700" title={`Copy ${label.toLowerCase()}`}>
+          {copied === value ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl p-6 w-full max-w-md">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold">{mode === 'send' ? 'Send' : 'Receive'}</h3>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-700" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm mb-4">
+            {error}
+          </div>
+        )}
+        {success && (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-green-700 text-sm mb-4">
+            {success}
+          </div>
+        )}
+
+        {mode === 'receive' ? (
+          receiveInfo ? (
+            <div className="space-y-4">
+              {receiveInfo.qrCode && (
+                <img src={receiveInfo.qrCode} alt="Wallet address QR code" className="w-48 h-48 mx-auto" />
+              )}
+              {receiveInfo.walletAddress
+                ? renderCopyable('Wallet address', receiveInfo.walletAddress)
+                : <p className="text-sm text-gray-600">Create your wallet keys to get a wallet address.</p>}
+              {renderCopyable('Username', receiveInfo.username)}
+              <p className="text-xs text-gray-500">
+                Other users can send to either. Transfers between accounts arrive instantly and have no fee.
+              </p>
+            </div>
+          ) : !error && <LoadingSpinner size="small" />
+        ) : holdings.length === 0 ? (
+          <p className="text-sm text-gray-600">You have nothing to send yet.</p>
+        ) : (
+          <form onSubmit={handleSend} className="space-y-4">
+            <div>
+              <label htmlFor="recipient" className="block text-sm font-medium text-gray-700 mb-2">
+                Recipient
+              </label>
+              <input
+                id="recipient"
+                type="text"
+                value={recipient}
+                onChange={(e) => setRecipient(e.target.value)}
+                placeholder="0x… wallet address or username"
+                autoComplete="off"
+                spellCheck={false}
+                maxLength={64}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+
+            <div className="flex gap-3">
+              <div className="flex-1">
+                <label htmlFor="sendAmount" className="block text-sm font-medium text-gray-700 mb-2">
+                  Amount
+                </label>
+                <input
+                  id="sendAmount"
+                  type="number"
+                  placeholder="0.00"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  step="0.00000001"
+                  min="0"
+                  max={holding?.amount}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label htmlFor="sendSymbol" className="block text-sm font-medium text-gray-700 mb-2">
+                  Asset
+                </label>
+                <select
+                  id="sendSymbol"
+                  value={selectedSymbol}
+                  onChange={(e) => setSelectedSymbol(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {holdings.map(currency => (
+                    <option key={currency.symbol} value={currency.symbol}>{currency.symbol}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {holding && (
+              <p className="text-sm text-gray-600">
+                Available: {holding.amount} {holding.symbol}
+                <button type="button" onClick={() => setAmount(holding.amount.toString())} className="ml-2 text-blue-600 hover:text-blue-800">
+                  Max
+                </button>
+              </p>
+            )}
+
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Note (optional)"
+              maxLength={500}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+
+            <button
+              type="submit"
+              disabled={sending || !recipient.trim() || !holding || !(parsedAmount > 0) || parsedAmount > holding.amount}
+              className="w-full btn btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {sending ? 'Sending...' : 'Send'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TransferModal;
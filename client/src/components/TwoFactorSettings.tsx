@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { ShieldCheck, ShieldOff, KeyRound, Copy } from 'lucide-react';
+import { useAuth } from '../context';
+import { authService } from '../services';
+import { copyToClipboard, getErrorMessage } from '../utils/formatters';
+import type { TwoFactorSetup } from '../types';
+
+export const TwoFactorSettings: React.FC = () => {
+  const { user, refreshUser } = useAuth();
+  const isEnabled = user?.securitySettings?.twoFactorEnabled ?? false;
+
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [showDisable, setShowDisable] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStartSetup = () => run(async () => {
+    setRecoveryCodes([]);
+    setSetup(await authService.setupTwoFactor());
+  });
+
+  const handleConfirmSetup = () => run(async () => {
+    const codes = await authService.enableTwoFactor(code);
+    setRecoveryCodes(codes);
+    setSetup(null);
+    setCode('');
+    await refreshUser();
+  });
+
+  const handleRegenerateCodes = () => run(async () => {
+    setRecoveryCodes(await authService.regenerateRecoveryCodes(code));
+    setCode('');
+  });
+
+  const handleDisable = (usePasskey = false) => run(async () => {
+    const passkey = usePasskey ? await authService.confirmWithPasskey() : undefined;
+    await authService.disableTwoFactor(password, code, passkey);
+    setShowDisable(false);
+    setRecoveryCodes([]);
+    setPassword('');
+    setCode('');
+    await refreshUser();
+  });
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Two-Factor Authentication</h3>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-start mb-4">
+        {isEnabled ? (
+          <ShieldCheck className="w-5 h-5 text-green-600 mt-0.5 mr-3" />
+        ) : (
+          <ShieldOff className="w-5 h-5 text-gray-400 mt-0.5 mr-3" />
+        )}
+        <p className="text-sm text-gray-600">
+          {isEnabled
+            ? 'Two-factor authentication is enabled. You will be asked for a code from your authenticator app when signing in.'
+            : 'Add an extra layer of security by requiring a code from an authenticator app when signing in.'}
+        </p>
+      </div>
+
+      {/* Enrollment */}
+      {!isEnabled && !setup && (
+        <button onClick={handleStartSetup} disabled={busy} className="btn btn-primary">
+          Enable Two-Factor Authentication
+        </button>
+      )}
+
+      {!isEnabled && setup && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+          </p>
+          <img src={setup.qrCode} alt="Two-factor QR code" className="w-40 h-40 border rounded-lg" />
+          <div className="bg-gray-50 p-3 rounded-lg">
+            <p className="text-xs text-gray-500 mb-1">Or enter this key manually:</p>
+            <p className="font-mono text-sm break-all">{setup.secret}</p>
+          </div>
+          <div className="flex gap-3">
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456"
+              autoComplete="one-time-code"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button onClick={handleConfirmSetup} disabled={busy || code.length !== 6} className="btn btn-primary disabled:opacity-50">
+              Confirm
+            </button>
+            <button onClick={() => setSetup(null)} disabled={busy} className="btn btn-secondary">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Recovery codes are only shown once, right after they are generated */}
+      {recoveryCodes.length > 0 && (
+        <div className="mt-4 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-medium text-yellow-800 flex items-center">
+              <KeyRound className="w-4 h-4 mr-2" />
+              Recovery Codes
+            </h4>
+            <button
+              onClick={() => copyToClipboard(recoveryCodes.join('\n'))}
+              className="text-sm text-yellow-800 hover:text-yellow-900 flex items-center"
+            >
+              <Copy className="w-4 h-4 mr-1" />
+              Copy
+            </button>
+          </div>
+          <p className="text-sm text-yellow-700 mb-3">
+            Store these somewhere safe. Each code can be used once if you lose access to your authenticator app.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+            {recoveryCodes.map((recoveryCode) => (
+              <span key={recoveryCode} className="bg-white p-2 rounded border text-center">
+                {recoveryCode}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Manage existing 2FA */}
+      {isEnabled && (
+        <div className="space-y-4 mt-4">
+          <div className="flex gap-3">
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Authentication code"
+              autoComplete="one-time-code"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button onClick={handleRegenerateCodes} disabled={busy || !code} className="btn btn-secondary disabled:opacity-50">
+              New Recovery Codes
+            </button>
+            <button onClick={() => setShowDisable(!showDisable)} disabled={busy} className="btn bg-red-600 text-white hover:bg-red-700">
+              Disable
+            </button>
+          </div>
+
+          {showDisable && (
+            <div className="flex gap-3">
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Current password"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                onClick={() => handleDisable()}
+                disabled={busy || !password || !code}
+                className="btn bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+              >
+                Confirm Disable
+              </button>
+              <button
+                onClick={() => handleDisable(true)}
+                disabled={busy || !password}
+                className="btn btn-secondary disabled:opacity-50"
+                title="Confirm with a passkey instead of a code"
+              >
+                Use Passkey
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,74 @@
+import React, { useState, useEffect } from 'react';
+import { Copy, Check } from 'lucide-react';
+import { walletService } from '../services';
+import { copyToClipboard, getErrorMessage } from '../utils/formatters';
+import LoadingSpinner from './LoadingSpinner';
+import type { HdAccount } from '../types';
+
+/**
+ * Receive addresses and derivation paths of the wallet's HD accounts
+ */
+export const WalletAddresses: React.FC = () => {
+  const [accounts, setAccounts] = useState<HdAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState<string | null>(null);
+
+  useEffect(() => {
+    walletService.getHdAccounts()
+      .then(setAccounts)
+      .catch((err) => setError(getErrorMessage(err, 'Failed to load wallet addresses')))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleCopy = async (address: string) => {
+    if (await copyToClipboard(address)) {
+      setCopied(address);
+      setTimeout(() => setCopied(null), 2000);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Wallet Addresses</h3>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner />
+      ) : (
+        <div className="space-y-3">
+          {accounts.map((account) => (
+            <div key={account.chain} className="bg-gray-50 p-4 rounded-lg">
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm font-medium text-gray-900">{account.name} ({account.chain})</p>
+                <p className="text-xs text-gray-500 font-mono">{account.derivationPath}/0/0</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <p className="flex-1 font-mono text-sm bg-white p-2 rounded border break-all">
+                  {account.receiveAddress}
+                </p>
+                <button
+                  onClick={() => handleCopy(account.receiveAddress)}
+                  className="p-2 text-gray-500 hover:text-gray-700"
+                  title="Copy address"
+                >
+                  {copied === account.receiveAddress ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                </button>
+              </div>
+            </div>
+          ))}
+          {accounts.length === 0 && !error && (
+            <p className="text-sm text-gray-600">No wallet keys have been created yet.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WalletAddresses;
@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { BookUser, Trash2 } from 'lucide-react';
+import { walletService, authService } from '../services';
+import { formatDate, formatRelativeTime, getErrorMessage } from '../utils/formatters';
+import LoadingSpinner from './LoadingSpinner';
+import type { WithdrawalAddress, WithdrawalAllowlist as Allowlist } from '../types';
+
+const STATUS_STYLES: Record<WithdrawalAddress['status'], { label: string; className: string }> = {
+  unconfirmed: { label: 'Awaiting email confirmation', className: 'bg-gray-100 text-gray-600' },
+  cooling_off: { label: 'Cooling off', className: 'bg-yellow-100 text-yellow-800' },
+  active: { label: 'Active', className: 'bg-green-100 text-green-800' }
+};
+
+export const WithdrawalAllowlist: React.FC = () => {
+  const [allowlist, setAllowlist] = useState<Allowlist | null>(null);
+  const [label, setLabel] = useState('');
+  const [address, setAddress] = useState('');
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const loadAllowlist = useCallback(async () => {
+    try {
+      setAllowlist(await walletService.getWithdrawalAllowlist());
+      setError('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to load withdrawal addresses'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAllowlist();
+  }, [loadAllowlist]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError('');
+    setNotice('');
+    try {
+      await action();
+      await loadAllowlist();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = (usePasskey = false) => run(async () => {
+    const passkey = usePasskey ? await authService.confirmWithPasskey() : undefined;
+    const result = await walletService.addWithdrawalAddress({
+      address: address.trim(),
+      label: label.trim(),
+      code: code.trim() || undefined
+    }, passkey);
+
+    setNotice(result.message);
+    setAddress('');
+    setLabel('');
+    setCode('');
+  });
+
+  const handleRemove = (entry: WithdrawalAddress, usePasskey = false) => run(async () => {
+    const passkey = usePasskey ? await authService.confirmWithPasskey() : undefined;
+    setNotice(await walletService.removeWithdrawalAddress(entry.id, code.trim() || undefined, passkey));
+    setCode('');
+  });
+
+  const handleAllowlistOnlyChange = (enabled: boolean) => run(async () => {
+    await walletService.updateWalletSettings({
+      withdrawals: { allowlistOnly: enabled, allowlistOnlyEndsAt: null }
+    });
+  });
+
+  const describeActivation = (entry: WithdrawalAddress) => {
+    if (entry.removalRequestedAt) return 'Removal awaiting email confirmation';
+    if (entry.status === 'cooling_off' && entry.activatesAt) return `Usable from ${formatDate(entry.activatesAt)}`;
+    return `Added ${formatRelativeTime(entry.createdAt)}`;
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-gray-900 mb-4">Withdrawal Addresses</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Keep a list of trusted addresses. Changes are confirmed with your authentication code, a passkey or by email,
+        and new addresses can only receive withdrawals after a {allowlist?.cooldownHours ?? 24} hour cooling-off period.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm mb-4">
+          {error}
+        </div>
+      )}
+
+      {notice && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-green-700 text-sm mb-4">
+          {notice}
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner size="small" />
+      ) : allowlist && (
+        <>
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h4 className="font-medium text-gray-900">Allowlist-only withdrawals</h4>
+              <p className="text-sm text-gray-600">
+                {allowlist.allowlistOnlyEndsAt
+                  ? `Turning off on ${formatDate(allowlist.allowlistOnlyEndsAt)}. Turn it back on to cancel.`
+                  : 'Block withdrawals to any address that is not active on this list'}
+              </p>
+            </div>
+            <input
+              type="checkbox"
+              checked={allowlist.allowlistOnly && !allowlist.allowlistOnlyEndsAt}
+              onChange={(e) => handleAllowlistOnlyChange(e.target.checked)}
+              disabled={busy}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+          </div>
+
+          {allowlist.addresses.length > 0 && (
+            <ul className="divide-y divide-gray-200 border rounded-lg mb-4">
+              {allowlist.addresses.map((entry) => (
+                <li key={entry.id} className="flex items-center justify-between p-4">
+                  <div className="flex items-center min-w-0">
+                    <BookUser className="w-5 h-5 text-gray-500 mr-3 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">
+                        {entry.label}
+                        <span className={`ml-2 text-xs px-2 py-0.5 rounded ${STATUS_STYLES[entry.status].className}`}>
+                          {STATUS_STYLES[entry.status].label}
+                        </span>
+                      </p>
+                      <p className="text-xs text-gray-500 font-mono break-all">{entry.address}</p>
+                      <p className="text-xs text-gray-500">{describeActivation(entry)}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center">
+                    {entry.confirmedAt && (
+                      <button
+                        onClick={() => handleRemove(entry, true)}
+                        disabled={busy}
+                        className="text-xs text-gray-600 hover:text-gray-900 mr-2 disabled:opacity-50"
+                      >
+                        Use passkey
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleRemove(entry)}
+                      disabled={busy || !!entry.removalRequestedAt}
+                      className="p-2 text-gray-500 hover:text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                      title="Remove address"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex gap-3">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Label (e.g. Hardware wallet)"
+            maxLength={50}
+            className="w-1/3 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <input
+            type="text"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            placeholder="Bitcoin or Ethereum address"
+            maxLength={128}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+
+        <div className="flex gap-3">
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Authentication code (optional, otherwise confirm by email)"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            onClick={() => handleAdd(true)}
+            disabled={busy || !label.trim() || !address.trim()}
+            className="btn btn-secondary disabled:opacity-50"
+          >
+            Use Passkey
+          </button>
+          <button
+            onClick={() => handleAdd()}
+            disabled={busy || !label.trim() || !address.trim()}
+            className="btn btn-primary disabled:opacity-50"
+          >
+            Add Address
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WithdrawalAllowlist;
@@ -1,4 +1,21 @@
 export { default as LoadingSpinner } from './LoadingSpinner';
 export { default as Layout } from './Layout';
 export { default as Header } from './Header';
-export { default as Sidebar } from './Sidebar';
\ No newline at end of file
+export { default as Sidebar } from './Sidebar';
+export { default as TwoFactorSettings } from './TwoFactorSettings';
+export { default as DeviceSessions } from './DeviceSessions';
+export { default as EmailVerificationBanner } from './EmailVerificationBanner';
+export { default as PasskeySettings } from './PasskeySettings';
+export { default as ApiKeySettings } from './ApiKeySettings';
+export { default as AccountActivity } from './AccountActivity';
+export { default as Avatar } from './Avatar';
+export { default as ProfilePictureSettings } from './ProfilePictureSettings';
+export { default as WithdrawalAllowlist } from './WithdrawalAllowlist';
+export { default as ReauthModal } from './ReauthModal';
+export { default as LockScreen } from './LockScreen';
+export { default as LockScreenSettings } from './LockScreenSettings';
+export { default as PasswordStrengthMeter } from './PasswordStrengthMeter';
+export { default as WalletAddresses } from './WalletAddresses';
+export { default as KeystoreSettings } from './KeystoreSettings';
+export { default as TransferModal } from './TransferModal';
+export { default as CashModal } from './CashModal';
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useReducer, useEffect } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useCallback } from 'react';
 import { authService } from '../services';
 import type { AuthContextType, User, LoginCredentials, RegisterData } from '../types';
 
@@ -8,6 +8,7 @@ interface AuthState {
   token: string | null;
   isLoading: boolean;
   isAuthenticated: boolean;
+  twoFactorToken: string | null;
 }
 
 // Auth actions
@@ -15,6 +16,8 @@ type AuthAction =
   | { type: 'AUTH_START' }
   | { type: 'AUTH_SUCCESS'; payload: { user: User; token: string } }
   | { type: 'AUTH_FAILURE' }
+  | { type: 'AUTH_TWO_FACTOR_REQUIRED'; payload: string }
+  | { type: 'AUTH_TWO_FACTOR_CANCEL' }
   | { type: 'AUTH_LOGOUT' }
   | { type: 'UPDATE_USER'; payload: User };
 
@@ -24,6 +27,7 @@ const initialState: AuthState = {
   token: null,
   isLoading: true,
   isAuthenticated: false,
+  twoFactorToken: null,
 };
 
 // Auth reducer
@@ -41,6 +45,7 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         isAuthenticated: true,
         user: action.payload.user,
         token: action.payload.token,
+        twoFactorToken: null,
       };
     case 'AUTH_FAILURE':
       return {
@@ -49,6 +54,18 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
         isAuthenticated: false,
         user: null,
         token: null,
+        twoFactorToken: null,
+      };
+    case 'AUTH_TWO_FACTOR_REQUIRED':
+      return {
+        ...state,
+        isLoading: false,
+        twoFactorToken: action.payload,
+      };
+    case 'AUTH_TWO_FACTOR_CANCEL':
+      return {
+        ...state,
+        twoFactorToken: null,
       };
     case 'AUTH_LOGOUT':
       return {
@@ -106,6 +123,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     
     try {
       const response = await authService.login(credentials);
+
+      if ('requiresTwoFactor' in response) {
+        dispatch({ type: 'AUTH_TWO_FACTOR_REQUIRED', payload: response.twoFactorToken });
+        return;
+      }
+
       dispatch({ 
         type: 'AUTH_SUCCESS', 
         payload: { 
@@ -119,6 +142,71 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Passwordless login; a passkey satisfies 2FA on its own
+  const loginWithPasskey = async (identifier?: string, rememberMe = false): Promise<void> => {
+    dispatch({ type: 'AUTH_START' });
+
+    try {
+      const response = await authService.loginWithPasskey(identifier, rememberMe);
+      dispatch({
+        type: 'AUTH_SUCCESS',
+        payload: {
+          user: response.data.user,
+          token: response.data.token
+        }
+      });
+    } catch (error) {
+      dispatch({ type: 'AUTH_FAILURE' });
+      throw error;
+    }
+  };
+
+  // Finish a single sign-on redirect; 2FA accounts continue on the login page
+  const completeOidcLogin = async (code: string, state: string): Promise<void> => {
+    dispatch({ type: 'AUTH_START' });
+
+    try {
+      const response = await authService.completeOidcLogin(code, state);
+
+      if ('requiresTwoFactor' in response) {
+        dispatch({ type: 'AUTH_TWO_FACTOR_REQUIRED', payload: response.twoFactorToken });
+        return;
+      }
+
+      dispatch({
+        type: 'AUTH_SUCCESS',
+        payload: {
+          user: response.data.user,
+          token: response.data.token
+        }
+      });
+    } catch (error) {
+      dispatch({ type: 'AUTH_FAILURE' });
+      throw error;
+    }
+  };
+
+  // Second login step for accounts with 2FA enabled.
+  // The challenge is kept on failure so the user can retry the code.
+  const verifyTwoFactor = async (code: string): Promise<void> => {
+    if (!state.twoFactorToken) {
+      throw new Error('No two-factor login in progress');
+    }
+
+    const response = await authService.verifyTwoFactorLogin(state.twoFactorToken, code);
+    dispatch({ 
+      type: 'AUTH_SUCCESS', 
+      payload: { 
+        user: response.data.user, 
+        token: response.data.token 
+      } 
+    });
+  };
+
+  const cancelTwoFactor = (): void => {
+    dispatch({ type: 'AUTH_TWO_FACTOR_CANCEL' });
+  };
+
   // Register function
   const register = async (data: RegisterData): Promise<void> => {
     dispatch({ type: 'AUTH_START' });
@@ -159,15 +247,27 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Reload the current user from the server; stable, so pages can run it from an effect
+  const refreshUser = useCallback(async (): Promise<void> => {
+    const user = await authService.getCurrentUser();
+    dispatch({ type: 'UPDATE_USER', payload: user });
+  }, []);
+
   const contextValue: AuthContextType = {
     user: state.user,
     token: state.token,
     isLoading: state.isLoading,
     isAuthenticated: state.isAuthenticated,
+    twoFactorPending: state.twoFactorToken !== null,
     login,
+    loginWithPasskey,
+    completeOidcLogin,
+    verifyTwoFactor,
+    cancelTwoFactor,
     register,
     logout,
     updateProfile,
+    refreshUser,
   };
 
   return (
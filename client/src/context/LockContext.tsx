@@ -0,0 +1,99 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { authService } from '../services';
+import { useAuth } from './AuthContext';
+import { LockContext } from './useLock';
+import {
+  DEFAULT_AUTO_LOCK_MINUTES,
+  SCREEN_LOCKED_KEY,
+  getLastActivity,
+  recordActivity,
+  isScreenLocked,
+  setScreenLocked
+} from '../utils/idleLock';
+import type { LockContextType, ScreenUnlockData } from '../types';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll'];
+// Writing the activity timestamp on every mouse move would flood the storage event
+const ACTIVITY_WRITE_INTERVAL_MS = 5 * 1000;
+const IDLE_CHECK_INTERVAL_MS = 10 * 1000;
+
+// Lock provider component
+export const LockProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, isAuthenticated } = useAuth();
+  const [isLocked, setIsLocked] = useState(isScreenLocked);
+
+  const autoLockMinutes = user?.securitySettings?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+
+  const lock = useCallback(() => {
+    setScreenLocked(true);
+    setIsLocked(true);
+  }, []);
+
+  const unlock = async (data: ScreenUnlockData): Promise<void> => {
+    await authService.unlockScreen(data);
+    recordActivity();
+    setScreenLocked(false);
+    setIsLocked(false);
+  };
+
+  // Follow locks, unlocks, sign-ins and sign-outs made in other tabs
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === SCREEN_LOCKED_KEY || event.key === null) {
+        setIsLocked(isScreenLocked());
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // Pick up the stored state again after signing in or out in this tab
+  useEffect(() => {
+    setIsLocked(isScreenLocked());
+  }, [isAuthenticated]);
+
+  // Track activity in this tab and lock once every tab has been idle long enough
+  useEffect(() => {
+    if (!isAuthenticated || isLocked || autoLockMinutes <= 0) return;
+
+    const timeoutMs = autoLockMinutes * 60 * 1000;
+    let lastWrite = 0;
+
+    const handleActivity = () => {
+      if (Date.now() - lastWrite < ACTIVITY_WRITE_INTERVAL_MS) return;
+      lastWrite = Date.now();
+      recordActivity();
+    };
+
+    const checkIdle = () => {
+      if (Date.now() - getLastActivity() >= timeoutMs) {
+        lock();
+      }
+    };
+
+    // Also covers reloading a tab that sat idle past the timeout
+    checkIdle();
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    const interval = window.setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      window.clearInterval(interval);
+    };
+  }, [isAuthenticated, isLocked, autoLockMinutes, lock]);
+
+  const contextValue: LockContextType = {
+    isLocked: isAuthenticated && isLocked,
+    autoLockMinutes,
+    lock,
+    unlock,
+  };
+
+  return (
+    <LockContext.Provider value={contextValue}>
+      {children}
+    </LockContext.Provider>
+  );
+};
@@ -8,6 +8,8 @@ import type {
   PortfolioHistory, 
   BuyOrderData, 
   SellOrderData, 
+  SendOrderData,
+  CashOrderData,
   WalletSettings,
   TransactionParams 
 } from '../types';
@@ -180,6 +182,35 @@ export const WalletProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     }
   };
 
+  // Send cryptocurrency to another user; resolves with the confirmation message
+  const sendCryptocurrency = async (data: SendOrderData): Promise<string> => {
+    if (!isAuthenticated) return '';
+
+    const response = await walletService.sendCryptocurrency(data);
+    dispatch({ type: 'UPDATE_WALLET', payload: response.wallet });
+    dispatch({ type: 'ADD_TRANSACTION', payload: response.transaction });
+    return response.message;
+  };
+
+  // Deposit or withdraw fiat cash; resolves with the confirmation message
+  const depositCash = async (data: CashOrderData): Promise<string> => {
+    if (!isAuthenticated) return '';
+
+    const response = await walletService.depositCash(data);
+    dispatch({ type: 'UPDATE_WALLET', payload: response.wallet });
+    dispatch({ type: 'ADD_TRANSACTION', payload: response.transaction });
+    return response.message;
+  };
+
+  const withdrawCash = async (data: CashOrderData): Promise<string> => {
+    if (!isAuthenticated) return '';
+
+    const response = await walletService.withdrawCash(data);
+    dispatch({ type: 'UPDATE_WALLET', payload: response.wallet });
+    dispatch({ type: 'ADD_TRANSACTION', payload: response.transaction });
+    return response.message;
+  };
+
   // Update wallet settings
   const updateWalletSettings = async (settings: Partial<WalletSettings>): Promise<void> => {
     if (!isAuthenticated || !state.wallet) return;
@@ -207,6 +238,9 @@ export const WalletProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     fetchPortfolioHistory,
     buyCryptocurrency,
     sellCryptocurrency,
+    sendCryptocurrency,
+    depositCash,
+    withdrawCash,
     updateWalletSettings,
   };
 
@@ -1,3 +1,5 @@
 export { AuthProvider, useAuth } from './AuthContext';
 export { WalletProvider, useWallet } from './WalletContext';
-export { CryptoProvider, useCrypto } from './CryptoContext';
\ No newline at end of file
+export { CryptoProvider, useCrypto } from './CryptoContext';
+export { LockProvider } from './LockContext';
+export { useLock } from './useLock';
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { createContext, useContext } from 'react';
+import type { LockContextType } from '../types';
+
+// Kept apart from LockProvider so its module only exports components (needed for fast refresh)
+export const LockContext = createContext<LockContextType | undefined>(undefined);
+
+// Hook to use lock context
+export const useLock = (): LockContextType => {
+  const context = useContext(LockContext);
+  if (context === undefined) {
+    throw new Error('useLock must be used within a LockProvider');
+  }
+  return context;
+};
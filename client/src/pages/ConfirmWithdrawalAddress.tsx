@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { CheckCircle, XCircle, Loader } from 'lucide-react';
+import { useAuth } from '../context';
+import { walletService } from '../services';
+import { getErrorMessage } from '../utils/formatters';
+
+type ConfirmationStatus = 'confirming' | 'success' | 'error';
+
+export const ConfirmWithdrawalAddress: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const { isAuthenticated, isLoading } = useAuth();
+  const [status, setStatus] = useState<ConfirmationStatus>('confirming');
+  const [message, setMessage] = useState('');
+
+  const token = searchParams.get('token');
+
+  // The change must be confirmed from a signed-in session of the account that requested it
+  useEffect(() => {
+    if (isLoading) return;
+
+    if (!token) {
+      setStatus('error');
+      setMessage('This confirmation link is missing its token.');
+      return;
+    }
+
+    if (!isAuthenticated) {
+      setStatus('error');
+      setMessage('Sign in to your account, then open this link again.');
+      return;
+    }
+
+    const confirm = async () => {
+      try {
+        setMessage(await walletService.confirmWithdrawalAddress(token));
+        setStatus('success');
+      } catch (error) {
+        setStatus('error');
+        setMessage(getErrorMessage(error, 'Unable to confirm this change.'));
+      }
+    };
+
+    confirm();
+  }, [token, isAuthenticated, isLoading]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8 text-center">
+        {status === 'confirming' && (
+          <>
+            <Loader className="w-12 h-12 text-blue-500 animate-spin mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900">Confirming withdrawal address...</h1>
+          </>
+        )}
+
+        {status === 'success' && (
+          <>
+            <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Change Confirmed</h1>
+            <p className="text-gray-600">{message}</p>
+          </>
+        )}
+
+        {status === 'error' && (
+          <>
+            <XCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Confirmation Failed</h1>
+            <p className="text-gray-600">{message}</p>
+          </>
+        )}
+
+        {status !== 'confirming' && (
+          <Link
+            to={isAuthenticated ? '/settings' : '/login'}
+            className="inline-block mt-6 text-blue-600 hover:text-blue-800 font-medium transition-colors"
+          >
+            {isAuthenticated ? 'Go to settings' : 'Go to sign in'}
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConfirmWithdrawalAddress;
@@ -17,6 +17,20 @@ import {
   RefreshCw
 } from 'lucide-react';
 import LoadingSpinner from '../components/LoadingSpinner';
+import CashModal from '../components/CashModal';
+import { walletService } from '../services';
+
+const TRANSACTION_LABELS: Record<string, string> = {
+  buy: 'Bought',
+  sell: 'Sold',
+  send: 'Sent',
+  receive: 'Received',
+  deposit: 'Deposited',
+  withdraw: 'Withdrew'
+};
+
+// Transactions that add to the wallet
+const INCOMING_TYPES = ['buy', 'receive', 'deposit'];
 
 const Dashboard: React.FC = () => {
   const { user } = useAuth();
@@ -24,6 +38,7 @@ const Dashboard: React.FC = () => {
   const { marketData, loading: marketLoading, fetchMarketData } = useCrypto();
   
   const [refreshing, setRefreshing] = useState(false);
+  const [cashMode, setCashMode] = useState<'deposit' | 'withdraw' | null>(null);
 
   useEffect(() => {
     fetchWallet();
@@ -71,6 +86,8 @@ const Dashboard: React.FC = () => {
   const portfolioValue = wallet?.totalPortfolioValue || 0;
   const profitLoss = wallet?.totalProfitLoss || 0;
   const profitLossPercentage = wallet?.totalProfitLossPercentage || 0;
+  const cashCurrency = wallet?.settings.currency || 'USD';
+  const formatCash = (amount: number) => walletService.formatCurrency(amount, cashCurrency);
 
   if (walletLoading && !wallet) {
     return <LoadingSpinner />;
@@ -161,9 +178,24 @@ const Dashboard: React.FC = () => {
             <div>
               <p className="text-sm font-medium text-gray-600">Available Balance</p>
               <p className="text-2xl font-bold text-gray-900">
-                {formatCurrency(1000)} {/* Mock available balance */}
+                {formatCash(wallet?.availableBalance || 0)}
+              </p>
+              <p className="text-sm text-gray-500">
+                of {formatCash(wallet?.totalBalance || 0)} total
+                {(wallet?.heldBalance || 0) > 0 && ` · ${formatCash(wallet?.heldBalance || 0)} pending`}
               </p>
-              <p className="text-sm text-gray-500">USD</p>
+              <div className="flex gap-3 mt-2">
+                <button onClick={() => setCashMode('deposit')} className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+                  Deposit
+                </button>
+                <button
+                  onClick={() => setCashMode('withdraw')}
+                  disabled={!wallet?.availableBalance}
+                  className="text-sm text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+                >
+                  Withdraw
+                </button>
+              </div>
             </div>
             <div className="w-12 h-12 bg-green-100 rounded-lg flex items-center justify-center">
               <DollarSign className="w-6 h-6 text-green-600" />
@@ -236,9 +268,9 @@ const Dashboard: React.FC = () => {
                   <div key={transaction.id || index} className="flex items-center justify-between">
                     <div className="flex items-center space-x-3">
                       <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                        transaction.type === 'buy' ? 'bg-green-100' : 'bg-red-100'
+                        INCOMING_TYPES.includes(transaction.type) ? 'bg-green-100' : 'bg-red-100'
                       }`}>
-                        {transaction.type === 'buy' ? (
+                        {INCOMING_TYPES.includes(transaction.type) ? (
                           <ArrowUpRight className="w-4 h-4 text-green-600" />
                         ) : (
                           <ArrowDownRight className="w-4 h-4 text-red-600" />
@@ -246,7 +278,7 @@ const Dashboard: React.FC = () => {
                       </div>
                       <div>
                         <div className="text-sm font-medium text-gray-900">
-                          {transaction.type === 'buy' ? 'Bought' : 'Sold'} {transaction.cryptocurrency?.symbol}
+                          {TRANSACTION_LABELS[transaction.type] || transaction.type} {transaction.cryptocurrency?.symbol}
                         </div>
                         <div className="text-xs text-gray-500 flex items-center">
                           <Clock className="w-3 h-3 mr-1" />
@@ -344,6 +376,8 @@ const Dashboard: React.FC = () => {
           </button>
         </div>
       </div>
+
+      {cashMode && <CashModal mode={cashMode} onClose={() => setCashMode(null)} />}
     </div>
   );
 };
@@ -1,11 +1,24 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Eye, EyeOff, Loader } from 'lucide-react';
+import { Eye, EyeOff, Loader, ShieldCheck, Clock, KeyRound, LogIn } from 'lucide-react';
+import { browserSupportsWebAuthn } from '@simplewebauthn/browser';
 import { useAuth } from '../context';
-import type { LoginCredentials } from '../types';
+import { authService } from '../services';
+import { getErrorMessage } from '../utils/formatters';
+import type { LoginCredentials, OidcConfig } from '../types';
+
+// Kept in sessionStorage because this page remounts while a login request is in flight
+const LOCKOUT_KEY = 'loginLockedUntil';
+
+const readLockout = (): number => Number(sessionStorage.getItem(LOCKOUT_KEY)) || 0;
+
+const formatCountdown = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+};
 
 export const Login: React.FC = () => {
-  const { login, isLoading } = useAuth();
+  const { login, loginWithPasskey, isLoading, twoFactorPending, verifyTwoFactor, cancelTwoFactor } = useAuth();
   const [formData, setFormData] = useState<LoginCredentials>({
     identifier: '',
     password: '',
@@ -13,6 +26,38 @@ export const Login: React.FC = () => {
   });
   const [showPassword, setShowPassword] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState(readLockout);
+  const [now, setNow] = useState(() => Date.now());
+  const [oidcConfig, setOidcConfig] = useState<OidcConfig | null>(null);
+  const [redirecting, setRedirecting] = useState(false);
+
+  const lockoutSeconds = Math.max(0, Math.ceil((lockedUntil - now) / 1000));
+
+  // Tick once a second until the lockout runs out
+  useEffect(() => {
+    if (lockoutSeconds === 0) return;
+    const timer = setTimeout(() => setNow(Date.now()), 1000);
+    return () => clearTimeout(timer);
+  }, [lockoutSeconds]);
+
+  // Only offer single sign-on when the server has a provider configured
+  useEffect(() => {
+    authService.getOidcConfig()
+      .then(setOidcConfig)
+      .catch(() => setOidcConfig(null));
+  }, []);
+
+  // The server sends retryAfter (seconds) with throttled and locked-out responses
+  const applyLockout = (error: unknown) => {
+    if (error && typeof error === 'object' && 'retryAfter' in error && typeof error.retryAfter === 'number') {
+      const until = Date.now() + error.retryAfter * 1000;
+      sessionStorage.setItem(LOCKOUT_KEY, String(until));
+      setLockedUntil(until);
+      setNow(Date.now());
+    }
+  };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value, type, checked } = e.target;
@@ -51,11 +96,143 @@ export const Login: React.FC = () => {
 
     try {
       await login(formData);
-    } catch (error: any) {
-      setErrors({ general: error.message || 'Login failed' });
+    } catch (error) {
+      applyLockout(error);
+      setErrors({ general: getErrorMessage(error, 'Login failed') });
     }
   };
 
+  // Uses the typed identifier if there is one, so non-discoverable security keys work too
+  const handlePasskeyLogin = async () => {
+    setErrors({});
+    try {
+      await loginWithPasskey(formData.identifier.trim() || undefined, formData.rememberMe);
+    } catch (error) {
+      applyLockout(error);
+      setErrors({ general: getErrorMessage(error, 'Passkey sign-in failed') });
+    }
+  };
+
+  const handleOidcLogin = async () => {
+    setErrors({});
+    setRedirecting(true);
+    try {
+      await authService.startOidcLogin(formData.rememberMe);
+    } catch (error) {
+      setErrors({ general: getErrorMessage(error, 'Single sign-on failed') });
+      setRedirecting(false);
+    }
+  };
+
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!twoFactorCode.trim()) {
+      setErrors({ twoFactorCode: 'Authentication code is required' });
+      return;
+    }
+
+    setVerifying(true);
+    try {
+      await verifyTwoFactor(twoFactorCode.trim());
+    } catch (error) {
+      applyLockout(error);
+      setErrors({ general: getErrorMessage(error, 'Verification failed') });
+      setTwoFactorCode('');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleCancelTwoFactor = () => {
+    cancelTwoFactor();
+    setTwoFactorCode('');
+    setErrors({});
+  };
+
+  if (twoFactorPending) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4">
+        <div className="max-w-md w-full">
+          <div className="text-center mb-8">
+            <div className="inline-flex items-center justify-center w-16 h-16 bg-gradient-to-r from-blue-500 to-purple-600 rounded-2xl mb-4">
+              <ShieldCheck className="w-8 h-8 text-white" />
+            </div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Two-Factor Authentication</h1>
+            <p className="text-gray-600">Enter the code from your authenticator app or a recovery code</p>
+          </div>
+
+          <div className="bg-white rounded-2xl shadow-xl p-8">
+            <form onSubmit={handleTwoFactorSubmit} className="space-y-6">
+              {errors.general && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm">
+                  {errors.general}
+                </div>
+              )}
+
+              {lockoutSeconds > 0 && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-yellow-800 text-sm flex items-center">
+                  <Clock className="w-4 h-4 mr-2 flex-shrink-0" />
+                  Too many failed attempts. You can try again in {formatCountdown(lockoutSeconds)}.
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="twoFactorCode" className="block text-sm font-medium text-gray-700 mb-2">
+                  Authentication Code
+                </label>
+                <input
+                  type="text"
+                  id="twoFactorCode"
+                  name="twoFactorCode"
+                  value={twoFactorCode}
+                  onChange={(e) => {
+                    setTwoFactorCode(e.target.value);
+                    setErrors({});
+                  }}
+                  className={`w-full px-4 py-3 border rounded-lg font-mono tracking-widest text-center focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors ${
+                    errors.twoFactorCode ? 'border-red-300 bg-red-50' : 'border-gray-300'
+                  }`}
+                  placeholder="123456"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  disabled={verifying}
+                />
+                {errors.twoFactorCode && (
+                  <p className="mt-1 text-sm text-red-600">{errors.twoFactorCode}</p>
+                )}
+              </div>
+
+              <button
+                type="submit"
+                disabled={verifying || lockoutSeconds > 0}
+                className="w-full bg-gradient-to-r from-blue-500 to-purple-600 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {verifying ? (
+                  <div className="flex items-center justify-center">
+                    <Loader className="w-5 h-5 animate-spin mr-2" />
+                    Verifying...
+                  </div>
+                ) : (
+                  'Verify'
+                )}
+              </button>
+
+              <button
+                type="button"
+                onClick={handleCancelTwoFactor}
+                className="w-full text-sm text-gray-600 hover:text-gray-800 transition-colors"
+                disabled={verifying}
+              >
+                Back to sign in
+              </button>
+            </form>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4">
       <div className="max-w-md w-full">
@@ -78,6 +255,14 @@ export const Login: React.FC = () => {
               </div>
             )}
 
+            {/* Lockout countdown */}
+            {lockoutSeconds > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-yellow-800 text-sm flex items-center">
+                <Clock className="w-4 h-4 mr-2 flex-shrink-0" />
+                Too many failed attempts. You can try again in {formatCountdown(lockoutSeconds)}.
+              </div>
+            )}
+
             {/* Email/Username Field */}
             <div>
               <label htmlFor="identifier" className="block text-sm font-medium text-gray-700 mb-2">
@@ -156,7 +341,7 @@ export const Login: React.FC = () => {
             {/* Submit Button */}
             <button
               type="submit"
-              disabled={isLoading}
+              disabled={isLoading || lockoutSeconds > 0}
               className="w-full bg-gradient-to-r from-blue-500 to-purple-600 text-white py-3 px-4 rounded-lg font-medium hover:from-blue-600 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {isLoading ? (
@@ -168,6 +353,30 @@ export const Login: React.FC = () => {
                 'Sign In'
               )}
             </button>
+
+            {browserSupportsWebAuthn() && (
+              <button
+                type="button"
+                onClick={handlePasskeyLogin}
+                disabled={isLoading || lockoutSeconds > 0}
+                className="w-full flex items-center justify-center border border-gray-300 text-gray-700 py-3 px-4 rounded-lg font-medium hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <KeyRound className="w-5 h-5 mr-2" />
+                Sign in with a passkey
+              </button>
+            )}
+
+            {oidcConfig?.enabled && (
+              <button
+                type="button"
+                onClick={handleOidcLogin}
+                disabled={isLoading || redirecting}
+                className="w-full flex items-center justify-center border border-gray-300 text-gray-700 py-3 px-4 rounded-lg font-medium hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <LogIn className="w-5 h-5 mr-2" />
+                Sign in with {oidcConfig.providerName}
+              </button>
+            )}
           </form>
 
           {/* Sign Up Link */}
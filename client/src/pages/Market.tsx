@@ -3,6 +3,7 @@ import { useWallet } from '../context';
 import { useCrypto } from '../context';
 import { Search, TrendingUp, TrendingDown, Plus, Loader, Star } from 'lucide-react';
 import LoadingSpinner from '../components/LoadingSpinner';
+import { getErrorMessage } from '../utils/formatters';
 
 interface MarketCoin {
   id: string;
@@ -21,9 +22,12 @@ interface MarketCoin {
   };
 }
 
+// Matches TRADE_FEE_RATE in server/utils/cash.js
+const TRADE_FEE_RATE = 0.01;
+
 const Market: React.FC = () => {
   const { marketData, loading, error, fetchMarketData, searchCryptocurrency } = useCrypto();
-  const { buyCryptocurrency } = useWallet();
+  const { wallet, buyCryptocurrency } = useWallet();
   
   const [searchTerm, setSearchTerm] = useState('');
   const [searchResults, setSearchResults] = useState<any[]>([]);
@@ -33,6 +37,7 @@ const Market: React.FC = () => {
   const [showBuyModal, setShowBuyModal] = useState(false);
   const [selectedCoin, setSelectedCoin] = useState<MarketCoin | null>(null);
   const [buyAmount, setBuyAmount] = useState('');
+  const [buyError, setBuyError] = useState('');
   const [watchlist, setWatchlist] = useState<string[]>([]);
 
   useEffect(() => {
@@ -151,23 +156,18 @@ const Market: React.FC = () => {
   const handleBuy = async () => {
     if (!selectedCoin || !buyAmount) return;
 
+    setBuyError('');
     try {
-      const amount = parseFloat(buyAmount);
-      const totalCost = amount * selectedCoin.current_price;
-
       await buyCryptocurrency({
         symbol: selectedCoin.symbol.toUpperCase(),
-        name: selectedCoin.name,
-        amount,
-        price: selectedCoin.current_price,
-        fiatAmount: totalCost
+        amount: parseFloat(buyAmount)
       });
 
       setShowBuyModal(false);
       setBuyAmount('');
       setSelectedCoin(null);
     } catch (error) {
-      console.error('Buy error:', error);
+      setBuyError(getErrorMessage(error, 'Purchase failed'));
     }
   };
 
@@ -398,16 +398,26 @@ const Market: React.FC = () => {
               />
               {buyAmount && (
                 <div className="mt-2 text-sm text-gray-600">
-                  Total cost: {formatPrice(parseFloat(buyAmount) * selectedCoin.current_price)}
+                  Estimated cost: {formatPrice(parseFloat(buyAmount) * selectedCoin.current_price * (1 + TRADE_FEE_RATE))} including the {TRADE_FEE_RATE * 100}% fee, charged at the market price when the order is placed
                 </div>
               )}
+              <div className="mt-1 text-sm text-gray-600">
+                Available cash: {formatPrice(wallet?.availableBalance || 0)}
+              </div>
             </div>
 
+            {buyError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm mb-4">
+                {buyError}
+              </div>
+            )}
+
             <div className="flex gap-3">
               <button
                 onClick={() => {
                   setShowBuyModal(false);
                   setBuyAmount('');
+                  setBuyError('');
                   setSelectedCoin(null);
                 }}
                 className="flex-1 btn btn-secondary"
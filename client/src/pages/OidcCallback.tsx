@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { XCircle, Loader } from 'lucide-react';
+import { useAuth } from '../context';
+import { getErrorMessage } from '../utils/formatters';
+
+/**
+ * The identity provider sends the browser back here after single sign-on.
+ * Hands the code to the API, then continues to the dashboard, or to the
+ * login page when the account still needs its 2FA code.
+ */
+export const OidcCallback: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { completeOidcLogin } = useAuth();
+  const [error, setError] = useState('');
+  // The code can only be redeemed once, so do not run again on a remount or when a dependency changes
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    const code = searchParams.get('code');
+    const state = searchParams.get('state');
+    const providerError = searchParams.get('error');
+
+    if (providerError || !code || !state) {
+      setError(searchParams.get('error_description') || 'Single sign-on was cancelled or did not complete.');
+      return;
+    }
+
+    const complete = async () => {
+      try {
+        await completeOidcLogin(code, state);
+        // A pending 2FA challenge is not signed in yet, so the dashboard redirects to /login
+        navigate('/dashboard', { replace: true });
+      } catch (err) {
+        setError(getErrorMessage(err, 'Single sign-on failed.'));
+      }
+    };
+
+    complete();
+  }, [searchParams, completeOidcLogin, navigate]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8 text-center">
+        {!error ? (
+          <>
+            <Loader className="w-12 h-12 text-blue-500 animate-spin mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900">Signing you in...</h1>
+          </>
+        ) : (
+          <>
+            <XCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Sign-In Failed</h1>
+            <p className="text-gray-600">{error}</p>
+            <Link
+              to="/login"
+              className="inline-block mt-6 text-blue-600 hover:text-blue-800 font-medium transition-colors"
+            >
+              Back to sign in
+            </Link>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OidcCallback;
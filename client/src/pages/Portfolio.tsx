@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { useWallet } from '../context';
 import { useCrypto } from '../context';
-import { PieChart, TrendingUp, TrendingDown, DollarSign, Minus, Plus, Eye, EyeOff, RefreshCw } from 'lucide-react';
+import { PieChart, TrendingUp, TrendingDown, DollarSign, Minus, Plus, Eye, EyeOff, RefreshCw, Send, QrCode } from 'lucide-react';
 import LoadingSpinner from '../components/LoadingSpinner';
+import TransferModal from '../components/TransferModal';
 
 interface PortfolioCoin {
   symbol: string;
@@ -23,7 +24,7 @@ const Portfolio: React.FC = () => {
   const [showSellModal, setShowSellModal] = useState(false);
   const [selectedCoin, setSelectedCoin] = useState<PortfolioCoin | null>(null);
   const [sellAmount, setSellAmount] = useState('');
-  const [sellPrice, setSellPrice] = useState('');
+  const [transfer, setTransfer] = useState<{ mode: 'send' | 'receive'; symbol?: string } | null>(null);
 
   useEffect(() => {
     fetchWallet();
@@ -77,21 +78,16 @@ const Portfolio: React.FC = () => {
   };
 
   const handleSell = async () => {
-    if (!selectedCoin || !sellAmount || !sellPrice) return;
+    if (!selectedCoin || !sellAmount) return;
 
     try {
-      const amount = parseFloat(sellAmount);
-      const price = parseFloat(sellPrice);
-
       await sellCryptocurrency({
         symbol: selectedCoin.symbol,
-        amount,
-        price
+        amount: parseFloat(sellAmount)
       });
 
       setShowSellModal(false);
       setSellAmount('');
-      setSellPrice('');
       setSelectedCoin(null);
       fetchWallet(); // Refresh wallet data
     } catch (error) {
@@ -122,6 +118,18 @@ const Portfolio: React.FC = () => {
           <p className="text-gray-600">Track your cryptocurrency investments and performance</p>
         </div>
         <div className="flex items-center gap-3">
+          <button onClick={() => setTransfer({ mode: 'receive' })} className="btn btn-secondary">
+            <QrCode className="w-4 h-4 mr-2" />
+            Receive
+          </button>
+          <button
+            onClick={() => setTransfer({ mode: 'send' })}
+            disabled={portfolioCoins.length === 0}
+            className="btn btn-secondary disabled:opacity-50"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            Send
+          </button>
           <button
             onClick={() => setShowBalances(!showBalances)}
             className="btn btn-ghost"
@@ -272,13 +280,19 @@ const Portfolio: React.FC = () => {
                       <button
                         onClick={() => {
                           setSelectedCoin(coin);
-                          setSellPrice(coin.currentPrice.toString());
                           setShowSellModal(true);
                         }}
                         className="p-1 text-red-600 hover:text-red-700 rounded"
                       >
                         <Minus className="w-4 h-4" />
                       </button>
+                      <button
+                        onClick={() => setTransfer({ mode: 'send', symbol: coin.symbol })}
+                        className="p-1 ml-1 text-blue-600 hover:text-blue-700 rounded"
+                        title={`Send ${coin.symbol.toUpperCase()}`}
+                      >
+                        <Send className="w-4 h-4" />
+                      </button>
                     </td>
                   </tr>
                 ))}
@@ -300,6 +314,14 @@ const Portfolio: React.FC = () => {
         </div>
       )}
 
+      {transfer && (
+        <TransferModal
+          mode={transfer.mode}
+          symbol={transfer.symbol}
+          onClose={() => setTransfer(null)}
+        />
+      )}
+
       {/* Sell Modal */}
       {showSellModal && selectedCoin && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -336,27 +358,13 @@ const Portfolio: React.FC = () => {
               />
             </div>
 
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Sell price per unit
-              </label>
-              <input
-                type="number"
-                placeholder="0.00"
-                value={sellPrice}
-                onChange={(e) => setSellPrice(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                step="0.01"
-                min="0"
-              />
-            </div>
-
-            {sellAmount && sellPrice && (
+            {sellAmount && (
               <div className="mb-4 p-3 bg-gray-50 rounded-lg">
-                <div className="text-sm text-gray-600">Total proceeds:</div>
+                <div className="text-sm text-gray-600">Estimated proceeds at {formatCurrency(selectedCoin.currentPrice)}:</div>
                 <div className="text-lg font-bold">
-                  {formatCurrency(parseFloat(sellAmount) * parseFloat(sellPrice))}
+                  {formatCurrency(parseFloat(sellAmount) * selectedCoin.currentPrice)}
                 </div>
+                <div className="text-xs text-gray-500">Sold at the market price when the order is placed</div>
               </div>
             )}
 
@@ -365,7 +373,6 @@ const Portfolio: React.FC = () => {
                 onClick={() => {
                   setShowSellModal(false);
                   setSellAmount('');
-                  setSellPrice('');
                   setSelectedCoin(null);
                 }}
                 className="flex-1 btn btn-secondary"
@@ -374,7 +381,7 @@ const Portfolio: React.FC = () => {
               </button>
               <button
                 onClick={handleSell}
-                disabled={!sellAmount || !sellPrice || parseFloat(sellAmount) <= 0 || parseFloat(sellAmount) > selectedCoin.amount}
+                disabled={!sellAmount || parseFloat(sellAmount) <= 0 || parseFloat(sellAmount) > selectedCoin.amount}
                 className="flex-1 btn btn-danger disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 Sell
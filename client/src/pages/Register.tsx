@@ -2,8 +2,9 @@ import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { Eye, EyeOff, Loader, CheckCircle, XCircle } from 'lucide-react';
 import { useAuth } from '../context';
-import { isValidEmail, validatePassword } from '../utils';
-import type { RegisterData } from '../types';
+import { PasswordStrengthMeter } from '../components';
+import { isValidEmail, getErrorMessage } from '../utils';
+import type { PasswordCheck, RegisterData } from '../types';
 
 export const Register: React.FC = () => {
   const { register, isLoading } = useAuth();
@@ -18,6 +19,7 @@ export const Register: React.FC = () => {
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [passwordCheck, setPasswordCheck] = useState<PasswordCheck | null>(null);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -69,10 +71,11 @@ export const Register: React.FC = () => {
       newErrors.email = 'Please enter a valid email address';
     }
 
-    // Password
-    const passwordValidation = validatePassword(formData.password);
-    if (!passwordValidation.isValid) {
-      newErrors.password = passwordValidation.errors[0];
+    // Password (the policy itself is checked by the server as you type, and again on submit)
+    if (!formData.password) {
+      newErrors.password = 'Password is required';
+    } else if (passwordCheck && !passwordCheck.valid) {
+      newErrors.password = passwordCheck.errors[0];
     }
 
     // Confirm Password
@@ -93,24 +96,12 @@ export const Register: React.FC = () => {
 
     try {
       await register(formData);
-    } catch (error: any) {
-      setErrors({ general: error.message || 'Registration failed' });
+    } catch (error: unknown) {
+      const details = (error as { details?: { msg: string }[] }).details;
+      setErrors({ general: details?.length ? details[0].msg : getErrorMessage(error, 'Registration failed') });
     }
   };
 
-  const getPasswordStrength = () => {
-    const validation = validatePassword(formData.password);
-    if (!formData.password) return null;
-    
-    const score = 4 - validation.errors.length;
-    const strength = ['Very Weak', 'Weak', 'Fair', 'Good', 'Strong'][score];
-    const color = ['red', 'orange', 'yellow', 'blue', 'green'][score];
-    
-    return { strength, color, score };
-  };
-
-  const passwordStrength = getPasswordStrength();
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4">
       <div className="max-w-md w-full">
@@ -251,22 +242,11 @@ export const Register: React.FC = () => {
               </div>
               
               {/* Password Strength Indicator */}
-              {passwordStrength && (
-                <div className="mt-2">
-                  <div className="flex items-center justify-between text-xs">
-                    <span className="text-gray-600">Password strength:</span>
-                    <span className={`font-medium text-${passwordStrength.color}-600`}>
-                      {passwordStrength.strength}
-                    </span>
-                  </div>
-                  <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
-                    <div
-                      className={`bg-${passwordStrength.color}-500 h-1.5 rounded-full transition-all`}
-                      style={{ width: `${(passwordStrength.score / 4) * 100}%` }}
-                    />
-                  </div>
-                </div>
-              )}
+              <PasswordStrengthMeter
+                password={formData.password}
+                user={formData}
+                onResult={setPasswordCheck}
+              />
               
               {errors.password && (
                 <p className="mt-1 text-sm text-red-600">{errors.password}</p>
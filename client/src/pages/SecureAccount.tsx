@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ShieldAlert, XCircle, Loader } from 'lucide-react';
+import { authService } from '../services';
+import { getErrorMessage } from '../utils/formatters';
+
+export const SecureAccount: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [error, setError] = useState(token ? '' : 'This link is missing its token.');
+  const [securing, setSecuring] = useState(false);
+
+  // Requires a click rather than running on load, so mail scanners that open links can't trigger it
+  const handleSecure = async () => {
+    if (!token) return;
+
+    setSecuring(true);
+    try {
+      const resetToken = await authService.secureAccount(token);
+      // Full reload so the app starts again without the revoked session
+      window.location.replace(`/reset-password?token=${encodeURIComponent(resetToken)}`);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Unable to secure your account.'));
+      setSecuring(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8 text-center">
+        {error ? (
+          <>
+            <XCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Unable to Secure Account</h1>
+            <p className="text-gray-600">{error}</p>
+            <Link
+              to="/forgot-password"
+              className="inline-block mt-6 text-blue-600 hover:text-blue-800 font-medium transition-colors"
+            >
+              Reset your password
+            </Link>
+          </>
+        ) : (
+          <>
+            <ShieldAlert className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Didn't Sign In?</h1>
+            <p className="text-gray-600 mb-6">
+              We'll sign out every device on your account, including this one, and ask you to choose a new password.
+            </p>
+            <button
+              onClick={handleSecure}
+              disabled={securing}
+              className="w-full btn bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+            >
+              {securing ? (
+                <span className="flex items-center justify-center">
+                  <Loader className="w-5 h-5 animate-spin mr-2" />
+                  Securing...
+                </span>
+              ) : (
+                'Secure My Account'
+              )}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SecureAccount;
@@ -1,6 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../context';
 import { useWallet } from '../context';
+import {
+  TwoFactorSettings,
+  PasskeySettings,
+  DeviceSessions,
+  LockScreenSettings,
+  ApiKeySettings,
+  WithdrawalAllowlist,
+  AccountActivity,
+  ProfilePictureSettings,
+  PasswordStrengthMeter,
+  WalletAddresses,
+  KeystoreSettings
+} from '../components';
+import { authService } from '../services';
+import { getErrorMessage, downloadJson, formatDate } from '../utils/formatters';
+import type { PasswordCheck } from '../types';
 import { 
   User, 
   Shield, 
@@ -10,7 +26,8 @@ import {
   Eye,
   EyeOff,
   Trash2,
-  AlertTriangle
+  AlertTriangle,
+  Download
 } from 'lucide-react';
 
 interface UserSettings {
@@ -27,7 +44,7 @@ interface UserSettings {
 }
 
 const Settings: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, logout, refreshUser } = useAuth();
   const { wallet, updateWalletSettings } = useWallet();
   
   const [settings, setSettings] = useState<UserSettings>({
@@ -54,10 +71,20 @@ const Settings: React.FC = () => {
     confirmPassword: ''
   });
 
+  const [passwordErrors, setPasswordErrors] = useState<string[]>([]);
+  const [passwordCheck, setPasswordCheck] = useState<PasswordCheck | null>(null);
+  const [passwordSuccess, setPasswordSuccess] = useState('');
+  const [changingPassword, setChangingPassword] = useState(false);
+
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [deleteData, setDeleteData] = useState({ password: '', code: '' });
+  const [deleteError, setDeleteError] = useState('');
+  const [deleting, setDeleting] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [saving, setSaving] = useState(false);
   const [activeTab, setActiveTab] = useState('profile');
+  const [updatingLoginAlerts, setUpdatingLoginAlerts] = useState(false);
 
   useEffect(() => {
     if (wallet?.settings) {
@@ -80,7 +107,9 @@ const Settings: React.FC = () => {
   const saveSettings = async () => {
     setSaving(true);
     try {
-      await updateWalletSettings(settings);
+      // Allowlist-only mode is saved by its own toggle, so only send what this form edits
+      const { currency, notifications, privacy } = settings;
+      await updateWalletSettings({ currency, notifications, privacy });
       // Show success message
     } catch (error) {
       console.error('Failed to save settings:', error);
@@ -90,35 +119,92 @@ const Settings: React.FC = () => {
     }
   };
 
+  // Sign-in alerts are an account setting, so they save straight away
+  const handleLoginNotificationsChange = async (enabled: boolean) => {
+    setUpdatingLoginAlerts(true);
+    try {
+      await authService.setLoginNotifications(enabled);
+      await refreshUser();
+    } catch (error) {
+      console.error('Failed to update sign-in alerts:', error);
+    } finally {
+      setUpdatingLoginAlerts(false);
+    }
+  };
+
   const handlePasswordChange = async () => {
+    setPasswordSuccess('');
+
     if (passwordData.newPassword !== passwordData.confirmPassword) {
-      alert('Passwords do not match');
+      setPasswordErrors(['Passwords do not match']);
       return;
     }
 
+    if (passwordCheck && !passwordCheck.valid) {
+      setPasswordErrors(passwordCheck.errors);
+      return;
+    }
+
+    setChangingPassword(true);
     try {
-      // Implement password change API call
-      console.log('Changing password...');
+      await authService.changePassword({
+        currentPassword: passwordData.currentPassword,
+        newPassword: passwordData.newPassword
+      });
+      setPasswordErrors([]);
+      setPasswordSuccess('Password updated. Other sessions have been signed out.');
       setPasswordData({
         currentPassword: '',
         newPassword: '',
         confirmPassword: ''
       });
+    } catch (error: unknown) {
+      const details = (error as { details?: { msg: string }[] }).details;
+      setPasswordErrors(details?.length
+        ? details.map(detail => detail.msg)
+        : [getErrorMessage(error, 'Failed to change password')]);
+    } finally {
+      setChangingPassword(false);
+    }
+  };
+
+  const exportFilename = () => `cryptowallet-${user?.username || 'account'}-export.json`;
+
+  const handleExportData = async () => {
+    setExporting(true);
+    try {
+      const archive = await authService.exportAccountData();
+      downloadJson(exportFilename(), archive);
     } catch (error) {
-      console.error('Failed to change password:', error);
+      console.error('Failed to export account data:', error);
+    } finally {
+      setExporting(false);
     }
   };
 
-  const handleDeleteAccount = async () => {
+  // With 2FA on, a passkey can stand in for the authentication code
+  const handleDeleteAccount = async (usePasskey = false) => {
+    setDeleting(true);
+    setDeleteError('');
     try {
-      // Implement account deletion API call
-      console.log('Deleting account...');
+      const passkey = usePasskey ? await authService.confirmWithPasskey() : undefined;
+      const result = await authService.deleteAccount(deleteData.password, deleteData.code || undefined, passkey);
+      downloadJson(exportFilename(), result.export);
+      alert(`Your account will be permanently deleted on ${formatDate(result.deletionScheduledFor)}. Sign in before then to cancel.`);
       logout();
     } catch (error) {
-      console.error('Failed to delete account:', error);
+      setDeleteError(getErrorMessage(error, 'Failed to delete account'));
+    } finally {
+      setDeleting(false);
     }
   };
 
+  const closeDeleteModal = () => {
+    setShowDeleteModal(false);
+    setDeleteData({ password: '', code: '' });
+    setDeleteError('');
+  };
+
   const tabs = [
     { id: 'profile', label: 'Profile', icon: User },
     { id: 'security', label: 'Security', icon: Shield },
@@ -162,6 +248,8 @@ const Settings: React.FC = () => {
           {/* Profile Tab */}
           {activeTab === 'profile' && (
             <div className="space-y-6">
+              <ProfilePictureSettings />
+
               <div>
                 <h3 className="text-lg font-medium text-gray-900 mb-4">Profile Information</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -190,14 +278,10 @@ const Settings: React.FC = () => {
                 </div>
               </div>
 
-              <div>
-                <h3 className="text-lg font-medium text-gray-900 mb-4">Wallet Address</h3>
-                <div className="bg-gray-50 p-4 rounded-lg">
-                  <p className="text-sm text-gray-600 mb-2">Your wallet address:</p>
-                  <p className="font-mono text-sm bg-white p-2 rounded border">
-                    {user?.walletAddress || 'Not generated'}
-                  </p>
-                </div>
+              <WalletAddresses />
+
+              <div className="border-t pt-6">
+                <KeystoreSettings />
               </div>
             </div>
           )}
@@ -208,6 +292,20 @@ const Settings: React.FC = () => {
               <div>
                 <h3 className="text-lg font-medium text-gray-900 mb-4">Change Password</h3>
                 <div className="space-y-4">
+                  {passwordErrors.length > 0 && (
+                    <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm">
+                      <ul className="list-disc list-inside space-y-1">
+                        {passwordErrors.map((message) => (
+                          <li key={message}>{message}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {passwordSuccess && (
+                    <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-green-700 text-sm">
+                      {passwordSuccess}
+                    </div>
+                  )}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Current Password
@@ -238,6 +336,11 @@ const Settings: React.FC = () => {
                       onChange={(e) => setPasswordData(prev => ({ ...prev, newPassword: e.target.value }))}
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     />
+                    <PasswordStrengthMeter
+                      password={passwordData.newPassword}
+                      user={user || undefined}
+                      onResult={setPasswordCheck}
+                    />
                   </div>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -252,14 +355,42 @@ const Settings: React.FC = () => {
                   </div>
                   <button
                     onClick={handlePasswordChange}
-                    disabled={!passwordData.currentPassword || !passwordData.newPassword || passwordData.newPassword !== passwordData.confirmPassword}
+                    disabled={changingPassword || !passwordData.currentPassword || !passwordData.newPassword || !passwordData.confirmPassword}
                     className="btn btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    Update Password
+                    {changingPassword ? 'Updating...' : 'Update Password'}
                   </button>
                 </div>
               </div>
 
+              <div className="border-t pt-6">
+                <TwoFactorSettings />
+              </div>
+
+              <div className="border-t pt-6">
+                <PasskeySettings />
+              </div>
+
+              <div className="border-t pt-6">
+                <DeviceSessions />
+              </div>
+
+              <div className="border-t pt-6">
+                <LockScreenSettings />
+              </div>
+
+              <div className="border-t pt-6">
+                <ApiKeySettings />
+              </div>
+
+              <div className="border-t pt-6">
+                <WithdrawalAllowlist />
+              </div>
+
+              <div className="border-t pt-6">
+                <AccountActivity />
+              </div>
+
               <div className="border-t pt-6">
                 <h3 className="text-lg font-medium text-red-600 mb-4">Danger Zone</h3>
                 <div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -268,15 +399,26 @@ const Settings: React.FC = () => {
                     <div className="flex-1">
                       <h4 className="text-sm font-medium text-red-800">Delete Account</h4>
                       <p className="text-sm text-red-700 mt-1">
-                        Once you delete your account, there is no going back. Please be certain.
+                        Your account is deactivated immediately and permanently deleted after a grace period.
+                        Signing in during that time cancels the deletion.
                       </p>
-                      <button
-                        onClick={() => setShowDeleteModal(true)}
-                        className="mt-3 btn bg-red-600 text-white hover:bg-red-700"
-                      >
-                        <Trash2 className="w-4 h-4 mr-2" />
-                        Delete Account
-                      </button>
+                      <div className="mt-3 flex gap-3">
+                        <button
+                          onClick={handleExportData}
+                          disabled={exporting}
+                          className="btn btn-secondary"
+                        >
+                          <Download className="w-4 h-4 mr-2" />
+                          {exporting ? 'Preparing...' : 'Download My Data'}
+                        </button>
+                        <button
+                          onClick={() => setShowDeleteModal(true)}
+                          className="btn bg-red-600 text-white hover:bg-red-700"
+                        >
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Delete Account
+                        </button>
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -290,6 +432,23 @@ const Settings: React.FC = () => {
               <div>
                 <h3 className="text-lg font-medium text-gray-900 mb-4">Notification Preferences</h3>
                 <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <label className="text-sm font-medium text-gray-900">New Sign-in Alerts</label>
+                      <p className="text-sm text-gray-500">Email me when my account is accessed from a new device or location</p>
+                    </div>
+                    <label className="relative inline-flex items-center cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={user?.securitySettings?.loginNotifications ?? true}
+                        onChange={(e) => handleLoginNotificationsChange(e.target.checked)}
+                        disabled={updatingLoginAlerts}
+                        className="sr-only peer"
+                      />
+                      <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                    </label>
+                  </div>
+
                   <div className="flex items-center justify-between">
                     <div>
                       <label className="text-sm font-medium text-gray-900">Price Alerts</label>
@@ -355,7 +514,8 @@ const Settings: React.FC = () => {
                     <select
                       value={settings.currency}
                       onChange={(e) => handleSettingsChange('currency', '', e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      disabled={(wallet?.totalBalance || 0) > 0 || (wallet?.heldBalance || 0) > 0}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-100"
                     >
                       <option value="USD">USD - US Dollar</option>
                       <option value="EUR">EUR - Euro</option>
@@ -363,6 +523,11 @@ const Settings: React.FC = () => {
                       <option value="JPY">JPY - Japanese Yen</option>
                       <option value="INR">INR - Indian Rupee</option>
                     </select>
+                    {((wallet?.totalBalance || 0) > 0 || (wallet?.heldBalance || 0) > 0) && (
+                      <p className="text-sm text-gray-500 mt-1">
+                        Cash is not converted, so withdraw your cash balance before changing the currency.
+                      </p>
+                    )}
                   </div>
 
                   <div className="flex items-center justify-between">
@@ -424,23 +589,60 @@ const Settings: React.FC = () => {
               <h3 className="text-xl font-bold text-red-600">Delete Account</h3>
             </div>
             
-            <p className="text-gray-600 mb-6">
-              Are you sure you want to delete your account? This action cannot be undone. 
-              All your data, including your portfolio and transaction history, will be permanently deleted.
+            <p className="text-gray-600 mb-4">
+              Are you sure you want to delete your account? A copy of your data will be downloaded, 
+              then your portfolio and transaction history will be permanently deleted once the grace period ends.
             </p>
 
+            {deleteError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm mb-4">
+                {deleteError}
+              </div>
+            )}
+
+            <div className="space-y-3 mb-6">
+              <input
+                type="password"
+                value={deleteData.password}
+                onChange={(e) => setDeleteData(prev => ({ ...prev, password: e.target.value }))}
+                placeholder="Confirm your password"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              {user?.securitySettings?.twoFactorEnabled && (
+                <input
+                  type="text"
+                  value={deleteData.code}
+                  onChange={(e) => setDeleteData(prev => ({ ...prev, code: e.target.value }))}
+                  placeholder="Authentication or recovery code"
+                  autoComplete="one-time-code"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              )}
+              {user?.securitySettings?.twoFactorEnabled && (
+                <button
+                  onClick={() => handleDeleteAccount(true)}
+                  disabled={deleting || !deleteData.password}
+                  className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                  Use a passkey instead of a code
+                </button>
+              )}
+            </div>
+
             <div className="flex gap-3">
               <button
-                onClick={() => setShowDeleteModal(false)}
+                onClick={closeDeleteModal}
+                disabled={deleting}
                 className="flex-1 btn btn-secondary"
               >
                 Cancel
               </button>
               <button
-                onClick={handleDeleteAccount}
-                className="flex-1 btn bg-red-600 text-white hover:bg-red-700"
+                onClick={() => handleDeleteAccount()}
+                disabled={deleting || !deleteData.password}
+                className="flex-1 btn bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
               >
-                Delete Account
+                {deleting ? 'Deleting...' : 'Delete Account'}
               </button>
             </div>
           </div>
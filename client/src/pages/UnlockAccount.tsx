@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { CheckCircle, XCircle, Loader } from 'lucide-react';
+import { authService } from '../services';
+import { getErrorMessage } from '../utils/formatters';
+
+type UnlockStatus = 'unlocking' | 'success' | 'error';
+
+export const UnlockAccount: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const [status, setStatus] = useState<UnlockStatus>('unlocking');
+  const [message, setMessage] = useState('');
+
+  const token = searchParams.get('token');
+
+  useEffect(() => {
+    if (!token) {
+      setStatus('error');
+      setMessage('This unlock link is missing its token.');
+      return;
+    }
+
+    const unlock = async () => {
+      try {
+        setMessage(await authService.unlockAccount(token));
+        // Drop any countdown left over on the login page
+        sessionStorage.removeItem('loginLockedUntil');
+        setStatus('success');
+      } catch (error) {
+        setStatus('error');
+        setMessage(getErrorMessage(error, 'Unable to unlock your account.'));
+      }
+    };
+
+    unlock();
+  }, [token]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8 text-center">
+        {status === 'unlocking' && (
+          <>
+            <Loader className="w-12 h-12 text-blue-500 animate-spin mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900">Unlocking your account...</h1>
+          </>
+        )}
+
+        {status === 'success' && (
+          <>
+            <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Account Unlocked</h1>
+            <p className="text-gray-600">{message}</p>
+          </>
+        )}
+
+        {status === 'error' && (
+          <>
+            <XCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Unlock Failed</h1>
+            <p className="text-gray-600">{message}</p>
+          </>
+        )}
+
+        {status !== 'unlocking' && (
+          <Link
+            to="/login"
+            className="inline-block mt-6 text-blue-600 hover:text-blue-800 font-medium transition-colors"
+          >
+            Go to sign in
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UnlockAccount;
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { CheckCircle, XCircle, Loader } from 'lucide-react';
+import { useAuth } from '../context';
+import { authService } from '../services';
+import { getErrorMessage } from '../utils/formatters';
+
+type VerificationStatus = 'verifying' | 'success' | 'error';
+
+export const VerifyEmail: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const { isAuthenticated, refreshUser } = useAuth();
+  const [status, setStatus] = useState<VerificationStatus>('verifying');
+  const [message, setMessage] = useState('');
+
+  const token = searchParams.get('token');
+
+  useEffect(() => {
+    if (!token) {
+      setStatus('error');
+      setMessage('This verification link is missing its token.');
+      return;
+    }
+
+    const verify = async () => {
+      try {
+        await authService.verifyEmail(token);
+        setStatus('success');
+        setMessage('Your email address has been verified.');
+      } catch (error) {
+        setStatus('error');
+        setMessage(getErrorMessage(error, 'Unable to verify your email address.'));
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  // Pick up the new verification state if the user is signed in on this device
+  useEffect(() => {
+    if (status === 'success' && isAuthenticated) {
+      refreshUser().catch(() => undefined);
+    }
+  }, [status, isAuthenticated, refreshUser]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8 text-center">
+        {status === 'verifying' && (
+          <>
+            <Loader className="w-12 h-12 text-blue-500 animate-spin mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900">Verifying your email...</h1>
+          </>
+        )}
+
+        {status === 'success' && (
+          <>
+            <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Email Verified</h1>
+            <p className="text-gray-600">{message}</p>
+          </>
+        )}
+
+        {status === 'error' && (
+          <>
+            <XCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Verification Failed</h1>
+            <p className="text-gray-600">{message}</p>
+          </>
+        )}
+
+        {status !== 'verifying' && (
+          <Link
+            to={isAuthenticated ? '/dashboard' : '/login'}
+            className="inline-block mt-6 text-blue-600 hover:text-blue-800 font-medium transition-colors"
+          >
+            {isAuthenticated ? 'Go to dashboard' : 'Go to sign in'}
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
@@ -0,0 +1,259 @@
+import React, { useState } from 'react';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { KeyRound, Loader, ShieldAlert } from 'lucide-react';
+import { useAuth } from '../context';
+import { walletService } from '../services';
+import { getErrorMessage } from '../utils/formatters';
+import { createMnemonic, deriveHdAccounts, isValidMnemonic, normalizeMnemonic } from '../utils/hdWallet';
+
+type SetupStep = 'choose' | 'backup' | 'confirm' | 'restore';
+
+// How many words of the phrase the user has to type back
+const CONFIRM_WORD_COUNT = 3;
+
+const pickConfirmPositions = (wordCount: number): number[] => {
+  const positions = new Set<number>();
+  while (positions.size < CONFIRM_WORD_COUNT) {
+    positions.add(Math.floor(Math.random() * wordCount));
+  }
+  return [...positions].sort((a, b) => a - b);
+};
+
+/**
+ * Creates the wallet keys after sign-up. The recovery phrase is generated here,
+ * shown once and checked back; only public keys are sent to the server, so the
+ * written-down phrase is the only way to recover the wallet.
+ */
+export const WalletSetup: React.FC = () => {
+  const navigate = useNavigate();
+  const { user, refreshUser, logout } = useAuth();
+  const [step, setStep] = useState<SetupStep>('choose');
+  const [mnemonic, setMnemonic] = useState('');
+  const [backedUp, setBackedUp] = useState(false);
+  const [confirmPositions, setConfirmPositions] = useState<number[]>([]);
+  const [confirmWords, setConfirmWords] = useState<Record<number, string>>({});
+  const [restorePhrase, setRestorePhrase] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  if (user?.hdWalletCreatedAt) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const words = mnemonic ? mnemonic.split(' ') : [];
+
+  const startCreate = (wordCount: 12 | 24) => {
+    setMnemonic(createMnemonic(wordCount));
+    setBackedUp(false);
+    setError('');
+    setStep('backup');
+  };
+
+  const startConfirm = () => {
+    setConfirmPositions(pickConfirmPositions(words.length));
+    setConfirmWords({});
+    setError('');
+    setStep('confirm');
+  };
+
+  const saveKeys = async (phrase: string) => {
+    setSubmitting(true);
+    setError('');
+    try {
+      const accounts = await deriveHdAccounts(phrase);
+      await walletService.createHdAccounts(accounts);
+      setMnemonic('');
+      setRestorePhrase('');
+      await refreshUser();
+      navigate('/dashboard', { replace: true });
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to create wallet keys'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const mismatch = confirmPositions.some(
+      (position) => (confirmWords[position] || '').trim().toLowerCase() !== words[position]
+    );
+    if (mismatch) {
+      setError('Those words do not match your recovery phrase. Check what you wrote down.');
+      return;
+    }
+
+    saveKeys(mnemonic);
+  };
+
+  const handleRestore = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isValidMnemonic(restorePhrase)) {
+      setError('That is not a valid 12 or 24 word recovery phrase.');
+      return;
+    }
+
+    saveKeys(normalizeMnemonic(restorePhrase));
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center p-4">
+      <div className="max-w-lg w-full">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-gradient-to-r from-blue-500 to-purple-600 rounded-2xl mb-4">
+            <KeyRound className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Set Up Your Wallet</h1>
+          <p className="text-gray-600">Your keys are created on this device and never sent to our servers</p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl p-8 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          {step === 'choose' && (
+            <>
+              <p className="text-gray-700">
+                Your wallet is backed by a recovery phrase of 12 or 24 words. Anyone with the phrase controls the
+                wallet, and without it the wallet cannot be recovered.
+              </p>
+              <div className="space-y-3">
+                <button onClick={() => startCreate(12)} className="w-full btn btn-primary">
+                  Create a new recovery phrase
+                </button>
+                <button onClick={() => startCreate(24)} className="w-full btn btn-secondary">
+                  Create a 24-word phrase instead
+                </button>
+                <button
+                  onClick={() => { setError(''); setStep('restore'); }}
+                  className="w-full text-sm text-blue-600 hover:text-blue-800 transition-colors"
+                >
+                  I already have a recovery phrase
+                </button>
+              </div>
+            </>
+          )}
+
+          {step === 'backup' && (
+            <>
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-yellow-800 text-sm flex">
+                <ShieldAlert className="w-5 h-5 mr-2 flex-shrink-0" />
+                Write these words down in order and keep them offline. Do not screenshot or share them.
+              </div>
+              <ol className="grid grid-cols-3 gap-2">
+                {words.map((word, index) => (
+                  <li key={index} className="bg-gray-50 border border-gray-200 rounded-lg px-3 py-2 font-mono text-sm">
+                    <span className="text-gray-400 mr-2">{index + 1}.</span>
+                    {word}
+                  </li>
+                ))}
+              </ol>
+              <label className="flex items-start text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={backedUp}
+                  onChange={(e) => setBackedUp(e.target.checked)}
+                  className="w-4 h-4 mt-0.5 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                I have written down my recovery phrase. It will not be shown again once the wallet is created.
+              </label>
+              <button onClick={startConfirm} disabled={!backedUp} className="w-full btn btn-primary disabled:opacity-50">
+                Continue
+              </button>
+            </>
+          )}
+
+          {step === 'confirm' && (
+            <form onSubmit={handleConfirm} className="space-y-4">
+              <p className="text-gray-700">Enter these words from your recovery phrase to confirm your backup.</p>
+              {confirmPositions.map((position) => (
+                <div key={position}>
+                  <label htmlFor={`word-${position}`} className="block text-sm font-medium text-gray-700 mb-1">
+                    Word #{position + 1}
+                  </label>
+                  <input
+                    id={`word-${position}`}
+                    type="text"
+                    value={confirmWords[position] || ''}
+                    onChange={(e) => setConfirmWords(prev => ({ ...prev, [position]: e.target.value }))}
+                    autoComplete="off"
+                    autoCapitalize="none"
+                    spellCheck={false}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    disabled={submitting}
+                  />
+                </div>
+              ))}
+              <button
+                type="submit"
+                disabled={submitting || confirmPositions.some(position => !confirmWords[position])}
+                className="w-full btn btn-primary disabled:opacity-50"
+              >
+                {submitting ? (
+                  <span className="flex items-center justify-center">
+                    <Loader className="w-5 h-5 animate-spin mr-2" />
+                    Creating wallet...
+                  </span>
+                ) : (
+                  'Confirm and create wallet'
+                )}
+              </button>
+              <button
+                type="button"
+                onClick={() => { setError(''); setStep('backup'); }}
+                disabled={submitting}
+                className="w-full text-sm text-gray-600 hover:text-gray-800 transition-colors"
+              >
+                Show the phrase again
+              </button>
+            </form>
+          )}
+
+          {step === 'restore' && (
+            <form onSubmit={handleRestore} className="space-y-4">
+              <label htmlFor="restorePhrase" className="block text-sm font-medium text-gray-700">
+                Recovery phrase
+              </label>
+              <textarea
+                id="restorePhrase"
+                value={restorePhrase}
+                onChange={(e) => setRestorePhrase(e.target.value)}
+                rows={3}
+                autoComplete="off"
+                autoCapitalize="none"
+                spellCheck={false}
+                placeholder="Enter your 12 or 24 words separated by spaces"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={submitting}
+              />
+              <button type="submit" disabled={submitting || !restorePhrase.trim()} className="w-full btn btn-primary disabled:opacity-50">
+                {submitting ? 'Restoring...' : 'Restore wallet'}
+              </button>
+              <button
+                type="button"
+                onClick={() => { setError(''); setRestorePhrase(''); setStep('choose'); }}
+                disabled={submitting}
+                className="w-full text-sm text-gray-600 hover:text-gray-800 transition-colors"
+              >
+                Back
+              </button>
+            </form>
+          )}
+        </div>
+
+        <div className="mt-6 text-center">
+          <button onClick={logout} className="text-sm text-gray-500 hover:text-gray-700">
+            Sign out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WalletSetup;
@@ -1,6 +1,14 @@
 export { default as Login } from './Login';
 export { default as Register } from './Register';
+export { default as ForgotPassword } from './ForgotPassword';
+export { default as ResetPassword } from './ResetPassword';
+export { default as SecureAccount } from './SecureAccount';
+export { default as UnlockAccount } from './UnlockAccount';
 export { default as Dashboard } from './Dashboard';
 export { default as Portfolio } from './Portfolio';
 export { default as Market } from './Market';
-export { default as Settings } from './Settings';
\ No newline at end of file
+export { default as Settings } from './Settings';
+export { default as VerifyEmail } from './VerifyEmail';
+export { default as ConfirmWithdrawalAddress } from './ConfirmWithdrawalAddress';
+export { default as OidcCallback } from './OidcCallback';
+export { default as WalletSetup } from './WalletSetup';
\ No newline at end of file
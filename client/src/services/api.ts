@@ -2,8 +2,23 @@ import axios from 'axios';
 import type { AxiosInstance, AxiosResponse } from 'axios';
 import type { ApiResponse, ApiError } from '../types';
 
+// Auth endpoints whose 401s mean bad credentials, not an expired access token
+const NO_REFRESH_URLS = [
+  '/auth/login',
+  '/auth/login/2fa',
+  '/auth/webauthn/login/verify',
+  '/auth/register',
+  '/auth/refresh'
+];
+
 class ApiService {
   private api: AxiosInstance;
+  // Access tokens live in memory only; the refresh token is an httpOnly cookie
+  private accessToken: string | null = null;
+  private refreshPromise: Promise<string> | null = null;
+  // Asks the user to confirm their identity; resolves true once the session is re-authenticated
+  private reauthHandler: (() => Promise<boolean>) | null = null;
+  private reauthPromise: Promise<boolean> | null = null;
 
   constructor() {
     this.api = axios.create({
@@ -12,14 +27,14 @@ class ApiService {
         'Content-Type': 'application/json',
       },
       timeout: 10000, // 10 seconds timeout
+      withCredentials: true, // send the refresh token cookie
     });
 
     // Request interceptor to add auth token
     this.api.interceptors.request.use(
       (config) => {
-        const token = localStorage.getItem('token');
-        if (token) {
-          config.headers.Authorization = `Bearer ${token}`;
+        if (this.accessToken) {
+          config.headers.Authorization = `Bearer ${this.accessToken}`;
         }
         return config;
       },
@@ -29,7 +44,41 @@ class ApiService {
     // Response interceptor to handle errors
     this.api.interceptors.response.use(
       (response: AxiosResponse<ApiResponse>) => response,
-      (error) => {
+      async (error) => {
+        const originalRequest = error.config;
+
+        // Access token expired: rotate the refresh token once and replay the request
+        if (
+          error.response?.status === 401 &&
+          originalRequest &&
+          !originalRequest._retry &&
+          !NO_REFRESH_URLS.includes(originalRequest.url) &&
+          this.getCsrfToken()
+        ) {
+          originalRequest._retry = true;
+          try {
+            const token = await this.refreshAccessToken();
+            originalRequest.headers.Authorization = `Bearer ${token}`;
+            return this.api(originalRequest);
+          } catch {
+            // Fall through to the normal 401 handling below
+          }
+        }
+
+        // Sensitive action needs a recent confirmation: prompt once and replay the request
+        if (
+          error.response?.status === 403 &&
+          error.response.data?.reauthRequired &&
+          originalRequest &&
+          !originalRequest._reauthRetry &&
+          this.reauthHandler
+        ) {
+          originalRequest._reauthRetry = true;
+          if (await this.requestReauthentication()) {
+            return this.api(originalRequest);
+          }
+        }
+
         // Handle different types of errors
         if (error.response) {
           // Server responded with error status
@@ -38,12 +87,15 @@ class ApiService {
             message: error.response.data?.message || 'Something went wrong',
             details: error.response.data?.details,
             status: error.response.status,
+            retryAfter: error.response.data?.retryAfter,
+            lockedUntil: error.response.data?.lockedUntil,
+            captchaRequired: error.response.data?.captchaRequired,
+            reauthRequired: error.response.data?.reauthRequired,
           };
 
-          // Handle token expiration
-          if (error.response.status === 401) {
-            localStorage.removeItem('token');
-            localStorage.removeItem('user');
+          // Handle session expiration
+          if (error.response.status === 401 && !NO_REFRESH_URLS.includes(originalRequest?.url)) {
+            this.removeAuthToken();
             window.location.href = '/login';
           }
 
@@ -83,25 +135,83 @@ class ApiService {
     return response.data;
   }
 
-  async delete<T = any>(url: string): Promise<ApiResponse<T>> {
-    const response = await this.api.delete<ApiResponse<T>>(url);
+  // Multipart upload; overriding the JSON default stops axios serializing the form to JSON
+  async upload<T>(url: string, formData: FormData): Promise<ApiResponse<T>> {
+    const response = await this.api.post<ApiResponse<T>>(url, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  }
+
+  async delete<T = any>(url: string, data?: unknown): Promise<ApiResponse<T>> {
+    const response = await this.api.delete<ApiResponse<T>>(url, { data });
     return response.data;
   }
 
+  // Exchange the refresh cookie for a new access token.
+  // Concurrent callers share one request so the token is only rotated once.
+  refreshAccessToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.api
+        .post<ApiResponse<{ token: string; csrfToken: string }>>('/auth/refresh', undefined, {
+          headers: { 'X-CSRF-Token': this.getCsrfToken() || '' },
+        })
+        .then((response) => {
+          const data = response.data.data;
+          if (!data) {
+            throw new Error('Failed to refresh token');
+          }
+          this.setSession(data.token, data.csrfToken);
+          return data.token;
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+    return this.refreshPromise;
+  }
+
+  // Register the UI that asks the user to re-authenticate (only one can be active)
+  setReauthHandler(handler: (() => Promise<boolean>) | null) {
+    this.reauthHandler = handler;
+  }
+
+  // Concurrent requests that need re-authentication share one prompt
+  private requestReauthentication(): Promise<boolean> {
+    if (!this.reauthPromise && this.reauthHandler) {
+      this.reauthPromise = this.reauthHandler().finally(() => {
+        this.reauthPromise = null;
+      });
+    }
+    return this.reauthPromise || Promise.resolve(false);
+  }
+
+  // Store the access token (memory) and CSRF token returned by a login or refresh
+  setSession(token: string, csrfToken: string) {
+    this.accessToken = token;
+    localStorage.setItem('csrfToken', csrfToken);
+  }
+
   // Set authentication token
   setAuthToken(token: string) {
-    localStorage.setItem('token', token);
+    this.accessToken = token;
   }
 
   // Remove authentication token
   removeAuthToken() {
-    localStorage.removeItem('token');
+    this.accessToken = null;
+    localStorage.removeItem('csrfToken');
     localStorage.removeItem('user');
   }
 
   // Get current auth token
   getAuthToken(): string | null {
-    return localStorage.getItem('token');
+    return this.accessToken;
+  }
+
+  // CSRF token paired with the refresh cookie; its presence means a session may exist
+  getCsrfToken(): string | null {
+    return localStorage.getItem('csrfToken');
   }
 
   // Check if user is authenticated
@@ -1,28 +1,195 @@
+import { startAuthentication, startRegistration } from '@simplewebauthn/browser';
+import type {
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON
+} from '@simplewebauthn/browser';
 import apiService from './api';
-import type { LoginCredentials, RegisterData, AuthResponse, User } from '../types';
+import type { 
+  LoginCredentials, 
+  RegisterData, 
+  AuthResponse, 
+  User, 
+  PasswordChangeData, 
+  PasswordCheck, 
+  PasswordCheckContext, 
+  AccountExport, 
+  AccountDeletion, 
+  ActiveSession, 
+  TwoFactorChallenge, 
+  OidcConfig, 
+  TwoFactorSetup, 
+  Passkey, 
+  PasskeyAssertion, 
+  ApiKey, 
+  ApiKeyData, 
+  CreatedApiKey, 
+  AuditEventPage, 
+  ProfilePictureSizes, 
+  ReauthData, 
+  Reauthentication, 
+  SecuritySettings, 
+  LockScreenSettings, 
+  ScreenUnlockData 
+} from '../types';
+import { resetIdleLock } from '../utils/idleLock';
+
+// Kept for the round trip to the identity provider; sessionStorage keeps it to this tab
+const OIDC_FLOW_KEY = 'oidcFlowToken';
+
+interface PasskeyOptions<T> {
+  options: T;
+  challengeToken: string;
+}
 
 class AuthService {
   /**
-   * Login user with email/username and password
+   * Login user with email/username and password.
+   * Resolves with a challenge instead when the account has 2FA enabled.
    */
-  async login(credentials: LoginCredentials): Promise<AuthResponse> {
-    const response = await apiService.post<AuthResponse['data']>('/auth/login', credentials);
+  async login(credentials: LoginCredentials): Promise<AuthResponse | TwoFactorChallenge> {
+    const response = await apiService.post<AuthResponse['data'] | TwoFactorChallenge>('/auth/login', credentials);
     
     if (response.success && response.data) {
-      // Store token and user data
-      apiService.setAuthToken(response.data.token);
-      localStorage.setItem('user', JSON.stringify(response.data.user));
-      
-      return {
-        success: response.success,
-        message: response.message || 'Login successful',
-        data: response.data
-      };
+      if ('requiresTwoFactor' in response.data) {
+        return response.data;
+      }
+
+      return this.completeLogin(response.data, response.message || 'Login successful');
     }
     
     throw new Error(response.message || 'Login failed');
   }
 
+  /**
+   * Finish a 2FA login with an authenticator or recovery code
+   */
+  async verifyTwoFactorLogin(twoFactorToken: string, code: string): Promise<AuthResponse> {
+    const response = await apiService.post<AuthResponse['data']>('/auth/login/2fa', { twoFactorToken, code });
+    
+    if (response.success && response.data) {
+      return this.completeLogin(response.data, response.message || 'Login successful');
+    }
+    
+    throw new Error(response.message || 'Two-factor verification failed');
+  }
+
+  /**
+   * Sign in with a passkey. Without an identifier the browser offers any passkey saved for this site.
+   */
+  async loginWithPasskey(identifier?: string, rememberMe = false): Promise<AuthResponse> {
+    const optionsResponse = await apiService.post<PasskeyOptions<PublicKeyCredentialRequestOptionsJSON>>(
+      '/auth/webauthn/login/options',
+      { identifier: identifier || undefined }
+    );
+    
+    if (!optionsResponse.success || !optionsResponse.data) {
+      throw new Error(optionsResponse.message || 'Failed to start passkey sign-in');
+    }
+
+    const { options, challengeToken } = optionsResponse.data;
+    const assertion = await startAuthentication({ optionsJSON: options });
+
+    const response = await apiService.post<AuthResponse['data']>('/auth/webauthn/login/verify', {
+      challengeToken,
+      response: assertion,
+      rememberMe
+    });
+    
+    if (response.success && response.data) {
+      return this.completeLogin(response.data, response.message || 'Login successful');
+    }
+    
+    throw new Error(response.message || 'Passkey sign-in failed');
+  }
+
+  /**
+   * Whether single sign-on is configured, and the provider name to show
+   */
+  async getOidcConfig(): Promise<OidcConfig> {
+    const response = await apiService.get<OidcConfig>('/auth/oidc/config');
+
+    if (response.success && response.data) {
+      return response.data;
+    }
+
+    throw new Error(response.message || 'Failed to load single sign-on settings');
+  }
+
+  /**
+   * Send the browser to the identity provider. It comes back to /oidc/callback.
+   */
+  async startOidcLogin(rememberMe = false): Promise<void> {
+    const response = await apiService.post<{ authorizationUrl: string; flowToken: string }>(
+      '/auth/oidc/authorize',
+      { rememberMe }
+    );
+
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Failed to start single sign-on');
+    }
+
+    sessionStorage.setItem(OIDC_FLOW_KEY, response.data.flowToken);
+    window.location.assign(response.data.authorizationUrl);
+  }
+
+  /**
+   * Finish single sign-on with the code and state from the provider redirect.
+   * Resolves with a challenge instead when the account has 2FA enabled.
+   */
+  async completeOidcLogin(code: string, state: string): Promise<AuthResponse | TwoFactorChallenge> {
+    const flowToken = sessionStorage.getItem(OIDC_FLOW_KEY);
+    sessionStorage.removeItem(OIDC_FLOW_KEY);
+
+    if (!flowToken) {
+      throw new Error('Single sign-on was not started in this tab. Please try again.');
+    }
+
+    const response = await apiService.post<AuthResponse['data'] | TwoFactorChallenge>('/auth/oidc/callback', {
+      code,
+      state,
+      flowToken
+    });
+
+    if (response.success && response.data) {
+      if ('requiresTwoFactor' in response.data) {
+        return response.data;
+      }
+
+      return this.completeLogin(response.data, response.message || 'Login successful');
+    }
+
+    throw new Error(response.message || 'Single sign-on failed');
+  }
+
+  /**
+   * Store token and user data after a successful login
+   */
+  private completeLogin(data: AuthResponse['data'], message: string): AuthResponse {
+    apiService.setSession(data.token, data.csrfToken);
+    localStorage.setItem('user', JSON.stringify(data.user));
+    resetIdleLock();
+    
+    return {
+      success: true,
+      message,
+      data
+    };
+  }
+
+  /**
+   * Score a candidate password against the server's password policy,
+   * including the breached-password list
+   */
+  async checkPassword(password: string, context: PasswordCheckContext = {}): Promise<PasswordCheck> {
+    const response = await apiService.post<PasswordCheck>('/auth/password-check', { password, ...context });
+
+    if (response.success && response.data) {
+      return response.data;
+    }
+
+    throw new Error(response.message || 'Failed to check password');
+  }
+
   /**
    * Register new user
    */
@@ -30,15 +197,7 @@ class AuthService {
     const response = await apiService.post<AuthResponse['data']>('/auth/register', userData);
     
     if (response.success && response.data) {
-      // Store token and user data
-      apiService.setAuthToken(response.data.token);
-      localStorage.setItem('user', JSON.stringify(response.data.user));
-      
-      return {
-        success: response.success,
-        message: response.message || 'Registration successful',
-        data: response.data
-      };
+      return this.completeLogin(response.data, response.message || 'Registration successful');
     }
     
     throw new Error(response.message || 'Registration failed');
@@ -56,6 +215,7 @@ class AuthService {
     } finally {
       // Always clear local storage
       apiService.removeAuthToken();
+      resetIdleLock();
     }
   }
 
@@ -90,17 +250,417 @@ class AuthService {
   }
 
   /**
-   * Refresh JWT token
+   * Change password; the server revokes older tokens and returns a new one
    */
-  async refreshToken(): Promise<string> {
-    const response = await apiService.post<{ token: string; expiresIn: string }>('/auth/refresh');
+  async changePassword(data: PasswordChangeData): Promise<void> {
+    const response = await apiService.put<{ token: string; csrfToken: string; expiresIn: string }>('/auth/password', data);
+    
+    if (response.success && response.data) {
+      apiService.setSession(response.data.token, response.data.csrfToken);
+      return;
+    }
+    
+    throw new Error(response.message || 'Failed to change password');
+  }
+
+  /**
+   * Turn new sign-in alert emails on or off
+   */
+  async setLoginNotifications(enabled: boolean): Promise<void> {
+    const response = await apiService.put('/auth/profile', {
+      securitySettings: { loginNotifications: enabled }
+    });
+    
+    if (!response.success) {
+      throw new Error(response.message || 'Failed to update sign-in alerts');
+    }
+  }
+
+  /**
+   * Lift a failed-login lockout with the token from the unlock email
+   */
+  async unlockAccount(token: string): Promise<string> {
+    const response = await apiService.post('/auth/unlock', { token });
+    
+    if (response.success) {
+      return response.message || 'Your account has been unlocked';
+    }
+    
+    throw new Error(response.message || 'Failed to unlock account');
+  }
+
+  /**
+   * Report an unrecognised sign-in from a login alert email.
+   * Every session is revoked server-side; returns a token for choosing a new password.
+   */
+  async secureAccount(token: string): Promise<string> {
+    const response = await apiService.post<{ resetToken: string }>('/auth/secure-account', { token });
+    
+    if (response.success && response.data) {
+      // The server has already signed this device out too
+      apiService.removeAuthToken();
+      return response.data.resetToken;
+    }
+    
+    throw new Error(response.message || 'Failed to secure account');
+  }
+
+  /**
+   * Request a password reset link (the response never reveals whether the account exists)
+   */
+  async forgotPassword(email: string): Promise<string> {
+    const response = await apiService.post('/auth/forgot-password', { email });
+    
+    if (response.success) {
+      return response.message || 'If an account exists for this email, a reset link has been sent.';
+    }
+    
+    throw new Error(response.message || 'Failed to request password reset');
+  }
+
+  /**
+   * Set a new password using the token from a reset link
+   */
+  async resetPassword(token: string, password: string): Promise<string> {
+    const response = await apiService.post('/auth/reset-password', { token, password });
+    
+    if (response.success) {
+      return response.message || 'Password reset successfully';
+    }
+    
+    throw new Error(response.message || 'Failed to reset password');
+  }
+
+  /**
+   * Confirm an email address with the token from a verification link
+   */
+  async verifyEmail(token: string): Promise<void> {
+    const response = await apiService.get('/auth/verify-email', { token });
+    
+    if (!response.success) {
+      throw new Error(response.message || 'Failed to verify email');
+    }
+  }
+
+  /**
+   * Send a new verification link to the current email address
+   */
+  async resendVerificationEmail(): Promise<string> {
+    const response = await apiService.post('/auth/verify-email/resend');
+    
+    if (response.success) {
+      return response.message || 'Verification email sent';
+    }
+    
+    throw new Error(response.message || 'Failed to send verification email');
+  }
+
+  /**
+   * Get an archive of all data stored for the account
+   */
+  async exportAccountData(): Promise<AccountExport> {
+    const response = await apiService.get<{ export: AccountExport }>('/auth/account/export');
+    
+    if (response.success && response.data) {
+      return response.data.export;
+    }
+    
+    throw new Error(response.message || 'Failed to export account data');
+  }
+
+  /**
+   * Schedule account deletion; the response includes a final data export
+   */
+  async deleteAccount(password: string, code?: string, passkey?: PasskeyAssertion): Promise<AccountDeletion> {
+    const response = await apiService.delete<AccountDeletion>('/auth/account', { password, code, passkey });
+    
+    if (response.success && response.data) {
+      return response.data;
+    }
+    
+    throw new Error(response.message || 'Failed to delete account');
+  }
+
+  /**
+   * List the devices currently signed in to the account
+   */
+  async getSessions(): Promise<ActiveSession[]> {
+    const response = await apiService.get<{ sessions: ActiveSession[] }>('/auth/sessions');
+    
+    if (response.success && response.data) {
+      return response.data.sessions;
+    }
+    
+    throw new Error(response.message || 'Failed to fetch sessions');
+  }
+
+  /**
+   * Sign out a single device
+   */
+  async revokeSession(sessionId: string): Promise<void> {
+    const response = await apiService.delete(`/auth/sessions/${sessionId}`);
+    
+    if (!response.success) {
+      throw new Error(response.message || 'Failed to revoke session');
+    }
+  }
+
+  /**
+   * Sign out every device except this one
+   */
+  async revokeOtherSessions(): Promise<number> {
+    const response = await apiService.delete<{ revoked: number }>('/auth/sessions');
+    
+    if (response.success && response.data) {
+      return response.data.revoked;
+    }
+    
+    throw new Error(response.message || 'Failed to revoke sessions');
+  }
+
+  /**
+   * Start 2FA enrollment and get the secret and QR code
+   */
+  async setupTwoFactor(): Promise<TwoFactorSetup> {
+    const response = await apiService.post<TwoFactorSetup>('/auth/2fa/setup');
+    
+    if (response.success && response.data) {
+      return response.data;
+    }
+    
+    throw new Error(response.message || 'Failed to start two-factor setup');
+  }
+
+  /**
+   * Confirm 2FA enrollment; returns the one-time recovery codes
+   */
+  async enableTwoFactor(code: string): Promise<string[]> {
+    const response = await apiService.post<{ recoveryCodes: string[] }>('/auth/2fa/verify', { code });
+    
+    if (response.success && response.data) {
+      return response.data.recoveryCodes;
+    }
+    
+    throw new Error(response.message || 'Failed to enable two-factor authentication');
+  }
+
+  /**
+   * Replace the recovery codes with a fresh set
+   */
+  async regenerateRecoveryCodes(code: string): Promise<string[]> {
+    const response = await apiService.post<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', { code });
+    
+    if (response.success && response.data) {
+      return response.data.recoveryCodes;
+    }
+    
+    throw new Error(response.message || 'Failed to regenerate recovery codes');
+  }
+
+  /**
+   * Disable 2FA
+   */
+  async disableTwoFactor(password: string, code: string, passkey?: PasskeyAssertion): Promise<void> {
+    const response = await apiService.post('/auth/2fa/disable', { password, code, passkey });
+    
+    if (!response.success) {
+      throw new Error(response.message || 'Failed to disable two-factor authentication');
+    }
+  }
+
+  /**
+   * List the passkeys registered to the account
+   */
+  async getPasskeys(): Promise<Passkey[]> {
+    const response = await apiService.get<{ passkeys: Passkey[] }>('/auth/webauthn/credentials');
+    
+    if (response.success && response.data) {
+      return response.data.passkeys;
+    }
+    
+    throw new Error(response.message || 'Failed to fetch passkeys');
+  }
+
+  /**
+   * Create a passkey on this device (or a security key) and register it
+   */
+  async registerPasskey(name?: string): Promise<Passkey> {
+    const optionsResponse = await apiService.post<PasskeyOptions<PublicKeyCredentialCreationOptionsJSON>>(
+      '/auth/webauthn/register/options'
+    );
+    
+    if (!optionsResponse.success || !optionsResponse.data) {
+      throw new Error(optionsResponse.message || 'Failed to start passkey setup');
+    }
+
+    const { options, challengeToken } = optionsResponse.data;
+    const attestation = await startRegistration({ optionsJSON: options });
+
+    const response = await apiService.post<{ passkey: Passkey }>('/auth/webauthn/register/verify', {
+      challengeToken,
+      response: attestation,
+      name: name || undefined
+    });
+    
+    if (response.success && response.data) {
+      return response.data.passkey;
+    }
+    
+    throw new Error(response.message || 'Failed to add passkey');
+  }
+
+  /**
+   * Remove a registered passkey
+   */
+  async removePasskey(passkeyId: string): Promise<void> {
+    const response = await apiService.delete(`/auth/webauthn/credentials/${encodeURIComponent(passkeyId)}`);
+    
+    if (!response.success) {
+      throw new Error(response.message || 'Failed to remove passkey');
+    }
+  }
+
+  /**
+   * Confirm the current session with a password, authentication code or passkey
+   */
+  async reauthenticate(data: ReauthData): Promise<Reauthentication> {
+    const response = await apiService.post<Reauthentication>('/auth/reauthenticate', data);
+    
+    if (response.success && response.data) {
+      return response.data;
+    }
+    
+    throw new Error(response.message || 'Failed to confirm your identity');
+  }
+
+  /**
+   * Change the auto-lock timeout or set/remove the lock screen PIN
+   */
+  async updateLockScreen(settings: LockScreenSettings): Promise<Pick<SecuritySettings, 'autoLockMinutes' | 'lockPinEnabled'>> {
+    const response = await apiService.put<{ securitySettings: Pick<SecuritySettings, 'autoLockMinutes' | 'lockPinEnabled'> }>('/auth/lock-screen', settings);
     
     if (response.success && response.data) {
-      apiService.setAuthToken(response.data.token);
-      return response.data.token;
+      return response.data.securitySettings;
     }
     
-    throw new Error(response.message || 'Failed to refresh token');
+    throw new Error(response.message || 'Failed to update lock screen settings');
+  }
+
+  /**
+   * Check the PIN or password that unlocks the idle-locked app
+   */
+  async unlockScreen(data: ScreenUnlockData): Promise<void> {
+    const response = await apiService.post('/auth/lock-screen/unlock', data);
+    
+    if (!response.success) {
+      throw new Error(response.message || 'Failed to unlock');
+    }
+  }
+
+  /**
+   * Ask one of the user's passkeys to confirm a sensitive action
+   */
+  async confirmWithPasskey(): Promise<PasskeyAssertion> {
+    const response = await apiService.post<PasskeyOptions<PublicKeyCredentialRequestOptionsJSON>>(
+      '/auth/webauthn/step-up/options'
+    );
+    
+    if (!response.success || !response.data) {
+      throw new Error(response.message || 'Failed to start passkey verification');
+    }
+
+    const { options, challengeToken } = response.data;
+    return {
+      challengeToken,
+      response: await startAuthentication({ optionsJSON: options })
+    };
+  }
+
+  /**
+   * Upload a new profile picture; the server stores it as resized thumbnails
+   */
+  async uploadProfilePicture(file: File): Promise<ProfilePictureSizes> {
+    const formData = new FormData();
+    formData.append('picture', file);
+
+    const response = await apiService.upload<{ profilePicture: string; profilePictureSizes: ProfilePictureSizes }>(
+      '/auth/profile/picture',
+      formData
+    );
+    
+    if (response.success && response.data) {
+      return response.data.profilePictureSizes;
+    }
+    
+    throw new Error(response.message || 'Failed to upload profile picture');
+  }
+
+  /**
+   * Remove the profile picture
+   */
+  async removeProfilePicture(): Promise<void> {
+    const response = await apiService.delete('/auth/profile/picture');
+    
+    if (!response.success) {
+      throw new Error(response.message || 'Failed to remove profile picture');
+    }
+  }
+
+  /**
+   * Get a page of the account's security activity, newest first
+   */
+  async getAuditEvents(page = 1, limit = 20): Promise<AuditEventPage> {
+    const response = await apiService.get<AuditEventPage>('/auth/audit-events', { page, limit });
+    
+    if (response.success && response.data) {
+      return response.data;
+    }
+    
+    throw new Error(response.message || 'Failed to fetch account activity');
+  }
+
+  /**
+   * List the account's active API keys
+   */
+  async getApiKeys(): Promise<ApiKey[]> {
+    const response = await apiService.get<{ apiKeys: ApiKey[] }>('/auth/api-keys');
+    
+    if (response.success && response.data) {
+      return response.data.apiKeys;
+    }
+    
+    throw new Error(response.message || 'Failed to fetch API keys');
+  }
+
+  /**
+   * Create an API key; the returned key is only available in this response
+   */
+  async createApiKey(data: ApiKeyData): Promise<CreatedApiKey> {
+    const response = await apiService.post<CreatedApiKey>('/auth/api-keys', data);
+    
+    if (response.success && response.data) {
+      return response.data;
+    }
+    
+    throw new Error(response.message || 'Failed to create API key');
+  }
+
+  /**
+   * Revoke an API key
+   */
+  async revokeApiKey(apiKeyId: string): Promise<void> {
+    const response = await apiService.delete(`/auth/api-keys/${apiKeyId}`);
+    
+    if (!response.success) {
+      throw new Error(response.message || 'Failed to revoke API key');
+    }
+  }
+
+  /**
+   * Get a new access token using the refresh token cookie
+   */
+  async refreshToken(): Promise<string> {
+    return apiService.refreshAccessToken();
   }
 
   /**
@@ -119,7 +679,7 @@ class AuthService {
    * Check if user is authenticated
    */
   isAuthenticated(): boolean {
-    return apiService.isAuthenticated() && this.getStoredUser() !== null;
+    return apiService.isAuthenticated();
   }
 
   /**
@@ -133,16 +693,18 @@ class AuthService {
    * Initialize auth state (called on app startup)
    */
   async initializeAuth(): Promise<User | null> {
-    if (!this.isAuthenticated()) {
+    // No CSRF token means there is no refresh cookie worth trying
+    if (!apiService.getCsrfToken()) {
       return null;
     }
 
     try {
-      // Validate token with server and get fresh user data
+      // The access token is not persisted, so restore the session from the refresh cookie
+      await this.refreshToken();
       return await this.getCurrentUser();
-    } catch (error) {
-      // If validation fails, clear auth state
-      this.logout();
+    } catch {
+      // If the refresh cookie is gone or revoked, clear local auth state
+      apiService.removeAuthToken();
       return null;
     }
   }
@@ -5,9 +5,21 @@ import type {
   PortfolioHistory, 
   BuyOrderData, 
   SellOrderData, 
+  SendOrderData,
+  ReceiveInfo,
+  CashOrderData,
+  CashBalances,
   WalletSettings,
   TransactionParams,
-  PaginationData
+  PaginationData,
+  WithdrawalAddress,
+  WithdrawalAddressData,
+  WithdrawalAllowlist,
+  HdAccount,
+  HdAccountKeys,
+  KeystoreBackup,
+  KeystoreCrypto,
+  PasskeyAssertion
 } from '../types';
 
 class WalletService {
@@ -50,6 +62,58 @@ class WalletService {
     throw new Error(response.message || 'Failed to sell cryptocurrency');
   }
 
+  /**
+   * Send cryptocurrency to another user by wallet address or username
+   */
+  async sendCryptocurrency(orderData: SendOrderData): Promise<{ transaction: Transaction; wallet: Partial<Wallet>; message: string }> {
+    const response = await apiService.post<{ transaction: Transaction; wallet: Partial<Wallet> }>('/wallet/send', orderData);
+
+    if (response.success && response.data) {
+      return { ...response.data, message: response.message || '' };
+    }
+
+    throw new Error(response.message || 'Failed to send cryptocurrency');
+  }
+
+  /**
+   * Get the user's own address and QR code for receiving transfers
+   */
+  async getReceiveInfo(): Promise<ReceiveInfo> {
+    const response = await apiService.get<ReceiveInfo>('/wallet/receive');
+
+    if (response.success && response.data) {
+      return response.data;
+    }
+
+    throw new Error(response.message || 'Failed to fetch your receive address');
+  }
+
+  /**
+   * Deposit fiat cash through the payment provider
+   */
+  async depositCash(orderData: CashOrderData): Promise<{ transaction: Transaction; wallet: CashBalances; message: string }> {
+    const response = await apiService.post<{ transaction: Transaction; wallet: CashBalances }>('/wallet/deposit', orderData);
+
+    if (response.success && response.data) {
+      return { ...response.data, message: response.message || '' };
+    }
+
+    throw new Error(response.message || 'Failed to deposit');
+  }
+
+  /**
+   * Withdraw fiat cash through the payment provider
+   */
+  async withdrawCash(orderData: CashOrderData): Promise<{ transaction: Transaction; wallet: CashBalances; message: string }> {
+    const response = await apiService.post<{ transaction: Transaction; wallet: CashBalances }>('/wallet/withdraw', orderData);
+
+    if (response.success && response.data) {
+      return { ...response.data, message: response.message || '' };
+    }
+
+    throw new Error(response.message || 'Failed to withdraw');
+  }
+
   /**
    * Get transaction history
    */
@@ -99,6 +163,121 @@ class WalletService {
     throw new Error(response.message || 'Failed to update wallet settings');
   }
 
+  /**
+   * Get the wallet's HD accounts (empty until the wallet keys are created)
+   */
+  async getHdAccounts(): Promise<HdAccount[]> {
+    const response = await apiService.get<{ accounts: HdAccount[] }>('/wallet/hd-accounts');
+
+    if (response.success && response.data) {
+      return response.data.accounts;
+    }
+
+    throw new Error(response.message || 'Failed to fetch wallet accounts');
+  }
+
+  /**
+   * Register the public keys derived from the recovery phrase (see utils/hdWallet)
+   */
+  async createHdAccounts(accounts: HdAccountKeys[]): Promise<HdAccount[]> {
+    const response = await apiService.post<{ accounts: HdAccount[] }>('/wallet/hd-accounts', { accounts });
+
+    if (response.success && response.data) {
+      return response.data.accounts;
+    }
+
+    throw new Error(response.message || 'Failed to create wallet keys');
+  }
+
+  /**
+   * Get the encrypted keystore backups stored on the server
+   */
+  async getKeystoreBackups(): Promise<KeystoreBackup[]> {
+    const response = await apiService.get<{ backups: KeystoreBackup[] }>('/wallet/keystore-backups');
+
+    if (response.success && response.data) {
+      return response.data.backups;
+    }
+
+    throw new Error(response.message || 'Failed to fetch keystore backups');
+  }
+
+  /**
+   * Store or replace the server backup of a keystore entry (already encrypted, see utils/keystore)
+   */
+  async saveKeystoreBackup(keystoreId: string, crypto: KeystoreCrypto): Promise<KeystoreBackup> {
+    const response = await apiService.put<{ backup: KeystoreBackup }>(`/wallet/keystore-backups/${keystoreId}`, { crypto });
+
+    if (response.success && response.data) {
+      return response.data.backup;
+    }
+
+    throw new Error(response.message || 'Failed to save keystore backup');
+  }
+
+  /**
+   * Remove the server backup of a keystore entry
+   */
+  async deleteKeystoreBackup(keystoreId: string): Promise<void> {
+    const response = await apiService.delete(`/wallet/keystore-backups/${keystoreId}`);
+
+    if (!response.success) {
+      throw new Error(response.message || 'Failed to delete keystore backup');
+    }
+  }
+
+  /**
+   * Get the withdrawal address allowlist
+   */
+  async getWithdrawalAllowlist(): Promise<WithdrawalAllowlist> {
+    const response = await apiService.get<WithdrawalAllowlist>('/wallet/withdrawal-addresses');
+    
+    if (response.success && response.data) {
+      return response.data;
+    }
+    
+    throw new Error(response.message || 'Failed to fetch withdrawal addresses');
+  }
+
+  /**
+   * Add an address to the allowlist. Without a 2FA code or passkey it waits for email confirmation.
+   */
+  async addWithdrawalAddress(data: WithdrawalAddressData, passkey?: PasskeyAssertion): Promise<{ address: WithdrawalAddress; message: string }> {
+    const response = await apiService.post<{ address: WithdrawalAddress }>('/wallet/withdrawal-addresses', { ...data, passkey });
+    
+    if (response.success && response.data) {
+      return { address: response.data.address, message: response.message || '' };
+    }
+    
+    throw new Error(response.message || 'Failed to add withdrawal address');
+  }
+
+  /**
+   * Remove an address from the allowlist. Without a 2FA code or passkey it waits for email confirmation.
+   */
+  async removeWithdrawalAddress(addressId: string, code?: string, passkey?: PasskeyAssertion): Promise<string> {
+    const response = await apiService.delete(`/wallet/withdrawal-addresses/${addressId}`, { code, passkey });
+    
+    if (response.success) {
+      return response.message || '';
+    }
+    
+    throw new Error(response.message || 'Failed to remove withdrawal address');
+  }
+
+  /**
+   * Confirm an allowlist change from the emailed link
+   */
+  async confirmWithdrawalAddress(token: string): Promise<string> {
+    const response = await apiService.post('/wallet/withdrawal-addresses/confirm', { token });
+    
+    if (response.success) {
+      return response.message || '';
+    }
+    
+    throw new Error(response.message || 'Failed to confirm withdrawal address');
+  }
+
   /**
    * Get transaction by ID
    */
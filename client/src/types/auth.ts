@@ -1,3 +1,5 @@
+import type { AuthenticationResponseJSON } from '@simplewebauthn/browser';
+
 export interface User {
   id: string;
   username: string;
@@ -5,18 +7,50 @@ export interface User {
   firstName: string;
   lastName: string;
   fullName: string;
-  walletAddress: string;
+  walletAddress: string | null; // Ethereum receive address, set once the wallet keys exist
+  hdWalletCreatedAt?: Date | null;
+  role?: UserRole;
   isEmailVerified: boolean;
-  profilePicture?: string;
+  profilePicture?: string | null;
+  profilePictureSizes?: ProfilePictureSizes;
   lastLogin?: Date;
+  securitySettings?: SecuritySettings;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type UserRole = 'user' | 'support' | 'admin';
+
+// URLs of the resized profile picture thumbnails (64, 128 and 256 px squares)
+export interface ProfilePictureSizes {
+  small: string;
+  medium: string;
+  large: string;
+}
+
+export interface SecuritySettings {
+  twoFactorEnabled: boolean;
+  loginNotifications: boolean;
+  autoLockMinutes: number; // 0 turns auto-lock off
+  lockPinEnabled: boolean;
+}
+
+export interface LockScreenSettings {
+  autoLockMinutes?: number;
+  pin?: string | null; // null removes the PIN
+}
+
+// Either one unlocks the idle-locked app
+export interface ScreenUnlockData {
+  pin?: string;
+  password?: string;
+}
+
 export interface LoginCredentials {
   identifier: string; // email or username
   password: string;
   rememberMe?: boolean;
+  captchaToken?: string; // only needed after repeated failures when CAPTCHA is enabled
 }
 
 export interface RegisterData {
@@ -27,23 +61,175 @@ export interface RegisterData {
   lastName: string;
 }
 
+// Details a password must not contain
+export type PasswordCheckContext = Partial<Pick<RegisterData, 'username' | 'email' | 'firstName' | 'lastName'>>;
+
+export interface PasswordCheck {
+  valid: boolean;
+  score: number; // 0 (very weak) to 4 (strong)
+  label: string;
+  breached: boolean;
+  errors: string[];
+}
+
+export interface PasswordChangeData {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface ActiveSession {
+  id: string;
+  userAgent?: string;
+  ipAddress?: string;
+  lastSeenAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+export interface AuditEventChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEvent {
+  id: string;
+  action: string;
+  outcome: 'success' | 'failure';
+  actorType: 'user' | 'apiKey' | 'anonymous';
+  ipAddress?: string;
+  userAgent?: string;
+  changes: AuditEventChange[];
+  metadata: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface AuditEventPage {
+  events: AuditEvent[];
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalEvents: number;
+    hasNextPage: boolean;
+    hasPrevPage: boolean;
+  };
+}
+
+export interface AccountExport {
+  exportedAt: string;
+  user: User;
+  wallet: unknown;
+  transactions: unknown[];
+  withdrawalAddresses: unknown[];
+  auditEvents: AuditEvent[];
+}
+
+export interface AccountDeletion {
+  deletionScheduledFor: string;
+  export: AccountExport;
+}
+
 export interface AuthResponse {
   success: boolean;
   message: string;
   data: {
     user: User;
     token: string;
+    csrfToken: string;
     expiresIn: string;
   };
 }
 
+export interface TwoFactorChallenge {
+  requiresTwoFactor: true;
+  twoFactorToken: string;
+}
+
+export interface OidcConfig {
+  enabled: boolean;
+  providerName: string | null;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // data URL of the otpauth QR code
+}
+
+export interface Passkey {
+  id: string;
+  name: string;
+  deviceType?: 'singleDevice' | 'multiDevice';
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+export type ApiKeyScope = 'read:wallet' | 'read:transactions' | 'trade';
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  allowedIps: string[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt: string;
+}
+
+export interface ApiKeyData {
+  name: string;
+  scopes: ApiKeyScope[];
+  allowedIps?: string[];
+  expiresAt?: string | null;
+}
+
+// Returned once when a key is created; the plaintext key cannot be fetched again
+export interface CreatedApiKey {
+  apiKey: ApiKey;
+  key: string;
+}
+
+// A signed passkey challenge, sent instead of a 2FA code for sensitive actions
+export interface PasskeyAssertion {
+  challengeToken: string;
+  response: AuthenticationResponseJSON;
+}
+
+// One of these confirms the current session for sensitive actions
+export interface ReauthData {
+  password?: string;
+  code?: string;
+  passkey?: PasskeyAssertion;
+}
+
+export interface Reauthentication {
+  reauthenticatedAt: string;
+  expiresAt: string;
+}
+
 export interface AuthContextType {
   user: User | null;
   token: string | null;
   isLoading: boolean;
   isAuthenticated: boolean;
+  twoFactorPending: boolean;
   login: (credentials: LoginCredentials) => Promise<void>;
+  loginWithPasskey: (identifier?: string, rememberMe?: boolean) => Promise<void>;
+  completeOidcLogin: (code: string, state: string) => Promise<void>;
+  verifyTwoFactor: (code: string) => Promise<void>;
+  cancelTwoFactor: () => void;
   register: (data: RegisterData) => Promise<void>;
   logout: () => void;
   updateProfile: (data: Partial<User>) => Promise<void>;
+  refreshUser: () => Promise<void>;
+}
+
+export interface LockContextType {
+  isLocked: boolean;
+  autoLockMinutes: number;
+  lock: () => void;
+  unlock: (data: ScreenUnlockData) => Promise<void>;
 }
\ No newline at end of file
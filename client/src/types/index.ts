@@ -19,6 +19,10 @@ export interface ApiError {
   message: string;
   details?: any[];
   status?: number;
+  retryAfter?: number; // seconds until another login attempt is allowed
+  lockedUntil?: string;
+  captchaRequired?: boolean;
+  reauthRequired?: boolean; // the action needs a recent password, code or passkey confirmation
 }
 
 export * from './auth';
@@ -12,7 +12,9 @@ export interface Currency {
 export interface Wallet {
   id: string;
   user: string;
-  totalBalance: number;
+  totalBalance: number; // fiat cash, including heldBalance
+  heldBalance: number; // reserved for withdrawals still being processed
+  availableBalance: number;
   totalPortfolioValue: number;
   totalProfitLoss: number;
   totalProfitLossPercentage: number;
@@ -33,6 +35,122 @@ export interface WalletSettings {
     hideBalances: boolean;
     publicProfile: boolean;
   };
+  withdrawals: {
+    allowlistOnly: boolean;
+    allowlistOnlyEndsAt: string | null;
+  };
+}
+
+export type HdChain = 'BTC' | 'ETH';
+
+// Watch-only account as stored by the server
+export interface HdAccount {
+  chain: HdChain;
+  name: string;
+  derivationPath: string; // account level, e.g. m/44'/60'/0'
+  xpub: string;
+  receiveAddress: string;
+  createdAt: string;
+}
+
+// Public keys derived in the browser and sent to the server
+export interface HdAccountKeys {
+  chain: HdChain;
+  xpub: string;
+  address: string;
+}
+
+export type KeystoreKind = 'mnemonic' | 'privateKey';
+
+export type KeystoreKdf = 'scrypt' | 'pbkdf2';
+
+export interface ScryptParams {
+  dklen: number;
+  n: number;
+  r: number;
+  p: number;
+  salt: string; // hex
+}
+
+export interface Pbkdf2Params {
+  dklen: number;
+  c: number;
+  prf: 'hmac-sha256';
+  salt: string; // hex
+}
+
+// Password-encrypted secret; the layout follows the Ethereum V3 keystore
+export interface KeystoreCrypto {
+  cipher: 'aes-256-gcm';
+  ciphertext: string; // hex, including the GCM tag
+  cipherparams: { iv: string };
+  kdf: KeystoreKdf;
+  kdfparams: ScryptParams | Pbkdf2Params;
+}
+
+export interface KeystoreAddress {
+  chain: HdChain;
+  address: string;
+}
+
+// Recovery phrase or private key kept encrypted in this browser's IndexedDB
+export interface KeystoreEntry {
+  id: string;
+  name: string;
+  kind: KeystoreKind;
+  addresses: KeystoreAddress[];
+  crypto: KeystoreCrypto;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Opt-in server copy of a keystore entry; everything but the id is inside the ciphertext
+export interface KeystoreBackup {
+  keystoreId: string;
+  crypto: KeystoreCrypto;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Standard Ethereum keystore file (Web3 Secret Storage, version 3)
+export interface V3Keystore {
+  version: 3;
+  id: string;
+  address: string; // lowercase hex without 0x
+  crypto: {
+    cipher: 'aes-128-ctr';
+    ciphertext: string;
+    cipherparams: { iv: string };
+    kdf: KeystoreKdf;
+    kdfparams: ScryptParams | Pbkdf2Params;
+    mac: string;
+  };
+}
+
+export type WithdrawalAddressStatus = 'unconfirmed' | 'cooling_off' | 'active';
+
+export interface WithdrawalAddress {
+  id: string;
+  address: string;
+  label: string;
+  status: WithdrawalAddressStatus;
+  confirmedAt: string | null;
+  activatesAt: string | null;
+  removalRequestedAt: string | null;
+  createdAt: string;
+}
+
+export interface WithdrawalAllowlist {
+  addresses: WithdrawalAddress[];
+  allowlistOnly: boolean;
+  allowlistOnlyEndsAt: string | null;
+  cooldownHours: number;
+}
+
+export interface WithdrawalAddressData {
+  address: string;
+  label: string;
+  code?: string;
 }
 
 export interface Transaction {
@@ -58,6 +176,12 @@ export interface Transaction {
   transactionHash?: string;
   fromAddress?: string;
   toAddress?: string;
+  counterparty?: string | null; // the other user of an internal send/receive
+  relatedTransaction?: string | null;
+  payment?: {
+    provider?: string;
+    failureReason?: string;
+  };
   blockNumber?: number;
   confirmations: number;
   notes?: string;
@@ -76,22 +200,38 @@ export interface PortfolioHistory {
   }[];
 }
 
+// Trades are priced by the server at the current market price
 export interface BuyOrderData {
   symbol: string;
-  name: string;
   amount: number;
-  price: number;
-  fiatAmount: number;
   notes?: string;
 }
 
 export interface SellOrderData {
   symbol: string;
   amount: number;
-  price: number;
   notes?: string;
 }
 
+export interface CashOrderData {
+  amount: number;
+}
+
+export type CashBalances = Pick<Wallet, 'totalBalance' | 'heldBalance' | 'availableBalance'>;
+
+export interface SendOrderData {
+  recipient: string; // wallet address or username
+  symbol: string;
+  amount: number;
+  notes?: string;
+}
+
+export interface ReceiveInfo {
+  username: string;
+  walletAddress: string | null; // null until the wallet keys are created
+  qrCode: string | null; // data URL of the address
+}
+
 export interface WalletContextType {
   wallet: Wallet | null;
   transactions: Transaction[];
@@ -102,6 +242,9 @@ export interface WalletContextType {
   fetchPortfolioHistory: (days?: number) => Promise<void>;
   buyCryptocurrency: (data: BuyOrderData) => Promise<void>;
   sellCryptocurrency: (data: SellOrderData) => Promise<void>;
+  sendCryptocurrency: (data: SendOrderData) => Promise<string>;
+  depositCash: (data: CashOrderData) => Promise<string>;
+  withdrawCash: (data: CashOrderData) => Promise<string>;
   updateWalletSettings: (settings: Partial<WalletSettings>) => Promise<void>;
 }
 
@@ -172,20 +172,6 @@ export const calculatePercentageChange = (
   return ((currentValue - previousValue) / previousValue) * 100;
 };
 
-/**
- * Generate wallet address (mock)
- */
-export const generateWalletAddress = (): string => {
-  const chars = '0123456789abcdef';
-  let address = '0x';
-  
-  for (let i = 0; i < 40; i++) {
-    address += chars[Math.floor(Math.random() * chars.length)];
-  }
-  
-  return address;
-};
-
 /**
  * Copy text to clipboard
  */
@@ -199,6 +185,20 @@ export const copyToClipboard = async (text: string): Promise<boolean> => {
   }
 };
 
+/**
+ * Save data as a JSON file download
+ */
+export const downloadJson = (filename: string, data: unknown): void => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 /**
  * Validate email format
  */
@@ -208,32 +208,11 @@ export const isValidEmail = (email: string): boolean => {
 };
 
 /**
- * Validate password strength
+ * Extract a user-facing message from a thrown ApiError or Error
  */
-export const validatePassword = (password: string): {
-  isValid: boolean;
-  errors: string[];
-} => {
-  const errors: string[] = [];
-  
-  if (password.length < 6) {
-    errors.push('Password must be at least 6 characters long');
-  }
-  
-  if (!/[a-z]/.test(password)) {
-    errors.push('Password must contain at least one lowercase letter');
-  }
-  
-  if (!/[A-Z]/.test(password)) {
-    errors.push('Password must contain at least one uppercase letter');
+export const getErrorMessage = (error: unknown, fallback = 'Something went wrong'): string => {
+  if (error && typeof error === 'object' && 'message' in error && typeof error.message === 'string') {
+    return error.message || fallback;
   }
-  
-  if (!/\d/.test(password)) {
-    errors.push('Password must contain at least one number');
-  }
-  
-  return {
-    isValid: errors.length === 0,
-    errors,
-  };
-};
\ No newline at end of file
+  return fallback;
+};
@@ -0,0 +1,112 @@
+import { generateMnemonic, mnemonicToSeed, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english.js';
+import { HDKey } from '@scure/bip32';
+import { createBase58check } from '@scure/base';
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import { keccak_256 } from '@noble/hashes/sha3.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { ripemd160 } from '@noble/hashes/legacy.js';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils.js';
+import type { HdAccountKeys, HdChain, KeystoreAddress } from '../types';
+
+/**
+ * Key management for the user's HD wallet. The recovery phrase is generated and
+ * used only here in the browser; the server receives the account-level extended
+ * public keys and addresses, never the phrase or any private key.
+ */
+
+// BIP44 coin types; keep in sync with server/utils/hdWallet.js
+export const HD_CHAINS: Record<HdChain, { name: string; coinType: number }> = {
+  BTC: { name: 'Bitcoin', coinType: 0 },
+  ETH: { name: 'Ethereum', coinType: 60 },
+};
+
+const BTC_P2PKH_VERSION = 0x00;
+
+const base58check = createBase58check(sha256);
+
+export const getAccountPath = (chain: HdChain, account = 0): string =>
+  `m/44'/${HD_CHAINS[chain].coinType}'/${account}'`;
+
+// 128 bits of entropy gives 12 words, 256 bits gives 24
+export const createMnemonic = (words: 12 | 24 = 12): string =>
+  generateMnemonic(wordlist, words === 24 ? 256 : 128);
+
+// Lowercase and collapse whitespace so a pasted or typed phrase validates
+export const normalizeMnemonic = (mnemonic: string): string =>
+  mnemonic.trim().toLowerCase().split(/\s+/).join(' ');
+
+export const isValidMnemonic = (mnemonic: string): boolean =>
+  validateMnemonic(normalizeMnemonic(mnemonic), wordlist);
+
+/**
+ * EIP-55 mixed-case checksum encoding of a 20-byte Ethereum address
+ */
+const toChecksumAddress = (hexAddress: string): string => {
+  const lower = hexAddress.toLowerCase().replace(/^0x/, '');
+  const hash = bytesToHex(keccak_256(utf8ToBytes(lower)));
+
+  let result = '0x';
+  for (let i = 0; i < lower.length; i++) {
+    result += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return result;
+};
+
+const encodeAddress = (chain: HdChain, publicKey: Uint8Array): string => {
+  if (chain === 'BTC') {
+    return base58check.encode(Uint8Array.from([BTC_P2PKH_VERSION, ...ripemd160(sha256(publicKey))]));
+  }
+
+  // Ethereum: last 20 bytes of the keccak hash of the uncompressed key (without its 0x04 prefix)
+  const uncompressed = secp256k1.Point.fromBytes(publicKey).toBytes(false);
+  return toChecksumAddress(bytesToHex(keccak_256(uncompressed.slice(1)).slice(-20)));
+};
+
+/**
+ * Addresses a single private key controls on every supported chain
+ */
+export const getKeyAddresses = (privateKey: Uint8Array): KeystoreAddress[] => {
+  const publicKey = secp256k1.getPublicKey(privateKey, true);
+  return (Object.keys(HD_CHAINS) as HdChain[]).map((chain) => ({
+    chain,
+    address: encodeAddress(chain, publicKey),
+  }));
+};
+
+/**
+ * Private key of a chain's first receive address (m/44'/coin'/0'/0/0)
+ */
+export const deriveReceivePrivateKey = async (mnemonic: string, chain: HdChain): Promise<Uint8Array> => {
+  const seed = await mnemonicToSeed(normalizeMnemonic(mnemonic));
+  const receiveKey = HDKey.fromMasterSeed(seed).derive(`${getAccountPath(chain)}/0/0`);
+
+  if (!receiveKey.privateKey) {
+    throw new Error('Unable to derive wallet keys');
+  }
+  return receiveKey.privateKey;
+};
+
+/**
+ * Derive the first account of every supported chain from a recovery phrase:
+ * the account's extended public key (m/44'/coin'/0') and its first receive address (…/0/0).
+ */
+export const deriveHdAccounts = async (mnemonic: string): Promise<HdAccountKeys[]> => {
+  const seed = await mnemonicToSeed(normalizeMnemonic(mnemonic));
+  const root = HDKey.fromMasterSeed(seed);
+
+  return (Object.keys(HD_CHAINS) as HdChain[]).map((chain) => {
+    const account = root.derive(getAccountPath(chain));
+    const receiveKey = account.deriveChild(0).deriveChild(0);
+
+    if (!receiveKey.publicKey) {
+      throw new Error('Unable to derive wallet keys');
+    }
+
+    return {
+      chain,
+      xpub: account.publicExtendedKey,
+      address: encodeAddress(chain, receiveKey.publicKey),
+    };
+  });
+};
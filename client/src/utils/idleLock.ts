@@ -0,0 +1,32 @@
+// Idle lock state lives in localStorage so every tab shares it and it survives reloads
+export const LAST_ACTIVITY_KEY = 'lastActivityAt';
+export const SCREEN_LOCKED_KEY = 'screenLocked';
+
+// Matches the server default for securitySettings.autoLockMinutes
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+export const getLastActivity = (): number => {
+  return Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || Date.now();
+};
+
+export const recordActivity = (): void => {
+  localStorage.setItem(LAST_ACTIVITY_KEY, String(Date.now()));
+};
+
+export const isScreenLocked = (): boolean => {
+  return localStorage.getItem(SCREEN_LOCKED_KEY) === 'true';
+};
+
+export const setScreenLocked = (locked: boolean): void => {
+  if (locked) {
+    localStorage.setItem(SCREEN_LOCKED_KEY, 'true');
+  } else {
+    localStorage.removeItem(SCREEN_LOCKED_KEY);
+  }
+};
+
+// Start from a clean slate, e.g. after signing in or out
+export const resetIdleLock = (): void => {
+  localStorage.removeItem(SCREEN_LOCKED_KEY);
+  recordActivity();
+};
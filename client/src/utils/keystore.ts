@@ -0,0 +1,384 @@
+import { scryptAsync } from '@noble/hashes/scrypt.js';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { keccak_256 } from '@noble/hashes/sha3.js';
+import { bytesToHex, concatBytes, hexToBytes, randomBytes, utf8ToBytes } from '@noble/hashes/utils.js';
+import { secp256k1 } from '@noble/curves/secp256k1.js';
+import {
+  deriveHdAccounts,
+  deriveReceivePrivateKey,
+  getKeyAddresses,
+  isValidMnemonic,
+  normalizeMnemonic,
+} from './hdWallet';
+import type {
+  KeystoreAddress,
+  KeystoreBackup,
+  KeystoreCrypto,
+  KeystoreEntry,
+  KeystoreKdf,
+  KeystoreKind,
+  Pbkdf2Params,
+  ScryptParams,
+  V3Keystore,
+} from '../types';
+
+/**
+ * Password-based encryption of private keys and recovery phrases. Secrets are
+ * sealed with AES-256-GCM under a key stretched from the password (scrypt or
+ * PBKDF2-SHA256); Ethereum V3 keystore files (AES-128-CTR with a keccak MAC)
+ * can be read and written for use with other wallets. Everything runs in the
+ * browser, so neither the password nor the plaintext is ever sent anywhere.
+ */
+
+// 128 MiB per derivation, the same cost ethers uses for keystore files
+const SCRYPT_DEFAULTS = { n: 2 ** 17, r: 8, p: 1 };
+// OWASP's current recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600000;
+
+// Limits for imported files so a crafted one cannot hang or exhaust the browser
+const MAX_SCRYPT_MEMORY = 512 * 1024 * 1024;
+const MAX_PBKDF2_ITERATIONS = 10000000;
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 32;
+const GCM_IV_LENGTH = 12;
+const CTR_IV_LENGTH = 16;
+
+const HEX_PATTERN = /^[0-9a-f]*$/i;
+
+export const INCORRECT_PASSWORD = 'Incorrect password';
+
+// WebCrypto only takes buffers it owns
+const toBuffer = (bytes: Uint8Array): Uint8Array<ArrayBuffer> => new Uint8Array(bytes);
+
+const isScryptParams = (params: ScryptParams | Pbkdf2Params): params is ScryptParams => 'n' in params;
+
+const createKdfParams = (kdf: KeystoreKdf): ScryptParams | Pbkdf2Params => {
+  const salt = bytesToHex(randomBytes(SALT_LENGTH));
+  return kdf === 'scrypt'
+    ? { dklen: KEY_LENGTH, ...SCRYPT_DEFAULTS, salt }
+    : { dklen: KEY_LENGTH, c: PBKDF2_ITERATIONS, prf: 'hmac-sha256', salt };
+};
+
+/**
+ * Stretch a password into an encryption key with the file's KDF and parameters
+ */
+const deriveKey = async (password: string, kdf: KeystoreKdf, params: ScryptParams | Pbkdf2Params): Promise<Uint8Array> => {
+  if (!params || typeof params.salt !== 'string' || !HEX_PATTERN.test(params.salt) || !(params.dklen >= KEY_LENGTH)) {
+    throw new Error('Invalid key derivation parameters');
+  }
+
+  const secret = utf8ToBytes(password);
+  const salt = hexToBytes(params.salt);
+
+  if (kdf === 'scrypt' && isScryptParams(params)) {
+    if (128 * params.n * params.r > MAX_SCRYPT_MEMORY) {
+      throw new Error('The scrypt parameters of this keystore are too expensive to compute');
+    }
+    return scryptAsync(secret, salt, { N: params.n, r: params.r, p: params.p, dkLen: params.dklen });
+  }
+
+  if (kdf === 'pbkdf2' && !isScryptParams(params)) {
+    if (params.prf !== 'hmac-sha256') {
+      throw new Error(`Unsupported PBKDF2 hash: ${params.prf}`);
+    }
+    if (!(params.c > 0 && params.c <= MAX_PBKDF2_ITERATIONS)) {
+      throw new Error('The PBKDF2 iteration count of this keystore is out of range');
+    }
+    return pbkdf2Async(sha256, secret, salt, { c: params.c, dkLen: params.dklen });
+  }
+
+  throw new Error(`Unsupported key derivation function: ${kdf}`);
+};
+
+const aesGcm = async (
+  mode: 'encrypt' | 'decrypt',
+  key: Uint8Array,
+  iv: Uint8Array,
+  data: Uint8Array,
+  additionalData: Uint8Array
+): Promise<Uint8Array> => {
+  const cryptoKey = await crypto.subtle.importKey('raw', toBuffer(key), 'AES-GCM', false, [mode]);
+  const params = { name: 'AES-GCM', iv: toBuffer(iv), additionalData: toBuffer(additionalData) };
+  const result = mode === 'encrypt'
+    ? await crypto.subtle.encrypt(params, cryptoKey, toBuffer(data))
+    : await crypto.subtle.decrypt(params, cryptoKey, toBuffer(data));
+  return new Uint8Array(result);
+};
+
+// CTR mode is its own inverse, so this both encrypts and decrypts
+const aesCtr = async (key: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> => {
+  const cryptoKey = await crypto.subtle.importKey('raw', toBuffer(key), 'AES-CTR', false, ['encrypt']);
+  const result = await crypto.subtle.encrypt({ name: 'AES-CTR', counter: toBuffer(iv), length: 128 }, cryptoKey, toBuffer(data));
+  return new Uint8Array(result);
+};
+
+/**
+ * Encrypt a secret with a password. `associatedData` (e.g. the keystore id) is
+ * authenticated but not encrypted, so a ciphertext cannot be moved to another entry.
+ */
+export const encryptSecret = async (
+  secret: string,
+  password: string,
+  associatedData: string,
+  kdf: KeystoreKdf = 'scrypt'
+): Promise<KeystoreCrypto> => {
+  const kdfparams = createKdfParams(kdf);
+  const key = await deriveKey(password, kdf, kdfparams);
+  const iv = randomBytes(GCM_IV_LENGTH);
+  const ciphertext = await aesGcm('encrypt', key, iv, utf8ToBytes(secret), utf8ToBytes(associatedData));
+
+  return {
+    cipher: 'aes-256-gcm',
+    ciphertext: bytesToHex(ciphertext),
+    cipherparams: { iv: bytesToHex(iv) },
+    kdf,
+    kdfparams,
+  };
+};
+
+/**
+ * Decrypt a secret sealed by encryptSecret. Throws INCORRECT_PASSWORD when the
+ * password (or the associated data) is wrong.
+ */
+export const decryptSecret = async (
+  keystoreCrypto: KeystoreCrypto,
+  password: string,
+  associatedData: string
+): Promise<string> => {
+  if (keystoreCrypto.cipher !== 'aes-256-gcm') {
+    throw new Error(`Unsupported cipher: ${keystoreCrypto.cipher}`);
+  }
+
+  const key = await deriveKey(password, keystoreCrypto.kdf, keystoreCrypto.kdfparams);
+  try {
+    const plaintext = await aesGcm(
+      'decrypt',
+      key,
+      hexToBytes(keystoreCrypto.cipherparams.iv),
+      hexToBytes(keystoreCrypto.ciphertext),
+      utf8ToBytes(associatedData)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error(INCORRECT_PASSWORD);
+  }
+};
+
+/**
+ * Parse a hex private key (with or without 0x) and check it is a valid secp256k1 key
+ */
+export const parsePrivateKey = (value: string): Uint8Array => {
+  const hex = value.trim().replace(/^0x/i, '');
+  if (!/^[0-9a-f]{64}$/i.test(hex)) {
+    throw new Error('A private key is 64 hexadecimal characters');
+  }
+
+  const privateKey = hexToBytes(hex);
+  if (!secp256k1.utils.isValidSecretKey(privateKey)) {
+    throw new Error('That is not a valid private key');
+  }
+  return privateKey;
+};
+
+const getEthereumAddress = (privateKey: Uint8Array): string => {
+  const entry = getKeyAddresses(privateKey).find((address) => address.chain === 'ETH');
+  if (!entry) {
+    throw new Error('Unable to derive the Ethereum address');
+  }
+  return entry.address;
+};
+
+const v3Mac = (derivedKey: Uint8Array, ciphertext: Uint8Array): string =>
+  bytesToHex(keccak_256(concatBytes(derivedKey.slice(16, 32), ciphertext)));
+
+/**
+ * Write a private key as an Ethereum V3 keystore file
+ */
+export const toV3Keystore = async (
+  privateKey: Uint8Array,
+  password: string,
+  kdf: KeystoreKdf = 'scrypt'
+): Promise<V3Keystore> => {
+  const kdfparams = createKdfParams(kdf);
+  const derivedKey = await deriveKey(password, kdf, kdfparams);
+  const iv = randomBytes(CTR_IV_LENGTH);
+  const ciphertext = await aesCtr(derivedKey.slice(0, 16), iv, privateKey);
+
+  return {
+    version: 3,
+    id: crypto.randomUUID(),
+    address: getEthereumAddress(privateKey).slice(2).toLowerCase(),
+    crypto: {
+      cipher: 'aes-128-ctr',
+      ciphertext: bytesToHex(ciphertext),
+      cipherparams: { iv: bytesToHex(iv) },
+      kdf,
+      kdfparams,
+      mac: v3Mac(derivedKey, ciphertext),
+    },
+  };
+};
+
+/**
+ * Read the private key out of an Ethereum V3 keystore file (as JSON text)
+ */
+export const fromV3Keystore = async (json: string, password: string): Promise<Uint8Array> => {
+  let file;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error('The keystore file is not valid JSON');
+  }
+
+  // Some older wallets capitalise the crypto section
+  const section = file?.crypto || file?.Crypto;
+  if (file?.version !== 3 || !section) {
+    throw new Error('Only version 3 keystore files are supported');
+  }
+  if (section.cipher !== 'aes-128-ctr') {
+    throw new Error(`Unsupported keystore cipher: ${section.cipher}`);
+  }
+  const hexFields = [section.ciphertext, section.cipherparams?.iv, section.mac];
+  if (!hexFields.every((value) => typeof value === 'string' && HEX_PATTERN.test(value))) {
+    throw new Error('The keystore file is malformed');
+  }
+
+  const derivedKey = await deriveKey(password, section.kdf, section.kdfparams);
+  const ciphertext = hexToBytes(section.ciphertext);
+  if (v3Mac(derivedKey, ciphertext) !== section.mac.toLowerCase()) {
+    throw new Error(INCORRECT_PASSWORD);
+  }
+
+  const privateKey = parsePrivateKey(bytesToHex(await aesCtr(derivedKey.slice(0, 16), hexToBytes(section.cipherparams.iv), ciphertext)));
+
+  if (typeof file.address === 'string' && file.address) {
+    const expected = getEthereumAddress(privateKey).slice(2).toLowerCase();
+    if (file.address.replace(/^0x/i, '').toLowerCase() !== expected) {
+      throw new Error('The keystore file is corrupted: its address does not match the key');
+    }
+  }
+
+  return privateKey;
+};
+
+// Contents of a server backup; only the keystore id is stored outside the ciphertext
+interface BackupPayload {
+  name: string;
+  kind: KeystoreKind;
+  secret: string;
+}
+
+const getAddresses = async (kind: KeystoreKind, secret: string): Promise<KeystoreAddress[]> => {
+  if (kind === 'privateKey') {
+    return getKeyAddresses(parsePrivateKey(secret));
+  }
+  const accounts = await deriveHdAccounts(secret);
+  return accounts.map(({ chain, address }) => ({ chain, address }));
+};
+
+/**
+ * Encrypt a recovery phrase or hex private key into a new keystore entry (not yet saved)
+ */
+export const createKeystoreEntry = async (
+  name: string,
+  kind: KeystoreKind,
+  secret: string,
+  password: string,
+  kdf: KeystoreKdf = 'scrypt',
+  id: string = crypto.randomUUID()
+): Promise<KeystoreEntry> => {
+  let normalized: string;
+  if (kind === 'mnemonic') {
+    if (!isValidMnemonic(secret)) {
+      throw new Error('That is not a valid 12 or 24 word recovery phrase');
+    }
+    normalized = normalizeMnemonic(secret);
+  } else {
+    normalized = bytesToHex(parsePrivateKey(secret));
+  }
+
+  const now = new Date().toISOString();
+  return {
+    id,
+    name: name.trim() || (kind === 'mnemonic' ? 'Recovery phrase' : 'Imported key'),
+    kind,
+    addresses: await getAddresses(kind, normalized),
+    crypto: await encryptSecret(normalized, password, id, kdf),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Decrypt the recovery phrase or private key (hex) of an entry
+ */
+export const unlockKeystoreEntry = (entry: KeystoreEntry, password: string): Promise<string> =>
+  decryptSecret(entry.crypto, password, entry.id);
+
+/**
+ * Re-encrypt an entry under a new password, keeping its KDF
+ */
+export const changeKeystorePassword = async (
+  entry: KeystoreEntry,
+  currentPassword: string,
+  newPassword: string
+): Promise<KeystoreEntry> => {
+  const secret = await unlockKeystoreEntry(entry, currentPassword);
+  return {
+    ...entry,
+    crypto: await encryptSecret(secret, newPassword, entry.id, entry.crypto.kdf),
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Write an entry as an Ethereum V3 keystore file. A recovery phrase exports
+ * the key of its first Ethereum address (m/44'/60'/0'/0/0).
+ */
+export const exportKeystoreEntry = async (
+  entry: KeystoreEntry,
+  password: string,
+  filePassword: string = password
+): Promise<V3Keystore> => {
+  const secret = await unlockKeystoreEntry(entry, password);
+  const privateKey = entry.kind === 'mnemonic'
+    ? await deriveReceivePrivateKey(secret, 'ETH')
+    : hexToBytes(secret);
+  return toV3Keystore(privateKey, filePassword, entry.crypto.kdf);
+};
+
+/**
+ * Create an entry from an Ethereum V3 keystore file, protected by a (possibly different) password
+ */
+export const importV3KeystoreEntry = async (
+  name: string,
+  json: string,
+  filePassword: string,
+  password: string = filePassword
+): Promise<KeystoreEntry> => {
+  const privateKey = await fromV3Keystore(json, filePassword);
+  return createKeystoreEntry(name, 'privateKey', bytesToHex(privateKey), password);
+};
+
+/**
+ * Encrypt an entry, name included, for the opt-in server backup
+ */
+export const createKeystoreBackup = async (entry: KeystoreEntry, password: string): Promise<KeystoreCrypto> => {
+  const payload: BackupPayload = {
+    name: entry.name,
+    kind: entry.kind,
+    secret: await unlockKeystoreEntry(entry, password),
+  };
+  return encryptSecret(JSON.stringify(payload), password, entry.id, entry.crypto.kdf);
+};
+
+/**
+ * Rebuild the local entry from a server backup
+ */
+export const restoreKeystoreBackup = async (backup: KeystoreBackup, password: string): Promise<KeystoreEntry> => {
+  const payload: BackupPayload = JSON.parse(await decryptSecret(backup.crypto, password, backup.keystoreId));
+  const entry = await createKeystoreEntry(payload.name, payload.kind, payload.secret, password, backup.crypto.kdf, backup.keystoreId);
+  return { ...entry, createdAt: backup.createdAt };
+};
@@ -0,0 +1,55 @@
+import type { KeystoreEntry } from '../types';
+
+// One database per account so people sharing a browser never see each other's keys
+const DB_PREFIX = 'cryptowallet-keystore-';
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDb = (userId: string): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('This browser cannot store keys locally'));
+  }
+
+  const request = indexedDB.open(`${DB_PREFIX}${userId}`, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE)) {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    }
+  };
+  return promisify(request);
+};
+
+const withStore = async <T>(
+  userId: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb(userId);
+  try {
+    return await promisify(run(db.transaction(STORE, mode).objectStore(STORE)));
+  } finally {
+    db.close();
+  }
+};
+
+export const listKeystoreEntries = async (userId: string): Promise<KeystoreEntry[]> => {
+  const entries = await withStore<KeystoreEntry[]>(userId, 'readonly', (store) => store.getAll());
+  return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const getKeystoreEntry = async (userId: string, id: string): Promise<KeystoreEntry | undefined> =>
+  withStore<KeystoreEntry | undefined>(userId, 'readonly', (store) => store.get(id));
+
+export const saveKeystoreEntry = async (userId: string, entry: KeystoreEntry): Promise<void> => {
+  await withStore(userId, 'readwrite', (store) => store.put(entry));
+};
+
+export const deleteKeystoreEntry = async (userId: string, id: string): Promise<void> => {
+  await withStore(userId, 'readwrite', (store) => store.delete(id));
+};
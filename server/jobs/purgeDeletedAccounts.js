@@ -0,0 +1,51 @@
+const User = require('../models/User');
+const { purgeAccount } = require('../utils/accountData');
+
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Hard delete every account whose deletion grace period has ended
+ */
+const purgeDeletedAccounts = async () => {
+  const users = await User.find({
+    isActive: false,
+    deletionScheduledFor: { $ne: null, $lte: new Date() }
+  }).select('_id');
+
+  for (const user of users) {
+    try {
+      await purgeAccount(user._id);
+    } catch (error) {
+      console.error(`Account purge failed for ${user._id}:`, error);
+    }
+  }
+
+  return users.length;
+};
+
+/**
+ * Run the purge on a fixed interval for the lifetime of the process
+ */
+const startAccountPurgeJob = () => {
+  const intervalMs = parseInt(process.env.ACCOUNT_PURGE_INTERVAL_MS) || DEFAULT_INTERVAL_MS;
+
+  const run = async () => {
+    try {
+      const purged = await purgeDeletedAccounts();
+      if (purged > 0) {
+        console.log(`🗑️  Purged ${purged} deleted account(s)`);
+      }
+    } catch (error) {
+      console.error('Account purge job error:', error);
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return timer;
+};
+
+module.exports = {
+  purgeDeletedAccounts,
+  startAccountPurgeJob
+};
@@ -0,0 +1,69 @@
+const Transaction = require('../models/Transaction');
+const { getPaymentProvider } = require('../payments');
+const { settleCashTransaction } = require('../utils/cash');
+
+const DEFAULT_INTERVAL_MS = 60 * 1000; // 1 minute
+
+// A payment is recorded before the provider is asked, so one without a provider reference is
+// either still starting or its request died before the provider answered
+const UNSTARTED_PAYMENT_GRACE_MS = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Ask the payment provider about every pending deposit and withdrawal and settle the finished ones
+ */
+const settlePendingPayments = async () => {
+  const provider = getPaymentProvider();
+  const pending = await Transaction.find({
+    type: { $in: ['deposit', 'withdraw'] },
+    status: 'pending',
+    'payment.provider': provider.name,
+    $or: [
+      { 'payment.reference': { $exists: true } },
+      { createdAt: { $lt: new Date(Date.now() - UNSTARTED_PAYMENT_GRACE_MS) } }
+    ]
+  });
+
+  let settled = 0;
+  for (const transaction of pending) {
+    try {
+      // Failing a payment that never started releases any cash held for it
+      const result = transaction.payment.reference
+        ? await provider.getPaymentStatus(transaction.payment.reference)
+        : { status: 'failed', failureReason: 'The payment was not started with the provider' };
+      if (await settleCashTransaction(transaction, result)) {
+        settled++;
+      }
+    } catch (error) {
+      console.error(`Payment settlement failed for ${transaction._id}:`, error);
+    }
+  }
+
+  return settled;
+};
+
+/**
+ * Run the settlement on a fixed interval for the lifetime of the process
+ */
+const startPaymentSettlementJob = () => {
+  const intervalMs = parseInt(process.env.PAYMENT_SETTLE_INTERVAL_MS) || DEFAULT_INTERVAL_MS;
+
+  const run = async () => {
+    try {
+      const settled = await settlePendingPayments();
+      if (settled > 0) {
+        console.log(`💵 Settled ${settled} payment(s)`);
+      }
+    } catch (error) {
+      console.error('Payment settlement job error:', error);
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return timer;
+};
+
+module.exports = {
+  settlePendingPayments,
+  startPaymentSettlementJob
+};
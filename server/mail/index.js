@@ -0,0 +1,56 @@
+const createConsoleTransport = require('./transports/console');
+const createFileTransport = require('./transports/file');
+const createSmtpTransport = require('./transports/smtp');
+
+const transports = {
+  console: createConsoleTransport,
+  file: createFileTransport,
+  smtp: createSmtpTransport
+};
+
+let activeTransport = null;
+
+/**
+ * Get the configured transport (MAIL_TRANSPORT=console|file|smtp)
+ */
+const getTransport = () => {
+  if (!activeTransport) {
+    const name = process.env.MAIL_TRANSPORT || 'console';
+    const factory = transports[name];
+
+    if (!factory) {
+      throw new Error(`Unknown mail transport "${name}"`);
+    }
+
+    activeTransport = factory();
+  }
+
+  return activeTransport;
+};
+
+/**
+ * Replace the transport, e.g. with an in-memory one in tests.
+ * A transport is any object with an async send({ to, subject, text, html }).
+ */
+const setTransport = (transport) => {
+  activeTransport = transport;
+};
+
+/**
+ * Send an email through the active transport
+ */
+const sendMail = async ({ to, subject, text, html }) => {
+  return getTransport().send({
+    from: process.env.MAIL_FROM || 'CryptoWallet <no-reply@cryptowallet.local>',
+    to,
+    subject,
+    text,
+    html
+  });
+};
+
+module.exports = {
+  getTransport,
+  setTransport,
+  sendMail
+};
@@ -0,0 +1,168 @@
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+
+const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Build a link into the client app
+ */
+const clientLink = (pathname, params = {}) => {
+  const url = new URL(pathname, CLIENT_URL);
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  return url.toString();
+};
+
+/**
+ * Email asking the user to confirm their address
+ */
+const verificationEmail = (user, token) => {
+  const link = clientLink('/verify-email', { token });
+
+  return {
+    subject: 'Verify your CryptoWallet email address',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      'Please confirm your email address by opening the link below:',
+      link,
+      '',
+      'The link expires in 24 hours. If you did not create a CryptoWallet account, you can ignore this email.'
+    ].join('\n'),
+    html: `
+      <p>Hi ${escapeHtml(user.firstName)},</p>
+      <p>Please confirm your email address:</p>
+      <p><a href="${link}">Verify email address</a></p>
+      <p>The link expires in 24 hours. If you did not create a CryptoWallet account, you can ignore this email.</p>
+    `
+  };
+};
+
+/**
+ * Email with a link to choose a new password
+ */
+const passwordResetEmail = (user, token, expiresInMinutes) => {
+  const link = clientLink('/reset-password', { token });
+
+  return {
+    subject: 'Reset your CryptoWallet password',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      'We received a request to reset your password. Open the link below to choose a new one:',
+      link,
+      '',
+      `The link expires in ${expiresInMinutes} minutes and can only be used once.`,
+      'If you did not request a password reset, you can ignore this email.'
+    ].join('\n'),
+    html: `
+      <p>Hi ${escapeHtml(user.firstName)},</p>
+      <p>We received a request to reset your password.</p>
+      <p><a href="${link}">Choose a new password</a></p>
+      <p>The link expires in ${expiresInMinutes} minutes and can only be used once.
+      If you did not request a password reset, you can ignore this email.</p>
+    `
+  };
+};
+
+/**
+ * Email warning about a sign-in from a device or network we have not seen before
+ */
+const newDeviceLoginEmail = (user, login, token) => {
+  const link = clientLink('/secure-account', { token });
+  const details = [
+    `Time: ${login.time.toUTCString()}`,
+    `Device: ${login.userAgent || 'Unknown device'}`,
+    `Location: ${login.location || 'Unknown location'} (IP ${login.ipAddress || 'unknown'})`
+  ];
+
+  return {
+    subject: 'New sign-in to your CryptoWallet account',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      'Your account was just signed in to from a new device or location:',
+      ...details,
+      '',
+      'If this was you, you can ignore this email.',
+      'If this wasn\'t you, open the link below to sign out every session and reset your password:',
+      link
+    ].join('\n'),
+    html: `
+      <p>Hi ${escapeHtml(user.firstName)},</p>
+      <p>Your account was just signed in to from a new device or location:</p>
+      <ul>
+        ${details.map(line => `<li>${escapeHtml(line)}</li>`).join('')}
+      </ul>
+      <p>If this was you, you can ignore this email.</p>
+      <p><a href="${link}">This wasn't me &mdash; secure my account</a></p>
+    `
+  };
+};
+
+/**
+ * Email sent when repeated failed logins lock an account
+ */
+const accountLockedEmail = (user, token, lockoutMinutes) => {
+  const link = clientLink('/unlock-account', { token });
+
+  return {
+    subject: 'Your CryptoWallet account has been locked',
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      `After several failed sign-in attempts, your account has been locked for ${lockoutMinutes} minutes.`,
+      'If this was you, open the link below to unlock it now:',
+      link,
+      '',
+      'If this wasn\'t you, someone may be guessing your password. Consider changing it and enabling two-factor authentication.'
+    ].join('\n'),
+    html: `
+      <p>Hi ${escapeHtml(user.firstName)},</p>
+      <p>After several failed sign-in attempts, your account has been locked for ${lockoutMinutes} minutes.</p>
+      <p><a href="${link}">Unlock my account</a></p>
+      <p>If this wasn't you, someone may be guessing your password.
+      Consider changing it and enabling two-factor authentication.</p>
+    `
+  };
+};
+
+const withdrawalAddressEmail = (user, entry, action, token) => {
+  const link = clientLink('/confirm-withdrawal-address', { token });
+  const change = action === 'add' ? 'add' : 'remove';
+  const preposition = action === 'add' ? 'to' : 'from';
+
+  return {
+    subject: `Confirm: ${change} a withdrawal address`,
+    text: [
+      `Hi ${user.firstName},`,
+      '',
+      `Someone signed in to your account asked to ${change} this address ${preposition} your withdrawal allowlist:`,
+      `${entry.label}: ${entry.address}`,
+      '',
+      'If this was you, confirm the change (this link expires in 24 hours):',
+      link,
+      '',
+      'If this wasn\'t you, don\'t open the link and change your password right away.'
+    ].join('\n'),
+    html: `
+      <p>Hi ${escapeHtml(user.firstName)},</p>
+      <p>Someone signed in to your account asked to ${change} this address ${preposition} your withdrawal allowlist:</p>
+      <p><strong>${escapeHtml(entry.label)}</strong><br><code>${escapeHtml(entry.address)}</code></p>
+      <p><a href="${link}">Confirm this change</a> (expires in 24 hours)</p>
+      <p>If this wasn't you, don't open the link and change your password right away.</p>
+    `
+  };
+};
+
+module.exports = {
+  escapeHtml,
+  clientLink,
+  verificationEmail,
+  passwordResetEmail,
+  newDeviceLoginEmail,
+  accountLockedEmail,
+  withdrawalAddressEmail
+};
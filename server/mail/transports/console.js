@@ -0,0 +1,17 @@
+/**
+ * Mail transport that prints messages to stdout (local development)
+ */
+const createConsoleTransport = () => ({
+  name: 'console',
+
+  async send(message) {
+    console.log('📧 Outgoing email');
+    console.log(`   To:      ${message.to}`);
+    console.log(`   Subject: ${message.subject}`);
+    console.log('');
+    console.log(message.text);
+    return { delivered: true };
+  }
+});
+
+module.exports = createConsoleTransport;
@@ -0,0 +1,29 @@
+const fs = require('fs/promises');
+const path = require('path');
+
+/**
+ * Mail transport that writes each message to a JSON file (local development and tests)
+ */
+const createFileTransport = (options = {}) => {
+  const directory = options.directory || process.env.MAIL_OUTPUT_DIR || path.join(process.cwd(), 'mail-outbox');
+
+  return {
+    name: 'file',
+
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true });
+
+      const filename = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+      const filePath = path.join(directory, filename);
+
+      await fs.writeFile(filePath, JSON.stringify({
+        ...message,
+        sentAt: new Date().toISOString()
+      }, null, 2));
+
+      return { delivered: true, path: filePath };
+    }
+  };
+};
+
+module.exports = createFileTransport;
@@ -0,0 +1,27 @@
+const nodemailer = require('nodemailer');
+
+/**
+ * Mail transport that delivers through an SMTP server
+ */
+const createSmtpTransport = (options = {}) => {
+  const transporter = nodemailer.createTransport({
+    host: options.host || process.env.SMTP_HOST,
+    port: parseInt(options.port || process.env.SMTP_PORT) || 587,
+    secure: options.secure ?? process.env.SMTP_SECURE === 'true',
+    auth: (options.user || process.env.SMTP_USER) ? {
+      user: options.user || process.env.SMTP_USER,
+      pass: options.pass || process.env.SMTP_PASS
+    } : undefined
+  });
+
+  return {
+    name: 'smtp',
+
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      return { delivered: true, messageId: info.messageId };
+    }
+  };
+};
+
+module.exports = createSmtpTransport;
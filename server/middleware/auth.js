@@ -1,14 +1,72 @@
+const crypto = require('crypto');
 const jwt = require('jsonwebtoken');
 const User = require('../models/User');
+const RefreshToken = require('../models/RefreshToken');
+const Session = require('../models/Session');
+const ApiKey = require('../models/ApiKey');
+const { recordAuditEvent } = require('../utils/audit');
+
+// Access tokens are short-lived; sessions are extended with the refresh cookie
+const ACCESS_TOKEN_EXPIRES_IN = process.env.ACCESS_TOKEN_EXPIRES_IN || '15m';
+
+// How long a password, TOTP or passkey confirmation satisfies step-up checks
+const STEP_UP_MAX_AGE_MS = (parseFloat(process.env.STEP_UP_MAX_AGE_MINUTES) || 5) * 60 * 1000;
+
+// Get the bearer credential (JWT or API key) from the Authorization header
+const getBearerToken = (req) => {
+  const authHeader = req.headers['authorization'];
+  return authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+};
 
 /**
- * Middleware to authenticate JWT tokens and protect routes
+ * Authenticate a request made with a personal API key instead of a JWT
+ */
+const authenticateApiKey = async (req, res, next, key) => {
+  const apiKey = await ApiKey.findByKey(key);
+
+  if (!apiKey || !apiKey.isActive) {
+    return res.status(401).json({
+      error: 'Invalid API key',
+      message: 'This API key is invalid, expired or revoked.'
+    });
+  }
+
+  if (!apiKey.allowsIp(req.ip)) {
+    return res.status(403).json({
+      error: 'IP not allowed',
+      message: 'This API key cannot be used from your IP address.'
+    });
+  }
+
+  const user = await User.findById(apiKey.user).select('-password');
+
+  if (!user) {
+    return res.status(401).json({
+      error: 'Invalid API key',
+      message: 'This API key is invalid, expired or revoked.'
+    });
+  }
+
+  if (!user.isActive) {
+    return res.status(403).json({
+      error: 'Account disabled',
+      message: 'Your account has been disabled. Please contact support.'
+    });
+  }
+
+  await apiKey.touch(req.ip);
+
+  req.user = user;
+  req.apiKey = apiKey;
+  next();
+};
+
+/**
+ * Middleware to authenticate JWT tokens (or personal API keys) and protect routes
  */
 const authenticateToken = async (req, res, next) => {
   try {
-    // Get token from header
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+    const token = getBearerToken(req);
 
     if (!token) {
       return res.status(401).json({ 
@@ -17,8 +75,12 @@ const authenticateToken = async (req, res, next) => {
       });
     }
 
-    // Verify token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    if (ApiKey.isApiKey(token)) {
+      return await authenticateApiKey(req, res, next, token);
+    }
+
+    // Verify token (only access tokens are accepted here)
+    const decoded = jwt.verify(token, process.env.JWT_SECRET, { audience: 'CryptoWallet-Users' });
     
     // Get user from the token
     const user = await User.findById(decoded.id).select('-password');
@@ -37,8 +99,28 @@ const authenticateToken = async (req, res, next) => {
       });
     }
 
-    // Add user to request object
+    // Reject tokens issued before the last password change
+    if (user.changedPasswordAfter(decoded.iat)) {
+      return res.status(401).json({ 
+        error: 'Token expired',
+        message: 'Your password was changed. Please login again.' 
+      });
+    }
+
+    // Reject tokens whose session was signed out or revoked
+    const session = decoded.jti && await Session.findOne({ jti: decoded.jti, user: user._id });
+    if (!session || !session.isActive) {
+      return res.status(401).json({ 
+        error: 'Session revoked',
+        message: 'This session has been signed out. Please login again.' 
+      });
+    }
+
+    await session.touch(req.ip, req.get('User-Agent'));
+
+    // Add user and session to request object
     req.user = user;
+    req.authSession = session;
     next();
   } catch (error) {
     console.error('Auth middleware error:', error);
@@ -65,14 +147,15 @@ const authenticateToken = async (req, res, next) => {
 };
 
 /**
- * Middleware to generate JWT token
+ * Generate a short-lived JWT access token bound to a session
  */
-const generateToken = (userId) => {
+const generateToken = (userId, sessionId) => {
   return jwt.sign(
     { id: userId },
     process.env.JWT_SECRET,
     { 
-      expiresIn: process.env.JWT_EXPIRES_IN || '7d',
+      expiresIn: ACCESS_TOKEN_EXPIRES_IN,
+      jwtid: sessionId,
       issuer: 'CryptoWallet',
       audience: 'CryptoWallet-Users'
     }
@@ -80,51 +163,376 @@ const generateToken = (userId) => {
 };
 
 /**
- * Middleware to refresh JWT token
+ * Generate a short-lived token proving the password step of a 2FA login passed
+ */
+const generateTwoFactorToken = (userId, rememberMe = false) => {
+  return jwt.sign(
+    { id: userId, rememberMe },
+    process.env.JWT_SECRET,
+    {
+      expiresIn: '5m',
+      issuer: 'CryptoWallet',
+      audience: 'CryptoWallet-2FA'
+    }
+  );
+};
+
+/**
+ * Verify a two-factor challenge token issued by generateTwoFactorToken
+ */
+const verifyTwoFactorToken = (token) => {
+  return jwt.verify(token, process.env.JWT_SECRET, { audience: 'CryptoWallet-2FA' });
+};
+
+const REFRESH_COOKIE = 'refreshToken';
+const CSRF_COOKIE = 'csrfToken';
+
+// Both cookies are scoped to the auth routes so they never ride along on API calls
+const cookieOptions = (expiresAt) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: process.env.REFRESH_COOKIE_SAMESITE || 'strict',
+  path: '/api/auth',
+  ...(expiresAt && { expires: expiresAt })
+});
+
+/**
+ * Set the refresh token and CSRF cookies on a response
+ */
+const setRefreshCookies = (res, refreshTokenValue, csrfToken, expiresAt) => {
+  res.cookie(REFRESH_COOKIE, refreshTokenValue, cookieOptions(expiresAt));
+  res.cookie(CSRF_COOKIE, csrfToken, cookieOptions(expiresAt));
+};
+
+/**
+ * Clear the refresh token and CSRF cookies
+ */
+const clearRefreshCookies = (res) => {
+  res.clearCookie(REFRESH_COOKIE, cookieOptions());
+  res.clearCookie(CSRF_COOKIE, cookieOptions());
+};
+
+/**
+ * Issue an access token plus a refresh token cookie for a new login.
+ * Returns the values the client needs to keep in memory.
+ */
+const issueAuthTokens = async (req, res, user, options = {}) => {
+  const { rememberMe = false } = options;
+
+  const session = new Session({
+    user: user._id,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent'),
+    expiresAt: new Date(),
+    // Signing in counts as a fresh confirmation for step-up checks
+    reauthenticatedAt: new Date()
+  });
+
+  const { token: refreshTokenValue, record } = await RefreshToken.issue(user._id, {
+    family: session.jti,
+    rememberMe,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+
+  // The session lives exactly as long as its refresh token
+  session.expiresAt = record.expiresAt;
+  await session.save();
+
+  const csrfToken = crypto.randomBytes(32).toString('hex');
+  setRefreshCookies(res, refreshTokenValue, csrfToken, record.expiresAt);
+
+  return {
+    token: generateToken(user._id, session.jti),
+    csrfToken,
+    expiresIn: ACCESS_TOKEN_EXPIRES_IN,
+    session
+  };
+};
+
+/**
+ * Middleware to require a CSRF header matching the CSRF cookie (double submit)
+ */
+const verifyCsrf = (req, res, next) => {
+  const cookieToken = req.cookies && req.cookies[CSRF_COOKIE];
+  const headerToken = req.get('X-CSRF-Token');
+
+  const isValid = cookieToken && headerToken
+    && cookieToken.length === headerToken.length
+    && crypto.timingSafeEqual(Buffer.from(cookieToken), Buffer.from(headerToken));
+
+  if (!isValid) {
+    return res.status(403).json({
+      error: 'CSRF validation failed',
+      message: 'Missing or invalid CSRF token'
+    });
+  }
+
+  next();
+};
+
+/**
+ * Generate a short-lived token carrying a WebAuthn challenge between the
+ * options and verify requests. The challenge itself is also stored (see
+ * WebAuthnChallenge) so the token can only be redeemed once.
+ */
+const generateWebAuthnChallengeToken = (challenge, purpose, userId = null) => {
+  return jwt.sign(
+    { challenge, purpose, id: userId },
+    process.env.JWT_SECRET,
+    {
+      expiresIn: '5m',
+      issuer: 'CryptoWallet',
+      audience: 'CryptoWallet-WebAuthn'
+    }
+  );
+};
+
+/**
+ * Verify a WebAuthn challenge token issued for the given purpose
+ */
+const verifyWebAuthnChallengeToken = (token, purpose) => {
+  const decoded = jwt.verify(token, process.env.JWT_SECRET, { audience: 'CryptoWallet-WebAuthn' });
+  if (decoded.purpose !== purpose) {
+    throw new Error('WebAuthn challenge was issued for a different purpose');
+  }
+  return decoded;
+};
+
+/**
+ * Generate a signed email verification token bound to the current address
+ */
+const generateEmailVerificationToken = (user) => {
+  return jwt.sign(
+    { id: user._id, email: user.email },
+    process.env.JWT_SECRET,
+    {
+      expiresIn: '24h',
+      issuer: 'CryptoWallet',
+      audience: 'CryptoWallet-EmailVerify'
+    }
+  );
+};
+
+/**
+ * Verify an email verification token issued by generateEmailVerificationToken
+ */
+const verifyEmailVerificationToken = (token) => {
+  return jwt.verify(token, process.env.JWT_SECRET, { audience: 'CryptoWallet-EmailVerify' });
+};
+
+/**
+ * Generate a token for the "this wasn't me" link in a login alert
+ */
+const generateLoginAlertToken = (user, sessionId) => {
+  return jwt.sign(
+    { id: user._id, sessionId },
+    process.env.JWT_SECRET,
+    {
+      expiresIn: '7d',
+      issuer: 'CryptoWallet',
+      audience: 'CryptoWallet-LoginAlert'
+    }
+  );
+};
+
+/**
+ * Verify a login alert token issued by generateLoginAlertToken
+ */
+const verifyLoginAlertToken = (token) => {
+  return jwt.verify(token, process.env.JWT_SECRET, { audience: 'CryptoWallet-LoginAlert' });
+};
+
+/**
+ * Generate a token for the unlock link sent when an account is locked.
+ * `tokenId` is stored with the lockout so the link only works once, for that lockout.
+ */
+const generateUnlockToken = (user, tokenId) => {
+  return jwt.sign(
+    { id: user._id },
+    process.env.JWT_SECRET,
+    {
+      expiresIn: '24h',
+      issuer: 'CryptoWallet',
+      audience: 'CryptoWallet-Unlock',
+      jwtid: tokenId
+    }
+  );
+};
+
+/**
+ * Verify an unlock token issued by generateUnlockToken
+ */
+const verifyUnlockToken = (token) => {
+  return jwt.verify(token, process.env.JWT_SECRET, { audience: 'CryptoWallet-Unlock' });
+};
+
+/**
+ * Generate a token for the link confirming a withdrawal allowlist change
+ */
+const generateWithdrawalAddressToken = (user, entry, action) => {
+  return jwt.sign(
+    { id: user._id, entry: entry._id, action },
+    process.env.JWT_SECRET,
+    {
+      expiresIn: '24h',
+      issuer: 'CryptoWallet',
+      audience: 'CryptoWallet-WithdrawalAddress'
+    }
+  );
+};
+
+/**
+ * Verify a token issued by generateWithdrawalAddressToken
+ */
+const verifyWithdrawalAddressToken = (token) => {
+  return jwt.verify(token, process.env.JWT_SECRET, { audience: 'CryptoWallet-WithdrawalAddress' });
+};
+
+/**
+ * Generate a token carrying the state, nonce and PKCE verifier of an OIDC sign-in.
+ * The browser keeps it until the identity provider redirects back.
+ */
+const generateOidcFlowToken = ({ state, nonce, codeVerifier, rememberMe }) => {
+  return jwt.sign(
+    { state, nonce, codeVerifier, rememberMe },
+    process.env.JWT_SECRET,
+    {
+      expiresIn: '10m',
+      issuer: 'CryptoWallet',
+      audience: 'CryptoWallet-OIDC'
+    }
+  );
+};
+
+/**
+ * Verify an OIDC flow token issued by generateOidcFlowToken
+ */
+const verifyOidcFlowToken = (token) => {
+  return jwt.verify(token, process.env.JWT_SECRET, { audience: 'CryptoWallet-OIDC' });
+};
+
+/**
+ * Middleware to limit unverified accounts to read-only actions
+ */
+const requireVerifiedEmail = (req, res, next) => {
+  if (!req.user.isEmailVerified) {
+    return res.status(403).json({
+      error: 'Email not verified',
+      message: 'Please verify your email address before making changes to your wallet.'
+    });
+  }
+
+  next();
+};
+
+/**
+ * Middleware to require a recent password, TOTP or passkey confirmation on this session.
+ * `when(req)` limits the check to some requests, e.g. sells above a threshold.
+ * API keys cannot re-authenticate, so they are refused whenever the check applies.
+ */
+const requireRecentAuth = (when = () => true) => (req, res, next) => {
+  if (!when(req)) {
+    return next();
+  }
+
+  if (req.apiKey) {
+    return res.status(403).json({
+      error: 'Reauthentication required',
+      message: 'This action needs a confirmed sign-in and cannot be done with an API key'
+    });
+  }
+
+  if (!req.authSession || !req.authSession.isRecentlyAuthenticated(STEP_UP_MAX_AGE_MS)) {
+    return res.status(403).json({
+      error: 'Reauthentication required',
+      message: 'Please confirm your identity to continue.',
+      reauthRequired: true
+    });
+  }
+
+  next();
+};
+
+/**
+ * Middleware to rotate the refresh token cookie and issue a new access token
  */
 const refreshToken = async (req, res, next) => {
   try {
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1];
+    const presented = req.cookies && req.cookies[REFRESH_COOKIE];
 
-    if (!token) {
+    if (!presented) {
       return res.status(401).json({ 
         error: 'No token provided',
         message: 'Refresh token is required' 
       });
     }
 
-    // Verify the current token (even if expired)
-    const decoded = jwt.verify(token, process.env.JWT_SECRET, { ignoreExpiration: true });
-    
-    // Check if token is close to expiry (within 1 day)
-    const now = Math.floor(Date.now() / 1000);
-    const timeUntilExpiry = decoded.exp - now;
-    
-    if (timeUntilExpiry > 86400) { // More than 1 day left
-      return res.status(400).json({
-        error: 'Token still valid',
-        message: 'Token refresh not needed yet'
+    const rotated = await RefreshToken.rotate(presented, {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    if (rotated.error) {
+      clearRefreshCookies(res);
+
+      if (rotated.error === 'reused') {
+        console.warn(`Refresh token reuse detected for user ${rotated.record.user}; family revoked`);
+      }
+
+      // Refresh tokens that were never issued have no owner to record against
+      if (rotated.record) {
+        await recordAuditEvent(req, {
+          action: 'auth.token_refresh',
+          user: rotated.record.user,
+          outcome: 'failure',
+          metadata: { reason: rotated.error, tokenFamily: rotated.record.family }
+        });
+      }
+
+      return res.status(401).json({ 
+        error: 'Token refresh failed',
+        message: 'Your session has expired. Please login again.' 
       });
     }
 
-    // Get user and generate new token
-    const user = await User.findById(decoded.id).select('-password');
+    const user = await User.findById(rotated.record.user).select('-password');
+    const session = await Session.findOne({ jti: rotated.record.family, user: rotated.record.user });
     
-    if (!user || !user.isActive) {
+    if (!user || !user.isActive || !session || session.revokedAt) {
+      await RefreshToken.revokeFamily(rotated.record.family);
+      clearRefreshCookies(res);
       return res.status(401).json({ 
         error: 'Invalid user',
         message: 'Cannot refresh token for invalid or inactive user' 
       });
     }
 
-    const newToken = generateToken(user._id);
-    
+    // Rotation slides the session expiry along with the new refresh token
+    session.expiresAt = rotated.record.expiresAt;
+    session.lastSeenAt = new Date();
+    session.ipAddress = req.ip;
+    session.userAgent = req.get('User-Agent');
+    await session.save();
+
+    const csrfToken = crypto.randomBytes(32).toString('hex');
+    setRefreshCookies(res, rotated.token, csrfToken, rotated.record.expiresAt);
+
+    await recordAuditEvent(req, {
+      action: 'auth.token_refresh',
+      user: user._id,
+      actor: user,
+      metadata: { session: session._id }
+    });
+
     res.json({
       success: true,
       message: 'Token refreshed successfully',
-      token: newToken,
-      expiresIn: process.env.JWT_EXPIRES_IN || '7d'
+      data: {
+        token: generateToken(user._id, session.jti),
+        csrfToken,
+        expiresIn: ACCESS_TOKEN_EXPIRES_IN
+      }
     });
     
   } catch (error) {
@@ -162,6 +570,53 @@ const checkResourceOwnership = (resourceField = 'user') => {
   };
 };
 
+/**
+ * Middleware to restrict a route to the given roles (use after authenticateToken)
+ */
+const authorize = (...roles) => {
+  return (req, res, next) => {
+    if (!req.user || !roles.includes(req.user.role)) {
+      return res.status(403).json({
+        error: 'Access forbidden',
+        message: 'You do not have permission to perform this action'
+      });
+    }
+
+    next();
+  };
+};
+
+/**
+ * Middleware to limit API key requests to keys holding any of the given scopes.
+ * Requests authenticated with a JWT are not restricted.
+ */
+const requireScope = (...scopes) => {
+  return (req, res, next) => {
+    if (req.apiKey && !req.apiKey.hasScope(...scopes)) {
+      return res.status(403).json({
+        error: 'Insufficient scope',
+        message: `This API key needs one of these scopes: ${scopes.join(', ')}`
+      });
+    }
+
+    next();
+  };
+};
+
+/**
+ * Middleware to refuse API keys on routes that need a signed-in session
+ */
+const denyApiKeys = (req, res, next) => {
+  if (ApiKey.isApiKey(getBearerToken(req))) {
+    return res.status(403).json({
+      error: 'Access forbidden',
+      message: 'API keys cannot be used for this resource. Please login instead.'
+    });
+  }
+
+  next();
+};
+
 /**
  * Middleware to log API requests (for development)
  */
@@ -175,7 +630,30 @@ const logRequest = (req, res, next) => {
 module.exports = {
   authenticateToken,
   generateToken,
+  generateTwoFactorToken,
+  verifyTwoFactorToken,
+  issueAuthTokens,
+  clearRefreshCookies,
+  generateWebAuthnChallengeToken,
+  verifyWebAuthnChallengeToken,
+  verifyCsrf,
+  generateEmailVerificationToken,
+  verifyEmailVerificationToken,
+  generateLoginAlertToken,
+  verifyLoginAlertToken,
+  generateUnlockToken,
+  verifyUnlockToken,
+  generateWithdrawalAddressToken,
+  verifyWithdrawalAddressToken,
+  generateOidcFlowToken,
+  verifyOidcFlowToken,
+  requireVerifiedEmail,
+  requireRecentAuth,
+  STEP_UP_MAX_AGE_MS,
   refreshToken,
   checkResourceOwnership,
+  authorize,
+  requireScope,
+  denyApiKeys,
   logRequest
 };
\ No newline at end of file
@@ -0,0 +1,53 @@
+const multer = require('multer');
+
+const PROFILE_PICTURE_MAX_BYTES = parseInt(process.env.PROFILE_PICTURE_MAX_BYTES) || 5 * 1024 * 1024;
+
+const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+const profilePictureUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: PROFILE_PICTURE_MAX_BYTES,
+    files: 1
+  },
+  fileFilter: (req, file, callback) => {
+    callback(null, ACCEPTED_IMAGE_TYPES.includes(file.mimetype));
+  }
+});
+
+/**
+ * Middleware to accept a single image in the `picture` field of a multipart form.
+ * The file is kept in memory as req.file; the content is checked again when it is decoded.
+ */
+const uploadProfilePicture = (req, res, next) => {
+  profilePictureUpload.single('picture')(req, res, (error) => {
+    if (error && error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({
+        error: 'File too large',
+        message: `Profile pictures must be smaller than ${Math.round(PROFILE_PICTURE_MAX_BYTES / (1024 * 1024))} MB`
+      });
+    }
+
+    if (error) {
+      return res.status(400).json({
+        error: 'Upload failed',
+        message: error instanceof multer.MulterError
+          ? 'Please upload a single image in the "picture" field'
+          : 'Unable to read the uploaded file'
+      });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({
+        error: 'Invalid file',
+        message: 'Please upload a JPEG, PNG, WebP or GIF image'
+      });
+    }
+
+    next();
+  });
+};
+
+module.exports = {
+  uploadProfilePicture
+};
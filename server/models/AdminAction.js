@@ -0,0 +1,70 @@
+const mongoose = require('mongoose');
+
+// Append-only record of everything done through the admin API
+const adminActionSchema = new mongoose.Schema({
+  actor: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  actorRole: {
+    type: String,
+    enum: ['support', 'admin'],
+    required: true
+  },
+  action: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  targetType: {
+    type: String,
+    enum: ['user', 'wallet', 'transaction', 'audit', 'ledger'],
+    required: true
+  },
+  targetId: {
+    type: mongoose.Schema.Types.ObjectId,
+    default: null
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  },
+  details: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  ipAddress: {
+    type: String,
+    trim: true
+  },
+  userAgent: {
+    type: String,
+    trim: true
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Static method to record an action taken by the authenticated staff member
+adminActionSchema.statics.record = function(req, { action, targetType, targetId = null, reason, details = {} }) {
+  return this.create({
+    actor: req.user._id,
+    actorRole: req.user.role,
+    action,
+    targetType,
+    targetId,
+    reason,
+    details,
+    ipAddress: req.ip,
+    userAgent: req.get('User-Agent')
+  });
+};
+
+// Indexes for better query performance
+adminActionSchema.index({ createdAt: -1 });
+adminActionSchema.index({ actor: 1, createdAt: -1 });
+adminActionSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+
+module.exports = mongoose.model('AdminAction', adminActionSchema);
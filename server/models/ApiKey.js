@@ -0,0 +1,171 @@
+const mongoose = require('mongoose');
+const crypto = require('crypto');
+const net = require('net');
+
+// Every key starts with this so it can be told apart from a JWT in the Authorization header
+const API_KEY_PREFIX = 'cwk_';
+
+const API_KEY_SCOPES = ['read:wallet', 'read:transactions', 'trade'];
+
+// Only write lastUsedAt once a minute to keep authenticated requests cheap
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const hashApiKey = (key) => crypto.createHash('sha256').update(key).digest('hex');
+
+const apiKeySchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Key name is required'],
+    trim: true,
+    maxlength: [50, 'Key name cannot exceed 50 characters']
+  },
+  // Only the hash of the secret is stored; the key itself is shown once at creation
+  keyHash: {
+    type: String,
+    required: true,
+    unique: true,
+    select: false
+  },
+  // First characters of the key, shown in lists so users can tell keys apart
+  keyPrefix: {
+    type: String,
+    required: true
+  },
+  scopes: {
+    type: [{
+      type: String,
+      enum: API_KEY_SCOPES
+    }],
+    validate: {
+      validator: (scopes) => scopes.length > 0,
+      message: 'At least one scope is required'
+    }
+  },
+  // IP addresses or CIDR ranges the key may be used from; empty means any
+  allowedIps: {
+    type: [String],
+    default: []
+  },
+  expiresAt: {
+    type: Date,
+    default: null
+  },
+  lastUsedAt: {
+    type: Date,
+    default: null
+  },
+  lastUsedIp: {
+    type: String,
+    default: null
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: function(doc, ret) {
+      delete ret.keyHash;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Virtual for whether the key can still be used
+apiKeySchema.virtual('isActive').get(function() {
+  return !this.revokedAt && (!this.expiresAt || this.expiresAt > new Date());
+});
+
+// Instance method to check a request IP against the allowlist
+apiKeySchema.methods.allowsIp = function(ipAddress) {
+  if (this.allowedIps.length === 0) return true;
+  if (!ipAddress) return false;
+
+  // Express reports IPv4 clients of a dual-stack server as ::ffff:a.b.c.d
+  const ip = ipAddress.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, '');
+  const type = net.isIP(ip) === 6 ? 'ipv6' : 'ipv4';
+
+  const blockList = new net.BlockList();
+  for (const entry of this.allowedIps) {
+    const [address, prefix] = entry.split('/');
+    const entryType = net.isIP(address) === 6 ? 'ipv6' : 'ipv4';
+    if (prefix === undefined) {
+      blockList.addAddress(address, entryType);
+    } else {
+      blockList.addSubnet(address, parseInt(prefix), entryType);
+    }
+  }
+
+  return blockList.check(ip, type);
+};
+
+// Instance method to check whether the key grants any of the given scopes
+apiKeySchema.methods.hasScope = function(...scopes) {
+  return scopes.some(scope => this.scopes.includes(scope));
+};
+
+// Instance method to record usage from a request
+apiKeySchema.methods.touch = async function(ipAddress) {
+  if (this.lastUsedAt && Date.now() - this.lastUsedAt.getTime() < LAST_USED_RESOLUTION_MS) return;
+
+  this.lastUsedAt = new Date();
+  this.lastUsedIp = ipAddress || null;
+  await this.save();
+};
+
+// Static method to create a key; returns the document and the plaintext key (shown once)
+apiKeySchema.statics.generate = function(userId, { name, scopes, allowedIps = [], expiresAt = null }) {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+  const apiKey = new this({
+    user: userId,
+    name,
+    keyHash: hashApiKey(key),
+    keyPrefix: key.substring(0, API_KEY_PREFIX.length + 8),
+    scopes,
+    allowedIps,
+    expiresAt
+  });
+
+  return { apiKey, key };
+};
+
+// Static method to find the key document for a plaintext key
+apiKeySchema.statics.findByKey = function(key) {
+  return this.findOne({ keyHash: hashApiKey(key) });
+};
+
+// Static method to list the keys a user can still use
+apiKeySchema.statics.findActiveForUser = function(userId) {
+  return this.find({
+    user: userId,
+    revokedAt: null,
+    $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }]
+  }).sort({ createdAt: -1 });
+};
+
+// Static method to revoke every key for a user
+apiKeySchema.statics.revokeAllForUser = async function(userId) {
+  const result = await this.updateMany({ user: userId, revokedAt: null }, { revokedAt: new Date() });
+  return result.modifiedCount;
+};
+
+// Static method to tell whether a bearer credential is an API key rather than a JWT
+apiKeySchema.statics.isApiKey = function(token) {
+  return typeof token === 'string' && token.startsWith(API_KEY_PREFIX);
+};
+
+apiKeySchema.statics.SCOPES = API_KEY_SCOPES;
+
+// Indexes for better query performance
+apiKeySchema.index({ user: 1, createdAt: -1 });
+
+module.exports = mongoose.model('ApiKey', apiKeySchema);
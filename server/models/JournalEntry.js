@@ -0,0 +1,127 @@
+const mongoose = require('mongoose');
+
+// Amounts are floating point; sums closer to zero than this count as balanced
+const LEDGER_EPSILON = 1e-8;
+
+const JOURNAL_TYPES = ['trade.buy', 'trade.sell', 'transfer', 'deposit', 'withdraw', 'reversal', 'opening'];
+
+// One balanced posting of the double-entry ledger. Every line moves an amount of one
+// asset into (positive) or out of (negative) an account, and for each asset the lines
+// of an entry add up to zero. Wallet balances are projections of these lines.
+const journalEntrySchema = new mongoose.Schema({
+  type: {
+    type: String,
+    required: true,
+    enum: JOURNAL_TYPES
+  },
+  // The transaction that caused the posting (none for opening balances)
+  transaction: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Transaction',
+    default: null
+  },
+  // Set on reversals: the entry whose lines this one negates
+  reverses: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'JournalEntry',
+    default: null
+  },
+  lines: {
+    type: [{
+      _id: false,
+      // user:<id>, house, fees, external:<payment provider> or equity:opening
+      account: {
+        type: String,
+        required: true,
+        trim: true
+      },
+      // The owner of a user:<id> account, for querying a user's balances
+      user: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        default: null
+      },
+      asset: {
+        type: String,
+        required: true,
+        uppercase: true,
+        trim: true
+      },
+      assetType: {
+        type: String,
+        required: true,
+        enum: ['crypto', 'fiat']
+      },
+      amount: {
+        type: Number,
+        required: true
+      }
+    }],
+    validate: [
+      {
+        validator: (lines) => lines.length >= 2,
+        message: 'A journal entry needs at least two lines'
+      },
+      {
+        validator: (lines) => Object.values(sumByAsset(lines)).every(total => Math.abs(total) < LEDGER_EPSILON),
+        message: 'Journal entry lines do not balance'
+      }
+    ]
+  },
+  memo: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Memo cannot exceed 500 characters']
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Net amount per asset (keyed assetType:asset) of a set of lines
+const sumByAsset = (lines) => lines.reduce((totals, line) => {
+  const key = `${line.assetType}:${line.asset}`;
+  totals[key] = (totals[key] || 0) + line.amount;
+  return totals;
+}, {});
+
+// The journal is immutable: mistakes are corrected by posting a reversal
+const rejectChange = function(next) {
+  next(new Error('Journal entries are immutable'));
+};
+
+journalEntrySchema.pre('save', function(next) {
+  if (!this.isNew) return rejectChange(next);
+  next();
+});
+
+journalEntrySchema.pre([
+  'updateOne',
+  'updateMany',
+  'findOneAndUpdate',
+  'replaceOne',
+  'findOneAndReplace',
+  'deleteOne',
+  'deleteMany',
+  'findOneAndDelete'
+], rejectChange);
+
+journalEntrySchema.statics.LEDGER_EPSILON = LEDGER_EPSILON;
+journalEntrySchema.statics.sumByAsset = sumByAsset;
+
+// A transaction is posted once, and an entry can only be reversed once
+journalEntrySchema.index(
+  { transaction: 1, type: 1 },
+  { unique: true, partialFilterExpression: { transaction: { $type: 'objectId' } } }
+);
+journalEntrySchema.index({ reverses: 1 }, { unique: true, partialFilterExpression: { reverses: { $type: 'objectId' } } });
+journalEntrySchema.index({ 'lines.account': 1 });
+journalEntrySchema.index({ 'lines.user': 1 });
+journalEntrySchema.index({ createdAt: -1 });
+
+module.exports = mongoose.model('JournalEntry', journalEntrySchema);
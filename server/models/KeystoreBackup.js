@@ -0,0 +1,62 @@
+const mongoose = require('mongoose');
+
+// Opt-in copies of keystore entries the browser encrypted with the user's keystore
+// password. The server only ever holds the ciphertext and the parameters needed to
+// derive the key again; it cannot decrypt them.
+const keystoreBackupSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Id of the entry in the browser's keystore; also authenticated inside the ciphertext
+  keystoreId: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [64, 'Keystore id cannot exceed 64 characters']
+  },
+  crypto: {
+    cipher: {
+      type: String,
+      required: true,
+      enum: ['aes-256-gcm']
+    },
+    ciphertext: {
+      type: String,
+      required: true
+    },
+    cipherparams: {
+      iv: {
+        type: String,
+        required: true
+      }
+    },
+    kdf: {
+      type: String,
+      required: true,
+      enum: ['scrypt', 'pbkdf2']
+    },
+    kdfparams: {
+      type: mongoose.Schema.Types.Mixed,
+      required: true
+    }
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Static method to list a user's backups, newest first
+keystoreBackupSchema.statics.findForUser = function(userId) {
+  return this.find({ user: userId }).sort({ createdAt: -1 });
+};
+
+keystoreBackupSchema.index({ user: 1, keystoreId: 1 }, { unique: true });
+
+module.exports = mongoose.model('KeystoreBackup', keystoreBackupSchema);
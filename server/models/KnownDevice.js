@@ -0,0 +1,98 @@
+const mongoose = require('mongoose');
+const crypto = require('crypto');
+
+const knownDeviceSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Hash of the normalized user agent, so the raw string is only kept for display
+  fingerprint: {
+    type: String,
+    required: true
+  },
+  // Network the login came from (/24 for IPv4, /48 for IPv6)
+  ipRange: {
+    type: String,
+    required: true
+  },
+  userAgent: {
+    type: String,
+    trim: true
+  },
+  lastIpAddress: {
+    type: String,
+    trim: true
+  },
+  lastSeenAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// Express reports IPv4 clients on dual-stack sockets as ::ffff:a.b.c.d
+const normalizeIp = (ipAddress = '') => ipAddress.replace(/^::ffff:/, '');
+
+const fingerprintFor = (userAgent = '') => crypto
+  .createHash('sha256')
+  .update(userAgent.trim().toLowerCase())
+  .digest('hex');
+
+const ipRangeFor = (ipAddress) => {
+  const ip = normalizeIp(ipAddress);
+
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(ip)) {
+    return `${ip.split('.').slice(0, 3).join('.')}.0/24`;
+  }
+
+  if (ip.includes(':')) {
+    // Expand "::" so every address has all eight groups before truncating
+    const [head, tail] = ip.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const missing = Array(8 - headGroups.length - tailGroups.length).fill('0');
+    const groups = tail === undefined ? headGroups : [...headGroups, ...missing, ...tailGroups];
+    return `${groups.slice(0, 3).map(group => parseInt(group, 16).toString(16)).join(':')}::/48`;
+  }
+
+  return ip || 'unknown';
+};
+
+// Static method to record a successful login and report what was new about it
+knownDeviceSchema.statics.recordLogin = async function(userId, { ipAddress, userAgent } = {}) {
+  const fingerprint = fingerprintFor(userAgent);
+  const ipRange = ipRangeFor(ipAddress);
+
+  const [hasHistory, knownFingerprint, knownIpRange] = await Promise.all([
+    this.exists({ user: userId }),
+    this.exists({ user: userId, fingerprint }),
+    this.exists({ user: userId, ipRange })
+  ]);
+
+  await this.findOneAndUpdate(
+    { user: userId, fingerprint, ipRange },
+    { userAgent, lastIpAddress: normalizeIp(ipAddress), lastSeenAt: new Date() },
+    { upsert: true, setDefaultsOnInsert: true }
+  );
+
+  return {
+    // The very first recorded login only establishes a baseline
+    isFirstLogin: !hasHistory,
+    isNewDevice: !knownFingerprint,
+    isNewIpRange: !knownIpRange
+  };
+};
+
+// Static method to forget every device for a user (e.g. after they report a login)
+knownDeviceSchema.statics.forgetAllForUser = function(userId) {
+  return this.deleteMany({ user: userId });
+};
+
+// Indexes for better query performance
+knownDeviceSchema.index({ user: 1, fingerprint: 1, ipRange: 1 }, { unique: true });
+knownDeviceSchema.index({ user: 1, ipRange: 1 });
+
+module.exports = mongoose.model('KnownDevice', knownDeviceSchema);
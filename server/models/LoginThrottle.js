@@ -0,0 +1,92 @@
+const mongoose = require('mongoose');
+
+const loginThrottleSchema = new mongoose.Schema({
+  // What is being counted: a user account or a client IP address
+  scope: {
+    type: String,
+    enum: ['account', 'ip'],
+    required: true
+  },
+  key: {
+    type: String,
+    required: true
+  },
+  failures: {
+    type: Number,
+    default: 0
+  },
+  lastFailureAt: {
+    type: Date,
+    default: null
+  },
+  lockedUntil: {
+    type: Date,
+    default: null
+  },
+  // Id of the unlock link emailed for the current lockout; using the link clears the counter
+  unlockTokenId: {
+    type: String,
+    default: null
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Static method to count a failed attempt. Counters start over once the failure
+// window has passed or a previous lockout has ended.
+loginThrottleSchema.statics.recordFailure = async function(scope, key, windowMs) {
+  const now = new Date();
+
+  await this.updateOne(
+    {
+      scope,
+      key,
+      $or: [
+        { lastFailureAt: { $lt: new Date(now.getTime() - windowMs) } },
+        { lockedUntil: { $lte: now } }
+      ]
+    },
+    { failures: 0, lockedUntil: null, unlockTokenId: null }
+  );
+
+  return this.findOneAndUpdate(
+    { scope, key },
+    {
+      $inc: { failures: 1 },
+      $set: { lastFailureAt: now },
+      $max: { expiresAt: new Date(now.getTime() + windowMs) }
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+};
+
+// Static method to lock a counter; resolves to null if it was already locked
+loginThrottleSchema.statics.lock = function(scope, key, lockedUntil, unlockTokenId = null) {
+  return this.findOneAndUpdate(
+    { scope, key, lockedUntil: null },
+    { lockedUntil, unlockTokenId, $max: { expiresAt: lockedUntil } },
+    { new: true }
+  );
+};
+
+// Static method to clear an account's counter with the unlock link for its lockout.
+// Resolves to null when the link was already used or belongs to an earlier lockout.
+loginThrottleSchema.statics.redeemUnlockToken = function(key, unlockTokenId) {
+  return this.findOneAndDelete({ scope: 'account', key, unlockTokenId });
+};
+
+// Static method to clear a counter, e.g. after a successful login or an unlock link
+loginThrottleSchema.statics.reset = function(scope, key) {
+  return this.deleteOne({ scope, key });
+};
+
+// Indexes for better query performance
+loginThrottleSchema.index({ scope: 1, key: 1 }, { unique: true });
+// Let MongoDB drop counters once they no longer matter
+loginThrottleSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+module.exports = mongoose.model('LoginThrottle', loginThrottleSchema);
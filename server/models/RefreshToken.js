@@ -0,0 +1,149 @@
+const mongoose = require('mongoose');
+const crypto = require('crypto');
+
+const refreshTokenSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  family: {
+    type: String,
+    required: true
+  },
+  rememberMe: {
+    type: Boolean,
+    default: false
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  replacedByHash: {
+    type: String,
+    default: null
+  },
+  createdByIp: {
+    type: String,
+    trim: true
+  },
+  userAgent: {
+    type: String,
+    trim: true
+  }
+}, {
+  timestamps: true
+});
+
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+const lifetimeDays = (rememberMe) => rememberMe
+  ? parseInt(process.env.REFRESH_TOKEN_REMEMBER_DAYS) || 30
+  : parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS) || 7;
+
+// Virtual for whether the token can still be exchanged
+refreshTokenSchema.virtual('isActive').get(function() {
+  return !this.revokedAt && this.expiresAt > new Date();
+});
+
+// Static method to issue a new refresh token (only the hash is stored)
+refreshTokenSchema.statics.issue = async function(userId, options = {}) {
+  const {
+    family = crypto.randomUUID(),
+    rememberMe = false,
+    ipAddress,
+    userAgent
+  } = options;
+
+  const token = crypto.randomBytes(48).toString('hex');
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + lifetimeDays(rememberMe));
+
+  const record = await this.create({
+    user: userId,
+    tokenHash: hashToken(token),
+    family,
+    rememberMe,
+    expiresAt,
+    createdByIp: ipAddress,
+    userAgent
+  });
+
+  return { token, record };
+};
+
+// Static method to look up a refresh token by its raw value
+refreshTokenSchema.statics.findByToken = function(token) {
+  return this.findOne({ tokenHash: hashToken(token) });
+};
+
+// Static method to exchange a refresh token for a new one in the same family.
+// Presenting a token that was already rotated revokes the whole family.
+refreshTokenSchema.statics.rotate = async function(token, options = {}) {
+  const current = await this.findByToken(token);
+
+  if (!current) {
+    return { error: 'invalid' };
+  }
+
+  if (current.revokedAt) {
+    await this.revokeFamily(current.family);
+    return { error: 'reused', record: current };
+  }
+
+  if (current.expiresAt <= new Date()) {
+    return { error: 'expired', record: current };
+  }
+
+  const next = await this.issue(current.user, {
+    ...options,
+    family: current.family,
+    rememberMe: current.rememberMe
+  });
+
+  // Only one request can win the rotation; a concurrent loser counts as reuse
+  const claimed = await this.findOneAndUpdate(
+    { _id: current._id, revokedAt: null },
+    { revokedAt: new Date(), replacedByHash: next.record.tokenHash }
+  );
+
+  if (!claimed) {
+    await this.revokeFamily(current.family);
+    return { error: 'reused', record: current };
+  }
+
+  return next;
+};
+
+// Static method to revoke every token descended from the same login
+refreshTokenSchema.statics.revokeFamily = function(family) {
+  return this.updateMany(
+    { family, revokedAt: null },
+    { revokedAt: new Date() }
+  );
+};
+
+// Static method to revoke every refresh token a user holds
+refreshTokenSchema.statics.revokeAllForUser = function(userId) {
+  return this.updateMany(
+    { user: userId, revokedAt: null },
+    { revokedAt: new Date() }
+  );
+};
+
+// Indexes for better query performance
+refreshTokenSchema.index({ user: 1 });
+refreshTokenSchema.index({ family: 1 });
+// Let MongoDB clean up tokens a day after they expire
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+module.exports = mongoose.model('RefreshToken', refreshTokenSchema);
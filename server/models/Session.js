@@ -0,0 +1,114 @@
+const mongoose = require('mongoose');
+const crypto = require('crypto');
+const RefreshToken = require('./RefreshToken');
+
+const sessionSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Token id carried as the `jti` claim of every access token for this session.
+  // Also used as the refresh token family, so one login = one session.
+  jti: {
+    type: String,
+    required: true,
+    unique: true,
+    default: () => crypto.randomUUID()
+  },
+  userAgent: {
+    type: String,
+    trim: true
+  },
+  ipAddress: {
+    type: String,
+    trim: true
+  },
+  lastSeenAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  // Last time the user proved who they are on this session (login or step-up re-authentication)
+  reauthenticatedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Only write lastSeenAt once a minute to keep authenticated requests cheap
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+// Virtual for whether the session can still be used
+sessionSchema.virtual('isActive').get(function() {
+  return !this.revokedAt && this.expiresAt > new Date();
+});
+
+// Instance method to record activity from a request
+sessionSchema.methods.touch = async function(ipAddress, userAgent) {
+  if (Date.now() - this.lastSeenAt.getTime() < LAST_SEEN_RESOLUTION_MS) return;
+
+  this.lastSeenAt = new Date();
+  if (ipAddress) this.ipAddress = ipAddress;
+  if (userAgent) this.userAgent = userAgent;
+  await this.save();
+};
+
+// Instance method to record a fresh password, TOTP or passkey confirmation
+sessionSchema.methods.markReauthenticated = async function() {
+  this.reauthenticatedAt = new Date();
+  await this.save();
+  return this.reauthenticatedAt;
+};
+
+// Instance method to check whether the last confirmation is recent enough for a sensitive action
+sessionSchema.methods.isRecentlyAuthenticated = function(maxAgeMs) {
+  return !!this.reauthenticatedAt && Date.now() - this.reauthenticatedAt.getTime() < maxAgeMs;
+};
+
+// Instance method to revoke the session and its refresh tokens
+sessionSchema.methods.revoke = async function() {
+  this.revokedAt = new Date();
+  await this.save();
+  await RefreshToken.revokeFamily(this.jti);
+};
+
+// Static method to list the sessions a user can still use
+sessionSchema.statics.findActiveForUser = function(userId) {
+  return this.find({
+    user: userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  }).sort({ lastSeenAt: -1 });
+};
+
+// Static method to revoke every session for a user, optionally keeping one
+sessionSchema.statics.revokeAllForUser = async function(userId, { except } = {}) {
+  const filter = { user: userId, revokedAt: null };
+  if (except) filter.jti = { $ne: except };
+
+  const sessions = await this.find(filter).select('jti');
+  await this.updateMany(filter, { revokedAt: new Date() });
+
+  for (const session of sessions) {
+    await RefreshToken.revokeFamily(session.jti);
+  }
+
+  return sessions.length;
+};
+
+// Indexes for better query performance
+sessionSchema.index({ user: 1, lastSeenAt: -1 });
+// Let MongoDB clean up sessions a day after they expire
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+module.exports = mongoose.model('Session', sessionSchema);
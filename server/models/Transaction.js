@@ -84,6 +84,17 @@ const transactionSchema = new mongoose.Schema({
     type: String,
     trim: true
   },
+  // For internal transfers: the other user, and their half of the send/receive pair
+  counterparty: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  relatedTransaction: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Transaction',
+    default: null
+  },
   blockNumber: {
     type: Number,
     min: [0, 'Block number cannot be negative']
@@ -106,6 +117,57 @@ const transactionSchema = new mongoose.Schema({
     maxlength: [500, 'Notes cannot exceed 500 characters'],
     trim: true
   },
+  // Deposits and withdrawals: the payment provider handling the money movement
+  payment: {
+    provider: {
+      type: String,
+      trim: true
+    },
+    reference: {
+      type: String,
+      trim: true
+    },
+    failureReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Failure reason cannot exceed 500 characters']
+    }
+  },
+  // Set when an admin reverses the transaction; the wallet change is undone at that time
+  reversal: {
+    reversedAt: {
+      type: Date,
+      default: null
+    },
+    reversedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reversal reason cannot exceed 500 characters']
+    }
+  },
+  // Internal notes from support staff; not shown to the account owner
+  adminNotes: [{
+    author: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    note: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: [1000, 'Note cannot exceed 1000 characters']
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
   metadata: {
     platform: {
       type: String,
@@ -127,7 +189,13 @@ const transactionSchema = new mongoose.Schema({
   }
 }, {
   timestamps: true,
-  toJSON: { virtuals: true }
+  toJSON: {
+    virtuals: true,
+    transform: function(doc, ret) {
+      delete ret.adminNotes;
+      return ret;
+    }
+  }
 });
 
 // Virtual for total transaction value including fees
@@ -171,6 +239,16 @@ transactionSchema.methods.failTransaction = function(reason) {
   this.notes = reason || 'Transaction failed';
 };
 
+// Instance method to mark a transaction as reversed by an admin
+transactionSchema.methods.markReversed = function(adminId, reason) {
+  this.status = 'cancelled';
+  this.reversal = {
+    reversedAt: new Date(),
+    reversedBy: adminId,
+    reason
+  };
+};
+
 // Static method to get user transaction history
 transactionSchema.statics.getUserTransactions = function(userId, options = {}) {
   const {
@@ -244,5 +322,6 @@ transactionSchema.index({ transactionHash: 1 });
 transactionSchema.index({ status: 1 });
 transactionSchema.index({ type: 1 });
 transactionSchema.index({ 'cryptocurrency.symbol': 1 });
+transactionSchema.index({ 'payment.reference': 1 }, { sparse: true });
 
 module.exports = mongoose.model('Transaction', transactionSchema);
\ No newline at end of file
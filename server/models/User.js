@@ -1,5 +1,16 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const crypto = require('crypto');
+const { authenticator } = require('otplib');
+const { PASSWORD_POLICY } = require('../utils/passwordPolicy');
+
+// Recovery codes are compared case-insensitively and without the separator
+const hashRecoveryCode = (code) => crypto
+  .createHash('sha256')
+  .update(code.toString().replace(/[\s-]/g, '').toUpperCase())
+  .digest('hex');
+
+const hashResetToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
 
 const userSchema = new mongoose.Schema({
   username: {
@@ -22,7 +33,7 @@ const userSchema = new mongoose.Schema({
   password: {
     type: String,
     required: [true, 'Password is required'],
-    minlength: [6, 'Password must be at least 6 characters long']
+    minlength: [PASSWORD_POLICY.minLength, `Password must be at least ${PASSWORD_POLICY.minLength} characters long`]
   },
   firstName: {
     type: String,
@@ -36,19 +47,41 @@ const userSchema = new mongoose.Schema({
     trim: true,
     maxlength: [50, 'Last name cannot exceed 50 characters']
   },
+  role: {
+    type: String,
+    enum: ['user', 'support', 'admin'],
+    default: 'user'
+  },
   isEmailVerified: {
     type: Boolean,
     default: false
   },
+  // URL of the largest thumbnail; every size is listed in profilePictureSizes
   profilePicture: {
     type: String,
     default: null
   },
+  profilePictureSizes: {
+    small: String,
+    medium: String,
+    large: String
+  },
+  // Storage keys of the stored thumbnails, used to delete them
+  profilePictureKeys: {
+    type: [String],
+    default: [],
+    select: false
+  },
+  // Ethereum receive address of the user's HD wallet (set when the wallet keys are created)
   walletAddress: {
     type: String,
     unique: true,
     sparse: true // Allows multiple null values but ensures uniqueness when not null
   },
+  hdWalletCreatedAt: {
+    type: Date,
+    default: null
+  },
   isActive: {
     type: Boolean,
     default: true
@@ -57,6 +90,83 @@ const userSchema = new mongoose.Schema({
     type: Date,
     default: null
   },
+  passwordChangedAt: {
+    type: Date,
+    default: null
+  },
+  passwordResetTokenHash: {
+    type: String,
+    default: null,
+    select: false
+  },
+  passwordResetExpires: {
+    type: Date,
+    default: null,
+    select: false
+  },
+  deletionScheduledFor: {
+    type: Date,
+    default: null
+  },
+  // Identity at the single sign-on (OIDC) provider this account is linked to
+  oidc: {
+    issuer: {
+      type: String,
+      default: null
+    },
+    subject: {
+      type: String,
+      default: null
+    },
+    linkedAt: {
+      type: Date,
+      default: null
+    }
+  },
+  // Registered passkeys (WebAuthn credentials); ids and keys are base64url encoded
+  webauthnCredentials: {
+    type: [{
+      credentialId: {
+        type: String,
+        required: true
+      },
+      publicKey: {
+        type: String,
+        required: true
+      },
+      counter: {
+        type: Number,
+        default: 0
+      },
+      transports: {
+        type: [String],
+        default: []
+      },
+      deviceType: {
+        type: String,
+        enum: ['singleDevice', 'multiDevice']
+      },
+      backedUp: {
+        type: Boolean,
+        default: false
+      },
+      name: {
+        type: String,
+        trim: true,
+        maxlength: [50, 'Passkey name cannot exceed 50 characters']
+      },
+      lastUsedAt: {
+        type: Date,
+        default: null
+      },
+      createdAt: {
+        type: Date,
+        default: Date.now
+      }
+    }],
+    default: [],
+    select: false
+  },
   securitySettings: {
     twoFactorEnabled: {
       type: Boolean,
@@ -65,6 +175,49 @@ const userSchema = new mongoose.Schema({
     loginNotifications: {
       type: Boolean,
       default: true
+    },
+    // Set when the user reports a login they don't recognise; blocks sign-in until reset
+    passwordResetRequired: {
+      type: Boolean,
+      default: false
+    },
+    twoFactorSecret: {
+      type: String,
+      default: null,
+      select: false
+    },
+    twoFactorPendingSecret: {
+      type: String,
+      default: null,
+      select: false
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      default: [],
+      select: false
+    },
+    // TOTP time-step of the last accepted code; that code and older ones are refused
+    twoFactorLastUsedStep: {
+      type: Number,
+      default: null,
+      select: false
+    },
+    // Minutes of inactivity before the web app locks itself (0 turns auto-lock off)
+    autoLockMinutes: {
+      type: Number,
+      default: 15,
+      min: 0,
+      max: 240
+    },
+    lockPinEnabled: {
+      type: Boolean,
+      default: false
+    },
+    // bcrypt hash of the PIN that unlocks the locked web app
+    lockPinHash: {
+      type: String,
+      default: null,
+      select: false
     }
   }
 }, {
@@ -73,7 +226,18 @@ const userSchema = new mongoose.Schema({
     virtuals: true,
     transform: function(doc, ret) {
       delete ret.password;
+      delete ret.passwordResetTokenHash;
+      delete ret.passwordResetExpires;
+      delete ret.webauthnCredentials;
+      delete ret.profilePictureKeys;
       delete ret.__v;
+      if (ret.securitySettings) {
+        delete ret.securitySettings.twoFactorSecret;
+        delete ret.securitySettings.twoFactorPendingSecret;
+        delete ret.securitySettings.twoFactorRecoveryCodes;
+        delete ret.securitySettings.twoFactorLastUsedStep;
+        delete ret.securitySettings.lockPinHash;
+      }
       return ret;
     }
   }
@@ -89,6 +253,11 @@ userSchema.pre('save', async function(next) {
   // Only hash the password if it has been modified (or is new)
   if (!this.isModified('password')) return next();
   
+  // Backdate by a second so a token issued right after the change stays valid
+  if (!this.isNew) {
+    this.passwordChangedAt = new Date(Date.now() - 1000);
+  }
+
   try {
     // Hash password with cost of 12
     const rounds = parseInt(process.env.BCRYPT_ROUNDS) || 12;
@@ -108,16 +277,146 @@ userSchema.methods.comparePassword = async function(candidatePassword) {
   }
 };
 
-// Instance method to generate wallet address
-userSchema.methods.generateWalletAddress = function() {
-  // Generate a simple wallet address (in production, use proper crypto libraries)
-  const prefix = 'CW'; // CryptoWallet prefix
-  const timestamp = Date.now().toString(36);
-  const random = Math.random().toString(36).substring(2, 8);
-  const userId = this._id.toString().substring(0, 4);
-  
-  this.walletAddress = `${prefix}${timestamp}${random}${userId}`.toUpperCase();
-  return this.walletAddress;
+// Instance method to set or clear the lock screen PIN (pass null to clear)
+userSchema.methods.setLockPin = async function(pin) {
+  const rounds = parseInt(process.env.BCRYPT_ROUNDS) || 12;
+  this.securitySettings.lockPinHash = pin ? await bcrypt.hash(pin, rounds) : null;
+  this.securitySettings.lockPinEnabled = !!pin;
+};
+
+// Instance method to check the lock screen PIN (requires lockPinHash to be selected)
+userSchema.methods.compareLockPin = async function(pin) {
+  const hash = this.securitySettings.lockPinHash;
+  if (!hash || !pin) return false;
+  return bcrypt.compare(pin, hash);
+};
+
+// Instance method to check if the password changed after a token was issued
+userSchema.methods.changedPasswordAfter = function(tokenIssuedAt) {
+  if (!this.passwordChangedAt) return false;
+  return Math.floor(this.passwordChangedAt.getTime() / 1000) > tokenIssuedAt;
+};
+
+// Instance method to create a single-use password reset token (only the hash is stored)
+userSchema.methods.createPasswordResetToken = function() {
+  const token = crypto.randomBytes(32).toString('hex');
+  const minutes = parseInt(process.env.PASSWORD_RESET_EXPIRES_MINUTES) || 60;
+
+  this.passwordResetTokenHash = hashResetToken(token);
+  this.passwordResetExpires = new Date(Date.now() + minutes * 60 * 1000);
+  return token;
+};
+
+// Instance method to invalidate any outstanding password reset token
+userSchema.methods.clearPasswordResetToken = function() {
+  this.passwordResetTokenHash = null;
+  this.passwordResetExpires = null;
+};
+
+// Instance method to schedule a hard delete after the grace period
+userSchema.methods.scheduleDeletion = function() {
+  const graceDays = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS) || 30;
+  const scheduledFor = new Date();
+  scheduledFor.setDate(scheduledFor.getDate() + graceDays);
+
+  this.isActive = false;
+  this.deletionScheduledFor = scheduledFor;
+  return scheduledFor;
+};
+
+// Instance method to check if a deleted account can still be restored
+userSchema.methods.isPendingDeletion = function() {
+  return !this.isActive && !!this.deletionScheduledFor && this.deletionScheduledFor > new Date();
+};
+
+// Instance method to cancel a scheduled deletion
+userSchema.methods.cancelDeletion = function() {
+  this.isActive = true;
+  this.deletionScheduledFor = null;
+};
+
+// Instance method to start two-factor enrollment with a fresh secret
+userSchema.methods.generateTwoFactorSecret = function() {
+  const secret = authenticator.generateSecret();
+  this.securitySettings.twoFactorPendingSecret = secret;
+
+  return {
+    secret,
+    otpauthUrl: authenticator.keyuri(this.email, 'CryptoWallet', secret)
+  };
+};
+
+// Instance method to check a TOTP code (requires the secret fields to be selected).
+// Each code works only once: an accepted code's time-step is stored for the caller to save,
+// and codes from that step or earlier are refused.
+userSchema.methods.verifyTwoFactorCode = function(code, { pending = false } = {}) {
+  const secret = pending
+    ? this.securitySettings.twoFactorPendingSecret
+    : this.securitySettings.twoFactorSecret;
+
+  if (!secret || !code) return false;
+
+  try {
+    const delta = authenticator.checkDelta(code.toString().replace(/\s/g, ''), secret);
+    if (delta === null) return false;
+
+    const timeStep = Math.floor(Date.now() / 1000 / authenticator.allOptions().step) + delta;
+    const lastUsedStep = this.securitySettings.twoFactorLastUsedStep;
+    if (lastUsedStep !== null && lastUsedStep !== undefined && timeStep <= lastUsedStep) return false;
+
+    this.securitySettings.twoFactorLastUsedStep = timeStep;
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Instance method to generate one-time recovery codes (only hashes are stored)
+userSchema.methods.generateRecoveryCodes = function(count = 10) {
+  const codes = Array.from({ length: count }, () => {
+    const raw = crypto.randomBytes(5).toString('hex').toUpperCase();
+    return `${raw.substring(0, 5)}-${raw.substring(5)}`;
+  });
+
+  this.securitySettings.twoFactorRecoveryCodes = codes.map(hashRecoveryCode);
+  return codes;
+};
+
+// Instance method to consume a recovery code; each code works only once
+userSchema.methods.useRecoveryCode = function(code) {
+  if (!code) return false;
+
+  const hashed = hashRecoveryCode(code);
+  const codes = this.securitySettings.twoFactorRecoveryCodes || [];
+
+  if (!codes.includes(hashed)) return false;
+
+  this.securitySettings.twoFactorRecoveryCodes = codes.filter(c => c !== hashed);
+  return true;
+};
+
+// Instance method to find one of this user's passkeys (requires webauthnCredentials to be selected)
+userSchema.methods.getWebAuthnCredential = function(credentialId) {
+  return (this.webauthnCredentials || []).find(credential => credential.credentialId === credentialId);
+};
+
+// Static method to find the user holding a valid password reset token
+userSchema.statics.findByPasswordResetToken = function(token) {
+  return this.findOne({
+    passwordResetTokenHash: hashResetToken(token),
+    passwordResetExpires: { $gt: new Date() }
+  });
+};
+
+// Static method to find the owner of a passkey, with credentials selected
+userSchema.statics.findByWebAuthnCredential = function(credentialId) {
+  return this.findOne({ 'webauthnCredentials.credentialId': credentialId })
+    .select('+webauthnCredentials');
+};
+
+// Static method to find the account linked to an OIDC identity
+userSchema.statics.findByOidcSubject = function(issuer, subject) {
+  return this.findOne({ 'oidc.issuer': issuer, 'oidc.subject': subject });
 };
 
 // Static method to find by email or username
@@ -131,6 +430,15 @@ userSchema.statics.findByEmailOrUsername = function(identifier) {
 };
 
 // Index for better query performance
+userSchema.index({ deletionScheduledFor: 1 });
+userSchema.index({ role: 1 });
+userSchema.index({ passwordResetTokenHash: 1 });
+userSchema.index({ 'webauthnCredentials.credentialId': 1 });
+// One account per provider identity; unlinked accounts are left out of the index
+userSchema.index(
+  { 'oidc.issuer': 1, 'oidc.subject': 1 },
+  { unique: true, partialFilterExpression: { 'oidc.subject': { $type: 'string' } } }
+);
 userSchema.index({ email: 1 });
 userSchema.index({ username: 1 });
 userSchema.index({ walletAddress: 1 });
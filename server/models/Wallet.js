@@ -7,11 +7,19 @@ const walletSchema = new mongoose.Schema({
     required: true,
     unique: true
   },
+  // Fiat cash in settings.currency. Only changed with conditional $inc updates (see utils/cash.js)
+  // so concurrent buys and withdrawals cannot spend the same money twice.
   totalBalance: {
     type: Number,
     default: 0,
     min: [0, 'Total balance cannot be negative']
   },
+  // Part of totalBalance reserved for withdrawals the payment provider has not settled yet
+  heldBalance: {
+    type: Number,
+    default: 0,
+    min: [0, 'Held balance cannot be negative']
+  },
   currencies: [{
     symbol: {
       type: String,
@@ -70,6 +78,33 @@ const walletSchema = new mongoose.Schema({
       value: Number
     }]
   }],
+  // Watch-only HD accounts. The recovery phrase and private keys never leave the
+  // user's browser; only the account-level extended public keys are stored.
+  hdAccounts: [{
+    _id: false,
+    chain: {
+      type: String,
+      required: true,
+      enum: ['BTC', 'ETH']
+    },
+    derivationPath: {
+      type: String,
+      required: true
+    },
+    xpub: {
+      type: String,
+      required: true
+    },
+    // First external address (…/0/0)
+    receiveAddress: {
+      type: String,
+      required: true
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
   settings: {
     currency: {
       type: String,
@@ -99,10 +134,25 @@ const walletSchema = new mongoose.Schema({
         type: Boolean,
         default: false
       }
+    },
+    withdrawals: {
+      // Only allow withdrawals to active addresses on the user's allowlist
+      allowlistOnly: {
+        type: Boolean,
+        default: false
+      },
+      // Turning allowlist-only off is delayed by the cooling-off period; it stays on until this time
+      allowlistOnlyEndsAt: {
+        type: Date,
+        default: null
+      }
     }
   }
 }, {
   timestamps: true,
+  // Every save checks and bumps the version, so a save based on a stale read fails with a
+  // VersionError instead of overwriting a concurrent change (trades retry, see utils/writeRetries.js)
+  optimisticConcurrency: true,
   toJSON: { virtuals: true }
 });
 
@@ -111,6 +161,11 @@ walletSchema.virtual('totalPortfolioValue').get(function() {
   return this.currencies.reduce((total, currency) => total + currency.value, 0);
 });
 
+// Virtual for cash that can be spent or withdrawn right now
+walletSchema.virtual('availableBalance').get(function() {
+  return Math.max(this.totalBalance - this.heldBalance, 0);
+});
+
 // Virtual for total profit/loss
 walletSchema.virtual('totalProfitLoss').get(function() {
   return this.currencies.reduce((total, currency) => total + currency.profitLoss, 0);
@@ -163,6 +218,21 @@ walletSchema.methods.addOrUpdateCurrency = function(currencyData) {
   }
 };
 
+// Method to remove an amount of a currency; returns false if the balance is too low
+walletSchema.methods.removeCurrency = function(symbol, amount) {
+  const currency = this.currencies.find(c => c.symbol === symbol);
+  if (!currency || currency.amount < amount) return false;
+
+  currency.amount -= amount;
+  currency.value = currency.amount * currency.currentPrice;
+  currency.profitLoss = currency.value - (currency.amount * currency.averageBuyPrice);
+
+  if (currency.amount <= 0) {
+    this.currencies = this.currencies.filter(c => c.symbol !== symbol);
+  }
+  return true;
+};
+
 // Method to update currency prices
 walletSchema.methods.updateCurrencyPrices = function(priceData) {
   this.currencies.forEach(currency => {
@@ -201,6 +271,32 @@ walletSchema.methods.recordPortfolioSnapshot = function() {
   );
 };
 
+// Instance method to check whether withdrawals are limited to the allowlist right now
+walletSchema.methods.isAllowlistOnly = function() {
+  const { allowlistOnly, allowlistOnlyEndsAt } = this.settings.withdrawals;
+  return allowlistOnly && !(allowlistOnlyEndsAt && allowlistOnlyEndsAt <= new Date());
+};
+
+// Instance method to change allowlist-only mode; turning it off waits out the cooling-off period
+walletSchema.methods.setAllowlistOnly = function(enabled, cooldownMs) {
+  const withdrawals = this.settings.withdrawals;
+
+  if (enabled) {
+    withdrawals.allowlistOnly = true;
+    withdrawals.allowlistOnlyEndsAt = null;
+  } else if (!this.isAllowlistOnly()) {
+    withdrawals.allowlistOnly = false;
+    withdrawals.allowlistOnlyEndsAt = null;
+  } else if (!withdrawals.allowlistOnlyEndsAt) {
+    withdrawals.allowlistOnlyEndsAt = new Date(Date.now() + cooldownMs);
+  }
+};
+
+// Instance method to find the HD account for a chain
+walletSchema.methods.getHdAccount = function(chain) {
+  return (this.hdAccounts || []).find(account => account.chain === chain);
+};
+
 // Index for better query performance
 walletSchema.index({ user: 1 });
 walletSchema.index({ 'currencies.symbol': 1 });
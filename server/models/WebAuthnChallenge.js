@@ -0,0 +1,50 @@
+const mongoose = require('mongoose');
+
+// Matches the lifetime of the challenge token handed to the browser
+const CHALLENGE_LIFETIME_MS = 5 * 60 * 1000;
+
+const webAuthnChallengeSchema = new mongoose.Schema({
+  challenge: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  purpose: {
+    type: String,
+    enum: ['register', 'login', 'step-up'],
+    required: true
+  },
+  // Null for a sign-in that offers any discoverable passkey
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Static method to remember a challenge handed out with registration or authentication options
+webAuthnChallengeSchema.statics.issue = function(challenge, purpose, userId = null) {
+  return this.create({
+    challenge,
+    purpose,
+    user: userId,
+    expiresAt: new Date(Date.now() + CHALLENGE_LIFETIME_MS)
+  });
+};
+
+// Static method to use up a challenge. Only the first caller gets the record back;
+// a replayed, expired or unknown challenge resolves to null.
+webAuthnChallengeSchema.statics.consume = function(challenge, purpose) {
+  return this.findOneAndDelete({ challenge, purpose, expiresAt: { $gt: new Date() } });
+};
+
+// Let MongoDB drop challenges that were never answered
+webAuthnChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+module.exports = mongoose.model('WebAuthnChallenge', webAuthnChallengeSchema);
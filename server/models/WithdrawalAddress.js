@@ -0,0 +1,80 @@
+const mongoose = require('mongoose');
+
+const withdrawalAddressSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  address: {
+    type: String,
+    required: [true, 'Address is required'],
+    trim: true,
+    maxlength: [128, 'Address cannot exceed 128 characters']
+  },
+  label: {
+    type: String,
+    required: [true, 'Label is required'],
+    trim: true,
+    maxlength: [50, 'Label cannot exceed 50 characters']
+  },
+  // Set once the addition is confirmed by email or a second factor
+  confirmedAt: {
+    type: Date,
+    default: null
+  },
+  // End of the cooling-off period; the address can't receive withdrawals before this
+  activatesAt: {
+    type: Date,
+    default: null
+  },
+  // Set while a removal is waiting for email confirmation
+  removalRequestedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: function(doc, ret) {
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Virtual for where the address is in its lifecycle
+withdrawalAddressSchema.virtual('status').get(function() {
+  if (!this.confirmedAt) return 'unconfirmed';
+  if (this.activatesAt > new Date()) return 'cooling_off';
+  return 'active';
+});
+
+// Instance method to confirm the addition and start the cooling-off period
+withdrawalAddressSchema.methods.confirm = function(cooldownMs) {
+  this.confirmedAt = new Date();
+  this.activatesAt = new Date(Date.now() + cooldownMs);
+  return this.activatesAt;
+};
+
+// Static method to list a user's allowlist, newest first
+withdrawalAddressSchema.statics.findForUser = function(userId) {
+  return this.find({ user: userId }).sort({ createdAt: -1 });
+};
+
+// Static method to find an allowlisted address that can receive withdrawals right now
+withdrawalAddressSchema.statics.findUsable = function(userId, address) {
+  return this.findOne({
+    user: userId,
+    address: address.trim(),
+    confirmedAt: { $ne: null },
+    activatesAt: { $lte: new Date() }
+  });
+};
+
+// Each address can only be on a user's allowlist once
+withdrawalAddressSchema.index({ user: 1, address: 1 }, { unique: true });
+withdrawalAddressSchema.index({ user: 1, createdAt: -1 });
+
+module.exports = mongoose.model('WithdrawalAddress', withdrawalAddressSchema);
@@ -0,0 +1,40 @@
+const createMockProvider = require('./providers/mock');
+
+const providers = {
+  mock: createMockProvider
+};
+
+let activeProvider = null;
+
+/**
+ * Get the configured payment provider (PAYMENT_PROVIDER=mock)
+ */
+const getPaymentProvider = () => {
+  if (!activeProvider) {
+    const name = process.env.PAYMENT_PROVIDER || 'mock';
+    const factory = providers[name];
+
+    if (!factory) {
+      throw new Error(`Unknown payment provider "${name}"`);
+    }
+
+    activeProvider = factory();
+  }
+
+  return activeProvider;
+};
+
+/**
+ * Replace the payment provider, e.g. with a card or bank transfer integration.
+ * A provider has a name and async createDeposit / createWithdrawal({ reference, amount, currency, userId })
+ * and getPaymentStatus(providerReference), each resolving with
+ * { providerReference, status: 'pending' | 'completed' | 'failed', failureReason? }.
+ */
+const setPaymentProvider = (provider) => {
+  activeProvider = provider;
+};
+
+module.exports = {
+  getPaymentProvider,
+  setPaymentProvider
+};
@@ -0,0 +1,53 @@
+const crypto = require('crypto');
+
+/**
+ * Payment provider that moves no real money (local development and demos).
+ * Payments settle after MOCK_PAYMENT_SETTLE_MS (0 = straight away) and payments
+ * above MOCK_PAYMENT_DECLINE_OVER are declined, so both outcomes can be tried.
+ * State is kept in memory: payments still pending at a restart are reported as failed.
+ */
+const createMockProvider = () => {
+  const settleMs = parseInt(process.env.MOCK_PAYMENT_SETTLE_MS) || 0;
+  const declineOver = parseFloat(process.env.MOCK_PAYMENT_DECLINE_OVER) || 50000;
+  const payments = new Map();
+
+  const create = (kind, { amount, currency }) => {
+    const providerReference = `mock_${kind}_${crypto.randomBytes(8).toString('hex')}`;
+    const declined = amount > declineOver;
+
+    payments.set(providerReference, {
+      settlesAt: Date.now() + settleMs,
+      status: declined ? 'failed' : 'completed',
+      failureReason: declined ? `Declined: the mock provider refuses payments over ${declineOver} ${currency}` : undefined
+    });
+
+    return getPaymentStatus(providerReference);
+  };
+
+  const getPaymentStatus = async (providerReference) => {
+    const payment = payments.get(providerReference);
+    if (!payment) {
+      return { providerReference, status: 'failed', failureReason: 'Unknown payment' };
+    }
+    if (payment.settlesAt > Date.now()) {
+      return { providerReference, status: 'pending' };
+    }
+    return { providerReference, status: payment.status, failureReason: payment.failureReason };
+  };
+
+  return {
+    name: 'mock',
+
+    async createDeposit(payment) {
+      return create('dep', payment);
+    },
+
+    async createWithdrawal(payment) {
+      return create('wd', payment);
+    },
+
+    getPaymentStatus
+  };
+};
+
+module.exports = createMockProvider;
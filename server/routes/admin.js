@@ -0,0 +1,778 @@
+const express = require('express');
+const { body, param, query, validationResult } = require('express-validator');
+const User = require('../models/User');
+const Wallet = require('../models/Wallet');
+const Transaction = require('../models/Transaction');
+const Session = require('../models/Session');
+const AdminAction = require('../models/AdminAction');
+const AuditEvent = require('../models/AuditEvent');
+const { authenticateToken, authorize, denyApiKeys } = require('../middleware/auth');
+const { creditCash, debitCash } = require('../utils/cash');
+const { postReversal, checkLedger } = require('../utils/ledger');
+const { withWriteRetries } = require('../utils/writeRetries');
+
+const router = express.Router();
+
+// Every admin route needs a signed-in staff member; admin-only routes narrow this further
+router.use(denyApiKeys, authenticateToken, authorize('support', 'admin'));
+
+// Helper function to handle validation errors
+const handleValidationErrors = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      message: 'Please check your input data',
+      details: errors.array()
+    });
+  }
+  next();
+};
+
+const validateObjectId = (field) => param(field)
+  .isMongoId()
+  .withMessage('Invalid id');
+
+const validateReason = body('reason')
+  .trim()
+  .isLength({ min: 3, max: 500 })
+  .withMessage('A reason between 3 and 500 characters is required');
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Fields staff can see about an account
+const formatUser = (user) => ({
+  id: user._id,
+  username: user.username,
+  email: user.email,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  role: user.role,
+  isActive: user.isActive,
+  isEmailVerified: user.isEmailVerified,
+  twoFactorEnabled: user.securitySettings.twoFactorEnabled,
+  deletionScheduledFor: user.deletionScheduledFor,
+  walletAddress: user.walletAddress,
+  hdWalletCreatedAt: user.hdWalletCreatedAt,
+  lastLogin: user.lastLogin,
+  createdAt: user.createdAt
+});
+
+// Filters shared by the audit event query and export
+const validateAuditEventFilters = [
+  query('user').optional().isMongoId(),
+  query('actor').optional().isMongoId(),
+  query('action').optional().trim().isLength({ max: 50 }),
+  query('outcome').optional().isIn(['success', 'failure']),
+  query('ipAddress').optional().trim().isIP(),
+  query('from').optional().isISO8601(),
+  query('to').optional().isISO8601()
+];
+
+const buildAuditEventFilter = ({ user, actor, action, outcome, ipAddress, from, to }) => {
+  const filter = {};
+  if (user) filter.user = user;
+  if (actor) filter.actor = actor;
+  if (action) filter.action = action;
+  if (outcome) filter.outcome = outcome;
+  if (ipAddress) filter.ipAddress = ipAddress;
+  if (from || to) {
+    filter.createdAt = {};
+    if (from) filter.createdAt.$gte = new Date(from);
+    if (to) filter.createdAt.$lte = new Date(to);
+  }
+  return filter;
+};
+
+// Exports are capped so one request cannot stream the whole collection
+const MAX_AUDIT_EXPORT = 10000;
+
+const AUDIT_CSV_COLUMNS = ['createdAt', 'user', 'actorType', 'actor', 'apiKey', 'action', 'outcome', 'ipAddress', 'userAgent', 'changes', 'metadata'];
+
+// Quote a CSV cell; cells starting with a formula character are prefixed so spreadsheets don't run them
+const toCsvCell = (value) => {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString()
+    : typeof value === 'object' && !value._bsontype ? JSON.stringify(value)
+    : String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+// Transactions including the internal notes hidden from account owners
+const formatTransaction = (transaction) => ({
+  ...transaction.toJSON(),
+  adminNotes: transaction.adminNotes
+});
+
+/**
+ * @route   GET /api/admin/users
+ * @desc    Search users by username, email or name
+ * @access  Support, Admin
+ */
+router.get('/users', [
+  query('q').optional().trim().isLength({ max: 100 }),
+  query('role').optional().isIn(['user', 'support', 'admin']),
+  query('status').optional().isIn(['active', 'disabled']),
+  query('page').optional().isInt({ min: 1 }).toInt(),
+  query('limit').optional().isInt({ min: 1, max: 100 }).toInt()
+], handleValidationErrors, async (req, res) => {
+  try {
+    const { q, role, status, page = 1, limit = 20 } = req.query;
+
+    const filter = {};
+    if (q) {
+      const pattern = new RegExp(escapeRegex(q), 'i');
+      filter.$or = [
+        { username: pattern },
+        { email: pattern },
+        { firstName: pattern },
+        { lastName: pattern }
+      ];
+    }
+    if (role) filter.role = role;
+    if (status) filter.isActive = status === 'active';
+
+    const [users, totalUsers] = await Promise.all([
+      User.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      User.countDocuments(filter)
+    ]);
+
+    await AdminAction.record(req, {
+      action: 'user.search',
+      targetType: 'user',
+      details: { q, role, status, page }
+    });
+
+    const totalPages = Math.ceil(totalUsers / limit);
+
+    res.json({
+      success: true,
+      data: {
+        users: users.map(formatUser),
+        pagination: {
+          currentPage: page,
+          totalPages,
+          totalUsers,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Admin user search error:', error);
+    res.status(500).json({
+      error: 'Search failed',
+      message: 'Unable to search users'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/admin/users/:id
+ * @desc    Get a single user's account details
+ * @access  Support, Admin
+ */
+router.get('/users/:id', validateObjectId('id'), handleValidationErrors, async (req, res) => {
+  try {
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'No user exists with this id'
+      });
+    }
+
+    await AdminAction.record(req, {
+      action: 'user.view',
+      targetType: 'user',
+      targetId: user._id
+    });
+
+    res.json({
+      success: true,
+      data: {
+        user: formatUser(user)
+      }
+    });
+
+  } catch (error) {
+    console.error('Admin get user error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Unable to fetch user'
+    });
+  }
+});
+
+/**
+ * @route   PATCH /api/admin/users/:id/status
+ * @desc    Disable or re-enable an account
+ * @access  Admin
+ */
+router.patch('/users/:id/status', authorize('admin'), [
+  validateObjectId('id'),
+  body('isActive').isBoolean().withMessage('isActive must be true or false').toBoolean(),
+  validateReason
+], handleValidationErrors, async (req, res) => {
+  try {
+    const { isActive, reason } = req.body;
+
+    if (req.params.id === req.user._id.toString()) {
+      return res.status(400).json({
+        error: 'Invalid operation',
+        message: 'You cannot change the status of your own account'
+      });
+    }
+
+    const user = await User.findById(req.params.id);
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'No user exists with this id'
+      });
+    }
+
+    const previous = user.isActive;
+    const deletionScheduledFor = user.deletionScheduledFor;
+    user.isActive = isActive;
+    // A pending self-deletion would otherwise let a disabled user sign in and restore the
+    // account, or get a re-enabled account purged
+    user.deletionScheduledFor = null;
+    await user.save();
+
+    if (!isActive) {
+      await Session.revokeAllForUser(user._id);
+    }
+
+    await AdminAction.record(req, {
+      action: isActive ? 'user.enable' : 'user.disable',
+      targetType: 'user',
+      targetId: user._id,
+      reason,
+      details: { previous, isActive, deletionScheduledFor }
+    });
+
+    res.json({
+      success: true,
+      message: isActive ? 'Account re-enabled' : 'Account disabled and signed out everywhere',
+      data: {
+        user: formatUser(user)
+      }
+    });
+
+  } catch (error) {
+    console.error('Admin update status error:', error);
+    res.status(500).json({
+      error: 'Update failed',
+      message: 'Unable to update account status'
+    });
+  }
+});
+
+/**
+ * @route   PATCH /api/admin/users/:id/role
+ * @desc    Change a user's role
+ * @access  Admin
+ */
+router.patch('/users/:id/role', authorize('admin'), [
+  validateObjectId('id'),
+  body('role').isIn(['user', 'support', 'admin']).withMessage('Role must be user, support or admin'),
+  validateReason
+], handleValidationErrors, async (req, res) => {
+  try {
+    const { role, reason } = req.body;
+
+    // Keeps at least one admin able to undo mistakes
+    if (req.params.id === req.user._id.toString()) {
+      return res.status(400).json({
+        error: 'Invalid operation',
+        message: 'You cannot change your own role'
+      });
+    }
+
+    const user = await User.findById(req.params.id);
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'No user exists with this id'
+      });
+    }
+
+    const previous = user.role;
+    user.role = role;
+    await user.save();
+
+    await AdminAction.record(req, {
+      action: 'user.role',
+      targetType: 'user',
+      targetId: user._id,
+      reason,
+      details: { previous, role }
+    });
+
+    res.json({
+      success: true,
+      message: 'Role updated',
+      data: {
+        user: formatUser(user)
+      }
+    });
+
+  } catch (error) {
+    console.error('Admin update role error:', error);
+    res.status(500).json({
+      error: 'Update failed',
+      message: 'Unable to update role'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/admin/users/:id/wallet
+ * @desc    View a user's wallet and transactions (read-only)
+ * @access  Support, Admin
+ */
+router.get('/users/:id/wallet', [
+  validateObjectId('id'),
+  query('page').optional().isInt({ min: 1 }).toInt(),
+  query('limit').optional().isInt({ min: 1, max: 100 }).toInt()
+], handleValidationErrors, async (req, res) => {
+  try {
+    const { page = 1, limit = 50 } = req.query;
+
+    const wallet = await Wallet.findOne({ user: req.params.id });
+    if (!wallet) {
+      return res.status(404).json({
+        error: 'Wallet not found',
+        message: 'No wallet found for this user'
+      });
+    }
+
+    const [transactions, totalTransactions] = await Promise.all([
+      Transaction.find({ user: req.params.id })
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Transaction.countDocuments({ user: req.params.id })
+    ]);
+
+    await AdminAction.record(req, {
+      action: 'wallet.view',
+      targetType: 'wallet',
+      targetId: wallet._id,
+      details: { user: req.params.id, page }
+    });
+
+    const totalPages = Math.ceil(totalTransactions / limit);
+
+    res.json({
+      success: true,
+      data: {
+        wallet: {
+          id: wallet._id,
+          user: wallet.user,
+          totalBalance: wallet.totalBalance,
+          heldBalance: wallet.heldBalance,
+          totalPortfolioValue: wallet.totalPortfolioValue,
+          totalProfitLoss: wallet.totalProfitLoss,
+          currencies: wallet.currencies,
+          settings: wallet.settings,
+          createdAt: wallet.createdAt,
+          updatedAt: wallet.updatedAt
+        },
+        transactions: transactions.map(formatTransaction),
+        pagination: {
+          currentPage: page,
+          totalPages,
+          totalTransactions,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Admin view wallet error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Unable to fetch wallet'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/admin/transactions/:id/reverse
+ * @desc    Reverse a completed buy or sell and undo its effect on the wallet and cash balance
+ * @access  Admin
+ */
+router.post('/transactions/:id/reverse', authorize('admin'), [
+  validateObjectId('id'),
+  validateReason
+], handleValidationErrors, async (req, res) => {
+  try {
+    const { reason } = req.body;
+
+    const transaction = await Transaction.findById(req.params.id);
+    if (!transaction) {
+      return res.status(404).json({
+        error: 'Transaction not found',
+        message: 'No transaction exists with this id'
+      });
+    }
+
+    if (transaction.status !== 'completed' || transaction.reversal.reversedAt) {
+      return res.status(400).json({
+        error: 'Invalid operation',
+        message: 'Only completed transactions that have not been reversed can be reversed'
+      });
+    }
+
+    if (!['buy', 'sell'].includes(transaction.type)) {
+      return res.status(400).json({
+        error: 'Invalid operation',
+        message: `Reversing ${transaction.type} transactions is not supported`
+      });
+    }
+
+    const { symbol, name, amount, price } = transaction.cryptocurrency;
+
+    // The wallet, the cash balance, the transaction and the journal are updated in one
+    // MongoDB transaction, started over with fresh reads if the wallet changes meanwhile
+    const result = await withWriteRetries(async (session) => {
+      const current = await Transaction.findById(transaction._id).session(session);
+      if (current.status !== 'completed' || current.reversal.reversedAt) {
+        return {
+          status: 400,
+          error: 'Invalid operation',
+          message: 'Only completed transactions that have not been reversed can be reversed'
+        };
+      }
+
+      const wallet = await Wallet.findById(current.wallet).session(session);
+      if (!wallet) {
+        return {
+          status: 404,
+          error: 'Wallet not found',
+          message: 'The wallet for this transaction no longer exists'
+        };
+      }
+
+      if (current.type === 'buy') {
+        // The user must still hold what was bought
+        if (!wallet.removeCurrency(symbol, amount)) {
+          return {
+            status: 409,
+            error: 'Insufficient balance',
+            message: `The wallet no longer holds ${amount} ${symbol}, so this purchase cannot be reversed`
+          };
+        }
+      } else {
+        // The net proceeds of the sale are taken back from the cash balance
+        const proceeds = current.fiat.amount - current.fees.amount;
+        if (!(await debitCash(wallet._id, proceeds, { session }))) {
+          return {
+            status: 409,
+            error: 'Insufficient funds',
+            message: `The wallet no longer has ${proceeds} ${current.fiat.currency} available, so this sale cannot be reversed`
+          };
+        }
+
+        // Sold coins are returned at the price they were sold for
+        wallet.addOrUpdateCurrency({ symbol, name, amount, price });
+      }
+
+      await wallet.save({ session });
+
+      if (current.type === 'buy') {
+        // Refund what the purchase cost, fee included
+        await creditCash(wallet._id, current.fiat.amount + current.fees.amount, { session });
+      }
+
+      current.markReversed(req.user._id, reason);
+      await current.save({ session });
+      await postReversal(current, { memo: reason, session });
+
+      return { transaction: current };
+    });
+
+    if (result.error) {
+      return res.status(result.status).json({
+        error: result.error,
+        message: result.message
+      });
+    }
+
+    await AdminAction.record(req, {
+      action: 'transaction.reverse',
+      targetType: 'transaction',
+      targetId: transaction._id,
+      reason,
+      details: { type: transaction.type, symbol, amount, user: transaction.user }
+    });
+
+    res.json({
+      success: true,
+      message: 'Transaction reversed',
+      data: {
+        transaction: formatTransaction(result.transaction)
+      }
+    });
+
+  } catch (error) {
+    console.error('Admin reverse transaction error:', error);
+    res.status(500).json({
+      error: 'Reversal failed',
+      message: 'Unable to reverse transaction'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/admin/transactions/:id/notes
+ * @desc    Add an internal note to a transaction
+ * @access  Support, Admin
+ */
+router.post('/transactions/:id/notes', [
+  validateObjectId('id'),
+  body('note')
+    .trim()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('Note must be between 1 and 1000 characters')
+], handleValidationErrors, async (req, res) => {
+  try {
+    const transaction = await Transaction.findById(req.params.id);
+    if (!transaction) {
+      return res.status(404).json({
+        error: 'Transaction not found',
+        message: 'No transaction exists with this id'
+      });
+    }
+
+    transaction.adminNotes.push({ author: req.user._id, note: req.body.note });
+    await transaction.save();
+
+    await AdminAction.record(req, {
+      action: 'transaction.annotate',
+      targetType: 'transaction',
+      targetId: transaction._id,
+      details: { note: req.body.note }
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Note added',
+      data: {
+        transaction: formatTransaction(transaction)
+      }
+    });
+
+  } catch (error) {
+    console.error('Admin annotate transaction error:', error);
+    res.status(500).json({
+      error: 'Update failed',
+      message: 'Unable to add note'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/admin/audit
+ * @desc    List recorded admin actions, newest first
+ * @access  Admin
+ */
+router.get('/audit', authorize('admin'), [
+  query('actor').optional().isMongoId(),
+  query('targetId').optional().isMongoId(),
+  query('action').optional().trim(),
+  query('page').optional().isInt({ min: 1 }).toInt(),
+  query('limit').optional().isInt({ min: 1, max: 100 }).toInt()
+], handleValidationErrors, async (req, res) => {
+  try {
+    const { actor, targetId, action, page = 1, limit = 50 } = req.query;
+
+    const filter = {};
+    if (actor) filter.actor = actor;
+    if (targetId) filter.targetId = targetId;
+    if (action) filter.action = action;
+
+    const [actions, totalActions] = await Promise.all([
+      AdminAction.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('actor', 'username email role'),
+      AdminAction.countDocuments(filter)
+    ]);
+
+    await AdminAction.record(req, {
+      action: 'audit.view',
+      targetType: 'audit',
+      details: { actor, targetId, action, page }
+    });
+
+    const totalPages = Math.ceil(totalActions / limit);
+
+    res.json({
+      success: true,
+      data: {
+        actions,
+        pagination: {
+          currentPage: page,
+          totalPages,
+          totalActions,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Admin audit log error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Unable to fetch audit log'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/admin/audit-events
+ * @desc    Query the security audit log (logins, profile and settings changes, trades, token refreshes)
+ * @access  Admin
+ */
+router.get('/audit-events', authorize('admin'), [
+  ...validateAuditEventFilters,
+  query('page').optional().isInt({ min: 1 }).toInt(),
+  query('limit').optional().isInt({ min: 1, max: 100 }).toInt()
+], handleValidationErrors, async (req, res) => {
+  try {
+    const { page = 1, limit = 50 } = req.query;
+    const filter = buildAuditEventFilter(req.query);
+
+    const [events, totalEvents] = await Promise.all([
+      AuditEvent.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('user', 'username email'),
+      AuditEvent.countDocuments(filter)
+    ]);
+
+    await AdminAction.record(req, {
+      action: 'audit_events.view',
+      targetType: 'audit',
+      targetId: req.query.user || null,
+      details: { filter: req.query }
+    });
+
+    const totalPages = Math.ceil(totalEvents / limit);
+
+    res.json({
+      success: true,
+      data: {
+        events,
+        pagination: {
+          currentPage: page,
+          totalPages,
+          totalEvents,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Admin audit events error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Unable to fetch audit events'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/admin/audit-events/export
+ * @desc    Download matching audit events as CSV or JSON (oldest first, up to 10,000)
+ * @access  Admin
+ */
+router.get('/audit-events/export', authorize('admin'), [
+  ...validateAuditEventFilters,
+  query('format').optional().isIn(['csv', 'json'])
+], handleValidationErrors, async (req, res) => {
+  try {
+    const { format = 'csv' } = req.query;
+    const filter = buildAuditEventFilter(req.query);
+
+    const events = await AuditEvent.find(filter)
+      .sort({ createdAt: 1 })
+      .limit(MAX_AUDIT_EXPORT)
+      .lean();
+
+    await AdminAction.record(req, {
+      action: 'audit_events.export',
+      targetType: 'audit',
+      targetId: req.query.user || null,
+      details: { filter: req.query, count: events.length }
+    });
+
+    const filename = `audit-events-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.attachment(filename);
+
+    if (format === 'json') {
+      return res.json(events);
+    }
+
+    const rows = events.map(event => AUDIT_CSV_COLUMNS.map(column => toCsvCell(event[column])).join(','));
+    res.type('text/csv').send([AUDIT_CSV_COLUMNS.join(','), ...rows].join('\n'));
+
+  } catch (error) {
+    console.error('Admin audit events export error:', error);
+    res.status(500).json({
+      error: 'Export failed',
+      message: 'Unable to export audit events'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/admin/ledger/check
+ * @desc    Verify the books balance: every journal entry, the trial balance across all
+ *          accounts, and each wallet's cached balances against the journal
+ * @access  Admin
+ */
+router.get('/ledger/check', authorize('admin'), async (req, res) => {
+  try {
+    const report = await checkLedger();
+
+    await AdminAction.record(req, {
+      action: 'ledger.check',
+      targetType: 'ledger',
+      details: {
+        balanced: report.balanced,
+        entries: report.entries,
+        unbalancedEntries: report.unbalancedEntries.length,
+        walletMismatches: report.walletMismatches.length
+      }
+    });
+
+    res.json({
+      success: true,
+      data: report
+    });
+
+  } catch (error) {
+    console.error('Admin ledger check error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Unable to check the ledger'
+    });
+  }
+});
+
+module.exports = router;
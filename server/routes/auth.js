@@ -1,11 +1,79 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const crypto = require('crypto');
+const net = require('net');
+const { body, param, query, validationResult } = require('express-validator');
+const QRCode = require('qrcode');
 const User = require('../models/User');
 const Wallet = require('../models/Wallet');
-const { generateToken, authenticateToken, refreshToken } = require('../middleware/auth');
+const Session = require('../models/Session');
+const KnownDevice = require('../models/KnownDevice');
+const ApiKey = require('../models/ApiKey');
+const AuditEvent = require('../models/AuditEvent');
+const { buildAccountExport } = require('../utils/accountData');
+const { recordLoginDevice } = require('../utils/loginAlerts');
+const {
+  getLoginStatus,
+  recordLoginFailure,
+  clearLoginFailures,
+  redeemUnlockToken,
+  sendLoginThrottled
+} = require('../utils/loginThrottle');
+const { verifyCaptcha } = require('../utils/captcha');
+const {
+  TWO_FACTOR_FIELDS,
+  SECOND_FACTOR_FIELDS,
+  verifySecondFactor
+} = require('../utils/secondFactor');
+const { diffChanges, recordAuditEvent } = require('../utils/audit');
+const { saveProfilePicture, removeProfilePicture } = require('../utils/profilePicture');
+const {
+  createRegistrationOptions,
+  verifyRegistration,
+  createAuthenticationOptions,
+  verifyAssertion
+} = require('../utils/webauthn');
+const {
+  getConfig: getOidcConfig,
+  isOidcEnabled,
+  createAuthorizationRequest,
+  completeAuthorization
+} = require('../utils/oidc');
+const { evaluatePassword } = require('../utils/passwordPolicy');
+const { sendMail } = require('../mail');
+const { verificationEmail, passwordResetEmail } = require('../mail/templates');
+const {
+  generateTwoFactorToken,
+  verifyTwoFactorToken,
+  issueAuthTokens,
+  clearRefreshCookies,
+  verifyCsrf,
+  generateEmailVerificationToken,
+  verifyEmailVerificationToken,
+  verifyLoginAlertToken,
+  verifyUnlockToken,
+  authenticateToken,
+  denyApiKeys,
+  refreshToken,
+  requireRecentAuth,
+  STEP_UP_MAX_AGE_MS
+} = require('../middleware/auth');
+const { uploadProfilePicture } = require('../middleware/upload');
 
 const router = express.Router();
 
+// Account management needs a signed-in session; API keys only reach wallet and market data
+router.use(denyApiKeys);
+
+// Password policy check; `userFrom` picks the username, email and names the password must not contain
+const passwordPolicy = (field, userFrom = () => ({})) => body(field)
+  .custom((value, { req }) => {
+    const result = evaluatePassword(value, userFrom(req));
+    if (!result.valid) {
+      throw new Error(result.errors[0]);
+    }
+    return true;
+  });
+
 // Validation middleware
 const validateRegistration = [
   body('username')
@@ -18,11 +86,7 @@ const validateRegistration = [
     .isEmail()
     .normalizeEmail()
     .withMessage('Please provide a valid email address'),
-  body('password')
-    .isLength({ min: 6 })
-    .withMessage('Password must be at least 6 characters long')
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
-    .withMessage('Password must contain at least one uppercase letter, one lowercase letter, and one number'),
+  passwordPolicy('password', (req) => req.body),
   body('firstName')
     .trim()
     .isLength({ min: 1, max: 50 })
@@ -43,6 +107,257 @@ const validateLogin = [
     .withMessage('Password is required')
 ];
 
+const validatePasswordChange = [
+  body('currentPassword')
+    .notEmpty()
+    .withMessage('Current password is required'),
+  passwordPolicy('newPassword', (req) => req.user),
+  body('newPassword')
+    .custom((value, { req }) => value !== req.body.currentPassword)
+    .withMessage('New password must be different from the current password')
+];
+
+const validateForgotPassword = [
+  body('email')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid email address')
+];
+
+const validateResetPassword = [
+  body('token')
+    .notEmpty()
+    .withMessage('Reset token is required'),
+  passwordPolicy('password')
+];
+
+const validateSecureAccount = [
+  body('token')
+    .notEmpty()
+    .withMessage('Alert token is required')
+];
+
+const validateUnlockAccount = [
+  body('token')
+    .notEmpty()
+    .withMessage('Unlock token is required')
+];
+
+const validateTwoFactorLogin = [
+  body('twoFactorToken')
+    .notEmpty()
+    .withMessage('Two-factor challenge token is required'),
+  body('code')
+    .trim()
+    .notEmpty()
+    .withMessage('Authentication or recovery code is required')
+];
+
+const validateOidcCallback = [
+  body('code').isString().notEmpty().withMessage('Authorization code is required'),
+  body('state').isString().notEmpty().withMessage('State is required'),
+  body('flowToken').isString().notEmpty().withMessage('Sign-in flow token is required')
+];
+
+const validateTwoFactorCode = [
+  body('code')
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('Authentication code must be 6 digits')
+];
+
+const validatePasskeyResponse = [
+  body('challengeToken')
+    .notEmpty()
+    .withMessage('Passkey challenge token is required'),
+  body('response.id')
+    .isString()
+    .notEmpty()
+    .withMessage('Passkey response is required')
+];
+
+// A CIDR suffix is optional; without one the entry matches a single address
+const isIpOrCidr = (value) => {
+  const [address, prefix, ...rest] = value.split('/');
+  const version = net.isIP(address);
+  if (!version || rest.length > 0) return false;
+  if (prefix === undefined) return true;
+  return /^\d+$/.test(prefix) && parseInt(prefix) <= (version === 6 ? 128 : 32);
+};
+
+const validateApiKey = [
+  body('name')
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Key name must be between 1 and 50 characters'),
+  body('scopes')
+    .isArray({ min: 1 })
+    .withMessage('Select at least one scope'),
+  body('scopes.*')
+    .isIn(ApiKey.SCOPES)
+    .withMessage(`Scopes must be one of: ${ApiKey.SCOPES.join(', ')}`),
+  body('allowedIps')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Up to 20 IP addresses or ranges are allowed'),
+  body('allowedIps.*')
+    .trim()
+    .custom(isIpOrCidr)
+    .withMessage('Each allowed IP must be an IP address or CIDR range'),
+  body('expiresAt')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Expiry must be a valid date')
+    .custom(value => new Date(value) > new Date())
+    .withMessage('Expiry must be in the future')
+];
+
+const MAX_API_KEYS = 10;
+
+// Helper to describe a stored passkey without exposing its public key
+const formatPasskey = (credential) => ({
+  id: credential.credentialId,
+  name: credential.name,
+  deviceType: credential.deviceType,
+  backedUp: credential.backedUp,
+  createdAt: credential.createdAt,
+  lastUsedAt: credential.lastUsedAt
+});
+
+// Helper to describe an API key without exposing its hash
+const formatApiKey = (apiKey) => ({
+  id: apiKey._id,
+  name: apiKey.name,
+  keyPrefix: apiKey.keyPrefix,
+  scopes: apiKey.scopes,
+  allowedIps: apiKey.allowedIps,
+  expiresAt: apiKey.expiresAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  lastUsedIp: apiKey.lastUsedIp,
+  createdAt: apiKey.createdAt
+});
+
+// Helper to record a rejected sign-in attempt in the audit log
+const auditFailedLogin = (req, user, metadata) => recordAuditEvent(req, {
+  action: 'auth.login',
+  user: user ? user._id : null,
+  actor: user,
+  outcome: 'failure',
+  metadata
+});
+
+// Helper function to issue tokens and send the login response.
+// `method` names how the user proved who they are, for the audit log.
+const sendLoginSuccess = async (req, res, user, rememberMe = false, method = 'password') => {
+  // Signing in during the grace period cancels a scheduled deletion
+  const deletionCancelled = user.isPendingDeletion();
+  if (deletionCancelled) {
+    user.cancelDeletion();
+  }
+
+  // Generate access token and refresh cookie
+  const { token, csrfToken, expiresIn, session } = await issueAuthTokens(req, res, user, { rememberMe });
+
+  // Update last login
+  user.lastLogin = new Date();
+  await user.save();
+  await clearLoginFailures(user);
+
+  await recordAuditEvent(req, {
+    action: 'auth.login',
+    user: user._id,
+    actor: user,
+    metadata: { method, rememberMe, session: session._id, deletionCancelled }
+  });
+
+  // Not awaited so a slow GeoIP lookup or mail server never delays the login
+  recordLoginDevice(req, user, session)
+    .catch(error => console.error('Login alert error:', error));
+
+  res.json({
+    success: true,
+    message: deletionCancelled
+      ? 'Login successful. Your account deletion has been cancelled.'
+      : 'Login successful',
+    data: {
+      user: {
+        id: user._id,
+        username: user.username,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        fullName: user.fullName,
+        walletAddress: user.walletAddress,
+        hdWalletCreatedAt: user.hdWalletCreatedAt,
+        role: user.role,
+        isEmailVerified: user.isEmailVerified,
+        profilePicture: user.profilePicture,
+        profilePictureSizes: user.profilePictureSizes,
+        lastLogin: user.lastLogin,
+        securitySettings: {
+          twoFactorEnabled: user.securitySettings.twoFactorEnabled,
+          loginNotifications: user.securitySettings.loginNotifications,
+          autoLockMinutes: user.securitySettings.autoLockMinutes,
+          lockPinEnabled: user.securitySettings.lockPinEnabled
+        },
+        createdAt: user.createdAt
+      },
+      token,
+      csrfToken,
+      expiresIn
+    }
+  });
+};
+
+// Helper function to save a new account together with its wallet
+// (the wallet's keys are created later in the browser, see POST /api/wallet/hd-accounts)
+const createUserWithWallet = async (user) => {
+  await user.save();
+
+  const wallet = new Wallet({
+    user: user._id,
+    currencies: [],
+    settings: {
+      currency: 'USD',
+      notifications: {
+        priceAlerts: true,
+        portfolioUpdates: true,
+        transactionConfirmations: true
+      }
+    }
+  });
+  await wallet.save();
+
+  return wallet;
+};
+
+// Helper function to pick a free username for an account created through single sign-on
+const availableUsername = async (identity) => {
+  const source = identity.preferredUsername || (identity.email || '').split('@')[0] || 'user';
+  const base = source.replace(/[^a-zA-Z0-9_]/g, '_').slice(0, 24).padEnd(3, '_');
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const candidate = attempt === 0 ? base : `${base}_${crypto.randomInt(1000, 10000)}`;
+    if (!(await User.exists({ username: candidate }))) {
+      return candidate;
+    }
+  }
+
+  return `user_${crypto.randomBytes(6).toString('hex')}`;
+};
+
+// Helper function to email a verification link; mail failures never block the caller
+const sendVerificationEmail = async (user) => {
+  try {
+    const token = generateEmailVerificationToken(user);
+    await sendMail({ to: user.email, ...verificationEmail(user, token) });
+    return true;
+  } catch (error) {
+    console.error('Verification email error:', error);
+    return false;
+  }
+};
+
 // Helper function to handle validation errors
 const handleValidationErrors = (req, res, next) => {
   const errors = validationResult(req);
@@ -84,31 +399,27 @@ router.post('/register', validateRegistration, handleValidationErrors, async (re
       lastName
     });
 
-    // Generate wallet address
-    user.generateWalletAddress();
+    await createUserWithWallet(user);
+
+    // Generate access token and refresh cookie
+    const { token, csrfToken, expiresIn, session } = await issueAuthTokens(req, res, user);
+
+    // Update last login
+    user.lastLogin = new Date();
     await user.save();
 
-    // Create wallet for the user
-    const wallet = new Wallet({
+    await recordAuditEvent(req, {
+      action: 'auth.register',
       user: user._id,
-      currencies: [],
-      settings: {
-        currency: 'USD',
-        notifications: {
-          priceAlerts: true,
-          portfolioUpdates: true,
-          transactionConfirmations: true
-        }
-      }
+      actor: user,
+      metadata: { session: session._id }
     });
-    await wallet.save();
 
-    // Generate JWT token
-    const token = generateToken(user._id);
+    // The registering device becomes the first known device, so it never triggers an alert
+    recordLoginDevice(req, user, session)
+      .catch(error => console.error('Login alert error:', error));
 
-    // Update last login
-    user.lastLogin = new Date();
-    await user.save();
+    await sendVerificationEmail(user);
 
     res.status(201).json({
       success: true,
@@ -122,11 +433,14 @@ router.post('/register', validateRegistration, handleValidationErrors, async (re
           lastName: user.lastName,
           fullName: user.fullName,
           walletAddress: user.walletAddress,
+          hdWalletCreatedAt: user.hdWalletCreatedAt,
+          role: user.role,
           isEmailVerified: user.isEmailVerified,
           createdAt: user.createdAt
         },
         token,
-        expiresIn: process.env.JWT_EXPIRES_IN || '7d'
+        csrfToken,
+        expiresIn
       }
     });
 
@@ -159,15 +473,34 @@ router.post('/login', validateLogin, handleValidationErrors, async (req, res) =>
 
     // Find user by email or username
     const user = await User.findByEmailOrUsername(identifier);
+
+    // Refuse early while this IP or account is backing off or locked out
+    const loginStatus = await getLoginStatus(req, user);
+    if (loginStatus.retryAfter > 0) {
+      return sendLoginThrottled(res, loginStatus);
+    }
+
+    if (loginStatus.captchaRequired && !(await verifyCaptcha(req.body.captchaToken, req.ip))) {
+      return res.status(400).json({
+        error: 'CAPTCHA required',
+        message: 'Please complete the verification challenge to continue.',
+        captchaRequired: true
+      });
+    }
+
     if (!user) {
+      await auditFailedLogin(req, null, { method: 'password', reason: 'unknown_account', identifier });
+      const status = await recordLoginFailure(req, null);
       return res.status(401).json({
         error: 'Invalid credentials',
-        message: 'No account found with this email or username'
+        message: 'No account found with this email or username',
+        retryAfter: status.retryAfter || undefined,
+        captchaRequired: status.captchaRequired || undefined
       });
     }
 
-    // Check if account is active
-    if (!user.isActive) {
+    // Check if account is active (accounts pending deletion can still sign in to restore)
+    if (!user.isActive && !user.isPendingDeletion()) {
       return res.status(403).json({
         error: 'Account disabled',
         message: 'Your account has been disabled. Please contact support.'
@@ -177,40 +510,40 @@ router.post('/login', validateLogin, handleValidationErrors, async (req, res) =>
     // Verify password
     const isValidPassword = await user.comparePassword(password);
     if (!isValidPassword) {
+      await auditFailedLogin(req, user, { method: 'password', reason: 'invalid_password' });
+      const status = await recordLoginFailure(req, user);
+      if (status.lockedUntil) {
+        return sendLoginThrottled(res, status);
+      }
+
       return res.status(401).json({
         error: 'Invalid credentials',
-        message: 'Incorrect password'
+        message: 'Incorrect password',
+        retryAfter: status.retryAfter || undefined,
+        captchaRequired: status.captchaRequired || undefined
       });
     }
 
-    // Generate JWT token
-    const expiresIn = rememberMe ? '30d' : (process.env.JWT_EXPIRES_IN || '7d');
-    const token = generateToken(user._id);
+    if (user.securitySettings.passwordResetRequired) {
+      return res.status(403).json({
+        error: 'Password reset required',
+        message: 'This account was secured after a suspicious sign-in. Please reset your password to continue.'
+      });
+    }
 
-    // Update last login
-    user.lastLogin = new Date();
-    await user.save();
+    // Hold the login until the second factor is provided
+    if (user.securitySettings.twoFactorEnabled) {
+      return res.json({
+        success: true,
+        message: 'Two-factor authentication required',
+        data: {
+          requiresTwoFactor: true,
+          twoFactorToken: generateTwoFactorToken(user._id, rememberMe)
+        }
+      });
+    }
 
-    res.json({
-      success: true,
-      message: 'Login successful',
-      data: {
-        user: {
-          id: user._id,
-          username: user.username,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          fullName: user.fullName,
-          walletAddress: user.walletAddress,
-          isEmailVerified: user.isEmailVerified,
-          lastLogin: user.lastLogin,
-          createdAt: user.createdAt
-        },
-        token,
-        expiresIn
-      }
-    });
+    await sendLoginSuccess(req, res, user, rememberMe);
 
   } catch (error) {
     console.error('Login error:', error);
@@ -221,12 +554,74 @@ router.post('/login', validateLogin, handleValidationErrors, async (req, res) =>
   }
 });
 
+/**
+ * @route   POST /api/auth/login/2fa
+ * @desc    Complete a login with a TOTP or recovery code
+ * @access  Public
+ */
+router.post('/login/2fa', validateTwoFactorLogin, handleValidationErrors, async (req, res) => {
+  try {
+    const { twoFactorToken, code } = req.body;
+
+    let decoded;
+    try {
+      decoded = verifyTwoFactorToken(twoFactorToken);
+    } catch (error) {
+      return res.status(401).json({
+        error: 'Challenge expired',
+        message: 'Your login attempt has expired. Please sign in again.'
+      });
+    }
+
+    const user = await User.findById(decoded.id).select(TWO_FACTOR_FIELDS);
+    const canSignIn = user && (user.isActive || user.isPendingDeletion())
+      && !user.securitySettings.passwordResetRequired;
+    if (!canSignIn || !user.securitySettings.twoFactorEnabled) {
+      return res.status(401).json({
+        error: 'Invalid challenge',
+        message: 'Unable to verify this login. Please sign in again.'
+      });
+    }
+
+    // Code guesses count against the same limits as password guesses
+    const loginStatus = await getLoginStatus(req, user);
+    if (loginStatus.retryAfter > 0) {
+      return sendLoginThrottled(res, loginStatus);
+    }
+
+    // Accept either a current TOTP code or an unused recovery code
+    const isValidCode = user.verifyTwoFactorCode(code) || user.useRecoveryCode(code);
+    if (!isValidCode) {
+      await auditFailedLogin(req, user, { method: 'two_factor', reason: 'invalid_code' });
+      const status = await recordLoginFailure(req, user);
+      if (status.lockedUntil) {
+        return sendLoginThrottled(res, status);
+      }
+
+      return res.status(400).json({
+        error: 'Invalid code',
+        message: 'The authentication code is incorrect',
+        retryAfter: status.retryAfter || undefined
+      });
+    }
+
+    await sendLoginSuccess(req, res, user, decoded.rememberMe, 'two_factor');
+
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    res.status(500).json({
+      error: 'Login failed',
+      message: 'Unable to login. Please try again.'
+    });
+  }
+});
+
 /**
  * @route   POST /api/auth/refresh
- * @desc    Refresh JWT token
- * @access  Private
+ * @desc    Rotate the refresh token cookie and issue a new access token
+ * @access  Public (refresh cookie + CSRF header)
  */
-router.post('/refresh', refreshToken);
+router.post('/refresh', verifyCsrf, refreshToken);
 
 /**
  * @route   GET /api/auth/me
@@ -255,8 +650,11 @@ router.get('/me', authenticateToken, async (req, res) => {
           lastName: user.lastName,
           fullName: user.fullName,
           walletAddress: user.walletAddress,
+          hdWalletCreatedAt: user.hdWalletCreatedAt,
+          role: user.role,
           isEmailVerified: user.isEmailVerified,
           profilePicture: user.profilePicture,
+          profilePictureSizes: user.profilePictureSizes,
           lastLogin: user.lastLogin,
           securitySettings: user.securitySettings,
           createdAt: user.createdAt,
@@ -274,18 +672,22 @@ router.get('/me', authenticateToken, async (req, res) => {
   }
 });
 
+// A new email address is where password reset links go, so changing it needs step-up
+const isEmailChange = (req) => req.body.email !== undefined && req.body.email !== req.user.email;
+
 /**
  * @route   PUT /api/auth/profile
  * @desc    Update user profile
- * @access  Private
+ * @access  Private (recent re-authentication to change the email address)
  */
 router.put('/profile', authenticateToken, [
   body('firstName').optional().trim().isLength({ min: 1, max: 50 }),
   body('lastName').optional().trim().isLength({ min: 1, max: 50 }),
-  body('email').optional().isEmail().normalizeEmail()
-], handleValidationErrors, async (req, res) => {
+  body('email').optional().isEmail().normalizeEmail(),
+  body('securitySettings.loginNotifications').optional().isBoolean().toBoolean()
+], handleValidationErrors, requireRecentAuth(isEmailChange), async (req, res) => {
   try {
-    const { firstName, lastName, email } = req.body;
+    const { firstName, lastName, email, securitySettings } = req.body;
     const user = await User.findById(req.user._id);
 
     if (!user) {
@@ -295,10 +697,20 @@ router.put('/profile', authenticateToken, [
       });
     }
 
+    const snapshot = () => ({
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+      isEmailVerified: user.isEmailVerified,
+      securitySettings: { loginNotifications: user.securitySettings.loginNotifications }
+    });
+    const before = snapshot();
+
     // Update fields if provided
     if (firstName) user.firstName = firstName;
     if (lastName) user.lastName = lastName;
-    if (email && email !== user.email) {
+    const emailChanged = email && email !== user.email;
+    if (emailChanged) {
       // Check if email is already taken
       const existingUser = await User.findOne({ email, _id: { $ne: user._id } });
       if (existingUser) {
@@ -310,9 +722,21 @@ router.put('/profile', authenticateToken, [
       user.email = email;
       user.isEmailVerified = false; // Reset email verification
     }
+    if (securitySettings && typeof securitySettings.loginNotifications === 'boolean') {
+      user.securitySettings.loginNotifications = securitySettings.loginNotifications;
+    }
 
     await user.save();
 
+    const changes = diffChanges(before, snapshot());
+    if (changes.length > 0) {
+      await recordAuditEvent(req, { action: 'profile.update', changes });
+    }
+
+    if (emailChanged) {
+      await sendVerificationEmail(user);
+    }
+
     res.json({
       success: true,
       message: 'Profile updated successfully',
@@ -324,7 +748,9 @@ router.put('/profile', authenticateToken, [
           firstName: user.firstName,
           lastName: user.lastName,
           fullName: user.fullName,
+          role: user.role,
           isEmailVerified: user.isEmailVerified,
+          securitySettings: user.securitySettings,
           updatedAt: user.updatedAt
         }
       }
@@ -340,17 +766,1710 @@ router.put('/profile', authenticateToken, [
 });
 
 /**
- * @route   POST /api/auth/logout
- * @desc    Logout user (client-side token removal)
+ * @route   POST /api/auth/profile/picture
+ * @desc    Upload a profile picture (multipart field `picture`), stored as resized thumbnails
  * @access  Private
  */
-router.post('/logout', authenticateToken, (req, res) => {
-  // In a stateless JWT system, logout is handled client-side by removing the token
-  // In production, you might want to implement a token blacklist
-  res.json({
-    success: true,
-    message: 'Logged out successfully'
-  });
+router.post('/profile/picture', authenticateToken, uploadProfilePicture, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('+profilePictureKeys');
+
+    const saved = await saveProfilePicture(user._id, req.file.buffer);
+    if (!saved) {
+      return res.status(400).json({
+        error: 'Invalid file',
+        message: 'Please upload a JPEG, PNG, WebP or GIF image'
+      });
+    }
+
+    const before = user.profilePicture;
+    const previousKeys = user.profilePictureKeys;
+
+    user.profilePicture = saved.sizes.large;
+    user.profilePictureSizes = saved.sizes;
+    user.profilePictureKeys = saved.keys;
+    await user.save();
+
+    await removeProfilePicture(previousKeys);
+
+    await recordAuditEvent(req, {
+      action: 'profile.picture.update',
+      changes: [{ field: 'profilePicture', before, after: user.profilePicture }]
+    });
+
+    res.json({
+      success: true,
+      message: 'Profile picture updated',
+      data: {
+        profilePicture: user.profilePicture,
+        profilePictureSizes: user.profilePictureSizes
+      }
+    });
+
+  } catch (error) {
+    console.error('Upload profile picture error:', error);
+    res.status(500).json({
+      error: 'Upload failed',
+      message: 'Unable to update profile picture. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/auth/profile/picture
+ * @desc    Remove the profile picture
+ * @access  Private
+ */
+router.delete('/profile/picture', authenticateToken, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('+profilePictureKeys');
+
+    if (!user.profilePicture) {
+      return res.status(404).json({
+        error: 'No profile picture',
+        message: 'You have not uploaded a profile picture'
+      });
+    }
+
+    const before = user.profilePicture;
+    const previousKeys = user.profilePictureKeys;
+
+    user.profilePicture = null;
+    user.profilePictureSizes = undefined;
+    user.profilePictureKeys = [];
+    await user.save();
+
+    await removeProfilePicture(previousKeys);
+
+    await recordAuditEvent(req, {
+      action: 'profile.picture.remove',
+      changes: [{ field: 'profilePicture', before, after: null }]
+    });
+
+    res.json({
+      success: true,
+      message: 'Profile picture removed'
+    });
+
+  } catch (error) {
+    console.error('Remove profile picture error:', error);
+    res.status(500).json({
+      error: 'Remove failed',
+      message: 'Unable to remove profile picture. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/auth/verify-email
+ * @desc    Confirm an email address from a verification link
+ * @access  Public
+ */
+router.get('/verify-email', [
+  query('token').notEmpty().withMessage('Verification token is required')
+], handleValidationErrors, async (req, res) => {
+  try {
+    let decoded;
+    try {
+      decoded = verifyEmailVerificationToken(req.query.token);
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Invalid token',
+        message: 'This verification link is invalid or has expired. Please request a new one.'
+      });
+    }
+
+    const user = await User.findById(decoded.id);
+
+    // A link sent to a previous address must not verify the current one
+    if (!user || user.email !== decoded.email) {
+      return res.status(400).json({
+        error: 'Invalid token',
+        message: 'This verification link is no longer valid. Please request a new one.'
+      });
+    }
+
+    if (!user.isEmailVerified) {
+      user.isEmailVerified = true;
+      await user.save();
+    }
+
+    res.json({
+      success: true,
+      message: 'Email verified successfully',
+      data: {
+        email: user.email,
+        isEmailVerified: true
+      }
+    });
+
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({
+      error: 'Verification failed',
+      message: 'Unable to verify email. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/verify-email/resend
+ * @desc    Send a new verification link to the current address
+ * @access  Private
+ */
+router.post('/verify-email/resend', authenticateToken, async (req, res) => {
+  try {
+    if (req.user.isEmailVerified) {
+      return res.status(400).json({
+        error: 'Already verified',
+        message: 'Your email address is already verified'
+      });
+    }
+
+    const sent = await sendVerificationEmail(req.user);
+    if (!sent) {
+      return res.status(502).json({
+        error: 'Email not sent',
+        message: 'Unable to send verification email. Please try again later.'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Verification email sent to ${req.user.email}`
+    });
+
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      error: 'Resend failed',
+      message: 'Unable to send verification email. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/forgot-password
+ * @desc    Email a single-use password reset link
+ * @access  Public
+ */
+router.post('/forgot-password', validateForgotPassword, handleValidationErrors, async (req, res) => {
+  // Same response whether or not the account exists, so this can't be used to find accounts
+  const genericResponse = {
+    success: true,
+    message: 'If an account exists for this email, a password reset link has been sent.'
+  };
+
+  try {
+    const user = await User.findOne({ email: req.body.email });
+
+    if (user && user.isActive) {
+      const token = user.createPasswordResetToken();
+      await user.save();
+
+      // Not awaited so response time does not reveal whether mail was sent
+      const expiresInMinutes = parseInt(process.env.PASSWORD_RESET_EXPIRES_MINUTES) || 60;
+      sendMail({ to: user.email, ...passwordResetEmail(user, token, expiresInMinutes) })
+        .catch(error => console.error('Password reset email error:', error));
+    }
+
+    res.json(genericResponse);
+
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.json(genericResponse);
+  }
+});
+
+/**
+ * @route   POST /api/auth/password-check
+ * @desc    Score a candidate password against the password policy (live strength meter)
+ * @access  Public
+ */
+router.post('/password-check', [
+  body('password').isString().withMessage('Password is required'),
+  body(['username', 'email', 'firstName', 'lastName']).optional().isString()
+], handleValidationErrors, (req, res) => {
+  const { password, username, email, firstName, lastName } = req.body;
+
+  res.json({
+    success: true,
+    data: evaluatePassword(password, { username, email, firstName, lastName })
+  });
+});
+
+/**
+ * @route   POST /api/auth/reset-password
+ * @desc    Set a new password with a reset token and sign out every session
+ * @access  Public
+ */
+router.post('/reset-password', validateResetPassword, handleValidationErrors, async (req, res) => {
+  try {
+    const { token, password } = req.body;
+    const user = await User.findByPasswordResetToken(token);
+
+    if (!user || !user.isActive) {
+      return res.status(400).json({
+        error: 'Invalid token',
+        message: 'This password reset link is invalid or has expired. Please request a new one.'
+      });
+    }
+
+    // The validator could not know whose password this is until the token was looked up
+    const policyCheck = evaluatePassword(password, user);
+    if (!policyCheck.valid) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: policyCheck.errors[0],
+        details: policyCheck.errors.map(msg => ({ path: 'password', msg }))
+      });
+    }
+
+    // Clearing the token makes the link single-use
+    user.password = password;
+    user.clearPasswordResetToken();
+    user.securitySettings.passwordResetRequired = false;
+    await user.save();
+    await Session.revokeAllForUser(user._id);
+    await clearLoginFailures(user);
+
+    await recordAuditEvent(req, { action: 'auth.password_reset', user: user._id, actor: user });
+
+    res.json({
+      success: true,
+      message: 'Password reset successfully. Please sign in with your new password.'
+    });
+
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      error: 'Reset failed',
+      message: 'Unable to reset password. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/unlock
+ * @desc    Lift a lockout caused by failed logins using the emailed unlock link
+ * @access  Public (token from the account locked email)
+ */
+router.post('/unlock', validateUnlockAccount, handleValidationErrors, async (req, res) => {
+  try {
+    let decoded;
+    try {
+      decoded = verifyUnlockToken(req.body.token);
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Invalid token',
+        message: 'This unlock link is invalid or has expired.'
+      });
+    }
+
+    // Each link unlocks the lockout it was sent for, once
+    const user = await User.findById(decoded.id);
+    if (!user || !(await redeemUnlockToken(user, decoded.jti))) {
+      return res.status(400).json({
+        error: 'Invalid token',
+        message: 'This unlock link is invalid or has expired.'
+      });
+    }
+
+    await recordAuditEvent(req, { action: 'auth.unlock', user: user._id, actor: user });
+
+    res.json({
+      success: true,
+      message: 'Your account has been unlocked. You can sign in again.'
+    });
+
+  } catch (error) {
+    console.error('Unlock account error:', error);
+    res.status(500).json({
+      error: 'Unlock failed',
+      message: 'Unable to unlock your account. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/secure-account
+ * @desc    "This wasn't me": sign out every session and require a password reset
+ * @access  Public (token from a login alert email)
+ */
+router.post('/secure-account', validateSecureAccount, handleValidationErrors, async (req, res) => {
+  try {
+    let decoded;
+    try {
+      decoded = verifyLoginAlertToken(req.body.token);
+    } catch (error) {
+      return res.status(400).json({
+        error: 'Invalid token',
+        message: 'This link is invalid or has expired. Please reset your password instead.'
+      });
+    }
+
+    const user = await User.findById(decoded.id);
+
+    // A password change after the alert means the account was already secured
+    if (!user || !user.isActive || user.changedPasswordAfter(decoded.iat)) {
+      return res.status(400).json({
+        error: 'Invalid token',
+        message: 'This link is invalid or has expired. Please reset your password instead.'
+      });
+    }
+
+    await Session.revokeAllForUser(user._id);
+    await ApiKey.revokeAllForUser(user._id);
+    await KnownDevice.forgetAllForUser(user._id);
+
+    user.securitySettings.passwordResetRequired = true;
+    const resetToken = user.createPasswordResetToken();
+    await user.save();
+
+    await recordAuditEvent(req, { action: 'auth.secure_account', user: user._id, actor: user });
+
+    clearRefreshCookies(res);
+
+    res.json({
+      success: true,
+      message: 'All sessions have been signed out. Please choose a new password.',
+      data: {
+        resetToken
+      }
+    });
+
+  } catch (error) {
+    console.error('Secure account error:', error);
+    res.status(500).json({
+      error: 'Secure account failed',
+      message: 'Unable to secure your account. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/auth/password
+ * @desc    Change password and invalidate all previously issued tokens
+ * @access  Private (recent re-authentication)
+ */
+router.put('/password', authenticateToken, requireRecentAuth(), validatePasswordChange, handleValidationErrors, async (req, res) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+    const user = await User.findById(req.user._id);
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'User profile not found'
+      });
+    }
+
+    const isValidPassword = await user.comparePassword(currentPassword);
+    if (!isValidPassword) {
+      await recordAuditEvent(req, { action: 'auth.password_change', outcome: 'failure' });
+      return res.status(400).json({
+        error: 'Invalid credentials',
+        message: 'Current password is incorrect'
+      });
+    }
+
+    // Saving sets passwordChangedAt, which revokes every older access token
+    user.password = newPassword;
+    await user.save();
+    await Session.revokeAllForUser(user._id);
+
+    await recordAuditEvent(req, { action: 'auth.password_change' });
+
+    // Start a fresh session so this device stays signed in
+    const { token, csrfToken, expiresIn } = await issueAuthTokens(req, res, user);
+
+    res.json({
+      success: true,
+      message: 'Password changed successfully',
+      data: {
+        token,
+        csrfToken,
+        expiresIn
+      }
+    });
+
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(500).json({
+      error: 'Password change failed',
+      message: 'Unable to change password. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/2fa/setup
+ * @desc    Start two-factor enrollment and return the secret and QR code
+ * @access  Private (recent re-authentication)
+ */
+router.post('/2fa/setup', authenticateToken, requireRecentAuth(), async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select(TWO_FACTOR_FIELDS);
+
+    if (user.securitySettings.twoFactorEnabled) {
+      return res.status(400).json({
+        error: 'Already enabled',
+        message: 'Two-factor authentication is already enabled'
+      });
+    }
+
+    const { secret, otpauthUrl } = user.generateTwoFactorSecret();
+    const qrCode = await QRCode.toDataURL(otpauthUrl);
+    await user.save();
+
+    await recordAuditEvent(req, { action: 'two_factor.setup' });
+
+    res.json({
+      success: true,
+      message: 'Scan the QR code with your authenticator app',
+      data: {
+        secret,
+        otpauthUrl,
+        qrCode
+      }
+    });
+
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({
+      error: 'Setup failed',
+      message: 'Unable to start two-factor setup. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/2fa/verify
+ * @desc    Confirm enrollment with a code and enable two-factor authentication
+ * @access  Private
+ */
+router.post('/2fa/verify', authenticateToken, validateTwoFactorCode, handleValidationErrors, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select(TWO_FACTOR_FIELDS);
+
+    if (!user.securitySettings.twoFactorPendingSecret) {
+      return res.status(400).json({
+        error: 'Setup not started',
+        message: 'Start two-factor setup before confirming a code'
+      });
+    }
+
+    if (!user.verifyTwoFactorCode(req.body.code, { pending: true })) {
+      return res.status(400).json({
+        error: 'Invalid code',
+        message: 'The authentication code is incorrect'
+      });
+    }
+
+    user.securitySettings.twoFactorSecret = user.securitySettings.twoFactorPendingSecret;
+    user.securitySettings.twoFactorPendingSecret = null;
+    user.securitySettings.twoFactorEnabled = true;
+    const recoveryCodes = user.generateRecoveryCodes();
+    await user.save();
+
+    await recordAuditEvent(req, { action: 'two_factor.enable' });
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication enabled',
+      data: {
+        recoveryCodes
+      }
+    });
+
+  } catch (error) {
+    console.error('Two-factor verify error:', error);
+    res.status(500).json({
+      error: 'Verification failed',
+      message: 'Unable to enable two-factor authentication. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/2fa/recovery-codes
+ * @desc    Replace all recovery codes with a new set
+ * @access  Private
+ */
+router.post('/2fa/recovery-codes', authenticateToken, validateTwoFactorCode, handleValidationErrors, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select(TWO_FACTOR_FIELDS);
+
+    if (!user.securitySettings.twoFactorEnabled) {
+      return res.status(400).json({
+        error: 'Not enabled',
+        message: 'Two-factor authentication is not enabled'
+      });
+    }
+
+    // Code guesses count against the same limits as login attempts
+    const loginStatus = await getLoginStatus(req, user);
+    if (loginStatus.retryAfter > 0) {
+      return sendLoginThrottled(res, loginStatus);
+    }
+
+    if (!user.verifyTwoFactorCode(req.body.code)) {
+      const status = await recordLoginFailure(req, user);
+      if (status.lockedUntil) {
+        return sendLoginThrottled(res, status);
+      }
+
+      return res.status(400).json({
+        error: 'Invalid code',
+        message: 'The authentication code is incorrect',
+        retryAfter: status.retryAfter || undefined
+      });
+    }
+
+    const recoveryCodes = user.generateRecoveryCodes();
+    await user.save();
+
+    await recordAuditEvent(req, { action: 'two_factor.recovery_codes_regenerate' });
+
+    res.json({
+      success: true,
+      message: 'Recovery codes regenerated',
+      data: {
+        recoveryCodes
+      }
+    });
+
+  } catch (error) {
+    console.error('Recovery codes error:', error);
+    res.status(500).json({
+      error: 'Regeneration failed',
+      message: 'Unable to regenerate recovery codes. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/2fa/disable
+ * @desc    Disable two-factor authentication
+ * @access  Private
+ */
+router.post('/2fa/disable', authenticateToken, [
+  body('password').notEmpty().withMessage('Password is required'),
+  body('code')
+    .if(body('passkey').not().exists())
+    .trim()
+    .notEmpty()
+    .withMessage('Authentication or recovery code is required')
+], handleValidationErrors, async (req, res) => {
+  try {
+    const { password, code, passkey } = req.body;
+    const user = await User.findById(req.user._id).select(SECOND_FACTOR_FIELDS);
+
+    if (!user.securitySettings.twoFactorEnabled) {
+      return res.status(400).json({
+        error: 'Not enabled',
+        message: 'Two-factor authentication is not enabled'
+      });
+    }
+
+    // Password and code guesses count against the same limits as login attempts
+    const loginStatus = await getLoginStatus(req, user);
+    if (loginStatus.retryAfter > 0) {
+      return sendLoginThrottled(res, loginStatus);
+    }
+
+    const isValidPassword = await user.comparePassword(password);
+    if (!isValidPassword) {
+      await recordAuditEvent(req, { action: 'two_factor.disable', outcome: 'failure', metadata: { reason: 'invalid_password' } });
+      const status = await recordLoginFailure(req, user);
+      if (status.lockedUntil) {
+        return sendLoginThrottled(res, status);
+      }
+
+      return res.status(400).json({
+        error: 'Invalid credentials',
+        message: 'Incorrect password',
+        retryAfter: status.retryAfter || undefined
+      });
+    }
+
+    if (!(await verifySecondFactor(user, { code, passkey }))) {
+      await recordAuditEvent(req, { action: 'two_factor.disable', outcome: 'failure', metadata: { reason: 'invalid_second_factor' } });
+      const status = await recordLoginFailure(req, user);
+      if (status.lockedUntil) {
+        return sendLoginThrottled(res, status);
+      }
+
+      return res.status(400).json({
+        error: 'Invalid code',
+        message: 'The authentication code or passkey is incorrect',
+        retryAfter: status.retryAfter || undefined
+      });
+    }
+
+    user.securitySettings.twoFactorEnabled = false;
+    user.securitySettings.twoFactorSecret = null;
+    user.securitySettings.twoFactorPendingSecret = null;
+    user.securitySettings.twoFactorRecoveryCodes = [];
+    await user.save();
+
+    await recordAuditEvent(req, { action: 'two_factor.disable' });
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    res.status(500).json({
+      error: 'Disable failed',
+      message: 'Unable to disable two-factor authentication. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/webauthn/register/options
+ * @desc    Start registering a passkey for the current user
+ * @access  Private (recent re-authentication)
+ */
+router.post('/webauthn/register/options', authenticateToken, requireRecentAuth(), async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('+webauthnCredentials');
+    const { options, challengeToken } = await createRegistrationOptions(user);
+
+    res.json({
+      success: true,
+      data: {
+        options,
+        challengeToken
+      }
+    });
+
+  } catch (error) {
+    console.error('Passkey registration options error:', error);
+    res.status(500).json({
+      error: 'Passkey setup failed',
+      message: 'Unable to start passkey registration. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/webauthn/register/verify
+ * @desc    Verify the authenticator's response and store the new passkey
+ * @access  Private (recent re-authentication)
+ */
+router.post('/webauthn/register/verify', authenticateToken, requireRecentAuth(), [
+  ...validatePasskeyResponse,
+  body('name').optional().trim().isLength({ max: 50 }).withMessage('Passkey name cannot exceed 50 characters')
+], handleValidationErrors, async (req, res) => {
+  try {
+    const { challengeToken, response, name } = req.body;
+    const user = await User.findById(req.user._id).select('+webauthnCredentials');
+
+    const credential = await verifyRegistration(user, challengeToken, response);
+    if (!credential) {
+      return res.status(400).json({
+        error: 'Invalid passkey',
+        message: 'The passkey could not be verified. Please try again.'
+      });
+    }
+
+    user.webauthnCredentials.push({
+      ...credential,
+      name: name || `Passkey ${user.webauthnCredentials.length + 1}`
+    });
+    await user.save();
+
+    const saved = user.getWebAuthnCredential(credential.credentialId);
+
+    await recordAuditEvent(req, { action: 'passkey.add', metadata: { name: saved.name } });
+
+    res.status(201).json({
+      success: true,
+      message: 'Passkey added',
+      data: {
+        passkey: formatPasskey(saved)
+      }
+    });
+
+  } catch (error) {
+    console.error('Passkey registration error:', error);
+    res.status(500).json({
+      error: 'Passkey setup failed',
+      message: 'Unable to save passkey. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/auth/webauthn/credentials
+ * @desc    List the current user's passkeys
+ * @access  Private
+ */
+router.get('/webauthn/credentials', authenticateToken, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('+webauthnCredentials');
+
+    res.json({
+      success: true,
+      data: {
+        passkeys: user.webauthnCredentials.map(formatPasskey)
+      }
+    });
+
+  } catch (error) {
+    console.error('Get passkeys error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Unable to fetch passkeys'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/auth/webauthn/credentials/:id
+ * @desc    Remove one of the current user's passkeys
+ * @access  Private
+ */
+router.delete('/webauthn/credentials/:id', authenticateToken, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('+webauthnCredentials');
+    const credential = user.getWebAuthnCredential(req.params.id);
+
+    if (!credential) {
+      return res.status(404).json({
+        error: 'Passkey not found',
+        message: 'No passkey with this id is registered to your account'
+      });
+    }
+
+    user.webauthnCredentials.pull(credential._id);
+    await user.save();
+
+    await recordAuditEvent(req, { action: 'passkey.remove', metadata: { name: credential.name } });
+
+    res.json({
+      success: true,
+      message: 'Passkey removed'
+    });
+
+  } catch (error) {
+    console.error('Delete passkey error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Unable to remove passkey'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/webauthn/login/options
+ * @desc    Start a passwordless sign-in. Without an identifier any discoverable passkey is offered.
+ * @access  Public
+ */
+router.post('/webauthn/login/options', [
+  body('identifier').optional().trim()
+], handleValidationErrors, async (req, res) => {
+  try {
+    const { identifier } = req.body;
+    const user = identifier
+      ? await User.findByEmailOrUsername(identifier).select('+webauthnCredentials')
+      : null;
+
+    // Unknown identifiers fall back to discoverable passkeys rather than revealing the account doesn't exist
+    const hasPasskeys = user && user.webauthnCredentials.length > 0;
+    const { options, challengeToken } = await createAuthenticationOptions('login', hasPasskeys ? user : null);
+
+    res.json({
+      success: true,
+      data: {
+        options,
+        challengeToken
+      }
+    });
+
+  } catch (error) {
+    console.error('Passkey login options error:', error);
+    res.status(500).json({
+      error: 'Login failed',
+      message: 'Unable to start passkey sign-in. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/webauthn/login/verify
+ * @desc    Sign in with a passkey (counts as both factors, so no 2FA code is asked for)
+ * @access  Public
+ */
+router.post('/webauthn/login/verify', validatePasskeyResponse, handleValidationErrors, async (req, res) => {
+  try {
+    const { challengeToken, response, rememberMe = false } = req.body;
+    const user = await User.findByWebAuthnCredential(response.id);
+
+    const loginStatus = await getLoginStatus(req, user);
+    if (loginStatus.retryAfter > 0) {
+      return sendLoginThrottled(res, loginStatus);
+    }
+
+    const isValidPasskey = user && await verifyAssertion(user, 'login', { challengeToken, response });
+    if (!isValidPasskey) {
+      await auditFailedLogin(req, user, { method: 'passkey', reason: 'invalid_passkey' });
+      const status = await recordLoginFailure(req, user);
+      if (status.lockedUntil) {
+        return sendLoginThrottled(res, status);
+      }
+
+      return res.status(401).json({
+        error: 'Invalid passkey',
+        message: 'This passkey could not be verified',
+        retryAfter: status.retryAfter || undefined
+      });
+    }
+
+    if (!user.isActive && !user.isPendingDeletion()) {
+      return res.status(403).json({
+        error: 'Account disabled',
+        message: 'Your account has been disabled. Please contact support.'
+      });
+    }
+
+    if (user.securitySettings.passwordResetRequired) {
+      return res.status(403).json({
+        error: 'Password reset required',
+        message: 'This account was secured after a suspicious sign-in. Please reset your password to continue.'
+      });
+    }
+
+    // Saving the user in sendLoginSuccess also stores the passkey's new signature counter
+    await sendLoginSuccess(req, res, user, rememberMe, 'passkey');
+
+  } catch (error) {
+    console.error('Passkey login error:', error);
+    res.status(500).json({
+      error: 'Login failed',
+      message: 'Unable to login. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/auth/oidc/config
+ * @desc    Whether single sign-on is available, and the provider name for the sign-in button
+ * @access  Public
+ */
+router.get('/oidc/config', (req, res) => {
+  const config = getOidcConfig();
+
+  res.json({
+    success: true,
+    data: {
+      enabled: Boolean(config),
+      providerName: config ? config.providerName : null
+    }
+  });
+});
+
+/**
+ * @route   POST /api/auth/oidc/authorize
+ * @desc    Start a single sign-on (authorization code + PKCE) and get the provider URL to open
+ * @access  Public
+ */
+router.post('/oidc/authorize', [
+  body('rememberMe').optional().isBoolean().toBoolean()
+], handleValidationErrors, async (req, res) => {
+  if (!isOidcEnabled()) {
+    return res.status(404).json({
+      error: 'SSO not configured',
+      message: 'Single sign-on is not enabled'
+    });
+  }
+
+  try {
+    const { authorizationUrl, flowToken } = await createAuthorizationRequest({
+      rememberMe: req.body.rememberMe
+    });
+
+    res.json({
+      success: true,
+      data: {
+        authorizationUrl,
+        flowToken
+      }
+    });
+
+  } catch (error) {
+    console.error('OIDC authorize error:', error);
+    res.status(502).json({
+      error: 'SSO unavailable',
+      message: 'Unable to reach the identity provider. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/oidc/callback
+ * @desc    Finish a single sign-on. Signs in the linked account, links the account with the
+ *          same provider-verified email, or creates a new account with a wallet.
+ * @access  Public (code and state from the provider redirect, flow token from /oidc/authorize)
+ */
+router.post('/oidc/callback', validateOidcCallback, handleValidationErrors, async (req, res) => {
+  if (!isOidcEnabled()) {
+    return res.status(404).json({
+      error: 'SSO not configured',
+      message: 'Single sign-on is not enabled'
+    });
+  }
+
+  let identity;
+  try {
+    const { code, state, flowToken } = req.body;
+    identity = await completeAuthorization({ code, state, flowToken });
+  } catch (error) {
+    console.error('OIDC callback error:', error.message);
+    await auditFailedLogin(req, null, { method: 'oidc', reason: 'invalid_response' });
+    return res.status(401).json({
+      error: 'SSO failed',
+      message: 'Single sign-on could not be verified. Please try again.'
+    });
+  }
+
+  try {
+    let user = await User.findByOidcSubject(identity.issuer, identity.subject);
+
+    if (!user) {
+      if (!identity.email) {
+        return res.status(400).json({
+          error: 'Email required',
+          message: 'Your identity provider did not share an email address'
+        });
+      }
+
+      const existingUser = await User.findOne({ email: identity.email });
+
+      if (existingUser) {
+        // Both sides must have proven the email: an unverified local account may have been
+        // registered by someone else ahead of the real owner (pre-account hijacking)
+        if (!identity.emailVerified || !existingUser.isEmailVerified || existingUser.oidc.subject) {
+          await auditFailedLogin(req, existingUser, { method: 'oidc', reason: 'link_refused' });
+          return res.status(409).json({
+            error: 'Account exists',
+            message: 'An account with this email already exists. Please sign in with your password.'
+          });
+        }
+
+        existingUser.oidc = { issuer: identity.issuer, subject: identity.subject, linkedAt: new Date() };
+        await existingUser.save();
+
+        await recordAuditEvent(req, {
+          action: 'auth.oidc_link',
+          user: existingUser._id,
+          actor: existingUser,
+          metadata: { issuer: identity.issuer }
+        });
+        user = existingUser;
+      } else {
+        const [firstName, ...lastNames] = (identity.name || '').split(' ');
+
+        // The random password is never shown; "forgot password" sets a real one
+        user = new User({
+          username: await availableUsername(identity),
+          email: identity.email,
+          password: crypto.randomBytes(32).toString('hex'),
+          firstName: (identity.givenName || firstName || identity.email.split('@')[0]).slice(0, 50),
+          lastName: (identity.familyName || lastNames.join(' ') || '-').slice(0, 50),
+          isEmailVerified: identity.emailVerified,
+          oidc: { issuer: identity.issuer, subject: identity.subject, linkedAt: new Date() }
+        });
+        await createUserWithWallet(user);
+
+        await recordAuditEvent(req, {
+          action: 'auth.register',
+          user: user._id,
+          actor: user,
+          metadata: { method: 'oidc', issuer: identity.issuer }
+        });
+
+        if (!user.isEmailVerified) {
+          await sendVerificationEmail(user);
+        }
+      }
+    }
+
+    if (!user.isActive && !user.isPendingDeletion()) {
+      return res.status(403).json({
+        error: 'Account disabled',
+        message: 'Your account has been disabled. Please contact support.'
+      });
+    }
+
+    if (user.securitySettings.passwordResetRequired) {
+      return res.status(403).json({
+        error: 'Password reset required',
+        message: 'This account was secured after a suspicious sign-in. Please reset your password to continue.'
+      });
+    }
+
+    // The provider's sign-in does not replace this account's own second factor
+    if (user.securitySettings.twoFactorEnabled) {
+      return res.json({
+        success: true,
+        message: 'Two-factor authentication required',
+        data: {
+          requiresTwoFactor: true,
+          twoFactorToken: generateTwoFactorToken(user._id, identity.rememberMe)
+        }
+      });
+    }
+
+    await sendLoginSuccess(req, res, user, identity.rememberMe, 'oidc');
+
+  } catch (error) {
+    console.error('OIDC login error:', error);
+    res.status(500).json({
+      error: 'Login failed',
+      message: 'Unable to login. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/webauthn/step-up/options
+ * @desc    Challenge one of the current user's passkeys before a sensitive action
+ * @access  Private
+ */
+router.post('/webauthn/step-up/options', authenticateToken, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('+webauthnCredentials');
+
+    if (user.webauthnCredentials.length === 0) {
+      return res.status(400).json({
+        error: 'No passkeys',
+        message: 'Add a passkey in Settings before using it to confirm actions'
+      });
+    }
+
+    const { options, challengeToken } = await createAuthenticationOptions('step-up', user);
+
+    res.json({
+      success: true,
+      data: {
+        options,
+        challengeToken
+      }
+    });
+
+  } catch (error) {
+    console.error('Passkey step-up options error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Unable to start passkey verification. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/reauthenticate
+ * @desc    Confirm the current session with a password, TOTP/recovery code or passkey
+ *          so it can perform sensitive actions for the next few minutes
+ * @access  Private
+ */
+router.post('/reauthenticate', authenticateToken, [
+  body('password').optional().isString(),
+  body('code').optional().trim().isLength({ min: 1, max: 20 }),
+  body('passkey.challengeToken').optional().isString(),
+  body('passkey.response.id').optional().isString()
+], handleValidationErrors, async (req, res) => {
+  try {
+    const { password, code, passkey } = req.body;
+
+    if (!password && !code && !passkey) {
+      return res.status(400).json({
+        error: 'Confirmation required',
+        message: 'Enter your password or an authentication code, or use a passkey'
+      });
+    }
+
+    const user = await User.findById(req.user._id).select(SECOND_FACTOR_FIELDS);
+
+    // Guesses count against the same limits as login attempts
+    const loginStatus = await getLoginStatus(req, user);
+    if (loginStatus.retryAfter > 0) {
+      return sendLoginThrottled(res, loginStatus);
+    }
+
+    const method = passkey ? 'passkey' : code ? 'two_factor' : 'password';
+    const isValid = method === 'password'
+      ? await user.comparePassword(password)
+      : await verifySecondFactor(user, { code, passkey });
+
+    if (!isValid) {
+      await recordAuditEvent(req, {
+        action: 'auth.reauthenticate',
+        outcome: 'failure',
+        metadata: { method }
+      });
+      const status = await recordLoginFailure(req, user);
+      if (status.lockedUntil) {
+        return sendLoginThrottled(res, status);
+      }
+
+      return res.status(400).json({
+        error: 'Invalid credentials',
+        message: method === 'password' ? 'Incorrect password' : 'The authentication code or passkey is incorrect',
+        retryAfter: status.retryAfter || undefined
+      });
+    }
+
+    // Stores a consumed recovery code or the passkey's new signature counter
+    await user.save();
+    const reauthenticatedAt = await req.authSession.markReauthenticated();
+
+    await recordAuditEvent(req, {
+      action: 'auth.reauthenticate',
+      metadata: { method, session: req.authSession._id }
+    });
+
+    res.json({
+      success: true,
+      message: 'Identity confirmed',
+      data: {
+        reauthenticatedAt,
+        expiresAt: new Date(reauthenticatedAt.getTime() + STEP_UP_MAX_AGE_MS)
+      }
+    });
+
+  } catch (error) {
+    console.error('Reauthenticate error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Unable to confirm your identity. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/auth/lock-screen
+ * @desc    Set the web app's auto-lock timeout and set or remove (pin: null) the unlock PIN
+ * @access  Private (recent re-authentication)
+ */
+router.put('/lock-screen', authenticateToken, requireRecentAuth(), [
+  body('autoLockMinutes')
+    .optional()
+    .isInt({ min: 0, max: 240 })
+    .withMessage('Auto-lock must be between 0 and 240 minutes')
+    .toInt(),
+  body('pin')
+    .optional({ values: 'null' })
+    .matches(/^\d{4,8}$/)
+    .withMessage('PIN must be 4 to 8 digits')
+], handleValidationErrors, async (req, res) => {
+  try {
+    const { autoLockMinutes, pin } = req.body;
+    const user = await User.findById(req.user._id);
+
+    const snapshot = () => ({
+      autoLockMinutes: user.securitySettings.autoLockMinutes,
+      lockPinEnabled: user.securitySettings.lockPinEnabled
+    });
+    const before = snapshot();
+
+    if (autoLockMinutes !== undefined) {
+      user.securitySettings.autoLockMinutes = autoLockMinutes;
+    }
+    if (pin !== undefined) {
+      await user.setLockPin(pin);
+    }
+    await user.save();
+
+    // A new PIN shows up as a change even when the old one was also set
+    const changes = diffChanges(before, snapshot());
+    if (pin) {
+      changes.push({ field: 'lockPin', before: null, after: 'updated' });
+    }
+    if (changes.length > 0) {
+      await recordAuditEvent(req, { action: 'lock_screen.update', changes });
+    }
+
+    res.json({
+      success: true,
+      message: 'Lock screen settings updated',
+      data: {
+        securitySettings: snapshot()
+      }
+    });
+
+  } catch (error) {
+    console.error('Update lock screen error:', error);
+    res.status(500).json({
+      error: 'Update failed',
+      message: 'Unable to update lock screen settings'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/lock-screen/unlock
+ * @desc    Check the PIN or password that unlocks the idle-locked web app
+ * @access  Private
+ */
+router.post('/lock-screen/unlock', authenticateToken, [
+  body('pin').optional().isString(),
+  body('password').optional().isString()
+], handleValidationErrors, async (req, res) => {
+  try {
+    const { pin, password } = req.body;
+
+    if (!pin && !password) {
+      return res.status(400).json({
+        error: 'Confirmation required',
+        message: 'Enter your PIN or password'
+      });
+    }
+
+    const user = await User.findById(req.user._id).select('+securitySettings.lockPinHash');
+
+    // PIN guesses count against the same limits as login attempts
+    const loginStatus = await getLoginStatus(req, user);
+    if (loginStatus.retryAfter > 0) {
+      return sendLoginThrottled(res, loginStatus);
+    }
+
+    const method = pin ? 'pin' : 'password';
+    const isValid = pin ? await user.compareLockPin(pin) : await user.comparePassword(password);
+
+    if (!isValid) {
+      await recordAuditEvent(req, {
+        action: 'lock_screen.unlock',
+        outcome: 'failure',
+        metadata: { method }
+      });
+      const status = await recordLoginFailure(req, user);
+      if (status.lockedUntil) {
+        return sendLoginThrottled(res, status);
+      }
+
+      return res.status(400).json({
+        error: 'Invalid credentials',
+        message: pin ? 'Incorrect PIN' : 'Incorrect password',
+        retryAfter: status.retryAfter || undefined
+      });
+    }
+
+    await recordAuditEvent(req, {
+      action: 'lock_screen.unlock',
+      metadata: { method, session: req.authSession._id }
+    });
+
+    res.json({
+      success: true,
+      message: 'Unlocked'
+    });
+
+  } catch (error) {
+    console.error('Unlock screen error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Unable to unlock. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/auth/api-keys
+ * @desc    List the current user's active API keys
+ * @access  Private
+ */
+router.get('/api-keys', authenticateToken, async (req, res) => {
+  try {
+    const apiKeys = await ApiKey.findActiveForUser(req.user._id);
+
+    res.json({
+      success: true,
+      data: {
+        apiKeys: apiKeys.map(formatApiKey)
+      }
+    });
+
+  } catch (error) {
+    console.error('Get API keys error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Unable to fetch API keys'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/api-keys
+ * @desc    Create an API key; the key is only returned in this response
+ * @access  Private (recent re-authentication)
+ */
+router.post('/api-keys', authenticateToken, requireRecentAuth(), validateApiKey, handleValidationErrors, async (req, res) => {
+  try {
+    const { name, scopes, allowedIps = [], expiresAt } = req.body;
+
+    const activeKeys = await ApiKey.findActiveForUser(req.user._id);
+    if (activeKeys.length >= MAX_API_KEYS) {
+      return res.status(400).json({
+        error: 'Too many API keys',
+        message: `You can have at most ${MAX_API_KEYS} active API keys. Revoke one first.`
+      });
+    }
+
+    const { apiKey, key } = ApiKey.generate(req.user._id, {
+      name,
+      scopes: [...new Set(scopes)],
+      allowedIps: [...new Set(allowedIps)],
+      expiresAt: expiresAt ? new Date(expiresAt) : null
+    });
+    await apiKey.save();
+
+    await recordAuditEvent(req, {
+      action: 'api_key.create',
+      metadata: { apiKey: apiKey._id, name: apiKey.name, scopes: apiKey.scopes }
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'API key created. Copy it now, it will not be shown again.',
+      data: {
+        apiKey: formatApiKey(apiKey),
+        key
+      }
+    });
+
+  } catch (error) {
+    console.error('Create API key error:', error);
+    res.status(500).json({
+      error: 'Server error',
+      message: 'Unable to create API key'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/auth/api-keys/:id
+ * @desc    Revoke one of the current user's API keys
+ * @access  Private
+ */
+router.delete('/api-keys/:id', authenticateToken, [
+  param('id').isMongoId().withMessage('Invalid API key id')
+], handleValidationErrors, async (req, res) => {
+  try {
+    const apiKey = await ApiKey.findOne({ _id: req.params.id, user: req.user._id, revokedAt: null });
+
+    if (!apiKey) {
+      return res.status(404).json({
+        error: 'API key not found',
+        message: 'No active API key found with this id'
+      });
+    }
+
+    apiKey.revokedAt = new Date();
+    await apiKey.save();
+
+    await recordAuditEvent(req, { action: 'api_key.revoke', metadata: { apiKey: apiKey._id, name: apiKey.name } });
+
+    res.json({
+      success: true,
+      message: 'API key revoked'
+    });
+
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    res.status(500).json({
+      error: 'Revoke failed',
+      message: 'Unable to revoke API key'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/auth/account/export
+ * @desc    Download an archive of all account data
+ * @access  Private
+ */
+router.get('/account/export', authenticateToken, async (req, res) => {
+  try {
+    const archive = await buildAccountExport(req.user._id);
+
+    res.json({
+      success: true,
+      data: {
+        export: archive
+      }
+    });
+
+  } catch (error) {
+    console.error('Account export error:', error);
+    res.status(500).json({
+      error: 'Export failed',
+      message: 'Unable to export account data. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/auth/account
+ * @desc    Deactivate the account and schedule a permanent delete
+ * @access  Private
+ */
+router.delete('/account', authenticateToken, [
+  body('password').notEmpty().withMessage('Password is required')
+], handleValidationErrors, async (req, res) => {
+  try {
+    const { password, code, passkey } = req.body;
+    const user = await User.findById(req.user._id).select(SECOND_FACTOR_FIELDS);
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'User profile not found'
+      });
+    }
+
+    // Password and code guesses count against the same limits as login attempts
+    const loginStatus = await getLoginStatus(req, user);
+    if (loginStatus.retryAfter > 0) {
+      return sendLoginThrottled(res, loginStatus);
+    }
+
+    // Re-authenticate before doing anything destructive
+    const isValidPassword = await user.comparePassword(password);
+    if (!isValidPassword) {
+      await recordAuditEvent(req, { action: 'account.delete', outcome: 'failure', metadata: { reason: 'invalid_password' } });
+      const status = await recordLoginFailure(req, user);
+      if (status.lockedUntil) {
+        return sendLoginThrottled(res, status);
+      }
+
+      return res.status(400).json({
+        error: 'Invalid credentials',
+        message: 'Incorrect password',
+        retryAfter: status.retryAfter || undefined
+      });
+    }
+
+    if (user.securitySettings.twoFactorEnabled
+      && !(await verifySecondFactor(user, { code, passkey }))) {
+      await recordAuditEvent(req, { action: 'account.delete', outcome: 'failure', metadata: { reason: 'invalid_second_factor' } });
+      const status = await recordLoginFailure(req, user);
+      if (status.lockedUntil) {
+        return sendLoginThrottled(res, status);
+      }
+
+      return res.status(400).json({
+        error: 'Invalid code',
+        message: 'A valid authentication code or passkey is required to delete your account',
+        retryAfter: status.retryAfter || undefined
+      });
+    }
+
+    // Export before deactivating so the user always leaves with their data
+    const archive = await buildAccountExport(user._id);
+
+    const scheduledFor = user.scheduleDeletion();
+    await user.save();
+    await Session.revokeAllForUser(user._id);
+    clearRefreshCookies(res);
+
+    await recordAuditEvent(req, { action: 'account.delete', metadata: { deletionScheduledFor: scheduledFor } });
+
+    res.json({
+      success: true,
+      message: 'Account scheduled for deletion. Sign in before the deletion date to cancel.',
+      data: {
+        deletionScheduledFor: scheduledFor,
+        export: archive
+      }
+    });
+
+  } catch (error) {
+    console.error('Delete account error:', error);
+    res.status(500).json({
+      error: 'Deletion failed',
+      message: 'Unable to delete account. Please try again.'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/auth/audit-events
+ * @desc    List the security events recorded for the current user, newest first
+ * @access  Private
+ */
+router.get('/audit-events', authenticateToken, [
+  query('action').optional().trim().isLength({ max: 50 }),
+  query('page').optional().isInt({ min: 1 }).toInt(),
+  query('limit').optional().isInt({ min: 1, max: 100 }).toInt()
+], handleValidationErrors, async (req, res) => {
+  try {
+    const { action, page = 1, limit = 20 } = req.query;
+
+    const filter = { user: req.user._id };
+    if (action) filter.action = action;
+
+    const [events, totalEvents] = await Promise.all([
+      AuditEvent.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      AuditEvent.countDocuments(filter)
+    ]);
+
+    const totalPages = Math.ceil(totalEvents / limit);
+
+    res.json({
+      success: true,
+      data: {
+        events,
+        pagination: {
+          currentPage: page,
+          totalPages,
+          totalEvents,
+          hasNextPage: page < totalPages,
+          hasPrevPage: page > 1
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Get audit events error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch activity',
+      message: 'Unable to retrieve account activity'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    List active sessions (signed-in devices)
+ * @access  Private
+ */
+router.get('/sessions', authenticateToken, async (req, res) => {
+  try {
+    const sessions = await Session.findActiveForUser(req.user._id);
+
+    res.json({
+      success: true,
+      data: {
+        sessions: sessions.map(session => ({
+          id: session._id,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          lastSeenAt: session.lastSeenAt,
+          createdAt: session.createdAt,
+          current: session.jti === req.authSession.jti
+        }))
+      }
+    });
+
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch sessions',
+      message: 'Unable to retrieve active sessions'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/auth/sessions
+ * @desc    Revoke every session except the current one
+ * @access  Private
+ */
+router.delete('/sessions', authenticateToken, async (req, res) => {
+  try {
+    const revoked = await Session.revokeAllForUser(req.user._id, { except: req.authSession.jti });
+
+    await recordAuditEvent(req, { action: 'session.revoke_all', metadata: { revoked } });
+
+    res.json({
+      success: true,
+      message: `Signed out of ${revoked} other session${revoked === 1 ? '' : 's'}`,
+      data: {
+        revoked
+      }
+    });
+
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({
+      error: 'Revoke failed',
+      message: 'Unable to sign out other sessions'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/auth/sessions/:id
+ * @desc    Revoke a single session
+ * @access  Private
+ */
+router.delete('/sessions/:id', authenticateToken, [
+  param('id').isMongoId().withMessage('Invalid session id')
+], handleValidationErrors, async (req, res) => {
+  try {
+    const session = await Session.findOne({ _id: req.params.id, user: req.user._id, revokedAt: null });
+
+    if (!session) {
+      return res.status(404).json({
+        error: 'Session not found',
+        message: 'No active session found with this id'
+      });
+    }
+
+    await session.revoke();
+
+    await recordAuditEvent(req, { action: 'session.revoke', metadata: { session: session._id } });
+
+    if (session.jti === req.authSession.jti) {
+      clearRefreshCookies(res);
+    }
+
+    res.json({
+      success: true,
+      message: 'Session revoked successfully'
+    });
+
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      error: 'Revoke failed',
+      message: 'Unable to revoke session'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/auth/logout
+ * @desc    Logout user and revoke the current session
+ * @access  Private
+ */
+router.post('/logout', authenticateToken, async (req, res) => {
+  try {
+    await req.authSession.revoke();
+    clearRefreshCookies(res);
+
+    await recordAuditEvent(req, { action: 'auth.logout', metadata: { session: req.authSession._id } });
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({
+      error: 'Logout failed',
+      message: 'Unable to logout. Please try again.'
+    });
+  }
 });
 
 module.exports = router;
\ No newline at end of file
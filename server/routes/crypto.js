@@ -1,106 +1,14 @@
 const express = require('express');
-const axios = require('axios');
-const { authenticateToken } = require('../middleware/auth');
+const { authenticateToken, requireScope } = require('../middleware/auth');
+const { apiClient, mockCryptoData } = require('../utils/market');
 
 const router = express.Router();
 
 // Apply authentication middleware to all routes
 router.use(authenticateToken);
 
-// CoinGecko API configuration
-const COINGECKO_API = process.env.COINGECKO_API_URL || 'https://api.coingecko.com/api/v3';
-const API_KEY = process.env.COINAPI_KEY;
-
-// Create axios instance with default config
-const apiClient = axios.create({
-  baseURL: COINGECKO_API,
-  timeout: 10000,
-  headers: API_KEY ? {
-    'x-cg-demo-api-key': API_KEY
-  } : {}
-});
-
-// Mock cryptocurrency data (for development without API keys)
-const mockCryptoData = {
-  'BTC': {
-    symbol: 'BTC',
-    name: 'Bitcoin',
-    current_price: 43250.75,
-    price_change_24h: 1850.32,
-    price_change_percentage_24h: 4.47,
-    market_cap: 845123456789,
-    volume_24h: 28543123456,
-    circulating_supply: 19542187,
-    total_supply: 21000000,
-    max_supply: 21000000,
-    image: 'https://assets.coingecko.com/coins/images/1/large/bitcoin.png'
-  },
-  'ETH': {
-    symbol: 'ETH',
-    name: 'Ethereum',
-    current_price: 2678.45,
-    price_change_24h: -145.23,
-    price_change_percentage_24h: -5.14,
-    market_cap: 321567890123,
-    volume_24h: 15432109876,
-    circulating_supply: 120280312,
-    total_supply: 120280312,
-    max_supply: null,
-    image: 'https://assets.coingecko.com/coins/images/279/large/ethereum.png'
-  },
-  'ADA': {
-    symbol: 'ADA',
-    name: 'Cardano',
-    current_price: 0.4723,
-    price_change_24h: 0.0234,
-    price_change_percentage_24h: 5.22,
-    market_cap: 16543210987,
-    volume_24h: 876543210,
-    circulating_supply: 35045020830,
-    total_supply: 45000000000,
-    max_supply: 45000000000,
-    image: 'https://assets.coingecko.com/coins/images/975/large/cardano.png'
-  },
-  'SOL': {
-    symbol: 'SOL',
-    name: 'Solana',
-    current_price: 98.76,
-    price_change_24h: 7.43,
-    price_change_percentage_24h: 8.13,
-    market_cap: 43210987654,
-    volume_24h: 2109876543,
-    circulating_supply: 437841193,
-    total_supply: 567643242,
-    max_supply: null,
-    image: 'https://assets.coingecko.com/coins/images/4128/large/solana.png'
-  },
-  'MATIC': {
-    symbol: 'MATIC',
-    name: 'Polygon',
-    current_price: 0.8945,
-    price_change_24h: -0.0234,
-    price_change_percentage_24h: -2.55,
-    market_cap: 8765432109,
-    volume_24h: 543210987,
-    circulating_supply: 9811233165,
-    total_supply: 10000000000,
-    max_supply: 10000000000,
-    image: 'https://assets.coingecko.com/coins/images/4713/large/matic-token-icon.png'
-  },
-  'DOT': {
-    symbol: 'DOT',
-    name: 'Polkadot',
-    current_price: 7.23,
-    price_change_24h: 0.34,
-    price_change_percentage_24h: 4.93,
-    market_cap: 9876543210,
-    volume_24h: 654321098,
-    circulating_supply: 1365938542,
-    total_supply: 1432129285,
-    max_supply: null,
-    image: 'https://assets.coingecko.com/coins/images/12171/large/polkadot.png'
-  }
-};
+// Market data is public information, so an API key with any scope may read it
+const MARKET_DATA_SCOPES = ['read:wallet', 'read:transactions', 'trade'];
 
 // Generate mock price history
 const generateMockPriceHistory = (currentPrice, days = 30) => {
@@ -131,7 +39,7 @@ const generateMockPriceHistory = (currentPrice, days = 30) => {
  * @desc    Get cryptocurrency prices
  * @access  Private
  */
-router.get('/prices', async (req, res) => {
+router.get('/prices', requireScope(...MARKET_DATA_SCOPES), async (req, res) => {
   try {
     const { symbols, currency = 'usd' } = req.query;
     
@@ -195,7 +103,7 @@ router.get('/prices', async (req, res) => {
  * @desc    Get market data for popular cryptocurrencies
  * @access  Private
  */
-router.get('/market', async (req, res) => {
+router.get('/market', requireScope(...MARKET_DATA_SCOPES), async (req, res) => {
   try {
     const { page = 1, per_page = 50, currency = 'usd' } = req.query;
 
@@ -272,7 +180,7 @@ router.get('/market', async (req, res) => {
  * @desc    Get price chart data for a cryptocurrency
  * @access  Private
  */
-router.get('/chart/:symbol', async (req, res) => {
+router.get('/chart/:symbol', requireScope(...MARKET_DATA_SCOPES), async (req, res) => {
   try {
     const { symbol } = req.params;
     const { days = 30, currency = 'usd' } = req.query;
@@ -361,7 +269,7 @@ router.get('/chart/:symbol', async (req, res) => {
  * @desc    Search for cryptocurrencies
  * @access  Private
  */
-router.get('/search', async (req, res) => {
+router.get('/search', requireScope(...MARKET_DATA_SCOPES), async (req, res) => {
   try {
     const { q: query } = req.query;
 
@@ -427,7 +335,7 @@ router.get('/search', async (req, res) => {
  * @desc    Get trending cryptocurrencies
  * @access  Private
  */
-router.get('/trending', async (req, res) => {
+router.get('/trending', requireScope(...MARKET_DATA_SCOPES), async (req, res) => {
   try {
     // Try CoinGecko API first
     try {
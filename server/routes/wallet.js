@@ -1,12 +1,67 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const QRCode = require('qrcode');
+const { body, param, validationResult } = require('express-validator');
+const User = require('../models/User');
 const Wallet = require('../models/Wallet');
 const Transaction = require('../models/Transaction');
-const { authenticateToken, checkResourceOwnership } = require('../middleware/auth');
+const WithdrawalAddress = require('../models/WithdrawalAddress');
+const KeystoreBackup = require('../models/KeystoreBackup');
+const { diffChanges, recordAuditEvent } = require('../utils/audit');
+const { SECOND_FACTOR_FIELDS, hasSecondFactor, verifySecondFactor } = require('../utils/secondFactor');
+const {
+  getWithdrawalCooldownMs,
+  normalizeWithdrawalAddress,
+  checkWithdrawalDestination
+} = require('../utils/withdrawalAllowlist');
+const { findRecipient, transferCurrency } = require('../utils/transfers');
+const { getLoginStatus, recordLoginFailure, sendLoginThrottled } = require('../utils/loginThrottle');
+const {
+  roundCash,
+  getTradeFee,
+  holdCash,
+  releaseCash,
+  buildCashTransaction,
+  settleCashTransaction
+} = require('../utils/cash');
+const { buyCryptocurrency, sellCryptocurrency } = require('../utils/trades');
+const { getMarketQuote } = require('../utils/market');
+const { getPaymentProvider } = require('../payments');
+const {
+  CHAINS,
+  SUPPORTED_CHAINS,
+  getAccountPath,
+  deriveAddress
+} = require('../utils/hdWallet');
+const { sendMail } = require('../mail');
+const { withdrawalAddressEmail } = require('../mail/templates');
+const {
+  authenticateToken,
+  checkResourceOwnership,
+  requireVerifiedEmail,
+  requireScope,
+  denyApiKeys,
+  requireRecentAuth,
+  generateWithdrawalAddressToken,
+  verifyWithdrawalAddressToken
+} = require('../middleware/auth');
 
 const router = express.Router();
 
-// Apply authentication middleware to all routes
+// Step-up thresholds: sells worth at least this much fiat (0 = every sell) and wallet settings changes
+const parsedSellThreshold = parseFloat(process.env.STEP_UP_SELL_THRESHOLD);
+const STEP_UP_SELL_THRESHOLD = Number.isNaN(parsedSellThreshold) ? 1000 : parsedSellThreshold;
+const STEP_UP_WALLET_SETTINGS = process.env.STEP_UP_WALLET_SETTINGS !== 'false';
+
+// Largest single deposit or withdrawal, in the wallet's currency
+const MAX_CASH_AMOUNT = 1000000;
+
+// A 24-word recovery phrase is well under 256 bytes; leave room for the GCM tag and hex encoding
+const MAX_KEYSTORE_CIPHERTEXT_LENGTH = 1024;
+
+// Valued at the server's market price (see loadMarketQuote), so the client cannot pick a price that avoids step-up
+const isLargeSell = (req) => Number(req.body.amount) * req.marketQuote.price >= STEP_UP_SELL_THRESHOLD;
+
+// Apply authentication middleware to all routes (API keys are then limited per route by scope)
 router.use(authenticateToken);
 
 // Helper function to handle validation errors
@@ -22,12 +77,207 @@ const handleValidationErrors = (req, res, next) => {
   next();
 };
 
+// Middleware to look up the market price of the cryptocurrency in a buy or sell, in the wallet's
+// currency, as req.marketQuote
+const loadMarketQuote = async (req, res, next) => {
+  try {
+    const wallet = await Wallet.findOne({ user: req.user._id }).select('settings.currency');
+    if (!wallet) {
+      return res.status(404).json({
+        error: 'Wallet not found',
+        message: 'No wallet found for this user'
+      });
+    }
+
+    const symbol = req.body.symbol.toUpperCase();
+    const quote = await getMarketQuote(symbol, wallet.settings.currency);
+    if (!quote) {
+      return res.status(400).json({
+        error: 'Price unavailable',
+        message: `No market price is available for ${symbol}`
+      });
+    }
+
+    req.marketQuote = quote;
+    next();
+  } catch (error) {
+    console.error('Market quote error:', error);
+    res.status(500).json({
+      error: 'Price unavailable',
+      message: 'Unable to look up the market price'
+    });
+  }
+};
+
+// A code or passkey is optional: without one the change is confirmed by email instead
+const validateSecondFactorOptional = [
+  body('code').optional().trim().isLength({ min: 1, max: 20 }),
+  body('passkey.challengeToken').optional().isString(),
+  body('passkey.response.id').optional().isString()
+];
+
+// Helper to confirm an allowlist change with a second factor sent in the request.
+// Resolves with null when no factor was sent, so the caller falls back to email confirmation.
+// Wrong codes count against the same limits as login attempts.
+const confirmWithSecondFactor = async (req, res) => {
+  const { code, passkey } = req.body;
+  if (!code && !passkey) return null;
+
+  const user = await User.findById(req.user._id).select(SECOND_FACTOR_FIELDS);
+  if (!hasSecondFactor(user)) {
+    res.status(400).json({
+      error: 'Not enabled',
+      message: 'Set up two-factor authentication or a passkey first, or confirm by email instead'
+    });
+    return false;
+  }
+
+  const loginStatus = await getLoginStatus(req, user);
+  if (loginStatus.retryAfter > 0) {
+    sendLoginThrottled(res, loginStatus);
+    return false;
+  }
+
+  if (!(await verifySecondFactor(user, { code, passkey }))) {
+    const status = await recordLoginFailure(req, user);
+    if (status.lockedUntil) {
+      sendLoginThrottled(res, status);
+      return false;
+    }
+
+    res.status(400).json({
+      error: 'Invalid code',
+      message: 'The authentication code or passkey is incorrect',
+      retryAfter: status.retryAfter || undefined
+    });
+    return false;
+  }
+
+  // Stores a consumed recovery code or the passkey's new signature counter
+  await user.save();
+  return true;
+};
+
+// Helper to email the confirmation link for an allowlist change; mail failures are logged
+const sendWithdrawalAddressEmail = async (user, entry, action) => {
+  try {
+    const token = generateWithdrawalAddressToken(user, entry, action);
+    await sendMail({ to: user.email, ...withdrawalAddressEmail(user, entry, action, token) });
+  } catch (error) {
+    console.error('Withdrawal address email error:', error);
+  }
+};
+
+// Helper to record a deposit or withdrawal as pending, then start it with the payment provider.
+// The transaction's id is the provider reference, and a provider error counts as a failed payment.
+// Recording first means a payment the provider has accepted always has a transaction to settle.
+const processCashPayment = async (transaction, start) => {
+  const provider = getPaymentProvider();
+  transaction.payment = { provider: provider.name };
+  await transaction.save();
+
+  let result;
+  try {
+    result = await start(provider, {
+      reference: transaction._id.toString(),
+      amount: transaction.fiat.amount,
+      currency: transaction.fiat.currency,
+      userId: transaction.user.toString()
+    });
+  } catch (error) {
+    console.error('Payment provider error:', error);
+    result = { status: 'failed', failureReason: 'The payment provider could not be reached' };
+  }
+
+  if (result.providerReference) {
+    transaction.payment.reference = result.providerReference;
+    await transaction.save();
+  }
+
+  return (await settleCashTransaction(transaction, result)) || transaction;
+};
+
+// Helper to answer a deposit or withdrawal request with its transaction and the new balances
+const sendCashResponse = async (res, transaction, messages) => {
+  const wallet = await Wallet.findById(transaction.wallet);
+  const statusCodes = { completed: 201, pending: 202, failed: 402 };
+
+  res.status(statusCodes[transaction.status] || 200).json({
+    success: transaction.status !== 'failed',
+    ...(transaction.status === 'failed' && { error: 'Payment failed' }),
+    message: transaction.status === 'failed'
+      ? transaction.payment.failureReason || messages.failed
+      : messages[transaction.status],
+    data: {
+      transaction: {
+        id: transaction._id,
+        type: transaction.type,
+        fiat: transaction.fiat,
+        status: transaction.status,
+        payment: { provider: transaction.payment.provider, failureReason: transaction.payment.failureReason },
+        createdAt: transaction.createdAt
+      },
+      wallet: {
+        totalBalance: wallet.totalBalance,
+        heldBalance: wallet.heldBalance,
+        availableBalance: wallet.availableBalance
+      }
+    }
+  });
+};
+
+// Helper to describe an HD account
+const formatHdAccount = (account) => ({
+  chain: account.chain,
+  name: CHAINS[account.chain].name,
+  derivationPath: account.derivationPath,
+  xpub: account.xpub,
+  receiveAddress: account.receiveAddress,
+  createdAt: account.createdAt
+});
+
+// Helper to describe a keystore backup
+const formatKeystoreBackup = (backup) => ({
+  keystoreId: backup.keystoreId,
+  crypto: backup.crypto,
+  createdAt: backup.createdAt,
+  updatedAt: backup.updatedAt
+});
+
+// Helper to keep only the known KDF parameters of a keystore backup; null when they are unusable
+const pickKdfParams = (kdf, params) => {
+  const isCount = (value) => Number.isInteger(value) && value > 0;
+  const salt = typeof params.salt === 'string' && /^[0-9a-f]{32,128}$/i.test(params.salt) ? params.salt : null;
+
+  if (!salt || params.dklen !== 32) return null;
+  if (kdf === 'scrypt') {
+    return [params.n, params.r, params.p].every(isCount)
+      ? { dklen: 32, n: params.n, r: params.r, p: params.p, salt }
+      : null;
+  }
+  return isCount(params.c) && params.prf === 'hmac-sha256'
+    ? { dklen: 32, c: params.c, prf: 'hmac-sha256', salt }
+    : null;
+};
+
+// Helper to describe an allowlist entry
+const formatWithdrawalAddress = (entry) => ({
+  id: entry._id,
+  address: entry.address,
+  label: entry.label,
+  status: entry.status,
+  confirmedAt: entry.confirmedAt,
+  activatesAt: entry.activatesAt,
+  removalRequestedAt: entry.removalRequestedAt,
+  createdAt: entry.createdAt
+});
+
 /**
  * @route   GET /api/wallet
  * @desc    Get user's wallet information
  * @access  Private
  */
-router.get('/', async (req, res) => {
+router.get('/', requireScope('read:wallet'), async (req, res) => {
   try {
     const wallet = await Wallet.findOne({ user: req.user._id }).populate('user', 'username email walletAddress');
 
@@ -45,6 +295,8 @@ router.get('/', async (req, res) => {
           id: wallet._id,
           user: wallet.user,
           totalBalance: wallet.totalBalance,
+          heldBalance: wallet.heldBalance,
+          availableBalance: wallet.availableBalance,
           totalPortfolioValue: wallet.totalPortfolioValue,
           totalProfitLoss: wallet.totalProfitLoss,
           totalProfitLossPercentage: wallet.totalProfitLossPercentage,
@@ -67,32 +319,25 @@ router.get('/', async (req, res) => {
 
 /**
  * @route   POST /api/wallet/buy
- * @desc    Buy cryptocurrency
+ * @desc    Buy an amount of a cryptocurrency at the current market price
  * @access  Private
  */
-router.post('/buy', [
+router.post('/buy', requireScope('trade'), requireVerifiedEmail, [
   body('symbol')
     .trim()
     .notEmpty()
     .withMessage('Cryptocurrency symbol is required')
     .isLength({ min: 2, max: 10 })
     .withMessage('Symbol must be between 2 and 10 characters'),
-  body('name')
-    .trim()
-    .notEmpty()
-    .withMessage('Cryptocurrency name is required'),
   body('amount')
     .isFloat({ min: 0.000001 })
-    .withMessage('Amount must be a positive number'),
-  body('price')
-    .isFloat({ min: 0.01 })
-    .withMessage('Price must be a positive number'),
-  body('fiatAmount')
-    .isFloat({ min: 0.01 })
-    .withMessage('Fiat amount must be a positive number')
-], handleValidationErrors, async (req, res) => {
+    .withMessage('Amount must be a positive number')
+], handleValidationErrors, loadMarketQuote, async (req, res) => {
   try {
-    const { symbol, name, amount, price, fiatAmount, notes } = req.body;
+    const { symbol, amount, notes } = req.body;
+    // Priced by the server; any price or fiat amount in the request is ignored
+    const { name, price } = req.marketQuote;
+    const fiatAmount = roundCash(Number(amount) * price);
 
     // Find user's wallet
     const wallet = await Wallet.findOne({ user: req.user._id });
@@ -103,46 +348,48 @@ router.post('/buy', [
       });
     }
 
-    // Create transaction record
-    const transaction = new Transaction({
-      user: req.user._id,
-      wallet: wallet._id,
-      type: 'buy',
-      cryptocurrency: {
-        symbol: symbol.toUpperCase(),
-        name,
-        amount,
-        price
-      },
-      fiat: {
-        currency: wallet.settings.currency,
-        amount: fiatAmount
-      },
-      fees: {
-        amount: fiatAmount * 0.01, // 1% fee
-        currency: wallet.settings.currency
-      },
-      status: 'completed',
-      notes,
-      metadata: {
-        platform: 'CryptoWallet',
-        exchangeRate: price
-      }
-    });
-
-    // Complete the transaction
-    transaction.completeTransaction();
-    await transaction.save();
+    // Pay for the coins and the fee from the cash balance
+    const fee = getTradeFee(fiatAmount);
+    const cost = roundCash(fiatAmount + fee);
+    if (wallet.availableBalance < cost) {
+      return res.status(400).json({
+        error: 'Insufficient funds',
+        message: `This purchase costs ${cost} ${wallet.settings.currency} including fees, but only ${wallet.availableBalance} is available`
+      });
+    }
 
-    // Update wallet with new currency
-    wallet.addOrUpdateCurrency({
+    const trade = await buyCryptocurrency({
+      user: req.user._id,
       symbol: symbol.toUpperCase(),
       name,
-      amount,
-      price
+      amount: Number(amount),
+      price,
+      notes
     });
 
-    await wallet.save();
+    if (trade.rejected) {
+      await recordAuditEvent(req, {
+        action: 'trade.buy',
+        outcome: 'failure',
+        metadata: { transaction: trade.transaction._id, reason: trade.rejected }
+      });
+      return res.status(409).json({
+        error: 'Trade rejected',
+        message: trade.rejected
+      });
+    }
+
+    const { transaction, balances, amountBefore } = trade;
+
+    await recordAuditEvent(req, {
+      action: 'trade.buy',
+      changes: [{
+        field: `currencies.${symbol.toUpperCase()}.amount`,
+        before: amountBefore,
+        after: amountBefore + Number(amount)
+      }],
+      metadata: { transaction: transaction._id, price, fiatAmount, cost }
+    });
 
     res.status(201).json({
       success: true,
@@ -159,9 +406,11 @@ router.post('/buy', [
           createdAt: transaction.createdAt
         },
         wallet: {
-          totalPortfolioValue: wallet.totalPortfolioValue,
-          totalProfitLoss: wallet.totalProfitLoss,
-          currencies: wallet.currencies
+          totalBalance: balances.totalBalance,
+          availableBalance: balances.availableBalance,
+          totalPortfolioValue: trade.wallet.totalPortfolioValue,
+          totalProfitLoss: trade.wallet.totalProfitLoss,
+          currencies: trade.wallet.currencies
         }
       }
     });
@@ -177,23 +426,22 @@ router.post('/buy', [
 
 /**
  * @route   POST /api/wallet/sell
- * @desc    Sell cryptocurrency
- * @access  Private
+ * @desc    Sell an amount of a holding at the current market price
+ * @access  Private (recent re-authentication for sells worth STEP_UP_SELL_THRESHOLD or more)
  */
-router.post('/sell', [
+router.post('/sell', requireScope('trade'), requireVerifiedEmail, [
   body('symbol')
     .trim()
     .notEmpty()
     .withMessage('Cryptocurrency symbol is required'),
   body('amount')
     .isFloat({ min: 0.000001 })
-    .withMessage('Amount must be a positive number'),
-  body('price')
-    .isFloat({ min: 0.01 })
-    .withMessage('Price must be a positive number')
-], handleValidationErrors, async (req, res) => {
+    .withMessage('Amount must be a positive number')
+], handleValidationErrors, loadMarketQuote, requireRecentAuth(isLargeSell), async (req, res) => {
   try {
-    const { symbol, amount, price, notes } = req.body;
+    const { symbol, amount, notes } = req.body;
+    // Priced by the server; any price in the request is ignored
+    const { price } = req.marketQuote;
 
     // Find user's wallet
     const wallet = await Wallet.findOne({ user: req.user._id });
@@ -221,53 +469,38 @@ router.post('/sell', [
       });
     }
 
-    const fiatAmount = amount * price;
-
-    // Create transaction record
-    const transaction = new Transaction({
+    const trade = await sellCryptocurrency({
       user: req.user._id,
-      wallet: wallet._id,
-      type: 'sell',
-      cryptocurrency: {
-        symbol: symbol.toUpperCase(),
-        name: currency.name,
-        amount,
-        price
-      },
-      fiat: {
-        currency: wallet.settings.currency,
-        amount: fiatAmount
-      },
-      fees: {
-        amount: fiatAmount * 0.01, // 1% fee
-        currency: wallet.settings.currency
-      },
-      status: 'completed',
-      notes,
-      metadata: {
-        platform: 'CryptoWallet',
-        exchangeRate: price
-      }
+      symbol: symbol.toUpperCase(),
+      name: currency.name,
+      amount: Number(amount),
+      price,
+      notes
     });
 
-    // Complete the transaction
-    transaction.completeTransaction();
-    await transaction.save();
-
-    // Update wallet - reduce currency amount
-    currency.amount -= amount;
-    currency.value = currency.amount * currency.currentPrice;
-    currency.profitLoss = currency.value - (currency.amount * currency.averageBuyPrice);
-    currency.profitLossPercentage = currency.averageBuyPrice > 0 
-      ? ((currency.currentPrice - currency.averageBuyPrice) / currency.averageBuyPrice) * 100 
-      : 0;
-
-    // Remove currency if amount becomes 0
-    if (currency.amount <= 0) {
-      wallet.currencies = wallet.currencies.filter(c => c.symbol !== symbol.toUpperCase());
+    if (trade.rejected) {
+      await recordAuditEvent(req, {
+        action: 'trade.sell',
+        outcome: 'failure',
+        metadata: { transaction: trade.transaction._id, reason: trade.rejected }
+      });
+      return res.status(409).json({
+        error: 'Trade rejected',
+        message: trade.rejected
+      });
     }
 
-    await wallet.save();
+    const { transaction, balances, amountBefore } = trade;
+
+    await recordAuditEvent(req, {
+      action: 'trade.sell',
+      changes: [{
+        field: `currencies.${symbol.toUpperCase()}.amount`,
+        before: amountBefore,
+        after: Math.max(amountBefore - amount, 0)
+      }],
+      metadata: { transaction: transaction._id, price, fiatAmount: transaction.fiat.amount }
+    });
 
     res.json({
       success: true,
@@ -284,9 +517,11 @@ router.post('/sell', [
           createdAt: transaction.createdAt
         },
         wallet: {
-          totalPortfolioValue: wallet.totalPortfolioValue,
-          totalProfitLoss: wallet.totalProfitLoss,
-          currencies: wallet.currencies
+          totalBalance: balances.totalBalance,
+          availableBalance: balances.availableBalance,
+          totalPortfolioValue: trade.wallet.totalPortfolioValue,
+          totalProfitLoss: trade.wallet.totalProfitLoss,
+          currencies: trade.wallet.currencies
         }
       }
     });
@@ -300,12 +535,294 @@ router.post('/sell', [
   }
 });
 
+/**
+ * @route   POST /api/wallet/send
+ * @desc    Send an amount of a holding to another user, identified by wallet address or username.
+ *          Both wallets and the paired send/receive transactions are updated atomically.
+ * @access  Private (always needs recent re-authentication; not available to API keys)
+ */
+router.post('/send', denyApiKeys, requireVerifiedEmail, [
+  body('recipient')
+    .trim()
+    .notEmpty()
+    .withMessage('A recipient wallet address or username is required')
+    .isLength({ max: 64 })
+    .withMessage('Recipient is too long'),
+  body('symbol')
+    .trim()
+    .notEmpty()
+    .withMessage('Cryptocurrency symbol is required'),
+  body('amount')
+    .isFloat({ min: 0.000001 })
+    .withMessage('Amount must be a positive number'),
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Notes cannot exceed 500 characters')
+], handleValidationErrors, requireRecentAuth(), async (req, res) => {
+  try {
+    const { recipient: recipientId, notes } = req.body;
+    const symbol = req.body.symbol.toUpperCase();
+    const amount = Number(req.body.amount);
+
+    const recipient = await findRecipient(recipientId);
+    if (!recipient) {
+      return res.status(404).json({
+        error: 'Recipient not found',
+        message: 'No user has this wallet address or username'
+      });
+    }
+
+    if (recipient._id.equals(req.user._id)) {
+      return res.status(400).json({
+        error: 'Invalid recipient',
+        message: 'You cannot send to yourself'
+      });
+    }
+
+    // Allowlist-only mode covers transfers too, so a hijacked session cannot move funds to another account
+    const wallet = await Wallet.findOne({ user: req.user._id });
+    if (!wallet) {
+      return res.status(404).json({
+        error: 'Wallet not found',
+        message: 'No wallet found for this user'
+      });
+    }
+    if (wallet.isAllowlistOnly()) {
+      const destination = recipient.walletAddress
+        ? await checkWithdrawalDestination(wallet, recipient.walletAddress)
+        : { allowed: false, message: 'Allowlist-only mode is on and this user has no wallet address to allowlist' };
+      if (!destination.allowed) {
+        return res.status(403).json({
+          error: 'Destination not allowed',
+          message: destination.message
+        });
+      }
+    }
+
+    const result = await transferCurrency({
+      sender: req.user,
+      recipient,
+      symbol,
+      amount,
+      notes,
+      metadata: {
+        userAgent: req.get('User-Agent'),
+        ipAddress: req.ip
+      }
+    });
+
+    if (!result) {
+      const holding = wallet.currencies.find(c => c.symbol === symbol);
+      return res.status(400).json({
+        error: 'Insufficient balance',
+        message: holding ? `You only have ${holding.amount} ${symbol}` : 'You do not own this cryptocurrency'
+      });
+    }
+
+    const { sendTransaction } = result;
+
+    await recordAuditEvent(req, {
+      action: 'wallet.send',
+      metadata: {
+        transaction: sendTransaction._id,
+        recipient: recipient._id,
+        symbol,
+        amount
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Sent ${amount} ${symbol} to ${recipient.username}`,
+      data: {
+        transaction: {
+          id: sendTransaction._id,
+          type: sendTransaction.type,
+          cryptocurrency: sendTransaction.cryptocurrency,
+          fiat: sendTransaction.fiat,
+          fees: sendTransaction.fees,
+          status: sendTransaction.status,
+          transactionHash: sendTransaction.transactionHash,
+          fromAddress: sendTransaction.fromAddress,
+          toAddress: sendTransaction.toAddress,
+          createdAt: sendTransaction.createdAt
+        },
+        recipient: {
+          username: recipient.username,
+          walletAddress: recipient.walletAddress || null
+        },
+        wallet: {
+          totalPortfolioValue: result.wallet.totalPortfolioValue,
+          totalProfitLoss: result.wallet.totalProfitLoss,
+          currencies: result.wallet.currencies
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Send cryptocurrency error:', error);
+    res.status(500).json({
+      error: 'Transfer failed',
+      message: 'Unable to complete the transfer'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/wallet/receive
+ * @desc    The user's own username and wallet address, with a QR code of the address, for receiving transfers
+ * @access  Private
+ */
+router.get('/receive', requireScope('read:wallet'), async (req, res) => {
+  try {
+    const { username, walletAddress } = req.user;
+
+    res.json({
+      success: true,
+      data: {
+        username,
+        walletAddress: walletAddress || null,
+        qrCode: walletAddress ? await QRCode.toDataURL(walletAddress) : null
+      }
+    });
+
+  } catch (error) {
+    console.error('Get receive address error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch address',
+      message: 'Unable to retrieve your receive address'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/wallet/deposit
+ * @desc    Add fiat cash to the wallet through the payment provider. Completed deposits are
+ *          credited straight away; pending ones are credited when the provider settles them.
+ * @access  Private
+ */
+router.post('/deposit', denyApiKeys, requireVerifiedEmail, [
+  body('amount')
+    .isFloat({ min: 1, max: MAX_CASH_AMOUNT })
+    .withMessage(`Amount must be between 1 and ${MAX_CASH_AMOUNT}`)
+], handleValidationErrors, async (req, res) => {
+  try {
+    const amount = roundCash(Number(req.body.amount));
+
+    const wallet = await Wallet.findOne({ user: req.user._id });
+    if (!wallet) {
+      return res.status(404).json({
+        error: 'Wallet not found',
+        message: 'No wallet found for this user'
+      });
+    }
+
+    const transaction = buildCashTransaction({
+      wallet,
+      type: 'deposit',
+      amount,
+      metadata: { userAgent: req.get('User-Agent'), ipAddress: req.ip }
+    });
+
+    const settled = await processCashPayment(transaction, (provider, payment) => provider.createDeposit(payment));
+
+    await recordAuditEvent(req, {
+      action: 'wallet.deposit',
+      outcome: settled.status === 'failed' ? 'failure' : 'success',
+      metadata: { transaction: settled._id, amount, currency: settled.fiat.currency, status: settled.status }
+    });
+
+    await sendCashResponse(res, settled, {
+      completed: 'Deposit completed',
+      pending: 'Deposit is being processed',
+      failed: 'Deposit failed'
+    });
+
+  } catch (error) {
+    console.error('Deposit error:', error);
+    res.status(500).json({
+      error: 'Deposit failed',
+      message: 'Unable to complete the deposit'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/wallet/withdraw
+ * @desc    Withdraw fiat cash through the payment provider. The amount is held until the
+ *          provider settles the payment, then leaves the wallet or becomes available again.
+ * @access  Private (always needs recent re-authentication; not available to API keys)
+ */
+router.post('/withdraw', denyApiKeys, requireVerifiedEmail, [
+  body('amount')
+    .isFloat({ min: 1, max: MAX_CASH_AMOUNT })
+    .withMessage(`Amount must be between 1 and ${MAX_CASH_AMOUNT}`)
+], handleValidationErrors, requireRecentAuth(), async (req, res) => {
+  try {
+    const amount = roundCash(Number(req.body.amount));
+
+    const wallet = await Wallet.findOne({ user: req.user._id });
+    if (!wallet) {
+      return res.status(404).json({
+        error: 'Wallet not found',
+        message: 'No wallet found for this user'
+      });
+    }
+
+    if (!(await holdCash(wallet._id, amount))) {
+      return res.status(400).json({
+        error: 'Insufficient funds',
+        message: `Only ${wallet.availableBalance} ${wallet.settings.currency} is available to withdraw`
+      });
+    }
+
+    const transaction = buildCashTransaction({
+      wallet,
+      type: 'withdraw',
+      amount,
+      metadata: { userAgent: req.get('User-Agent'), ipAddress: req.ip }
+    });
+
+    let settled;
+    try {
+      settled = await processCashPayment(transaction, (provider, payment) => provider.createWithdrawal(payment));
+    } catch (error) {
+      // Once recorded, the pending withdrawal releases its hold when it settles; until then nothing would
+      if (transaction.isNew) {
+        await releaseCash(wallet._id, amount);
+      }
+      throw error;
+    }
+
+    await recordAuditEvent(req, {
+      action: 'wallet.withdraw',
+      outcome: settled.status === 'failed' ? 'failure' : 'success',
+      metadata: { transaction: settled._id, amount, currency: settled.fiat.currency, status: settled.status }
+    });
+
+    await sendCashResponse(res, settled, {
+      completed: 'Withdrawal completed',
+      pending: 'Withdrawal is being processed',
+      failed: 'Withdrawal failed'
+    });
+
+  } catch (error) {
+    console.error('Withdraw error:', error);
+    res.status(500).json({
+      error: 'Withdrawal failed',
+      message: 'Unable to complete the withdrawal'
+    });
+  }
+});
+
 /**
  * @route   GET /api/wallet/transactions
  * @desc    Get user's transaction history
  * @access  Private
  */
-router.get('/transactions', async (req, res) => {
+router.get('/transactions', requireScope('read:transactions'), async (req, res) => {
   try {
     const {
       type,
@@ -361,7 +878,7 @@ router.get('/transactions', async (req, res) => {
  * @desc    Get portfolio value history
  * @access  Private
  */
-router.get('/portfolio-history', async (req, res) => {
+router.get('/portfolio-history', requireScope('read:wallet'), async (req, res) => {
   try {
     const { days = 30 } = req.query;
     
@@ -417,16 +934,17 @@ router.get('/portfolio-history', async (req, res) => {
 /**
  * @route   PUT /api/wallet/settings
  * @desc    Update wallet settings
- * @access  Private
+ * @access  Private (recent re-authentication unless STEP_UP_WALLET_SETTINGS=false)
  */
-router.put('/settings', [
+router.put('/settings', denyApiKeys, requireVerifiedEmail, [
   body('currency').optional().isIn(['USD', 'EUR', 'GBP', 'JPY', 'INR']),
+  body('withdrawals.allowlistOnly').optional().isBoolean().toBoolean(),
   body('notifications.priceAlerts').optional().isBoolean(),
   body('notifications.portfolioUpdates').optional().isBoolean(),
   body('notifications.transactionConfirmations').optional().isBoolean(),
   body('privacy.hideBalances').optional().isBoolean(),
   body('privacy.publicProfile').optional().isBoolean()
-], handleValidationErrors, async (req, res) => {
+], handleValidationErrors, requireRecentAuth(() => STEP_UP_WALLET_SETTINGS), async (req, res) => {
   try {
     const wallet = await Wallet.findOne({ user: req.user._id });
     if (!wallet) {
@@ -436,8 +954,23 @@ router.put('/settings', [
       });
     }
 
-    // Update settings
-    if (req.body.currency) {
+    const before = wallet.settings.toObject();
+
+    // Cash is not converted, so the currency can only change while the wallet holds none
+    // and no deposit is on its way. The balance check is part of the update, so a deposit
+    // settling at the same moment cannot be relabelled.
+    if (req.body.currency && req.body.currency !== wallet.settings.currency) {
+      const pendingDeposit = await Transaction.exists({ wallet: wallet._id, type: 'deposit', status: 'pending' });
+      const switched = !pendingDeposit && await Wallet.findOneAndUpdate(
+        { _id: wallet._id, totalBalance: 0, heldBalance: 0 },
+        { $set: { 'settings.currency': req.body.currency } }
+      );
+      if (!switched) {
+        return res.status(409).json({
+          error: 'Cash balance not empty',
+          message: 'Withdraw your cash balance and wait for pending payments to settle before changing the wallet currency'
+        });
+      }
       wallet.settings.currency = req.body.currency;
     }
 
@@ -455,8 +988,17 @@ router.put('/settings', [
       };
     }
 
+    if (req.body.withdrawals && typeof req.body.withdrawals.allowlistOnly === 'boolean') {
+      wallet.setAllowlistOnly(req.body.withdrawals.allowlistOnly, getWithdrawalCooldownMs());
+    }
+
     await wallet.save();
 
+    const changes = diffChanges(before, wallet.settings.toObject());
+    if (changes.length > 0) {
+      await recordAuditEvent(req, { action: 'wallet.settings.update', changes });
+    }
+
     res.json({
       success: true,
       message: 'Wallet settings updated successfully',
@@ -474,4 +1016,499 @@ router.put('/settings', [
   }
 });
 
+/**
+ * @route   GET /api/wallet/hd-accounts
+ * @desc    Get the wallet's watch-only HD accounts (extended public keys and receive addresses)
+ * @access  Private
+ */
+router.get('/hd-accounts', requireScope('read:wallet'), async (req, res) => {
+  try {
+    const wallet = await Wallet.findOne({ user: req.user._id });
+
+    if (!wallet) {
+      return res.status(404).json({
+        error: 'Wallet not found',
+        message: 'User wallet not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        accounts: wallet.hdAccounts.map(formatHdAccount)
+      }
+    });
+
+  } catch (error) {
+    console.error('Get HD accounts error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch accounts',
+      message: 'Unable to retrieve wallet accounts'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/wallet/hd-accounts
+ * @desc    Register the wallet's HD accounts, derived in the browser from the user's recovery phrase.
+ *          Takes one account-level extended public key per chain plus the address the browser derived
+ *          from it; the server derives the address again and refuses the keys if they disagree.
+ *          Keys can only be set once so a hijacked session cannot redirect deposits.
+ * @access  Private
+ */
+router.post('/hd-accounts', denyApiKeys, [
+  body('accounts')
+    .isArray({ min: SUPPORTED_CHAINS.length, max: SUPPORTED_CHAINS.length })
+    .withMessage(`Accounts for ${SUPPORTED_CHAINS.join(' and ')} are required`),
+  body('accounts.*.chain')
+    .isIn(SUPPORTED_CHAINS)
+    .withMessage(`Chain must be one of ${SUPPORTED_CHAINS.join(', ')}`),
+  body('accounts.*.xpub')
+    .isString()
+    .isLength({ min: 100, max: 120 })
+    .withMessage('A valid extended public key is required'),
+  body('accounts.*.address')
+    .isString()
+    .notEmpty()
+    .withMessage('The derived receive address is required')
+], handleValidationErrors, async (req, res) => {
+  try {
+    const { accounts } = req.body;
+
+    const chains = new Set(accounts.map(account => account.chain));
+    if (chains.size !== SUPPORTED_CHAINS.length) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Send exactly one account per chain'
+      });
+    }
+
+    const hdAccounts = [];
+    for (const { chain, xpub, address } of accounts) {
+      let receiveAddress;
+      try {
+        receiveAddress = deriveAddress(chain, xpub, 0);
+      } catch (error) {
+        return res.status(400).json({
+          error: 'Validation failed',
+          message: `${CHAINS[chain].name}: ${error.message}`
+        });
+      }
+
+      if (receiveAddress !== address) {
+        return res.status(400).json({
+          error: 'Address mismatch',
+          message: `The ${CHAINS[chain].name} address does not match its extended public key`
+        });
+      }
+
+      hdAccounts.push({ chain, derivationPath: getAccountPath(chain), xpub, receiveAddress });
+    }
+
+    const wallet = await Wallet.findOne({ user: req.user._id });
+    if (!wallet) {
+      return res.status(404).json({
+        error: 'Wallet not found',
+        message: 'User wallet not found'
+      });
+    }
+
+    // Claimed atomically on the user so two concurrent requests cannot both set keys
+    const walletAddress = hdAccounts.find(account => account.chain === 'ETH').receiveAddress;
+    let user;
+    try {
+      user = await User.findOneAndUpdate(
+        { _id: req.user._id, hdWalletCreatedAt: null },
+        { $set: { walletAddress, hdWalletCreatedAt: new Date() } },
+        { new: true }
+      );
+    } catch (error) {
+      if (error.code === 11000) {
+        return res.status(409).json({
+          error: 'Recovery phrase in use',
+          message: 'This recovery phrase is already used by another account'
+        });
+      }
+      throw error;
+    }
+
+    if (!user) {
+      return res.status(409).json({
+        error: 'Keys exist',
+        message: 'Wallet keys have already been created for this account'
+      });
+    }
+
+    wallet.hdAccounts = hdAccounts;
+    await wallet.save();
+
+    await recordAuditEvent(req, {
+      action: 'wallet.hd_accounts_create',
+      changes: [{ field: 'walletAddress', before: req.user.walletAddress || null, after: walletAddress }],
+      metadata: { chains: SUPPORTED_CHAINS }
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Wallet keys created',
+      data: {
+        accounts: wallet.hdAccounts.map(formatHdAccount)
+      }
+    });
+
+  } catch (error) {
+    console.error('Create HD accounts error:', error);
+    res.status(500).json({
+      error: 'Setup failed',
+      message: 'Unable to create wallet keys'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/wallet/keystore-backups
+ * @desc    List the user's encrypted keystore backups (ciphertext only)
+ * @access  Private
+ */
+router.get('/keystore-backups', denyApiKeys, async (req, res) => {
+  try {
+    const backups = await KeystoreBackup.findForUser(req.user._id);
+
+    res.json({
+      success: true,
+      data: {
+        backups: backups.map(formatKeystoreBackup)
+      }
+    });
+
+  } catch (error) {
+    console.error('Get keystore backups error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch backups',
+      message: 'Unable to retrieve keystore backups'
+    });
+  }
+});
+
+/**
+ * @route   PUT /api/wallet/keystore-backups/:keystoreId
+ * @desc    Store or replace the encrypted backup of a keystore entry. The browser encrypts the
+ *          entry with the user's keystore password first; only the ciphertext and KDF parameters are sent.
+ * @access  Private
+ */
+router.put('/keystore-backups/:keystoreId', denyApiKeys, requireVerifiedEmail, [
+  param('keystoreId').isUUID().withMessage('Invalid keystore id'),
+  body('crypto.cipher')
+    .equals('aes-256-gcm')
+    .withMessage('Cipher must be aes-256-gcm'),
+  body('crypto.ciphertext')
+    .isString()
+    .isLength({ min: 34, max: MAX_KEYSTORE_CIPHERTEXT_LENGTH })
+    .isHexadecimal()
+    .withMessage('Ciphertext must be hexadecimal'),
+  body('crypto.cipherparams.iv')
+    .isString()
+    .isLength({ min: 24, max: 24 })
+    .isHexadecimal()
+    .withMessage('The IV must be 12 bytes of hexadecimal'),
+  body('crypto.kdf')
+    .isIn(['scrypt', 'pbkdf2'])
+    .withMessage('KDF must be scrypt or pbkdf2'),
+  body('crypto.kdfparams')
+    .isObject()
+    .withMessage('KDF parameters are required')
+], handleValidationErrors, async (req, res) => {
+  try {
+    const { cipher, ciphertext, cipherparams, kdf, kdfparams } = req.body.crypto;
+
+    const params = pickKdfParams(kdf, kdfparams);
+    if (!params) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Invalid key derivation parameters'
+      });
+    }
+
+    const existing = await KeystoreBackup.exists({ user: req.user._id, keystoreId: req.params.keystoreId });
+    const backup = await KeystoreBackup.findOneAndUpdate(
+      { user: req.user._id, keystoreId: req.params.keystoreId },
+      { $set: { crypto: { cipher, ciphertext, cipherparams: { iv: cipherparams.iv }, kdf, kdfparams: params } } },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    await recordAuditEvent(req, {
+      action: existing ? 'wallet.keystore_backup.update' : 'wallet.keystore_backup.create',
+      metadata: { keystoreId: backup.keystoreId, kdf }
+    });
+
+    res.status(existing ? 200 : 201).json({
+      success: true,
+      message: 'Keystore backup saved',
+      data: {
+        backup: formatKeystoreBackup(backup)
+      }
+    });
+
+  } catch (error) {
+    console.error('Save keystore backup error:', error);
+    res.status(500).json({
+      error: 'Backup failed',
+      message: 'Unable to save keystore backup'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/wallet/keystore-backups/:keystoreId
+ * @desc    Remove the server copy of a keystore entry
+ * @access  Private
+ */
+router.delete('/keystore-backups/:keystoreId', denyApiKeys, [
+  param('keystoreId').isUUID().withMessage('Invalid keystore id')
+], handleValidationErrors, async (req, res) => {
+  try {
+    const backup = await KeystoreBackup.findOneAndDelete({ user: req.user._id, keystoreId: req.params.keystoreId });
+
+    if (!backup) {
+      return res.status(404).json({
+        error: 'Backup not found',
+        message: 'No backup exists for this keystore'
+      });
+    }
+
+    await recordAuditEvent(req, {
+      action: 'wallet.keystore_backup.delete',
+      metadata: { keystoreId: backup.keystoreId }
+    });
+
+    res.json({
+      success: true,
+      message: 'Keystore backup deleted'
+    });
+
+  } catch (error) {
+    console.error('Delete keystore backup error:', error);
+    res.status(500).json({
+      error: 'Delete failed',
+      message: 'Unable to delete keystore backup'
+    });
+  }
+});
+
+/**
+ * @route   GET /api/wallet/withdrawal-addresses
+ * @desc    List the withdrawal allowlist and whether allowlist-only mode is on
+ * @access  Private
+ */
+router.get('/withdrawal-addresses', denyApiKeys, async (req, res) => {
+  try {
+    const [entries, wallet] = await Promise.all([
+      WithdrawalAddress.findForUser(req.user._id),
+      Wallet.findOne({ user: req.user._id })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        addresses: entries.map(formatWithdrawalAddress),
+        allowlistOnly: wallet ? wallet.isAllowlistOnly() : false,
+        allowlistOnlyEndsAt: wallet ? wallet.settings.withdrawals.allowlistOnlyEndsAt : null,
+        cooldownHours: getWithdrawalCooldownMs() / (60 * 60 * 1000)
+      }
+    });
+
+  } catch (error) {
+    console.error('Get withdrawal addresses error:', error);
+    res.status(500).json({
+      error: 'Failed to fetch allowlist',
+      message: 'Unable to retrieve withdrawal addresses'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/wallet/withdrawal-addresses
+ * @desc    Add an address to the withdrawal allowlist. Confirmed right away with a 2FA code or
+ *          passkey, otherwise by email; either way it only becomes usable after the cooling-off period.
+ * @access  Private
+ */
+router.post('/withdrawal-addresses', denyApiKeys, requireVerifiedEmail, [
+  body('address')
+    .trim()
+    .custom(value => normalizeWithdrawalAddress(value) !== null)
+    .withMessage('Enter a valid Bitcoin or Ethereum address')
+    .customSanitizer(normalizeWithdrawalAddress),
+  body('label')
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Label must be between 1 and 50 characters'),
+  ...validateSecondFactorOptional
+], handleValidationErrors, async (req, res) => {
+  try {
+    const { address, label } = req.body;
+
+    const existing = await WithdrawalAddress.findOne({ user: req.user._id, address });
+    if (existing) {
+      return res.status(409).json({
+        error: 'Address exists',
+        message: 'This address is already on your withdrawal allowlist'
+      });
+    }
+
+    const confirmed = await confirmWithSecondFactor(req, res);
+    if (confirmed === false) return;
+
+    const entry = new WithdrawalAddress({ user: req.user._id, address, label });
+    if (confirmed) {
+      entry.confirm(getWithdrawalCooldownMs());
+    }
+    await entry.save();
+
+    await recordAuditEvent(req, {
+      action: confirmed ? 'withdrawal_address.add' : 'withdrawal_address.add_requested',
+      changes: [{ field: `withdrawalAddresses.${address}`, before: null, after: label }],
+      metadata: { entry: entry._id, confirmedBy: confirmed ? 'second_factor' : null }
+    });
+
+    if (!confirmed) {
+      await sendWithdrawalAddressEmail(req.user, entry, 'add');
+    }
+
+    res.status(confirmed ? 201 : 202).json({
+      success: true,
+      message: confirmed
+        ? `Address added. It can receive withdrawals from ${entry.activatesAt.toISOString()}.`
+        : 'Check your email to confirm this address.',
+      data: {
+        address: formatWithdrawalAddress(entry)
+      }
+    });
+
+  } catch (error) {
+    console.error('Add withdrawal address error:', error);
+    res.status(500).json({
+      error: 'Update failed',
+      message: 'Unable to add withdrawal address'
+    });
+  }
+});
+
+/**
+ * @route   DELETE /api/wallet/withdrawal-addresses/:id
+ * @desc    Remove an address from the allowlist (confirmed with a 2FA code or passkey, otherwise by email)
+ * @access  Private
+ */
+router.delete('/withdrawal-addresses/:id', denyApiKeys, requireVerifiedEmail, [
+  param('id').isMongoId().withMessage('Invalid address id'),
+  ...validateSecondFactorOptional
+], handleValidationErrors, async (req, res) => {
+  try {
+    const entry = await WithdrawalAddress.findOne({ _id: req.params.id, user: req.user._id });
+    if (!entry) {
+      return res.status(404).json({
+        error: 'Address not found',
+        message: 'No withdrawal address found with this id'
+      });
+    }
+
+    // An address that was never confirmed could not be used, so it can go right away
+    const confirmed = entry.confirmedAt ? await confirmWithSecondFactor(req, res) : true;
+    if (confirmed === false) return;
+
+    if (confirmed) {
+      await entry.deleteOne();
+    } else {
+      entry.removalRequestedAt = new Date();
+      await entry.save();
+    }
+
+    await recordAuditEvent(req, {
+      action: confirmed ? 'withdrawal_address.remove' : 'withdrawal_address.remove_requested',
+      changes: confirmed ? [{ field: `withdrawalAddresses.${entry.address}`, before: entry.label, after: null }] : [],
+      metadata: { entry: entry._id }
+    });
+
+    if (!confirmed) {
+      await sendWithdrawalAddressEmail(req.user, entry, 'remove');
+    }
+
+    res.status(confirmed ? 200 : 202).json({
+      success: true,
+      message: confirmed ? 'Address removed' : 'Check your email to confirm removing this address.'
+    });
+
+  } catch (error) {
+    console.error('Remove withdrawal address error:', error);
+    res.status(500).json({
+      error: 'Update failed',
+      message: 'Unable to remove withdrawal address'
+    });
+  }
+});
+
+/**
+ * @route   POST /api/wallet/withdrawal-addresses/confirm
+ * @desc    Confirm an allowlist addition or removal from the emailed link
+ * @access  Private (the signed-in user must own the change)
+ */
+router.post('/withdrawal-addresses/confirm', denyApiKeys, [
+  body('token').notEmpty().withMessage('Confirmation token is required')
+], handleValidationErrors, async (req, res) => {
+  try {
+    let decoded;
+    try {
+      decoded = verifyWithdrawalAddressToken(req.body.token);
+    } catch (error) {
+      decoded = null;
+    }
+
+    const entry = decoded && decoded.id === req.user._id.toString()
+      && await WithdrawalAddress.findOne({ _id: decoded.entry, user: req.user._id });
+
+    // The link is single-use: the entry must still be waiting for this exact change
+    const pending = entry && (decoded.action === 'add' ? !entry.confirmedAt : !!entry.removalRequestedAt);
+    if (!pending) {
+      return res.status(400).json({
+        error: 'Invalid token',
+        message: 'This confirmation link is invalid, expired or has already been used.'
+      });
+    }
+
+    if (decoded.action === 'add') {
+      entry.confirm(getWithdrawalCooldownMs());
+      await entry.save();
+    } else {
+      await entry.deleteOne();
+    }
+
+    await recordAuditEvent(req, {
+      action: decoded.action === 'add' ? 'withdrawal_address.add' : 'withdrawal_address.remove',
+      changes: [{
+        field: `withdrawalAddresses.${entry.address}`,
+        before: decoded.action === 'add' ? null : entry.label,
+        after: decoded.action === 'add' ? entry.label : null
+      }],
+      metadata: { entry: entry._id, confirmedBy: 'email' }
+    });
+
+    res.json({
+      success: true,
+      message: decoded.action === 'add'
+        ? `Address confirmed. It can receive withdrawals from ${entry.activatesAt.toISOString()}.`
+        : 'Address removed',
+      data: {
+        action: decoded.action,
+        address: formatWithdrawalAddress(entry)
+      }
+    });
+
+  } catch (error) {
+    console.error('Confirm withdrawal address error:', error);
+    res.status(500).json({
+      error: 'Confirmation failed',
+      message: 'Unable to confirm this change'
+    });
+  }
+});
+
 module.exports = router;
\ No newline at end of file
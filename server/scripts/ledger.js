@@ -0,0 +1,57 @@
+/**
+ * Maintain the double-entry ledger:
+ *   npm run ledger -- check     prove the books balance and wallets match the journal
+ *   npm run ledger -- open      post opening balances for what wallets held before the ledger
+ *   npm run ledger -- rebuild   reset wallets that disagree with the journal to its balances
+ */
+const mongoose = require('mongoose');
+require('dotenv').config();
+const Wallet = require('../models/Wallet');
+const { checkLedger, postOpeningBalances, rebuildWalletBalances } = require('../utils/ledger');
+
+const COMMANDS = ['check', 'open', 'rebuild'];
+
+const printReport = (report) => {
+  console.log(`${report.entries} journal entries`);
+  report.trialBalance.forEach(row => console.log(`  ${row.assetType} ${row.asset}: ${row.total}`));
+  report.unbalancedEntries.forEach(row => console.log(`❌ Entry ${row.entry} is off by ${row.total} ${row.asset}`));
+  report.unbalancedAssets.forEach(row => console.log(`❌ ${row.asset} does not balance across accounts: ${row.total}`));
+  report.walletMismatches.forEach(row => {
+    console.log(`❌ Wallet ${row.wallet} holds ${row.projected} ${row.asset}, the journal says ${row.ledger}`);
+  });
+  console.log(report.balanced ? '✅ The books balance' : '❌ The books do not balance');
+};
+
+const run = async (command) => {
+  if (!COMMANDS.includes(command)) {
+    throw new Error(`Usage: npm run ledger -- <${COMMANDS.join('|')}>`);
+  }
+
+  const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/cryptowallet';
+  await mongoose.connect(mongoURI);
+
+  try {
+    if (command === 'open') {
+      const posted = await postOpeningBalances();
+      console.log(`✅ Posted opening balances for ${posted} wallets`);
+    } else if (command === 'rebuild') {
+      const { walletMismatches } = await checkLedger();
+      const walletIds = [...new Set(walletMismatches.map(row => String(row.wallet)))];
+      for (const walletId of walletIds) {
+        await rebuildWalletBalances(await Wallet.findById(walletId));
+      }
+      console.log(`✅ Rebuilt ${walletIds.length} wallets from the journal`);
+    }
+
+    const report = await checkLedger();
+    printReport(report);
+    if (!report.balanced) process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+};
+
+run(process.argv[2]).catch((error) => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
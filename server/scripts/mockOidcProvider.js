@@ -0,0 +1,200 @@
+/**
+ * Minimal OpenID Connect provider for developing and testing single sign-on locally:
+ *   npm run mock-oidc
+ * then start the API with OIDC_ISSUER=http://localhost:9400 and OIDC_CLIENT_ID=cryptowallet.
+ *
+ * It supports discovery, the authorization code flow with PKCE (S256), the token,
+ * userinfo and JWKS endpoints. The sign-in page lets you pick any identity, or set
+ * MOCK_OIDC_AUTO_APPROVE=true to sign in straight away as the default identity.
+ * Never run it anywhere real: it signs in whoever asks.
+ */
+const crypto = require('crypto');
+const express = require('express');
+const jwt = require('jsonwebtoken');
+require('dotenv').config();
+
+const CODE_TTL_MS = 60 * 1000;
+const TOKEN_TTL_SECONDS = 5 * 60;
+
+const escapeHtml = (value) => String(value).replace(/[&<>"']/g, (char) => ({
+  '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', '\'': '&#39;'
+})[char]);
+
+/**
+ * Build the provider app. `identity` holds the default claims for the sign-in page.
+ */
+const createMockOidcProvider = ({ issuer, clientId, identity, autoApprove = false }) => {
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = crypto.randomBytes(8).toString('hex');
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' };
+
+  const codes = new Map();
+  const accessTokens = new Map();
+
+  const issueCode = (request, claims) => {
+    const code = crypto.randomBytes(24).toString('base64url');
+    codes.set(code, { ...request, claims, expiresAt: Date.now() + CODE_TTL_MS });
+
+    const redirect = new URL(request.redirectUri);
+    redirect.searchParams.set('code', code);
+    if (request.state) redirect.searchParams.set('state', request.state);
+    return redirect.toString();
+  };
+
+  app.get('/.well-known/openid-configuration', (req, res) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      userinfo_endpoint: `${issuer}/userinfo`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      scopes_supported: ['openid', 'email', 'profile'],
+      token_endpoint_auth_methods_supported: ['none', 'client_secret_basic']
+    });
+  });
+
+  app.get('/jwks', (req, res) => {
+    res.json({ keys: [jwk] });
+  });
+
+  app.get('/authorize', (req, res) => {
+    const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method } = req.query;
+
+    if (client_id !== clientId || !redirect_uri || !code_challenge || code_challenge_method !== 'S256') {
+      return res.status(400).send('Invalid authorization request (client_id, redirect_uri and an S256 code_challenge are required)');
+    }
+
+    const request = { clientId: client_id, redirectUri: redirect_uri, state, nonce, codeChallenge: code_challenge };
+
+    if (autoApprove) {
+      return res.redirect(issueCode(request, identity));
+    }
+
+    const hidden = Object.entries(req.query)
+      .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+      .join('');
+
+    res.send(`<!doctype html>
+<html><body style="font-family: sans-serif; max-width: 360px; margin: 40px auto">
+  <h2>Mock identity provider</h2>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <p><label>Subject<br><input name="sub" value="${escapeHtml(identity.sub)}"></label></p>
+    <p><label>Email<br><input name="email" value="${escapeHtml(identity.email)}"></label></p>
+    <p><label><input type="checkbox" name="email_verified" value="true" ${identity.email_verified ? 'checked' : ''}> Email verified</label></p>
+    <p><label>Given name<br><input name="given_name" value="${escapeHtml(identity.given_name)}"></label></p>
+    <p><label>Family name<br><input name="family_name" value="${escapeHtml(identity.family_name)}"></label></p>
+    <button type="submit">Sign in</button>
+  </form>
+</body></html>`);
+  });
+
+  app.post('/authorize', (req, res) => {
+    const { client_id, redirect_uri, state, nonce, code_challenge } = req.body;
+
+    if (client_id !== clientId || !redirect_uri || !code_challenge) {
+      return res.status(400).send('Invalid authorization request');
+    }
+
+    const claims = {
+      sub: req.body.sub,
+      email: req.body.email,
+      email_verified: req.body.email_verified === 'true',
+      given_name: req.body.given_name,
+      family_name: req.body.family_name,
+      preferred_username: String(req.body.email || '').split('@')[0]
+    };
+
+    res.redirect(issueCode(
+      { clientId: client_id, redirectUri: redirect_uri, state, nonce, codeChallenge: code_challenge },
+      claims
+    ));
+  });
+
+  app.post('/token', (req, res) => {
+    const { grant_type, code, redirect_uri, code_verifier } = req.body;
+    const entry = codes.get(code);
+    codes.delete(code);
+
+    // Basic auth is accepted for confidential clients; the secret itself is not checked
+    const basicClientId = (req.get('Authorization') || '').startsWith('Basic ')
+      ? decodeURIComponent(Buffer.from(req.get('Authorization').slice(6), 'base64').toString().split(':')[0])
+      : null;
+    const requestClientId = req.body.client_id || basicClientId;
+
+    const challenge = code_verifier
+      && crypto.createHash('sha256').update(code_verifier).digest('base64url');
+
+    if (grant_type !== 'authorization_code' || !entry || entry.expiresAt < Date.now()
+      || entry.redirectUri !== redirect_uri || entry.clientId !== requestClientId
+      || challenge !== entry.codeChallenge) {
+      return res.status(400).json({ error: 'invalid_grant' });
+    }
+
+    const accessToken = crypto.randomBytes(24).toString('base64url');
+    accessTokens.set(accessToken, entry.claims);
+
+    const idToken = jwt.sign(
+      { ...entry.claims, nonce: entry.nonce },
+      privateKey,
+      {
+        algorithm: 'RS256',
+        keyid: kid,
+        issuer,
+        audience: entry.clientId,
+        expiresIn: TOKEN_TTL_SECONDS
+      }
+    );
+
+    res.json({
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: TOKEN_TTL_SECONDS,
+      id_token: idToken
+    });
+  });
+
+  app.get('/userinfo', (req, res) => {
+    const token = (req.get('Authorization') || '').replace(/^Bearer /, '');
+    const claims = accessTokens.get(token);
+
+    if (!claims) {
+      return res.status(401).json({ error: 'invalid_token' });
+    }
+
+    res.json(claims);
+  });
+
+  return app;
+};
+
+if (require.main === module) {
+  const port = parseInt(process.env.MOCK_OIDC_PORT) || 9400;
+
+  const app = createMockOidcProvider({
+    issuer: process.env.MOCK_OIDC_ISSUER || `http://localhost:${port}`,
+    clientId: process.env.OIDC_CLIENT_ID || 'cryptowallet',
+    autoApprove: process.env.MOCK_OIDC_AUTO_APPROVE === 'true',
+    identity: {
+      sub: process.env.MOCK_OIDC_SUBJECT || 'mock-user-1',
+      email: process.env.MOCK_OIDC_EMAIL || 'staff@example.com',
+      email_verified: true,
+      given_name: 'Mock',
+      family_name: 'Staff',
+      preferred_username: 'mock_staff'
+    }
+  });
+
+  app.listen(port, () => {
+    console.log(`🔑 Mock OIDC provider running at http://localhost:${port}`);
+  });
+}
+
+module.exports = { createMockOidcProvider };
@@ -0,0 +1,36 @@
+/**
+ * Grant a role to an existing account, e.g. to create the first admin:
+ *   npm run set-role -- alice@example.com admin
+ */
+const mongoose = require('mongoose');
+require('dotenv').config();
+const User = require('../models/User');
+
+const ROLES = ['user', 'support', 'admin'];
+
+const setRole = async (identifier, role) => {
+  if (!identifier || !ROLES.includes(role)) {
+    throw new Error(`Usage: npm run set-role -- <email|username> <${ROLES.join('|')}>`);
+  }
+
+  const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/cryptowallet';
+  await mongoose.connect(mongoURI);
+
+  try {
+    const user = await User.findByEmailOrUsername(identifier);
+    if (!user) {
+      throw new Error(`No user found for ${identifier}`);
+    }
+
+    user.role = role;
+    await user.save();
+    console.log(`✅ ${user.username} is now ${role}`);
+  } finally {
+    await mongoose.disconnect();
+  }
+};
+
+setRole(process.argv[2], process.argv[3]).catch((error) => {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+});
@@ -2,8 +2,12 @@ const express = require('express');
 const mongoose = require('mongoose');
 const cors = require('cors');
 const helmet = require('helmet');
+const cookieParser = require('cookie-parser');
 const rateLimit = require('express-rate-limit');
 require('dotenv').config();
+const { startAccountPurgeJob } = require('./jobs/purgeDeletedAccounts');
+const { startPaymentSettlementJob } = require('./jobs/settlePayments');
+const { getStorage } = require('./storage');
 
 const app = express();
 
@@ -23,6 +27,7 @@ app.use('/api/', limiter);
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
+app.use(cookieParser());
 
 // CORS configuration
 app.use(cors({
@@ -38,6 +43,10 @@ const connectDB = async () => {
     const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/cryptowallet';
     await mongoose.connect(mongoURI);
     console.log('✅ MongoDB Connected Successfully');
+
+    // Background jobs need the database connection
+    startAccountPurgeJob();
+    startPaymentSettlementJob();
   } catch (error) {
     console.error('❌ MongoDB Connection Error:', error.message);
     process.exit(1);
@@ -47,10 +56,17 @@ const connectDB = async () => {
 // Initialize database connection
 connectDB();
 
+// Uploaded files (profile pictures) when the storage driver serves them itself
+const storage = getStorage();
+if (storage.middleware) {
+  app.use('/uploads', storage.middleware());
+}
+
 // Routes
 app.use('/api/auth', require('./routes/auth'));
 app.use('/api/wallet', require('./routes/wallet'));
 app.use('/api/crypto', require('./routes/crypto'));
+app.use('/api/admin', require('./routes/admin'));
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -0,0 +1,51 @@
+const fs = require('fs/promises');
+const path = require('path');
+const express = require('express');
+
+/**
+ * Storage driver that keeps files on local disk and serves them from this server
+ */
+const createLocalDriver = (options = {}) => {
+  const directory = path.resolve(options.directory || process.env.UPLOADS_DIR || path.join(process.cwd(), 'uploads'));
+  const publicUrl = (options.publicUrl || process.env.UPLOADS_PUBLIC_URL
+    || `http://localhost:${process.env.PORT || 5000}/uploads`).replace(/\/$/, '');
+
+  // Keys are generated by the server, but never let one escape the uploads directory
+  const resolveKey = (key) => {
+    const filePath = path.resolve(directory, key);
+    if (!filePath.startsWith(directory + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, buffer) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, buffer);
+      return this.url(key);
+    },
+
+    async remove(key) {
+      await fs.rm(resolveKey(key), { force: true });
+    },
+
+    url(key) {
+      return `${publicUrl}/${key}`;
+    },
+
+    // Mounted at /uploads by server.js; images are loaded cross-origin by the client
+    middleware() {
+      return express.static(directory, {
+        setHeaders: (res) => {
+          res.set('Cross-Origin-Resource-Policy', 'cross-origin');
+        }
+      });
+    }
+  };
+};
+
+module.exports = createLocalDriver;
@@ -0,0 +1,40 @@
+const createLocalDriver = require('./drivers/local');
+
+const drivers = {
+  local: createLocalDriver
+};
+
+let activeDriver = null;
+
+/**
+ * Get the configured storage driver (STORAGE_DRIVER=local)
+ */
+const getStorage = () => {
+  if (!activeDriver) {
+    const name = process.env.STORAGE_DRIVER || 'local';
+    const factory = drivers[name];
+
+    if (!factory) {
+      throw new Error(`Unknown storage driver "${name}"`);
+    }
+
+    activeDriver = factory();
+  }
+
+  return activeDriver;
+};
+
+/**
+ * Replace the storage driver, e.g. with an object store in production.
+ * A driver is any object with async put(key, buffer, contentType) returning a public URL,
+ * async remove(key) and url(key). Drivers that serve files themselves also provide
+ * middleware(), which is mounted at /uploads.
+ */
+const setStorage = (driver) => {
+  activeDriver = driver;
+};
+
+module.exports = {
+  getStorage,
+  setStorage
+};
@@ -0,0 +1,99 @@
+const express = require('express');
+const cookieParser = require('cookie-parser');
+const mongoose = require('mongoose');
+const { MongoMemoryReplSet } = require('mongodb-memory-server');
+const Session = require('../models/Session');
+
+// Tokens are signed with a throwaway secret unless one is configured
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+
+const { STEP_UP_MAX_AGE_MS } = require('../middleware/auth');
+
+// Started by connectTestDatabase when MONGODB_TEST_URI is not set
+let replSet = null;
+
+/**
+ * Connect to an empty test database. Trades and transfers use transactions, so it must be
+ * a replica set: the one in MONGODB_TEST_URI (dropped first), otherwise a single-node
+ * replica set started in memory for this test file. The first in-memory run downloads
+ * the MongoDB binary, see https://github.com/typegoose/mongodb-memory-server.
+ */
+const connectTestDatabase = async () => {
+  let mongoURI = process.env.MONGODB_TEST_URI;
+  if (!mongoURI) {
+    replSet = await MongoMemoryReplSet.create({ replSet: { count: 1, storageEngine: 'wiredTiger' } });
+    mongoURI = replSet.getUri();
+  }
+
+  await mongoose.connect(mongoURI);
+  await mongoose.connection.dropDatabase();
+};
+
+/**
+ * Disconnect, and stop the in-memory replica set if one was started
+ */
+const disconnectTestDatabase = async () => {
+  await mongoose.disconnect();
+  if (replSet) {
+    await replSet.stop();
+    replSet = null;
+  }
+};
+
+/**
+ * Serve one router at mountPath on a free local port, with the same body and cookie parsing
+ * as server.js. Resolves to { request, close }; request(method, path, { body, token })
+ * resolves to { status, body, headers }.
+ */
+const startRouteServer = async (mountPath, router) => {
+  const app = express();
+  app.use(express.json());
+  app.use(cookieParser());
+  app.use(mountPath, router);
+
+  const server = await new Promise(resolve => {
+    const listener = app.listen(0, '127.0.0.1', () => resolve(listener));
+  });
+  const baseUrl = `http://127.0.0.1:${server.address().port}${mountPath}`;
+
+  const request = async (method, path, { body, token } = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json(), headers: response.headers };
+  };
+
+  return {
+    request,
+    close: () => new Promise(resolve => {
+      server.close(resolve);
+      server.closeAllConnections();
+    })
+  };
+};
+
+const startAuthServer = () => startRouteServer('/api/auth', require('../routes/auth'));
+
+const startWalletServer = () => startRouteServer('/api/wallet', require('../routes/wallet'));
+
+/**
+ * Move the user's last sign-in or re-authentication back past the step-up window, so the
+ * next sensitive action needs a fresh confirmation
+ */
+const expireReauthentication = (userId) => Session.updateMany(
+  { user: userId },
+  { reauthenticatedAt: new Date(Date.now() - STEP_UP_MAX_AGE_MS - 1000) }
+);
+
+module.exports = {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  startAuthServer,
+  startWalletServer,
+  expireReauthentication
+};
@@ -0,0 +1,219 @@
+/**
+ * Single sign-on against the mock provider (scripts/mockOidcProvider.js): new and returning
+ * users, linking an existing account by verified email, and responses that must be refused.
+ * Runs against the test database from helpers.js.
+ */
+const { describe, test, before, after, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const http = require('http');
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const User = require('../models/User');
+const { setTransport } = require('../mail');
+const { createMockOidcProvider } = require('../scripts/mockOidcProvider');
+const { connectTestDatabase, disconnectTestDatabase, startAuthServer } = require('./helpers');
+
+const CLIENT_ID = 'cryptowallet-test';
+
+const identity = (name, overrides = {}) => ({
+  sub: `${name}-subject`,
+  email: `${name}@example.com`,
+  email_verified: true,
+  given_name: 'Single',
+  family_name: 'Sign-On',
+  ...overrides
+});
+
+describe('single sign-on', () => {
+  let server;
+  let provider;
+  let issuer;
+  // When set, ID tokens from the provider are replaced with the result of this function
+  let rewriteIdToken = null;
+
+  before(async () => {
+    await connectTestDatabase();
+    setTransport({ send: async () => {} });
+
+    provider = http.createServer();
+    await new Promise(resolve => provider.listen(0, '127.0.0.1', resolve));
+    issuer = `http://127.0.0.1:${provider.address().port}`;
+
+    const app = express();
+    app.use((req, res, next) => {
+      if (req.path === '/token' && rewriteIdToken) {
+        const json = res.json.bind(res);
+        res.json = (body) => json(body.id_token ? { ...body, id_token: rewriteIdToken(body.id_token) } : body);
+      }
+      next();
+    });
+    app.use(createMockOidcProvider({ issuer, clientId: CLIENT_ID, identity: identity('default') }));
+    provider.on('request', app);
+
+    process.env.OIDC_ISSUER = issuer;
+    process.env.OIDC_CLIENT_ID = CLIENT_ID;
+    server = await startAuthServer();
+  });
+
+  after(async () => {
+    delete process.env.OIDC_ISSUER;
+    delete process.env.OIDC_CLIENT_ID;
+    await server.close();
+    provider.closeAllConnections();
+    await new Promise(resolve => provider.close(resolve));
+    await disconnectTestDatabase();
+  });
+
+  afterEach(() => {
+    rewriteIdToken = null;
+  });
+
+  /**
+   * Start a sign-in, approve it at the provider as `claims` and hand the code back to the API.
+   * `nonce` and `state` override what the provider sees and what the browser returns.
+   */
+  const signIn = async (claims, { nonce, state } = {}) => {
+    const started = await server.request('POST', '/oidc/authorize', { body: {} });
+    assert.equal(started.status, 200);
+    const { authorizationUrl, flowToken } = started.body.data;
+
+    const params = Object.fromEntries(new URL(authorizationUrl).searchParams);
+    const approved = await fetch(`${issuer}/authorize`, {
+      method: 'POST',
+      redirect: 'manual',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        ...params,
+        ...(nonce ? { nonce } : {}),
+        ...claims,
+        email_verified: String(claims.email_verified)
+      })
+    });
+    const redirect = new URL(approved.headers.get('location'));
+
+    return server.request('POST', '/oidc/callback', {
+      body: {
+        code: redirect.searchParams.get('code'),
+        state: state || redirect.searchParams.get('state'),
+        flowToken
+      }
+    });
+  };
+
+  test('creates an account on the first sign-in and signs the same account in afterwards', async () => {
+    const claims = identity('newcomer');
+
+    const first = await signIn(claims);
+    assert.equal(first.status, 200);
+    assert.ok(first.body.data.token);
+    assert.equal(first.body.data.user.email, claims.email);
+    assert.equal(first.body.data.user.isEmailVerified, true);
+
+    const user = await User.findOne({ email: claims.email });
+    assert.equal(user.oidc.issuer, issuer);
+    assert.equal(user.oidc.subject, claims.sub);
+
+    const second = await signIn(claims);
+    assert.equal(second.status, 200);
+    assert.equal(String(second.body.data.user.id), String(user._id));
+    assert.equal(await User.countDocuments({ email: claims.email }), 1);
+  });
+
+  test('links an existing account when both sides have verified its email', async () => {
+    const registered = await server.request('POST', '/register', {
+      body: {
+        username: 'password_user',
+        email: 'linked@example.com',
+        password: 'Correct-Horse-Battery-9',
+        firstName: 'Password',
+        lastName: 'User'
+      }
+    });
+    assert.equal(registered.status, 201);
+    await User.updateOne({ _id: registered.body.data.user.id }, { isEmailVerified: true });
+
+    const signedIn = await signIn(identity('linked'));
+    assert.equal(signedIn.status, 200);
+    assert.equal(String(signedIn.body.data.user.id), String(registered.body.data.user.id));
+
+    const user = await User.findById(registered.body.data.user.id);
+    assert.equal(user.oidc.subject, 'linked-subject');
+  });
+
+  test('does not link an existing account whose own email is unverified', async () => {
+    // Someone could have registered the address before its owner signs in with the provider
+    const registered = await server.request('POST', '/register', {
+      body: {
+        username: 'squatter_user',
+        email: 'squatted@example.com',
+        password: 'Correct-Horse-Battery-9',
+        firstName: 'Squatter',
+        lastName: 'User'
+      }
+    });
+    assert.equal(registered.status, 201);
+
+    const signedIn = await signIn(identity('squatted'));
+    assert.equal(signedIn.status, 409);
+
+    const user = await User.findById(registered.body.data.user.id);
+    assert.equal(user.oidc.subject, null);
+    assert.equal(user.isEmailVerified, false);
+  });
+
+  test('does not link an existing account by an email the provider has not verified', async () => {
+    const registered = await server.request('POST', '/register', {
+      body: {
+        username: 'unverified_user',
+        email: 'unverified@example.com',
+        password: 'Correct-Horse-Battery-9',
+        firstName: 'Unverified',
+        lastName: 'User'
+      }
+    });
+    assert.equal(registered.status, 201);
+    await User.updateOne({ _id: registered.body.data.user.id }, { isEmailVerified: true });
+
+    const signedIn = await signIn(identity('unverified', { email_verified: false }));
+    assert.equal(signedIn.status, 409);
+
+    const user = await User.findById(registered.body.data.user.id);
+    assert.equal(user.oidc.subject, null);
+  });
+
+  test('refuses a redirect whose state does not match the flow', async () => {
+    const signedIn = await signIn(identity('state'), { state: 'not-the-state' });
+    assert.equal(signedIn.status, 401);
+    assert.equal(await User.countDocuments({ email: 'state@example.com' }), 0);
+  });
+
+  test('refuses an ID token whose nonce does not match the flow', async () => {
+    const signedIn = await signIn(identity('nonce'), { nonce: 'not-the-nonce' });
+    assert.equal(signedIn.status, 401);
+    assert.equal(await User.countDocuments({ email: 'nonce@example.com' }), 0);
+  });
+
+  test('refuses an ID token signed with a key the provider does not publish', async () => {
+    const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    rewriteIdToken = (idToken) => {
+      const { header, payload } = jwt.decode(idToken, { complete: true });
+      return jwt.sign(payload, privateKey, { algorithm: 'RS256', keyid: header.kid });
+    };
+
+    const signedIn = await signIn(identity('forged'));
+    assert.equal(signedIn.status, 401);
+    assert.equal(await User.countDocuments({ email: 'forged@example.com' }), 0);
+  });
+
+  test('refuses an ID token signed with a symmetric algorithm', async () => {
+    rewriteIdToken = (idToken) => {
+      const { header, payload } = jwt.decode(idToken, { complete: true });
+      return jwt.sign(payload, CLIENT_ID, { algorithm: 'HS256', keyid: header.kid });
+    };
+
+    const signedIn = await signIn(identity('symmetric'));
+    assert.equal(signedIn.status, 401);
+    assert.equal(await User.countDocuments({ email: 'symmetric@example.com' }), 0);
+  });
+});
@@ -0,0 +1,97 @@
+const crypto = require('crypto');
+const { isoCBOR } = require('@simplewebauthn/server/helpers');
+
+// Authenticator data flags: user present, user verified, attested credential data included
+const FLAG_UP = 0x01;
+const FLAG_UV = 0x04;
+const FLAG_AT = 0x40;
+
+const sha256 = (data) => crypto.createHash('sha256').update(data).digest();
+const base64url = (data) => Buffer.from(data).toString('base64url');
+
+/**
+ * A passkey held in memory that answers registration and authentication options the
+ * way a platform authenticator would, with an ES256 key and "none" attestation.
+ * `origin` and `rpID` must match what the server expects (see utils/webauthn getConfig).
+ */
+const createSoftwareAuthenticator = ({ origin, rpID }) => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const credentialId = crypto.randomBytes(16);
+  let counter = 0;
+  let userHandle = null;
+
+  const cosePublicKey = () => {
+    const { x, y } = publicKey.export({ format: 'jwk' });
+    return isoCBOR.encode(new Map([
+      [1, 2], // kty: EC2
+      [3, -7], // alg: ES256
+      [-1, 1], // crv: P-256
+      [-2, Buffer.from(x, 'base64url')],
+      [-3, Buffer.from(y, 'base64url')]
+    ]));
+  };
+
+  const authenticatorData = (flags, attestedCredential = Buffer.alloc(0)) => {
+    const signCount = Buffer.alloc(4);
+    signCount.writeUInt32BE(counter);
+    return Buffer.concat([sha256(rpID), Buffer.from([flags]), signCount, attestedCredential]);
+  };
+
+  const clientData = (type, challenge) => Buffer.from(JSON.stringify({ type, challenge, origin, crossOrigin: false }));
+
+  return {
+    credentialId: base64url(credentialId),
+
+    // Answer registration options with a new credential
+    register(options) {
+      userHandle = options.user.id;
+
+      const idLength = Buffer.alloc(2);
+      idLength.writeUInt16BE(credentialId.length);
+      const attestedCredential = Buffer.concat([Buffer.alloc(16), idLength, credentialId, cosePublicKey()]);
+
+      const attestationObject = isoCBOR.encode(new Map([
+        ['fmt', 'none'],
+        ['attStmt', new Map()],
+        ['authData', authenticatorData(FLAG_UP | FLAG_UV | FLAG_AT, attestedCredential)]
+      ]));
+
+      return {
+        id: base64url(credentialId),
+        rawId: base64url(credentialId),
+        type: 'public-key',
+        response: {
+          clientDataJSON: base64url(clientData('webauthn.create', options.challenge)),
+          attestationObject: base64url(attestationObject),
+          transports: ['internal']
+        },
+        clientExtensionResults: {}
+      };
+    },
+
+    // Sign the challenge in authentication options, bumping the signature counter
+    authenticate(options) {
+      counter += 1;
+      const authData = authenticatorData(FLAG_UP | FLAG_UV);
+      const clientDataJSON = clientData('webauthn.get', options.challenge);
+      const signature = crypto.sign('sha256', Buffer.concat([authData, sha256(clientDataJSON)]), privateKey);
+
+      return {
+        id: base64url(credentialId),
+        rawId: base64url(credentialId),
+        type: 'public-key',
+        response: {
+          clientDataJSON: base64url(clientDataJSON),
+          authenticatorData: base64url(authData),
+          signature: base64url(signature),
+          userHandle
+        },
+        clientExtensionResults: {}
+      };
+    }
+  };
+};
+
+module.exports = {
+  createSoftwareAuthenticator
+};
@@ -0,0 +1,104 @@
+/**
+ * Check that sensitive wallet and account changes are refused until the session has been
+ * confirmed recently, and go through once it has.
+ * Runs against the test database from helpers.js.
+ */
+const { describe, test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const User = require('../models/User');
+const Wallet = require('../models/Wallet');
+const Transaction = require('../models/Transaction');
+const JournalEntry = require('../models/JournalEntry');
+const { setTransport } = require('../mail');
+const { postOpeningBalances } = require('../utils/ledger');
+const {
+  connectTestDatabase,
+  disconnectTestDatabase,
+  startAuthServer,
+  startWalletServer,
+  expireReauthentication
+} = require('./helpers');
+
+const USER = {
+  username: 'step_up_user',
+  email: 'stepup@example.com',
+  password: 'Correct-Horse-Battery-9',
+  firstName: 'Step',
+  lastName: 'Up'
+};
+
+describe('step-up re-authentication', () => {
+  let auth;
+  let wallet;
+  let token;
+  let userId;
+
+  // Expect a 403 asking for re-authentication, confirm the password, then expect success
+  const assertNeedsStepUp = async (send) => {
+    await expireReauthentication(userId);
+
+    const refused = await send();
+    assert.equal(refused.status, 403);
+    assert.equal(refused.body.reauthRequired, true);
+
+    const confirmed = await auth.request('POST', '/reauthenticate', { token, body: { password: USER.password } });
+    assert.equal(confirmed.status, 200);
+
+    const allowed = await send();
+    assert.equal(allowed.status, 200);
+    return allowed;
+  };
+
+  before(async () => {
+    await connectTestDatabase();
+    await Promise.all([Wallet.init(), Transaction.init(), JournalEntry.init()]);
+    setTransport({ send: async () => {} });
+    auth = await startAuthServer();
+    wallet = await startWalletServer();
+
+    const registered = await auth.request('POST', '/register', { body: USER });
+    assert.equal(registered.status, 201);
+    token = registered.body.data.token;
+    userId = registered.body.data.user.id;
+
+    // Wallet changes need a confirmed email, and the sell needs something to sell
+    await User.updateOne({ _id: userId }, { isEmailVerified: true });
+    await Wallet.updateOne({ user: userId }, {
+      currencies: [{ symbol: 'BTC', name: 'Bitcoin', amount: 1, averageBuyPrice: 100, currentPrice: 100, value: 100 }]
+    });
+    await postOpeningBalances();
+  });
+
+  after(async () => {
+    await wallet.close();
+    await auth.close();
+    await disconnectTestDatabase();
+  });
+
+  test('a large sell needs a recent confirmation', async () => {
+    // Priced by the server at well over the default STEP_UP_SELL_THRESHOLD
+    const sold = await assertNeedsStepUp(() => wallet.request('POST', '/sell', {
+      token,
+      body: { symbol: 'BTC', amount: 0.5 }
+    }));
+    assert.equal(sold.body.success, true);
+  });
+
+  test('changing wallet settings needs a recent confirmation', async () => {
+    const updated = await assertNeedsStepUp(() => wallet.request('PUT', '/settings', {
+      token,
+      body: { privacy: { hideBalances: true } }
+    }));
+    assert.equal(updated.body.data.settings.privacy.hideBalances, true);
+  });
+
+  test('changing the email address needs a recent confirmation, other profile fields do not', async () => {
+    await expireReauthentication(userId);
+    const renamed = await auth.request('PUT', '/profile', { token, body: { firstName: 'Stepped' } });
+    assert.equal(renamed.status, 200);
+
+    await assertNeedsStepUp(() => auth.request('PUT', '/profile', { token, body: { email: 'stepped@example.com' } }));
+    const user = await User.findById(userId);
+    assert.equal(user.email, 'stepped@example.com');
+  });
+});
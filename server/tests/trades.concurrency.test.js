@@ -0,0 +1,143 @@
+/**
+ * Hammer one holding with parallel trades and check nothing is oversold or left half-written.
+ * Runs against the test database from helpers.js, which must be a replica set for the
+ * trades' transactions.
+ */
+const { describe, test, before, after, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+const Wallet = require('../models/Wallet');
+const Transaction = require('../models/Transaction');
+const JournalEntry = require('../models/JournalEntry');
+const { buyCryptocurrency, sellCryptocurrency } = require('../utils/trades');
+const { checkLedger, postOpeningBalances } = require('../utils/ledger');
+const { connectTestDatabase, disconnectTestDatabase } = require('./helpers');
+
+const PARALLEL_TRADES = 20;
+
+const createWallet = async ({ cash = 0, btc = 0 } = {}) => {
+  const user = new mongoose.Types.ObjectId();
+  await Wallet.create({
+    user,
+    totalBalance: cash,
+    currencies: btc > 0 ? [{ symbol: 'BTC', name: 'Bitcoin', amount: btc, averageBuyPrice: 100, currentPrice: 100, value: btc * 100 }] : []
+  });
+  await postOpeningBalances();
+  return user;
+};
+
+const sell = (user, amount) => sellCryptocurrency({ user, symbol: 'BTC', name: 'Bitcoin', amount, price: 100 });
+const buy = (user, amount) => buyCryptocurrency({ user, symbol: 'BTC', name: 'Bitcoin', amount, price: 100 });
+
+const holdingOf = (wallet) => (wallet.currencies.find(c => c.symbol === 'BTC') || { amount: 0 }).amount;
+
+const assertBooksBalance = async () => {
+  const report = await checkLedger();
+  assert.deepEqual(report.walletMismatches, []);
+  assert.deepEqual(report.unbalancedAssets, []);
+  assert.equal(report.balanced, true);
+};
+
+describe('parallel trades', () => {
+  before(async () => {
+    await connectTestDatabase();
+    await Promise.all([Wallet.init(), Transaction.init(), JournalEntry.init()]);
+  });
+
+  after(async () => {
+    await disconnectTestDatabase();
+  });
+
+  beforeEach(async () => {
+    // The journal refuses deletes, so clear its collection directly
+    await Promise.all([
+      Wallet.deleteMany({}),
+      Transaction.deleteMany({}),
+      JournalEntry.collection.deleteMany({})
+    ]);
+  });
+
+  test('parallel sells of the whole holding complete exactly once', async () => {
+    const user = await createWallet({ btc: 1 });
+
+    const results = await Promise.all(Array.from({ length: PARALLEL_TRADES }, () => sell(user, 1)));
+
+    assert.equal(results.filter(result => !result.rejected).length, 1);
+
+    const wallet = await Wallet.findOne({ user });
+    assert.equal(holdingOf(wallet), 0);
+    assert.equal(wallet.totalBalance, 99); // 100 proceeds less the 1% fee, credited once
+
+    const transactions = await Transaction.find({ user });
+    assert.equal(transactions.length, PARALLEL_TRADES);
+    assert.equal(transactions.filter(t => t.status === 'completed').length, 1);
+    assert.equal(transactions.filter(t => t.status === 'failed').length, PARALLEL_TRADES - 1);
+
+    await assertBooksBalance();
+  });
+
+  test('parallel partial sells never sell more than is held', async () => {
+    const user = await createWallet({ btc: 5 });
+
+    // Twice what is held is asked for in total
+    const results = await Promise.all(Array.from({ length: PARALLEL_TRADES }, () => sell(user, 0.5)));
+    const completed = results.filter(result => !result.rejected);
+
+    assert.ok(completed.length <= 10);
+    assert.ok(completed.length > 0);
+
+    const wallet = await Wallet.findOne({ user });
+    assert.ok(holdingOf(wallet) >= 0);
+    assert.equal(holdingOf(wallet), 5 - completed.length * 0.5);
+    assert.equal(wallet.totalBalance, completed.length * 49.5);
+
+    // Every request left exactly one transaction, and only completed ones were posted
+    const transactions = await Transaction.find({ user });
+    assert.equal(transactions.length, PARALLEL_TRADES);
+    const postings = await JournalEntry.countDocuments({ type: 'trade.sell' });
+    assert.equal(postings, completed.length);
+
+    await assertBooksBalance();
+  });
+
+  test('opening balances posted while trades run cover only what predates the ledger', async () => {
+    // A wallet from before the ledger, trading before its opening balances are posted
+    const user = new mongoose.Types.ObjectId();
+    await Wallet.create({
+      user,
+      currencies: [{ symbol: 'BTC', name: 'Bitcoin', amount: 5, averageBuyPrice: 100, currentPrice: 100, value: 500 }]
+    });
+    await sell(user, 1);
+
+    const [opened] = await Promise.all([
+      postOpeningBalances(),
+      ...Array.from({ length: PARALLEL_TRADES / 2 }, () => sell(user, 0.1))
+    ]);
+    assert.equal(opened, 1);
+    assert.equal(await postOpeningBalances(), 0);
+
+    const opening = await JournalEntry.findOne({ type: 'opening' });
+    const openedBtc = opening.lines.find(entry => entry.asset === 'BTC' && String(entry.user) === String(user));
+    assert.ok(Math.abs(openedBtc.amount - 5) < JournalEntry.LEDGER_EPSILON);
+    assert.equal(opening.lines.some(entry => entry.assetType === 'fiat'), false);
+
+    await assertBooksBalance();
+  });
+
+  test('parallel buys and sells keep cash and holdings in step with the journal', async () => {
+    const user = await createWallet({ cash: 1000, btc: 2 });
+
+    const results = await Promise.all(Array.from({ length: PARALLEL_TRADES }, (_, i) =>
+      i % 2 === 0 ? buy(user, 1) : sell(user, 1)
+    ));
+
+    const completedBuys = results.filter((result, i) => i % 2 === 0 && !result.rejected).length;
+    const completedSells = results.filter((result, i) => i % 2 === 1 && !result.rejected).length;
+
+    const wallet = await Wallet.findOne({ user });
+    assert.equal(holdingOf(wallet), 2 + completedBuys - completedSells);
+    assert.equal(wallet.totalBalance, 1000 - completedBuys * 101 + completedSells * 99);
+
+    await assertBooksBalance();
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Register a passkey, sign in with it and confirm a session with it, using a software
+ * authenticator, and check that every challenge can only be answered once.
+ * Runs against the test database from helpers.js.
+ */
+const { describe, test, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const { setTransport } = require('../mail');
+const { getConfig } = require('../utils/webauthn');
+const { connectTestDatabase, disconnectTestDatabase, startAuthServer, expireReauthentication } = require('./helpers');
+const { createSoftwareAuthenticator } = require('./softwareAuthenticator');
+
+const USER = {
+  username: 'passkey_user',
+  email: 'passkey@example.com',
+  password: 'Correct-Horse-Battery-9',
+  firstName: 'Pass',
+  lastName: 'Key'
+};
+
+describe('passkeys', () => {
+  let server;
+  let token;
+  let userId;
+  let authenticator;
+
+  before(async () => {
+    await connectTestDatabase();
+    setTransport({ send: async () => {} });
+    server = await startAuthServer();
+
+    const { rpID, origins } = getConfig();
+    authenticator = createSoftwareAuthenticator({ rpID, origin: origins[0] });
+
+    const registered = await server.request('POST', '/register', { body: USER });
+    assert.equal(registered.status, 201);
+    token = registered.body.data.token;
+    userId = registered.body.data.user.id;
+  });
+
+  after(async () => {
+    await server.close();
+    await disconnectTestDatabase();
+  });
+
+  test('registers a passkey, and refuses a second response to the same challenge', async () => {
+    // Signing up counts as a fresh confirmation, so let it lapse first
+    await expireReauthentication(userId);
+    const unconfirmed = await server.request('POST', '/webauthn/register/options', { token });
+    assert.equal(unconfirmed.status, 403);
+    assert.equal(unconfirmed.body.reauthRequired, true);
+
+    const confirmed = await server.request('POST', '/reauthenticate', { token, body: { password: USER.password } });
+    assert.equal(confirmed.status, 200);
+
+    const started = await server.request('POST', '/webauthn/register/options', { token });
+    assert.equal(started.status, 200);
+    const { options, challengeToken } = started.body.data;
+
+    const response = authenticator.register(options);
+    const verified = await server.request('POST', '/webauthn/register/verify', {
+      token,
+      body: { challengeToken, response, name: 'Software key' }
+    });
+    assert.equal(verified.status, 201);
+    assert.equal(verified.body.data.passkey.name, 'Software key');
+
+    const replayed = await server.request('POST', '/webauthn/register/verify', {
+      token,
+      body: { challengeToken, response, name: 'Replayed key' }
+    });
+    assert.equal(replayed.status, 400);
+
+    const listed = await server.request('GET', '/webauthn/credentials', { token });
+    assert.equal(listed.body.data.passkeys.length, 1);
+  });
+
+  test('signs in with the passkey, and refuses a replayed assertion', async () => {
+    const started = await server.request('POST', '/webauthn/login/options', { body: { identifier: USER.username } });
+    assert.equal(started.status, 200);
+    const { options, challengeToken } = started.body.data;
+    assert.deepEqual(options.allowCredentials.map(credential => credential.id), [authenticator.credentialId]);
+
+    const response = authenticator.authenticate(options);
+    const signedIn = await server.request('POST', '/webauthn/login/verify', { body: { challengeToken, response } });
+    assert.equal(signedIn.status, 200);
+    assert.ok(signedIn.body.data.token);
+
+    const replayed = await server.request('POST', '/webauthn/login/verify', { body: { challengeToken, response } });
+    assert.equal(replayed.status, 401);
+  });
+
+  test('confirms a session with the passkey, and refuses a replayed assertion', async () => {
+    const started = await server.request('POST', '/webauthn/step-up/options', { token });
+    assert.equal(started.status, 200);
+    const { options, challengeToken } = started.body.data;
+
+    const passkey = { challengeToken, response: authenticator.authenticate(options) };
+    const confirmed = await server.request('POST', '/reauthenticate', { token, body: { passkey } });
+    assert.equal(confirmed.status, 200);
+    assert.ok(confirmed.body.data.reauthenticatedAt);
+
+    const replayed = await server.request('POST', '/reauthenticate', { token, body: { passkey } });
+    assert.equal(replayed.status, 400);
+  });
+
+  test('refuses a challenge issued for a different purpose', async () => {
+    const started = await server.request('POST', '/webauthn/step-up/options', { token });
+    const { options, challengeToken } = started.body.data;
+
+    const response = authenticator.authenticate(options);
+    const signedIn = await server.request('POST', '/webauthn/login/verify', { body: { challengeToken, response } });
+    assert.equal(signedIn.status, 401);
+  });
+});
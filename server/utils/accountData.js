@@ -0,0 +1,57 @@
+const User = require('../models/User');
+const Wallet = require('../models/Wallet');
+const Transaction = require('../models/Transaction');
+const KnownDevice = require('../models/KnownDevice');
+const ApiKey = require('../models/ApiKey');
+const AuditEvent = require('../models/AuditEvent');
+const WithdrawalAddress = require('../models/WithdrawalAddress');
+const KeystoreBackup = require('../models/KeystoreBackup');
+const { removeProfilePicture } = require('./profilePicture');
+
+/**
+ * Build a portable archive of everything stored for a user
+ */
+const buildAccountExport = async (userId) => {
+  const [user, wallet, transactions, withdrawalAddresses, keystoreBackups, auditEvents] = await Promise.all([
+    User.findById(userId),
+    Wallet.findOne({ user: userId }),
+    Transaction.find({ user: userId }).sort({ createdAt: 1 }),
+    WithdrawalAddress.find({ user: userId }).sort({ createdAt: 1 }),
+    KeystoreBackup.find({ user: userId }).sort({ createdAt: 1 }),
+    AuditEvent.find({ user: userId }).sort({ createdAt: 1 })
+  ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    user: user ? user.toJSON() : null,
+    wallet: wallet ? wallet.toJSON() : null,
+    transactions: transactions.map(transaction => transaction.toJSON()),
+    withdrawalAddresses: withdrawalAddresses.map(entry => entry.toJSON()),
+    keystoreBackups: keystoreBackups.map(backup => backup.toJSON()),
+    auditEvents: auditEvents.map(event => event.toJSON())
+  };
+};
+
+/**
+ * Permanently remove a user and all documents that belong to them.
+ * The append-only security audit log is kept.
+ */
+const purgeAccount = async (userId) => {
+  const user = await User.findById(userId).select('+profilePictureKeys');
+  if (user) {
+    await removeProfilePicture(user.profilePictureKeys);
+  }
+
+  await Transaction.deleteMany({ user: userId });
+  await Wallet.deleteOne({ user: userId });
+  await KnownDevice.forgetAllForUser(userId);
+  await ApiKey.deleteMany({ user: userId });
+  await WithdrawalAddress.deleteMany({ user: userId });
+  await KeystoreBackup.deleteMany({ user: userId });
+  await User.deleteOne({ _id: userId });
+};
+
+module.exports = {
+  buildAccountExport,
+  purgeAccount
+};
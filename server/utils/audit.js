@@ -0,0 +1,75 @@
+const AuditEvent = require('../models/AuditEvent');
+
+const isPlainObject = (value) => Object.prototype.toString.call(value) === '[object Object]'
+  && (value.constructor === Object || value.constructor === undefined);
+
+// Flatten nested objects into dotted paths so snapshots can be compared field by field
+const flatten = (value, prefix = '', fields = {}) => {
+  for (const [key, child] of Object.entries(value || {})) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child)) {
+      flatten(child, path, fields);
+    } else {
+      fields[path] = child;
+    }
+  }
+  return fields;
+};
+
+/**
+ * List the fields that differ between two snapshots as { field, before, after }
+ */
+const diffChanges = (before, after) => {
+  const beforeFields = flatten(before);
+  const afterFields = flatten(after);
+  const fields = new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]);
+
+  return [...fields]
+    .filter(field => JSON.stringify(beforeFields[field]) !== JSON.stringify(afterFields[field]))
+    .map(field => ({ field, before: beforeFields[field], after: afterFields[field] }));
+};
+
+// Describe who made the request; `actor` covers requests that authenticate without authenticateToken
+const describeActor = (req, actor) => {
+  if (req.apiKey) {
+    return { actorType: 'apiKey', actor: req.user._id, apiKey: req.apiKey._id };
+  }
+
+  const user = actor || req.user;
+  return user
+    ? { actorType: 'user', actor: user._id }
+    : { actorType: 'anonymous', actor: null };
+};
+
+/**
+ * Append an event to the security audit log.
+ * Never throws: a failed write is logged so the request itself still succeeds.
+ */
+const recordAuditEvent = async (req, {
+  action,
+  user = req.user ? req.user._id : null,
+  actor,
+  outcome = 'success',
+  changes = [],
+  metadata = {}
+}) => {
+  try {
+    await AuditEvent.create({
+      user,
+      ...describeActor(req, actor),
+      action,
+      outcome,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+      changes,
+      metadata
+    });
+  } catch (error) {
+    console.error(`Audit log error (${action}):`, error);
+  }
+};
+
+module.exports = {
+  diffChanges,
+  recordAuditEvent
+};
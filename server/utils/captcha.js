@@ -0,0 +1,65 @@
+const axios = require('axios');
+
+/**
+ * Default verifier for reCAPTCHA / hCaptcha / Turnstile style "siteverify" endpoints.
+ * Enabled by setting CAPTCHA_VERIFY_URL and CAPTCHA_SECRET.
+ */
+const createSiteVerifyVerifier = () => {
+  const url = process.env.CAPTCHA_VERIFY_URL;
+  const secret = process.env.CAPTCHA_SECRET;
+
+  if (!url || !secret) return null;
+
+  return async (token, ipAddress) => {
+    const params = new URLSearchParams({ secret, response: token });
+    if (ipAddress) params.set('remoteip', ipAddress);
+
+    const response = await axios.post(url, params, { timeout: 5000 });
+    return Boolean(response.data && response.data.success);
+  };
+};
+
+let activeVerifier;
+
+/**
+ * Get the configured verifier, or null when CAPTCHA challenges are disabled
+ */
+const getCaptchaVerifier = () => {
+  if (activeVerifier === undefined) {
+    activeVerifier = createSiteVerifyVerifier();
+  }
+  return activeVerifier;
+};
+
+/**
+ * Replace the verifier. A verifier is an async (token, ipAddress) => boolean;
+ * pass null to turn challenges off.
+ */
+const setCaptchaVerifier = (verifier) => {
+  activeVerifier = verifier;
+};
+
+const isCaptchaEnabled = () => Boolean(getCaptchaVerifier());
+
+/**
+ * Check a challenge response. Verifier errors count as a failed challenge.
+ */
+const verifyCaptcha = async (token, ipAddress) => {
+  const verifier = getCaptchaVerifier();
+  if (!verifier) return true;
+  if (!token) return false;
+
+  try {
+    return await verifier(token, ipAddress);
+  } catch (error) {
+    console.error('CAPTCHA verification error:', error.message);
+    return false;
+  }
+};
+
+module.exports = {
+  getCaptchaVerifier,
+  setCaptchaVerifier,
+  isCaptchaEnabled,
+  verifyCaptcha
+};
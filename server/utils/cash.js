@@ -0,0 +1,141 @@
+const Wallet = require('../models/Wallet');
+const Transaction = require('../models/Transaction');
+const { postTransaction } = require('./ledger');
+const { withWriteRetries } = require('./writeRetries');
+
+// Fee charged on buys and sells, as a fraction of the fiat amount
+const TRADE_FEE_RATE = 0.01;
+
+const CURRENCY_NAMES = {
+  USD: 'US Dollar',
+  EUR: 'Euro',
+  GBP: 'British Pound',
+  JPY: 'Japanese Yen',
+  INR: 'Indian Rupee'
+};
+
+// Cash is kept to the cent so repeated fees do not leave floating point dust
+const roundCash = (amount) => Math.round(amount * 100) / 100;
+
+const getTradeFee = (fiatAmount) => roundCash(fiatAmount * TRADE_FEE_RATE);
+
+// Matches wallets whose spendable cash (total minus held) covers the amount
+const hasAvailable = (amount) => ({
+  $expr: { $gte: [{ $subtract: ['$totalBalance', '$heldBalance'] }, amount] }
+});
+
+/**
+ * Take cash from a wallet if enough is available. Resolves with the updated wallet, or null.
+ */
+const debitCash = (walletId, amount, { session } = {}) =>
+  Wallet.findOneAndUpdate(
+    { _id: walletId, ...hasAvailable(amount) },
+    { $inc: { totalBalance: -roundCash(amount) } },
+    { new: true, session }
+  );
+
+/**
+ * Add cash to a wallet. Resolves with the updated wallet.
+ */
+const creditCash = (walletId, amount, { session } = {}) =>
+  Wallet.findOneAndUpdate(
+    { _id: walletId },
+    { $inc: { totalBalance: roundCash(amount) } },
+    { new: true, session }
+  );
+
+/**
+ * Reserve cash for a pending withdrawal if enough is available. Resolves with the updated wallet, or null.
+ */
+const holdCash = (walletId, amount) =>
+  Wallet.findOneAndUpdate(
+    { _id: walletId, ...hasAvailable(amount) },
+    { $inc: { heldBalance: roundCash(amount) } },
+    { new: true }
+  );
+
+/**
+ * Give back cash held for a withdrawal that was never recorded. Resolves with the updated wallet.
+ */
+const releaseCash = (walletId, amount) =>
+  Wallet.findOneAndUpdate(
+    { _id: walletId },
+    { $inc: { heldBalance: -roundCash(amount) } },
+    { new: true }
+  );
+
+/**
+ * Describe a fiat deposit or withdrawal in the shape every transaction has:
+ * the cash is recorded as an asset with the currency's code and a price of 1
+ */
+const buildCashTransaction = ({ wallet, type, amount, notes, metadata }) => {
+  const currency = wallet.settings.currency;
+  return new Transaction({
+    user: wallet.user,
+    wallet: wallet._id,
+    type,
+    cryptocurrency: {
+      symbol: currency,
+      name: CURRENCY_NAMES[currency] || currency,
+      amount: roundCash(amount),
+      price: 1
+    },
+    fiat: { currency, amount: roundCash(amount) },
+    fees: { amount: 0, currency },
+    status: 'pending',
+    notes,
+    metadata: { platform: 'CryptoWallet', exchangeRate: 1, ...metadata }
+  });
+};
+
+/**
+ * Apply the provider's outcome to a pending deposit or withdrawal. Claiming the transaction,
+ * moving the cash and posting to the journal happen in one MongoDB transaction, and the claim
+ * means a payment is only ever settled once even if the job and a request race.
+ * Resolves with the settled transaction, or null if it was still pending or already settled.
+ */
+const settleCashTransaction = async (transaction, { status, failureReason }) => {
+  if (status !== 'completed' && status !== 'failed') return null;
+
+  const update = status === 'completed'
+    ? { $set: { status: 'completed', confirmations: 6 } }
+    : { $set: { status: 'failed', notes: failureReason || 'Payment failed', 'payment.failureReason': failureReason } };
+
+  return withWriteRetries(async (session) => {
+    const settled = await Transaction.findOneAndUpdate(
+      { _id: transaction._id, status: 'pending' },
+      update,
+      { new: true, session }
+    );
+    if (!settled) return null;
+
+    const amount = settled.fiat.amount;
+    if (settled.type === 'deposit' && status === 'completed') {
+      await creditCash(settled.wallet, amount, { session });
+    } else if (settled.type === 'withdraw') {
+      // The held cash either leaves the wallet or becomes available again
+      const inc = status === 'completed'
+        ? { totalBalance: -amount, heldBalance: -amount }
+        : { heldBalance: -amount };
+      await Wallet.updateOne({ _id: settled.wallet }, { $inc: inc }, { session });
+    }
+
+    if (status === 'completed') {
+      await postTransaction(settled, { session });
+    }
+
+    return settled;
+  });
+};
+
+module.exports = {
+  TRADE_FEE_RATE,
+  roundCash,
+  getTradeFee,
+  debitCash,
+  creditCash,
+  holdCash,
+  releaseCash,
+  buildCashTransaction,
+  settleCashTransaction
+};
@@ -0,0 +1,47 @@
+const fs = require('fs');
+const path = require('path');
+const maxmind = require('maxmind');
+
+// Local MaxMind-format database (e.g. GeoLite2-City.mmdb); lookups are skipped if it is missing
+const GEOIP_DB_PATH = path.resolve(__dirname, '..', process.env.GEOIP_DB_PATH || 'data/GeoLite2-City.mmdb');
+
+let readerPromise = null;
+
+const getReader = () => {
+  if (!readerPromise) {
+    readerPromise = fs.existsSync(GEOIP_DB_PATH)
+      ? maxmind.open(GEOIP_DB_PATH).catch(error => {
+        console.error('GeoIP database error:', error.message);
+        return null;
+      })
+      : Promise.resolve(null);
+  }
+  return readerPromise;
+};
+
+/**
+ * Resolve an IP address to a human readable location such as "Berlin, Germany".
+ * Returns null when the database is unavailable or the address is unknown.
+ */
+const lookupLocation = async (ipAddress) => {
+  const ip = (ipAddress || '').replace(/^::ffff:/, '');
+  if (!maxmind.validate(ip)) return null;
+
+  const reader = await getReader();
+  if (!reader) return null;
+
+  const result = reader.get(ip);
+  if (!result) return null;
+
+  const parts = [
+    result.city && result.city.names && result.city.names.en,
+    result.subdivisions && result.subdivisions[0] && result.subdivisions[0].names.en,
+    result.country && result.country.names && result.country.names.en
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(', ') : null;
+};
+
+module.exports = {
+  lookupLocation
+};
@@ -0,0 +1,126 @@
+const { HDKey } = require('@scure/bip32');
+const { createBase58check, bech32 } = require('@scure/base');
+const { secp256k1 } = require('@noble/curves/secp256k1');
+const { keccak_256 } = require('@noble/hashes/sha3');
+const { sha256 } = require('@noble/hashes/sha2');
+const { ripemd160 } = require('@noble/hashes/legacy');
+const { bytesToHex } = require('@noble/hashes/utils');
+
+const base58check = createBase58check(sha256);
+
+// BIP44 coin types. Keys are derived in the browser from the user's recovery phrase;
+// the server only ever sees the account-level extended public keys (m/44'/coin'/0').
+const CHAINS = {
+  BTC: { name: 'Bitcoin', coinType: 0 },
+  ETH: { name: 'Ethereum', coinType: 60 }
+};
+
+const SUPPORTED_CHAINS = Object.keys(CHAINS);
+
+const ACCOUNT_DEPTH = 3;
+const HARDENED_OFFSET = 0x80000000;
+const BTC_P2PKH_VERSION = 0x00;
+const BTC_P2SH_VERSION = 0x05;
+
+const getAccountPath = (chain, account = 0) => `m/44'/${CHAINS[chain].coinType}'/${account}'`;
+
+const hash160 = (bytes) => ripemd160(sha256(bytes));
+
+/**
+ * EIP-55 mixed-case checksum encoding of a 20-byte Ethereum address
+ */
+const toChecksumAddress = (hexAddress) => {
+  const lower = hexAddress.toLowerCase().replace(/^0x/, '');
+  const hash = bytesToHex(keccak_256(new TextEncoder().encode(lower)));
+
+  let result = '0x';
+  for (let i = 0; i < lower.length; i++) {
+    result += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return result;
+};
+
+const encodeAddress = (chain, publicKey) => {
+  if (chain === 'BTC') {
+    return base58check.encode(Uint8Array.from([BTC_P2PKH_VERSION, ...hash160(publicKey)]));
+  }
+
+  // Ethereum: last 20 bytes of the keccak hash of the uncompressed key (without its 0x04 prefix)
+  const uncompressed = secp256k1.ProjectivePoint.fromHex(publicKey).toRawBytes(false);
+  return toChecksumAddress(bytesToHex(keccak_256(uncompressed.slice(1)).slice(-20)));
+};
+
+/**
+ * Parse an account-level extended public key. Throws when it is not one,
+ * including when an extended private key was sent by mistake.
+ */
+const parseAccountKey = (xpub) => {
+  let key;
+  try {
+    key = HDKey.fromExtendedKey(String(xpub));
+  } catch (error) {
+    throw new Error('Invalid extended public key');
+  }
+
+  if (key.privateKey) {
+    throw new Error('Only extended public keys may be sent to the server');
+  }
+  if (key.depth !== ACCOUNT_DEPTH || key.index !== HARDENED_OFFSET) {
+    throw new Error('Extended public key must be for the first account (m/44\'/coin\'/0\')');
+  }
+
+  return key;
+};
+
+/**
+ * Address of the external (receive) chain at `index` for an account key: m/44'/coin'/0'/0/index
+ */
+const deriveAddress = (chain, xpub, index = 0) => {
+  const child = parseAccountKey(xpub).deriveChild(0).deriveChild(index);
+  return encodeAddress(chain, child.publicKey);
+};
+
+/**
+ * Check an address's encoding and checksum for a chain
+ */
+const isValidAddress = (chain, address) => {
+  const value = String(address || '').trim();
+
+  if (chain === 'BTC') {
+    if (/^bc1/i.test(value)) {
+      try {
+        const decoded = bech32.decode(value.toLowerCase());
+        return decoded.prefix === 'bc' && decoded.words[0] === 0;
+      } catch (error) {
+        return false;
+      }
+    }
+
+    try {
+      const payload = base58check.decode(value);
+      return payload.length === 21 && [BTC_P2PKH_VERSION, BTC_P2SH_VERSION].includes(payload[0]);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  if (chain === 'ETH') {
+    if (!/^0x[0-9a-fA-F]{40}$/.test(value)) return false;
+    // All-lowercase or all-uppercase addresses carry no checksum
+    const body = value.slice(2);
+    if (body === body.toLowerCase() || body === body.toUpperCase()) return true;
+    return toChecksumAddress(value) === value;
+  }
+
+  return false;
+};
+
+module.exports = {
+  CHAINS,
+  SUPPORTED_CHAINS,
+  getAccountPath,
+  toChecksumAddress,
+  parseAccountKey,
+  deriveAddress,
+  isValidAddress
+};
@@ -0,0 +1,303 @@
+const mongoose = require('mongoose');
+const JournalEntry = require('../models/JournalEntry');
+const Wallet = require('../models/Wallet');
+
+const { LEDGER_EPSILON, sumByAsset } = JournalEntry;
+
+// Accounts that do not belong to a user
+const ACCOUNTS = {
+  house: 'house', // the exchange's own inventory, the other side of every buy and sell
+  fees: 'fees', // trading fee revenue
+  openingBalances: 'equity:opening' // balances that existed before the ledger
+};
+
+const userAccount = (userId) => `user:${userId}`;
+const externalAccount = (provider) => `external:${provider || 'unknown'}`;
+
+const JOURNAL_TYPES_BY_TRANSACTION = {
+  buy: 'trade.buy',
+  sell: 'trade.sell',
+  send: 'transfer',
+  deposit: 'deposit',
+  withdraw: 'withdraw'
+};
+
+const line = (account, asset, assetType, amount, user = null) => ({ account, user, asset, assetType, amount });
+const userLine = (userId, asset, assetType, amount) => line(userAccount(userId), asset, assetType, amount, userId);
+
+const isZero = (amount) => Math.abs(amount) < LEDGER_EPSILON;
+
+/**
+ * Lines of the posting for a completed transaction. A send is posted for both
+ * users at once, so the paired receive transaction has no posting of its own.
+ */
+const buildTransactionLines = (transaction) => {
+  const { symbol, amount } = transaction.cryptocurrency;
+  const { currency, amount: fiatAmount } = transaction.fiat;
+  const fee = transaction.fees.amount;
+  const user = transaction.user;
+
+  let lines;
+  switch (transaction.type) {
+    case 'buy':
+      lines = [
+        userLine(user, currency, 'fiat', -(fiatAmount + fee)),
+        line(ACCOUNTS.house, currency, 'fiat', fiatAmount),
+        line(ACCOUNTS.fees, currency, 'fiat', fee),
+        line(ACCOUNTS.house, symbol, 'crypto', -amount),
+        userLine(user, symbol, 'crypto', amount)
+      ];
+      break;
+    case 'sell':
+      lines = [
+        userLine(user, symbol, 'crypto', -amount),
+        line(ACCOUNTS.house, symbol, 'crypto', amount),
+        line(ACCOUNTS.house, currency, 'fiat', -fiatAmount),
+        userLine(user, currency, 'fiat', fiatAmount - fee),
+        line(ACCOUNTS.fees, currency, 'fiat', fee)
+      ];
+      break;
+    case 'send':
+      lines = [
+        userLine(user, symbol, 'crypto', -amount),
+        userLine(transaction.counterparty, symbol, 'crypto', amount)
+      ];
+      break;
+    case 'deposit':
+      lines = [
+        line(externalAccount(transaction.payment.provider), currency, 'fiat', -fiatAmount),
+        userLine(user, currency, 'fiat', fiatAmount)
+      ];
+      break;
+    case 'withdraw':
+      lines = [
+        userLine(user, currency, 'fiat', -fiatAmount),
+        line(externalAccount(transaction.payment.provider), currency, 'fiat', fiatAmount)
+      ];
+      break;
+    default:
+      throw new Error(`Transactions of type ${transaction.type} are not posted to the ledger`);
+  }
+
+  // A fee-free trade has nothing to post to the fee account
+  return lines.filter(entry => !isZero(entry.amount));
+};
+
+/**
+ * Post a completed transaction to the journal
+ */
+const postTransaction = async (transaction, { session } = {}) => {
+  const [entry] = await JournalEntry.create([{
+    type: JOURNAL_TYPES_BY_TRANSACTION[transaction.type],
+    transaction: transaction._id,
+    lines: buildTransactionLines(transaction)
+  }], { session });
+  return entry;
+};
+
+/**
+ * Post the reversal of a transaction: the negation of its lines. Transactions made before
+ * the ledger existed have no entry to reference but are reversed the same way.
+ */
+const postReversal = async (transaction, { memo, session } = {}) => {
+  const original = await JournalEntry.findOne({
+    transaction: transaction._id,
+    type: JOURNAL_TYPES_BY_TRANSACTION[transaction.type]
+  }).session(session || null);
+
+  const lines = (original ? original.lines.map(entry => entry.toObject()) : buildTransactionLines(transaction))
+    .map(entry => ({ ...entry, amount: -entry.amount }));
+
+  const [entry] = await JournalEntry.create([{
+    type: 'reversal',
+    transaction: transaction._id,
+    reverses: original ? original._id : null,
+    lines,
+    memo
+  }], { session });
+  return entry;
+};
+
+/**
+ * Net balance of every account and asset, optionally limited to one user's account
+ */
+const getBalances = async (userId, { session } = {}) => {
+  const match = userId ? { 'lines.user': new mongoose.Types.ObjectId(String(userId)) } : {};
+  const rows = await JournalEntry.aggregate([
+    { $match: match },
+    { $unwind: '$lines' },
+    { $match: match },
+    {
+      $group: {
+        _id: { account: '$lines.account', user: '$lines.user', asset: '$lines.asset', assetType: '$lines.assetType' },
+        balance: { $sum: '$lines.amount' }
+      }
+    }
+  ]).session(session || null);
+
+  return rows.map(({ _id, balance }) => ({ ..._id, balance }));
+};
+
+/**
+ * A user's cash and crypto balances according to the journal
+ */
+const getUserBalances = async (userId, { session } = {}) => {
+  const balances = { fiat: {}, crypto: {} };
+  for (const row of await getBalances(userId, { session })) {
+    balances[row.assetType][row.asset] = row.balance;
+  }
+  return balances;
+};
+
+/**
+ * Differences between a wallet's cached balances and the journal. Cash is compared
+ * in the wallet's currency; cash in any other currency should not exist.
+ */
+const diffWallet = (wallet, balances) => {
+  const mismatches = [];
+  const compare = (asset, assetType, projected, ledger) => {
+    if (!isZero(projected - ledger)) {
+      mismatches.push({ user: wallet.user, wallet: wallet._id, asset, assetType, projected, ledger });
+    }
+  };
+
+  const currency = wallet.settings.currency;
+  compare(currency, 'fiat', wallet.totalBalance, balances.fiat[currency] || 0);
+  for (const [asset, balance] of Object.entries(balances.fiat)) {
+    if (asset !== currency) compare(asset, 'fiat', 0, balance);
+  }
+
+  const symbols = new Set([...wallet.currencies.map(c => c.symbol), ...Object.keys(balances.crypto)]);
+  for (const symbol of symbols) {
+    const holding = wallet.currencies.find(c => c.symbol === symbol);
+    compare(symbol, 'crypto', holding ? holding.amount : 0, balances.crypto[symbol] || 0);
+  }
+
+  return mismatches;
+};
+
+/**
+ * Prove the books balance: every entry nets to zero per asset, so do all accounts
+ * together (the trial balance), and every wallet's cached balances match the journal.
+ */
+const checkLedger = async () => {
+  const [entries, unbalancedEntries, trialBalance] = await Promise.all([
+    JournalEntry.countDocuments(),
+    JournalEntry.aggregate([
+      { $unwind: '$lines' },
+      { $group: { _id: { entry: '$_id', asset: '$lines.asset', assetType: '$lines.assetType' }, total: { $sum: '$lines.amount' } } },
+      { $match: { $or: [{ total: { $gte: LEDGER_EPSILON } }, { total: { $lte: -LEDGER_EPSILON } }] } },
+      { $project: { _id: 0, entry: '$_id.entry', asset: '$_id.asset', assetType: '$_id.assetType', total: 1 } }
+    ]),
+    JournalEntry.aggregate([
+      { $unwind: '$lines' },
+      { $group: { _id: { asset: '$lines.asset', assetType: '$lines.assetType' }, total: { $sum: '$lines.amount' } } },
+      { $project: { _id: 0, asset: '$_id.asset', assetType: '$_id.assetType', total: 1 } },
+      { $sort: { assetType: 1, asset: 1 } }
+    ])
+  ]);
+
+  const userBalances = new Map();
+  for (const row of await getBalances()) {
+    if (!row.user) continue;
+    const key = String(row.user);
+    if (!userBalances.has(key)) userBalances.set(key, { fiat: {}, crypto: {} });
+    userBalances.get(key)[row.assetType][row.asset] = row.balance;
+  }
+
+  const walletMismatches = [];
+  for await (const wallet of Wallet.find().select('user totalBalance currencies settings.currency').cursor()) {
+    walletMismatches.push(...diffWallet(wallet, userBalances.get(String(wallet.user)) || { fiat: {}, crypto: {} }));
+  }
+
+  const unbalancedAssets = trialBalance.filter(row => !isZero(row.total));
+
+  return {
+    balanced: unbalancedEntries.length === 0 && unbalancedAssets.length === 0 && walletMismatches.length === 0,
+    entries,
+    unbalancedEntries,
+    trialBalance,
+    unbalancedAssets,
+    walletMismatches
+  };
+};
+
+/**
+ * Post opening balances for wallets that have none yet: whatever the wallet holds that the
+ * journal does not explain, i.e. what it held before the ledger existed. Trades made after
+ * the ledger went live but before this ran are already posted, so only the difference is
+ * opened. The wallet and its postings are read from one snapshot so a trade landing in
+ * between cannot be counted twice. Resolves with the count posted.
+ */
+const postOpeningBalances = async () => {
+  let posted = 0;
+  for await (const { _id: walletId } of Wallet.find().select('_id').cursor()) {
+    const opened = await mongoose.connection.transaction(async (session) => {
+      const wallet = await Wallet.findById(walletId).session(session);
+      if (!wallet || await JournalEntry.exists({ type: 'opening', 'lines.user': wallet.user }).session(session)) {
+        return false;
+      }
+
+      const balances = await getUserBalances(wallet.user, { session });
+      const currency = wallet.settings.currency;
+      const lines = [];
+      const open = (asset, assetType, amount) => {
+        if (isZero(amount)) return;
+        lines.push(userLine(wallet.user, asset, assetType, amount));
+        lines.push(line(ACCOUNTS.openingBalances, asset, assetType, -amount));
+      };
+
+      open(currency, 'fiat', wallet.totalBalance - (balances.fiat[currency] || 0));
+      const symbols = new Set([...wallet.currencies.map(c => c.symbol), ...Object.keys(balances.crypto)]);
+      for (const symbol of symbols) {
+        const holding = wallet.currencies.find(c => c.symbol === symbol);
+        open(symbol, 'crypto', (holding ? holding.amount : 0) - (balances.crypto[symbol] || 0));
+      }
+
+      if (lines.length === 0) return false;
+      await JournalEntry.create([{ type: 'opening', lines, memo: 'Balances before the ledger' }], { session });
+      return true;
+    }, { readConcern: { level: 'snapshot' } });
+
+    if (opened) posted++;
+  }
+  return posted;
+};
+
+/**
+ * Reset a wallet's cached balances to what the journal says
+ */
+const rebuildWalletBalances = async (wallet) => {
+  const balances = await getUserBalances(wallet.user);
+
+  wallet.totalBalance = balances.fiat[wallet.settings.currency] || 0;
+  for (const [symbol, amount] of Object.entries(balances.crypto)) {
+    if (!wallet.currencies.some(c => c.symbol === symbol) && !isZero(amount)) {
+      wallet.currencies.push({ symbol, name: symbol, amount: 0 });
+    }
+  }
+  wallet.currencies.forEach(holding => {
+    holding.amount = balances.crypto[holding.symbol] || 0;
+    holding.value = holding.amount * holding.currentPrice;
+    holding.profitLoss = holding.value - (holding.amount * holding.averageBuyPrice);
+  });
+  wallet.currencies = wallet.currencies.filter(holding => !isZero(holding.amount));
+
+  await wallet.save();
+  return wallet;
+};
+
+module.exports = {
+  ACCOUNTS,
+  userAccount,
+  externalAccount,
+  buildTransactionLines,
+  postTransaction,
+  postReversal,
+  getBalances,
+  getUserBalances,
+  sumByAsset,
+  checkLedger,
+  postOpeningBalances,
+  rebuildWalletBalances
+};
@@ -0,0 +1,37 @@
+const KnownDevice = require('../models/KnownDevice');
+const { lookupLocation } = require('./geoip');
+const { sendMail } = require('../mail');
+const { newDeviceLoginEmail } = require('../mail/templates');
+const { generateLoginAlertToken } = require('../middleware/auth');
+
+/**
+ * Remember the device behind a login and, if it or its network is new,
+ * email the user an alert (unless they turned login notifications off).
+ */
+const recordLoginDevice = async (req, user, session) => {
+  const ipAddress = req.ip;
+  const userAgent = req.get('User-Agent');
+
+  const { isFirstLogin, isNewDevice, isNewIpRange } = await KnownDevice.recordLogin(user._id, {
+    ipAddress,
+    userAgent
+  });
+
+  if (isFirstLogin || (!isNewDevice && !isNewIpRange)) return false;
+  if (!user.securitySettings.loginNotifications) return false;
+
+  const login = {
+    time: new Date(),
+    userAgent,
+    ipAddress,
+    location: await lookupLocation(ipAddress)
+  };
+  const token = generateLoginAlertToken(user, session.jti);
+
+  await sendMail({ to: user.email, ...newDeviceLoginEmail(user, login, token) });
+  return true;
+};
+
+module.exports = {
+  recordLoginDevice
+};
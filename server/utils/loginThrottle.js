@@ -0,0 +1,148 @@
+const crypto = require('crypto');
+const LoginThrottle = require('../models/LoginThrottle');
+const { isCaptchaEnabled } = require('./captcha');
+const { sendMail } = require('../mail');
+const { accountLockedEmail } = require('../mail/templates');
+const { generateUnlockToken } = require('../middleware/auth');
+
+const envInt = (name, fallback) => parseInt(process.env[name]) || fallback;
+
+// Failures older than the window are forgotten
+const FAILURE_WINDOW_MS = envInt('LOGIN_FAILURE_WINDOW_MINUTES', 60) * 60 * 1000;
+const LOCKOUT_MS = envInt('LOGIN_LOCKOUT_MINUTES', 15) * 60 * 1000;
+const BACKOFF_BASE_SECONDS = envInt('LOGIN_BACKOFF_BASE_SECONDS', 1);
+const BACKOFF_MAX_SECONDS = envInt('LOGIN_BACKOFF_MAX_SECONDS', 300);
+const CAPTCHA_AFTER = envInt('LOGIN_CAPTCHA_AFTER', 5);
+
+// IPs get more room than accounts since many users can share one address
+const POLICIES = {
+  account: {
+    backoffAfter: envInt('LOGIN_BACKOFF_AFTER', 3),
+    lockoutAfter: envInt('LOGIN_LOCKOUT_THRESHOLD', 10)
+  },
+  ip: {
+    backoffAfter: envInt('LOGIN_IP_BACKOFF_AFTER', 10),
+    lockoutAfter: envInt('LOGIN_IP_LOCKOUT_THRESHOLD', 50)
+  }
+};
+
+const ipKey = (req) => (req.ip || 'unknown').replace(/^::ffff:/, '');
+
+const countersFor = (req, user) => [
+  { scope: 'ip', key: ipKey(req) },
+  ...(user ? [{ scope: 'account', key: user._id.toString() }] : [])
+];
+
+// Seconds to wait after the latest failure: 1s, 2s, 4s, ... capped at the maximum
+const backoffSeconds = (scope, failures) => {
+  const over = failures - POLICIES[scope].backoffAfter;
+  if (over < 0) return 0;
+  return Math.min(BACKOFF_BASE_SECONDS * 2 ** over, BACKOFF_MAX_SECONDS);
+};
+
+// How long a counter still blocks attempts, in milliseconds
+const remainingBlockMs = (record, now) => {
+  if (record.lockedUntil) {
+    return Math.max(record.lockedUntil.getTime() - now, 0);
+  }
+  if (now - record.lastFailureAt.getTime() > FAILURE_WINDOW_MS) return 0;
+
+  const waitUntil = record.lastFailureAt.getTime() + backoffSeconds(record.scope, record.failures) * 1000;
+  return Math.max(waitUntil - now, 0);
+};
+
+/**
+ * Check whether this IP (and account, if known) may attempt a login right now.
+ * Resolves to { retryAfter, lockedUntil, captchaRequired }; retryAfter is 0 when allowed
+ * and lockedUntil is only set for a locked account.
+ */
+const getLoginStatus = async (req, user) => {
+  const records = await Promise.all(
+    countersFor(req, user).map(({ scope, key }) => LoginThrottle.findOne({ scope, key }))
+  );
+
+  const now = Date.now();
+  let retryAfterMs = 0;
+  let lockedUntil = null;
+  let maxFailures = 0;
+
+  for (const record of records.filter(Boolean)) {
+    const remaining = remainingBlockMs(record, now);
+    if (remaining > retryAfterMs) retryAfterMs = remaining;
+    if (record.scope === 'account' && record.lockedUntil && record.lockedUntil.getTime() > now) {
+      lockedUntil = record.lockedUntil;
+    }
+    if (remaining > 0 || now - record.lastFailureAt.getTime() <= FAILURE_WINDOW_MS) {
+      maxFailures = Math.max(maxFailures, record.failures);
+    }
+  }
+
+  return {
+    retryAfter: Math.ceil(retryAfterMs / 1000),
+    lockedUntil,
+    captchaRequired: isCaptchaEnabled() && maxFailures >= CAPTCHA_AFTER
+  };
+};
+
+/**
+ * Count a failed login against the IP and account. Locks whichever counter
+ * reaches its threshold and emails the owner of a locked account an unlock link.
+ * Resolves to the same shape as getLoginStatus.
+ */
+const recordLoginFailure = async (req, user) => {
+  for (const { scope, key } of countersFor(req, user)) {
+    const record = await LoginThrottle.recordFailure(scope, key, FAILURE_WINDOW_MS);
+
+    if (record.failures >= POLICIES[scope].lockoutAfter && !record.lockedUntil) {
+      const unlockTokenId = scope === 'account' ? crypto.randomUUID() : null;
+      const locked = await LoginThrottle.lock(scope, key, new Date(Date.now() + LOCKOUT_MS), unlockTokenId);
+
+      // Only the request that actually applied the lock sends the email
+      if (locked && scope === 'account') {
+        const lockoutMinutes = Math.round(LOCKOUT_MS / 60000);
+        const token = generateUnlockToken(user, unlockTokenId);
+        sendMail({ to: user.email, ...accountLockedEmail(user, token, lockoutMinutes) })
+          .catch(error => console.error('Account locked email error:', error));
+      }
+    }
+  }
+
+  return getLoginStatus(req, user);
+};
+
+/**
+ * Forget failed attempts for an account after a successful login or password reset
+ */
+const clearLoginFailures = (user) => LoginThrottle.reset('account', user._id.toString());
+
+/**
+ * Forget failed attempts for an account with the unlock link emailed for its lockout.
+ * Resolves to false when the link was already used or a later lockout replaced it.
+ */
+const redeemUnlockToken = async (user, tokenId) => {
+  if (!tokenId) return false;
+  return Boolean(await LoginThrottle.redeemUnlockToken(user._id.toString(), tokenId));
+};
+
+/**
+ * Send the standard response for a throttled or locked login
+ */
+const sendLoginThrottled = (res, status) => {
+  res.set('Retry-After', String(status.retryAfter));
+  return res.status(429).json({
+    error: status.lockedUntil ? 'Account locked' : 'Too many attempts',
+    message: status.lockedUntil
+      ? 'Too many failed login attempts. Try again later or use the unlock link we emailed you.'
+      : `Too many failed login attempts. Please wait ${status.retryAfter} seconds before trying again.`,
+    retryAfter: status.retryAfter,
+    lockedUntil: status.lockedUntil
+  });
+};
+
+module.exports = {
+  getLoginStatus,
+  recordLoginFailure,
+  clearLoginFailures,
+  redeemUnlockToken,
+  sendLoginThrottled
+};
@@ -0,0 +1,150 @@
+const axios = require('axios');
+
+// CoinGecko API configuration
+const COINGECKO_API = process.env.COINGECKO_API_URL || 'https://api.coingecko.com/api/v3';
+const API_KEY = process.env.COINAPI_KEY;
+
+// Create axios instance with default config
+const apiClient = axios.create({
+  baseURL: COINGECKO_API,
+  timeout: 10000,
+  headers: API_KEY ? {
+    'x-cg-demo-api-key': API_KEY
+  } : {}
+});
+
+// Mock cryptocurrency data (for development without API keys)
+const mockCryptoData = {
+  'BTC': {
+    symbol: 'BTC',
+    name: 'Bitcoin',
+    current_price: 43250.75,
+    price_change_24h: 1850.32,
+    price_change_percentage_24h: 4.47,
+    market_cap: 845123456789,
+    volume_24h: 28543123456,
+    circulating_supply: 19542187,
+    total_supply: 21000000,
+    max_supply: 21000000,
+    image: 'https://assets.coingecko.com/coins/images/1/large/bitcoin.png'
+  },
+  'ETH': {
+    symbol: 'ETH',
+    name: 'Ethereum',
+    current_price: 2678.45,
+    price_change_24h: -145.23,
+    price_change_percentage_24h: -5.14,
+    market_cap: 321567890123,
+    volume_24h: 15432109876,
+    circulating_supply: 120280312,
+    total_supply: 120280312,
+    max_supply: null,
+    image: 'https://assets.coingecko.com/coins/images/279/large/ethereum.png'
+  },
+  'ADA': {
+    symbol: 'ADA',
+    name: 'Cardano',
+    current_price: 0.4723,
+    price_change_24h: 0.0234,
+    price_change_percentage_24h: 5.22,
+    market_cap: 16543210987,
+    volume_24h: 876543210,
+    circulating_supply: 35045020830,
+    total_supply: 45000000000,
+    max_supply: 45000000000,
+    image: 'https://assets.coingecko.com/coins/images/975/large/cardano.png'
+  },
+  'SOL': {
+    symbol: 'SOL',
+    name: 'Solana',
+    current_price: 98.76,
+    price_change_24h: 7.43,
+    price_change_percentage_24h: 8.13,
+    market_cap: 43210987654,
+    volume_24h: 2109876543,
+    circulating_supply: 437841193,
+    total_supply: 567643242,
+    max_supply: null,
+    image: 'https://assets.coingecko.com/coins/images/4128/large/solana.png'
+  },
+  'MATIC': {
+    symbol: 'MATIC',
+    name: 'Polygon',
+    current_price: 0.8945,
+    price_change_24h: -0.0234,
+    price_change_percentage_24h: -2.55,
+    market_cap: 8765432109,
+    volume_24h: 543210987,
+    circulating_supply: 9811233165,
+    total_supply: 10000000000,
+    max_supply: 10000000000,
+    image: 'https://assets.coingecko.com/coins/images/4713/large/matic-token-icon.png'
+  },
+  'DOT': {
+    symbol: 'DOT',
+    name: 'Polkadot',
+    current_price: 7.23,
+    price_change_24h: 0.34,
+    price_change_percentage_24h: 4.93,
+    market_cap: 9876543210,
+    volume_24h: 654321098,
+    circulating_supply: 1365938542,
+    total_supply: 1432129285,
+    max_supply: null,
+    image: 'https://assets.coingecko.com/coins/images/12171/large/polkadot.png'
+  }
+};
+
+// Trade prices are reused for this long, so a burst of orders does not exhaust the API rate limit
+const QUOTE_CACHE_MS = 30 * 1000;
+
+const quoteCache = new Map();
+
+/**
+ * Current price of a cryptocurrency in a fiat currency, from CoinGecko or, when the API
+ * is unavailable, the mock data. Trades are priced with this, never with a price the
+ * client sends. Resolves with { symbol, name, price }, or null when no price is known.
+ */
+const getMarketQuote = async (symbol, currency = 'USD') => {
+  const key = `${symbol}:${currency}`.toUpperCase();
+  const cached = quoteCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.quote;
+  }
+
+  let quote = null;
+  try {
+    const response = await apiClient.get('/coins/markets', {
+      params: {
+        vs_currency: currency.toLowerCase(),
+        symbols: symbol.toLowerCase(),
+        order: 'market_cap_desc',
+        per_page: 1
+      }
+    });
+
+    // Symbols are not unique; the coin with the largest market cap is the one listed
+    const coin = response.data[0];
+    if (coin && coin.current_price > 0) {
+      quote = { symbol: coin.symbol.toUpperCase(), name: coin.name, price: coin.current_price };
+    }
+  } catch (apiError) {
+    console.error('CoinGecko API error:', apiError.message);
+
+    const mock = mockCryptoData[symbol.toUpperCase()];
+    if (mock) {
+      quote = { symbol: mock.symbol, name: mock.name, price: mock.current_price };
+    }
+  }
+
+  if (quote) {
+    quoteCache.set(key, { quote, expiresAt: Date.now() + QUOTE_CACHE_MS });
+  }
+  return quote;
+};
+
+module.exports = {
+  apiClient,
+  mockCryptoData,
+  getMarketQuote
+};
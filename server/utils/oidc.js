@@ -0,0 +1,198 @@
+const crypto = require('crypto');
+const axios = require('axios');
+const jwt = require('jsonwebtoken');
+const {
+  generateOidcFlowToken,
+  verifyOidcFlowToken
+} = require('../middleware/auth');
+
+// Signature algorithms accepted on ID tokens (never "none" or HMAC with a public secret)
+const ID_TOKEN_ALGORITHMS = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 5000;
+
+/**
+ * Relying party settings, or null when single sign-on is not configured.
+ * The redirect URI is the client page that hands the code back to the API.
+ */
+const getConfig = () => {
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+
+  if (!issuer || !clientId) return null;
+
+  const clientUrl = process.env.CLIENT_URL || 'http://localhost:5173';
+
+  return {
+    issuer: issuer.replace(/\/$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || null,
+    redirectUri: process.env.OIDC_REDIRECT_URI || `${clientUrl}/oidc/callback`,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+    providerName: process.env.OIDC_PROVIDER_NAME || 'Single sign-on'
+  };
+};
+
+const isOidcEnabled = () => getConfig() !== null;
+
+const base64url = (buffer) => buffer.toString('base64url');
+
+let discoveryCache = null;
+let jwksCache = null;
+
+/**
+ * Fetch (and cache) the provider's discovery document
+ */
+const getDiscovery = async (config) => {
+  if (discoveryCache && discoveryCache.issuer === config.issuer
+    && Date.now() - discoveryCache.fetchedAt < DISCOVERY_TTL_MS) {
+    return discoveryCache.document;
+  }
+
+  const response = await axios.get(`${config.issuer}/.well-known/openid-configuration`, {
+    timeout: REQUEST_TIMEOUT_MS
+  });
+  const document = response.data;
+
+  if (!document || document.issuer.replace(/\/$/, '') !== config.issuer) {
+    throw new Error('OIDC discovery document does not match the configured issuer');
+  }
+
+  discoveryCache = { issuer: config.issuer, document, fetchedAt: Date.now() };
+  return document;
+};
+
+/**
+ * Find the provider key that signed an ID token. The key set is refetched once
+ * when the key id is unknown, so key rotation at the provider just works.
+ */
+const getSigningKey = async (jwksUri, kid) => {
+  const findKey = (keys) => keys.find(key => (kid ? key.kid === kid : true) && key.use !== 'enc');
+
+  let key = jwksCache && jwksCache.uri === jwksUri ? findKey(jwksCache.keys) : null;
+
+  if (!key) {
+    const response = await axios.get(jwksUri, { timeout: REQUEST_TIMEOUT_MS });
+    jwksCache = { uri: jwksUri, keys: response.data.keys || [] };
+    key = findKey(jwksCache.keys);
+  }
+
+  if (!key) {
+    throw new Error('No matching signing key for the ID token');
+  }
+
+  return crypto.createPublicKey({ key, format: 'jwk' });
+};
+
+/**
+ * Start an authorization code + PKCE sign-in. Resolves to the provider URL to
+ * send the browser to and a flow token the browser keeps until it comes back.
+ */
+const createAuthorizationRequest = async ({ rememberMe = false } = {}) => {
+  const config = getConfig();
+  const discovery = await getDiscovery(config);
+
+  const state = base64url(crypto.randomBytes(32));
+  const nonce = base64url(crypto.randomBytes(32));
+  const codeVerifier = base64url(crypto.randomBytes(32));
+  const codeChallenge = base64url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+  const authorizationUrl = new URL(discovery.authorization_endpoint);
+  authorizationUrl.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    scope: config.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256'
+  }).toString();
+
+  return {
+    authorizationUrl: authorizationUrl.toString(),
+    flowToken: generateOidcFlowToken({ state, nonce, codeVerifier, rememberMe })
+  };
+};
+
+/**
+ * Exchange the authorization code and verify the ID token.
+ * Resolves to the user's identity; throws when anything does not check out.
+ */
+const completeAuthorization = async ({ code, state, flowToken }) => {
+  const config = getConfig();
+  const flow = verifyOidcFlowToken(flowToken);
+
+  // The state ties the redirect to the browser that started the sign-in
+  if (!state || flow.state !== state) {
+    throw new Error('OIDC state does not match');
+  }
+
+  const discovery = await getDiscovery(config);
+
+  const params = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: config.redirectUri,
+    client_id: config.clientId,
+    code_verifier: flow.codeVerifier
+  });
+  const headers = { 'Content-Type': 'application/x-www-form-urlencoded' };
+  if (config.clientSecret) {
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const tokenResponse = await axios.post(discovery.token_endpoint, params, {
+    headers,
+    timeout: REQUEST_TIMEOUT_MS
+  });
+  const { id_token: idToken, access_token: accessToken } = tokenResponse.data;
+
+  if (!idToken) {
+    throw new Error('Token response did not include an ID token');
+  }
+
+  const header = jwt.decode(idToken, { complete: true })?.header || {};
+  const key = await getSigningKey(discovery.jwks_uri, header.kid);
+  const claims = jwt.verify(idToken, key, {
+    algorithms: ID_TOKEN_ALGORITHMS,
+    issuer: discovery.issuer,
+    audience: config.clientId
+  });
+
+  if (claims.nonce !== flow.nonce) {
+    throw new Error('OIDC nonce does not match');
+  }
+
+  // Some providers only put profile claims in the userinfo response
+  let profile = claims;
+  if (!claims.email && accessToken && discovery.userinfo_endpoint) {
+    const userinfo = await axios.get(discovery.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      timeout: REQUEST_TIMEOUT_MS
+    });
+    if (userinfo.data && userinfo.data.sub === claims.sub) {
+      profile = { ...userinfo.data, ...claims };
+    }
+  }
+
+  return {
+    issuer: config.issuer,
+    subject: claims.sub,
+    email: profile.email ? String(profile.email).toLowerCase() : null,
+    emailVerified: profile.email_verified === true || profile.email_verified === 'true',
+    givenName: profile.given_name || null,
+    familyName: profile.family_name || null,
+    name: profile.name || null,
+    preferredUsername: profile.preferred_username || null,
+    rememberMe: Boolean(flow.rememberMe)
+  };
+};
+
+module.exports = {
+  getConfig,
+  isOidcEnabled,
+  createAuthorizationRequest,
+  completeAuthorization
+};
@@ -0,0 +1,160 @@
+const fs = require('fs');
+const path = require('path');
+
+const envInt = (name, fallback) => {
+  const value = parseInt(process.env[name]);
+  return Number.isNaN(value) ? fallback : value;
+};
+
+// The one definition of what a password must look like. Registration, password
+// change, reset and the client strength meter (via /api/auth/password-check) all use it.
+const PASSWORD_POLICY = {
+  minLength: envInt('PASSWORD_MIN_LENGTH', 8),
+  maxLength: 128,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireNumber: true,
+  requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL === 'true',
+  // Lowest acceptable strength score (0 = very weak ... 4 = strong)
+  minScore: envInt('PASSWORD_MIN_SCORE', 2),
+  // Words that add no strength; the user's own username, email and name are banned too
+  bannedWords: ['password', 'passw0rd', 'cryptowallet', 'wallet', 'bitcoin', 'crypto', 'qwerty', 'letmein', 'welcome', 'admin']
+};
+
+const STRENGTH_LABELS = ['Very weak', 'Weak', 'Fair', 'Good', 'Strong'];
+
+// Offline list of breached passwords, one per line; lines starting with # are comments
+const BREACHED_PASSWORDS_PATH = path.resolve(
+  __dirname,
+  '..',
+  process.env.BREACHED_PASSWORDS_PATH || 'data/breached-passwords.txt'
+);
+
+let breachedPasswords = null;
+
+const getBreachedPasswords = () => {
+  if (!breachedPasswords) {
+    try {
+      breachedPasswords = new Set(
+        fs.readFileSync(BREACHED_PASSWORDS_PATH, 'utf8')
+          .split(/\r?\n/)
+          .map(line => line.trim().toLowerCase())
+          .filter(line => line && !line.startsWith('#'))
+      );
+    } catch (error) {
+      console.error('Breached password list error:', error.message);
+      breachedPasswords = new Set();
+    }
+  }
+  return breachedPasswords;
+};
+
+const isBreachedPassword = (password) => getBreachedPasswords().has(password.toLowerCase());
+
+/**
+ * Lowercased words from the user's own details that a password must not contain
+ */
+const personalWords = ({ username, email, firstName, lastName } = {}) => {
+  const emailName = email ? String(email).split('@')[0] : null;
+
+  return [username, emailName, firstName, lastName]
+    .filter(Boolean)
+    .map(word => String(word).trim().toLowerCase())
+    .filter(word => word.length >= 3);
+};
+
+const charsetSize = (password) => {
+  let size = 0;
+  if (/[a-z]/.test(password)) size += 26;
+  if (/[A-Z]/.test(password)) size += 26;
+  if (/\d/.test(password)) size += 10;
+  if (/[^a-zA-Z\d]/.test(password)) size += 33;
+  return size;
+};
+
+/**
+ * Rough guessability score from 0 to 4. Banned and personal words are removed
+ * first, and repeated or sequential characters (aaa, abc, 321) count once.
+ */
+const scorePassword = (password, words) => {
+  let remaining = password;
+  for (const word of words) {
+    remaining = remaining.replace(new RegExp(word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi'), '');
+  }
+
+  let effectiveLength = 0;
+  let previousStep = null;
+  for (let i = 0; i < remaining.length; i++) {
+    const step = i > 0 ? remaining.charCodeAt(i) - remaining.charCodeAt(i - 1) : null;
+    const repeated = step === 0;
+    const sequential = step !== null && Math.abs(step) === 1 && step === previousStep;
+    if (!repeated && !sequential) effectiveLength++;
+    previousStep = step;
+  }
+
+  const bits = effectiveLength * Math.log2(charsetSize(password) || 1);
+  if (bits < 30) return 0;
+  if (bits < 45) return 1;
+  if (bits < 60) return 2;
+  if (bits < 80) return 3;
+  return 4;
+};
+
+/**
+ * Check a password against the policy. `user` holds the username, email and
+ * names it must not contain (any of them may be missing).
+ * Returns { valid, score, label, breached, errors }.
+ */
+const evaluatePassword = (password, user = {}) => {
+  const value = typeof password === 'string' ? password : '';
+  const policy = PASSWORD_POLICY;
+  const personal = personalWords(user);
+  const lower = value.toLowerCase();
+  const errors = [];
+
+  if (value.length < policy.minLength) {
+    errors.push(`Password must be at least ${policy.minLength} characters long`);
+  }
+  if (value.length > policy.maxLength) {
+    errors.push(`Password must be at most ${policy.maxLength} characters long`);
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(value)) {
+    errors.push('Password must contain at least one lowercase letter');
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(value)) {
+    errors.push('Password must contain at least one uppercase letter');
+  }
+  if (policy.requireNumber && !/\d/.test(value)) {
+    errors.push('Password must contain at least one number');
+  }
+  if (policy.requireSymbol && !/[^a-zA-Z\d]/.test(value)) {
+    errors.push('Password must contain at least one symbol');
+  }
+  if (personal.some(word => lower.includes(word))) {
+    errors.push('Password must not contain your username, email or name');
+  }
+
+  const breached = value.length > 0 && isBreachedPassword(value);
+  if (breached) {
+    errors.push('This password has appeared in a data breach. Please choose a different one');
+  }
+
+  const score = breached ? 0 : scorePassword(value, [...personal, ...policy.bannedWords]);
+  if (score < policy.minScore && errors.length === 0) {
+    errors.push('Password is too easy to guess. Try a longer mix of words, numbers and symbols');
+  }
+
+  return {
+    valid: errors.length === 0,
+    score,
+    label: STRENGTH_LABELS[score],
+    breached,
+    errors
+  };
+};
+
+module.exports = {
+  PASSWORD_POLICY,
+  evaluatePassword,
+  isBreachedPassword
+};
@@ -0,0 +1,75 @@
+const crypto = require('crypto');
+const sharp = require('sharp');
+const { getStorage } = require('../storage');
+
+// Square thumbnails generated for every upload (width = height in pixels)
+const PROFILE_PICTURE_SIZES = {
+  small: 64,
+  medium: 128,
+  large: 256
+};
+
+// Checked against the decoded image, not the client-supplied MIME type
+const ACCEPTED_FORMATS = ['jpeg', 'png', 'webp', 'gif'];
+
+// Refuse decompression bombs before resizing
+const MAX_INPUT_PIXELS = 40 * 1000 * 1000;
+
+/**
+ * Resize an uploaded image to every thumbnail size and store the results.
+ * Returns null when the buffer is not a supported image.
+ */
+const saveProfilePicture = async (userId, buffer) => {
+  let metadata;
+  try {
+    metadata = await sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  } catch (error) {
+    return null;
+  }
+
+  if (!ACCEPTED_FORMATS.includes(metadata.format)) {
+    return null;
+  }
+
+  const storage = getStorage();
+  // A fresh name per upload so browsers never show a cached old picture
+  const version = crypto.randomBytes(8).toString('hex');
+  const sizes = {};
+  const keys = [];
+
+  for (const [name, pixels] of Object.entries(PROFILE_PICTURE_SIZES)) {
+    // rotate() applies the EXIF orientation; re-encoding also drops all other metadata
+    const thumbnail = await sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate()
+      .resize(pixels, pixels, { fit: 'cover' })
+      .webp({ quality: 85 })
+      .toBuffer();
+
+    const key = `avatars/${userId}/${version}-${pixels}.webp`;
+    sizes[name] = await storage.put(key, thumbnail, 'image/webp');
+    keys.push(key);
+  }
+
+  return { sizes, keys };
+};
+
+/**
+ * Delete stored thumbnails; failures are logged so a missing file never blocks the caller
+ */
+const removeProfilePicture = async (keys = []) => {
+  const storage = getStorage();
+
+  for (const key of keys) {
+    try {
+      await storage.remove(key);
+    } catch (error) {
+      console.error(`Profile picture removal failed for ${key}:`, error);
+    }
+  }
+};
+
+module.exports = {
+  PROFILE_PICTURE_SIZES,
+  saveProfilePicture,
+  removeProfilePicture
+};
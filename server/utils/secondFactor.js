@@ -0,0 +1,38 @@
+const { verifyAssertion } = require('./webauthn');
+
+// Secret fields needed to check TOTP and recovery codes
+const TWO_FACTOR_FIELDS = [
+  '+securitySettings.twoFactorSecret',
+  '+securitySettings.twoFactorPendingSecret',
+  '+securitySettings.twoFactorRecoveryCodes',
+  '+securitySettings.twoFactorLastUsedStep'
+].join(' ');
+
+// Second factors accepted for sensitive actions: TOTP, recovery code or passkey
+const SECOND_FACTOR_FIELDS = `${TWO_FACTOR_FIELDS} +webauthnCredentials`;
+
+/**
+ * Whether the user has any second factor that can confirm a sensitive action
+ * (requires SECOND_FACTOR_FIELDS to be selected)
+ */
+const hasSecondFactor = (user) => user.securitySettings.twoFactorEnabled
+  || (user.webauthnCredentials || []).length > 0;
+
+/**
+ * Check the second factor sent with a sensitive action (requires SECOND_FACTOR_FIELDS to be selected).
+ * `passkey` is { challengeToken, response } from a step-up assertion. A used recovery code is
+ * only consumed once the caller saves the user.
+ */
+const verifySecondFactor = async (user, { code, passkey }) => {
+  if (passkey) {
+    return verifyAssertion(user, 'step-up', passkey);
+  }
+  return user.verifyTwoFactorCode(code) || user.useRecoveryCode(code);
+};
+
+module.exports = {
+  TWO_FACTOR_FIELDS,
+  SECOND_FACTOR_FIELDS,
+  hasSecondFactor,
+  verifySecondFactor
+};
@@ -0,0 +1,113 @@
+const Wallet = require('../models/Wallet');
+const Transaction = require('../models/Transaction');
+const { roundCash, getTradeFee, debitCash, creditCash } = require('./cash');
+const { postTransaction } = require('./ledger');
+const { isWriteConflict, withWriteRetries } = require('./writeRetries');
+
+const buildTradeTransaction = (wallet, { type, symbol, name, amount, price, fiatAmount, fee, notes }) =>
+  new Transaction({
+    user: wallet.user,
+    wallet: wallet._id,
+    type,
+    cryptocurrency: { symbol, name, amount, price },
+    fiat: { currency: wallet.settings.currency, amount: fiatAmount },
+    fees: { amount: fee, currency: wallet.settings.currency },
+    status: 'pending',
+    notes,
+    metadata: { platform: 'CryptoWallet', exchangeRate: price }
+  });
+
+/**
+ * Run a trade against the user's wallet. The wallet is read, checked and written, and the
+ * transaction and its journal entry stored, in one MongoDB transaction: either all of it is
+ * stored or none. When the wallet no longer allows the trade (another request spent the
+ * balance first, or the retries ran out) a failed transaction is recorded instead.
+ *
+ * Resolves with { transaction, wallet, balances, amountBefore } or { transaction, rejected }.
+ */
+const executeTrade = async (order, apply) => {
+  let rejected;
+  let wallet;
+  try {
+    const result = await withWriteRetries(async (session) => {
+      wallet = await Wallet.findOne({ user: order.user }).session(session);
+      if (!wallet) {
+        throw new Error('Wallet not found');
+      }
+
+      return apply(wallet, session);
+    });
+    if (!result.rejected) return result;
+    rejected = result.rejected;
+  } catch (error) {
+    if (!wallet || !isWriteConflict(error)) throw error;
+    rejected = 'Your wallet changed while this trade was processed. Please try again';
+  }
+
+  const transaction = buildTradeTransaction(wallet, order);
+  transaction.failTransaction(rejected);
+  await transaction.save();
+  return { transaction, rejected };
+};
+
+/**
+ * Buy an amount of a cryptocurrency at price (the server's market price), paid with the
+ * fiat amount plus the trade fee from the cash balance
+ */
+const buyCryptocurrency = (order) => {
+  const fiatAmount = roundCash(order.amount * order.price);
+  const fee = getTradeFee(fiatAmount);
+  const cost = roundCash(fiatAmount + fee);
+
+  return executeTrade({ ...order, type: 'buy', fiatAmount, fee }, async (wallet, session) => {
+    const balances = await debitCash(wallet._id, cost, { session });
+    if (!balances) {
+      return { rejected: `This purchase costs ${cost} ${wallet.settings.currency} including fees, but only ${wallet.availableBalance} is available` };
+    }
+
+    const holding = wallet.currencies.find(c => c.symbol === order.symbol);
+    const amountBefore = holding ? holding.amount : 0;
+
+    const transaction = buildTradeTransaction(wallet, { ...order, type: 'buy', fiatAmount, fee });
+    transaction.completeTransaction();
+    await transaction.save({ session });
+
+    wallet.addOrUpdateCurrency(order);
+    await wallet.save({ session });
+    await postTransaction(transaction, { session });
+
+    return { transaction, wallet, balances, amountBefore };
+  });
+};
+
+/**
+ * Sell an amount of a holding at price (the server's market price); the proceeds less the
+ * trade fee go to the cash balance
+ */
+const sellCryptocurrency = (order) => {
+  const fiatAmount = roundCash(order.amount * order.price);
+  const fee = getTradeFee(fiatAmount);
+
+  return executeTrade({ ...order, type: 'sell', fiatAmount, fee }, async (wallet, session) => {
+    const holding = wallet.currencies.find(c => c.symbol === order.symbol);
+    const amountBefore = holding ? holding.amount : 0;
+    if (!holding || !wallet.removeCurrency(order.symbol, order.amount)) {
+      return { rejected: `You only have ${amountBefore} ${order.symbol}` };
+    }
+
+    const transaction = buildTradeTransaction(wallet, { ...order, type: 'sell', name: holding.name, fiatAmount, fee });
+    transaction.completeTransaction();
+    await transaction.save({ session });
+
+    await wallet.save({ session });
+    const balances = await creditCash(wallet._id, fiatAmount - fee, { session });
+    await postTransaction(transaction, { session });
+
+    return { transaction, wallet, balances, amountBefore };
+  });
+};
+
+module.exports = {
+  buyCryptocurrency,
+  sellCryptocurrency
+};
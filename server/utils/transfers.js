@@ -0,0 +1,90 @@
+const User = require('../models/User');
+const Wallet = require('../models/Wallet');
+const Transaction = require('../models/Transaction');
+const { toChecksumAddress } = require('./hdWallet');
+const { postTransaction } = require('./ledger');
+const { withWriteRetries } = require('./writeRetries');
+
+const ETH_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+/**
+ * Find the active user a transfer is addressed to, by wallet address or username
+ */
+const findRecipient = (recipient) => {
+  const value = recipient.trim();
+  const filter = ETH_ADDRESS_PATTERN.test(value)
+    ? { walletAddress: toChecksumAddress(value) }
+    : { username: value.replace(/^@/, '') };
+
+  return User.findOne({ ...filter, isActive: true });
+};
+
+/**
+ * Move an amount of a holding from one user's wallet to another's. Both wallets and the
+ * paired send/receive transactions are written in one MongoDB transaction, so either
+ * everything is stored or nothing is (this needs a replica set), retried on concurrent writes.
+ * Resolves with null, and writes nothing, when the sender does not hold enough.
+ */
+const transferCurrency = async ({ sender, recipient, symbol, amount, notes, metadata }) => {
+  return withWriteRetries(async (session) => {
+    const [fromWallet, toWallet] = await Promise.all([
+      Wallet.findOne({ user: sender._id }).session(session),
+      Wallet.findOne({ user: recipient._id }).session(session)
+    ]);
+    if (!fromWallet || !toWallet) {
+      throw new Error('Wallet not found');
+    }
+
+    const holding = fromWallet.currencies.find(c => c.symbol === symbol);
+    if (!holding) return null;
+
+    // The recipient takes the holding at today's price; the sender's cost basis stays with the sender
+    const { name, currentPrice: price } = holding;
+    if (!fromWallet.removeCurrency(symbol, amount)) return null;
+    toWallet.addOrUpdateCurrency({ symbol, name, amount, price });
+
+    await fromWallet.save({ session });
+    await toWallet.save({ session });
+
+    const shared = {
+      cryptocurrency: { symbol, name, amount, price },
+      fiat: { currency: fromWallet.settings.currency, amount: amount * price },
+      fees: { amount: 0, currency: fromWallet.settings.currency },
+      status: 'completed',
+      fromAddress: sender.walletAddress,
+      toAddress: recipient.walletAddress,
+      notes,
+      metadata: { platform: 'CryptoWallet', exchangeRate: price, ...metadata }
+    };
+
+    const sendTransaction = new Transaction({
+      ...shared,
+      user: sender._id,
+      wallet: fromWallet._id,
+      type: 'send',
+      counterparty: recipient._id
+    });
+    const receiveTransaction = new Transaction({
+      ...shared,
+      user: recipient._id,
+      wallet: toWallet._id,
+      type: 'receive',
+      counterparty: sender._id,
+      relatedTransaction: sendTransaction._id
+    });
+    sendTransaction.relatedTransaction = receiveTransaction._id;
+
+    sendTransaction.completeTransaction();
+    receiveTransaction.completeTransaction();
+    await sendTransaction.save({ session });
+    await receiveTransaction.save({ session });
+    await postTransaction(sendTransaction, { session });
+
+    return { sendTransaction, receiveTransaction, wallet: fromWallet };
+  });
+};
+
+module.exports = {
+  findRecipient,
+  transferCurrency
+};
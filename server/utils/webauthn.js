@@ -0,0 +1,170 @@
+const {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse
+} = require('@simplewebauthn/server');
+const {
+  generateWebAuthnChallengeToken,
+  verifyWebAuthnChallengeToken
+} = require('../middleware/auth');
+const WebAuthnChallenge = require('../models/WebAuthnChallenge');
+
+/**
+ * Relying party settings. Defaults follow CLIENT_URL; tests driving a software
+ * authenticator can point WEBAUTHN_RP_ID / WEBAUTHN_ORIGIN at their own origin.
+ */
+const getConfig = () => {
+  const clientUrl = new URL(process.env.CLIENT_URL || 'http://localhost:5173');
+
+  return {
+    rpName: process.env.WEBAUTHN_RP_NAME || 'CryptoWallet',
+    rpID: process.env.WEBAUTHN_RP_ID || clientUrl.hostname,
+    origins: (process.env.WEBAUTHN_ORIGIN || clientUrl.origin).split(',').map(origin => origin.trim()),
+    requireUserVerification: process.env.WEBAUTHN_REQUIRE_USER_VERIFICATION !== 'false'
+  };
+};
+
+const toDescriptor = (credential) => ({
+  id: credential.credentialId,
+  transports: credential.transports
+});
+
+/**
+ * Registration options for a new passkey, plus the token carrying their challenge.
+ * `user` must have webauthnCredentials selected so existing keys are excluded.
+ * The challenge is stored so it can only be answered once.
+ */
+const createRegistrationOptions = async (user) => {
+  const { rpName, rpID, requireUserVerification } = getConfig();
+
+  const options = await generateRegistrationOptions({
+    rpName,
+    rpID,
+    userName: user.username,
+    userDisplayName: user.fullName,
+    userID: Buffer.from(user._id.toString()),
+    attestationType: 'none',
+    excludeCredentials: user.webauthnCredentials.map(toDescriptor),
+    authenticatorSelection: {
+      residentKey: 'preferred',
+      userVerification: requireUserVerification ? 'required' : 'preferred'
+    }
+  });
+
+  await WebAuthnChallenge.issue(options.challenge, 'register', user._id);
+
+  return {
+    options,
+    challengeToken: generateWebAuthnChallengeToken(options.challenge, 'register', user._id)
+  };
+};
+
+/**
+ * Verify a registration response. Resolves to the credential fields to store, or null.
+ * The challenge is used up whether or not the response verifies.
+ */
+const verifyRegistration = async (user, challengeToken, response) => {
+  const { rpID, origins, requireUserVerification } = getConfig();
+
+  try {
+    const decoded = verifyWebAuthnChallengeToken(challengeToken, 'register');
+    if (!(await WebAuthnChallenge.consume(decoded.challenge, 'register'))) return null;
+    if (decoded.id !== user._id.toString()) return null;
+
+    const { verified, registrationInfo } = await verifyRegistrationResponse({
+      response,
+      expectedChallenge: decoded.challenge,
+      expectedOrigin: origins,
+      expectedRPID: rpID,
+      requireUserVerification
+    });
+
+    if (!verified) return null;
+
+    const { credential, credentialDeviceType, credentialBackedUp } = registrationInfo;
+    return {
+      credentialId: credential.id,
+      publicKey: Buffer.from(credential.publicKey).toString('base64url'),
+      counter: credential.counter,
+      transports: credential.transports || response.response.transports || [],
+      deviceType: credentialDeviceType,
+      backedUp: credentialBackedUp
+    };
+  } catch (error) {
+    console.error('Passkey registration verification failed:', error.message);
+    return null;
+  }
+};
+
+/**
+ * Authentication options for a sign-in or step-up. With a user, only their passkeys
+ * are allowed; without one the browser offers any discoverable passkey for this site.
+ */
+const createAuthenticationOptions = async (purpose, user = null) => {
+  const { rpID, requireUserVerification } = getConfig();
+
+  const options = await generateAuthenticationOptions({
+    rpID,
+    allowCredentials: user ? user.webauthnCredentials.map(toDescriptor) : [],
+    userVerification: requireUserVerification ? 'required' : 'preferred'
+  });
+
+  await WebAuthnChallenge.issue(options.challenge, purpose, user ? user._id : null);
+
+  return {
+    options,
+    challengeToken: generateWebAuthnChallengeToken(options.challenge, purpose, user ? user._id : null)
+  };
+};
+
+/**
+ * Verify an assertion against the user's stored passkey and record its use.
+ * `user` must own the credential and have webauthnCredentials selected; the
+ * caller saves the user afterwards. Resolves to true when the assertion is valid.
+ * The challenge is used up on the first attempt, so an assertion cannot be replayed.
+ */
+const verifyAssertion = async (user, purpose, { challengeToken, response } = {}) => {
+  const { rpID, origins, requireUserVerification } = getConfig();
+
+  try {
+    const decoded = verifyWebAuthnChallengeToken(challengeToken, purpose);
+    if (!(await WebAuthnChallenge.consume(decoded.challenge, purpose))) return false;
+    if (decoded.id && decoded.id !== user._id.toString()) return false;
+
+    const stored = user.getWebAuthnCredential(response && response.id);
+    if (!stored) return false;
+
+    const { verified, authenticationInfo } = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge: decoded.challenge,
+      expectedOrigin: origins,
+      expectedRPID: rpID,
+      requireUserVerification,
+      credential: {
+        id: stored.credentialId,
+        publicKey: Buffer.from(stored.publicKey, 'base64url'),
+        counter: stored.counter,
+        transports: stored.transports
+      }
+    });
+
+    if (!verified) return false;
+
+    stored.counter = authenticationInfo.newCounter;
+    stored.backedUp = authenticationInfo.credentialBackedUp;
+    stored.lastUsedAt = new Date();
+    return true;
+  } catch (error) {
+    console.error('Passkey assertion verification failed:', error.message);
+    return false;
+  }
+};
+
+module.exports = {
+  getConfig,
+  createRegistrationOptions,
+  verifyRegistration,
+  createAuthenticationOptions,
+  verifyAssertion
+};
@@ -0,0 +1,57 @@
+const WithdrawalAddress = require('../models/WithdrawalAddress');
+const { toChecksumAddress, isValidAddress } = require('./hdWallet');
+
+/**
+ * Cooling-off period before a new address (or turning allowlist-only off) takes effect
+ */
+const getWithdrawalCooldownMs = () => {
+  const hours = parseFloat(process.env.WITHDRAWAL_ADDRESS_COOLDOWN_HOURS);
+  return (Number.isNaN(hours) ? 24 : hours) * 60 * 60 * 1000;
+};
+
+/**
+ * The form an address is stored and looked up in, so it matches however it was typed:
+ * Ethereum addresses in their EIP-55 checksum casing, bech32 Bitcoin addresses in lower
+ * case. Null when the address is not a valid Bitcoin or Ethereum address.
+ */
+const normalizeWithdrawalAddress = (address) => {
+  const value = String(address || '').trim();
+  if (isValidAddress('ETH', value)) return toChecksumAddress(value);
+  if (isValidAddress('BTC', value)) return /^bc1/i.test(value) ? value.toLowerCase() : value;
+  return null;
+};
+
+/**
+ * Check a withdrawal destination against the wallet's allowlist settings.
+ * Resolves with { allowed: true } or { allowed: false, message } explaining the refusal.
+ */
+const checkWithdrawalDestination = async (wallet, address) => {
+  if (!wallet.isAllowlistOnly()) {
+    return { allowed: true };
+  }
+
+  const normalized = normalizeWithdrawalAddress(address);
+  const entry = normalized && await WithdrawalAddress.findOne({ user: wallet.user, address: normalized });
+
+  if (!entry || entry.status === 'unconfirmed') {
+    return {
+      allowed: false,
+      message: 'Allowlist-only mode is on and this address is not on your withdrawal allowlist'
+    };
+  }
+
+  if (entry.status === 'cooling_off') {
+    return {
+      allowed: false,
+      message: `This address becomes usable at ${entry.activatesAt.toISOString()}`
+    };
+  }
+
+  return { allowed: true };
+};
+
+module.exports = {
+  getWithdrawalCooldownMs,
+  normalizeWithdrawalAddress,
+  checkWithdrawalDestination
+};
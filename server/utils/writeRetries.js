@@ -0,0 +1,39 @@
+const mongoose = require('mongoose');
+
+// How often a MongoDB transaction is started over after losing a race for a document
+const MAX_WRITE_ATTEMPTS = 5;
+
+const WRITE_CONFLICT_CODE = 112;
+
+/**
+ * Whether an error means a concurrent write to the same document won: a save from a stale
+ * wallet version, or a write conflict the driver's own transaction retries gave up on
+ */
+const isWriteConflict = (error) =>
+  error instanceof mongoose.Error.VersionError ||
+  error.code === WRITE_CONFLICT_CODE ||
+  (typeof error.hasErrorLabel === 'function' && error.hasErrorLabel('TransientTransactionError'));
+
+const wait = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run work in a MongoDB transaction (this needs a replica set), starting over with a fresh
+ * read when a concurrent write wins. Gives up after MAX_WRITE_ATTEMPTS with the last error.
+ */
+const withWriteRetries = async (work) => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await mongoose.connection.transaction(work);
+    } catch (error) {
+      if (attempt >= MAX_WRITE_ATTEMPTS || !isWriteConflict(error)) throw error;
+      // Random backoff so the retrying requests do not collide again
+      await wait(Math.random() * 10 * attempt);
+    }
+  }
+};
+
+module.exports = {
+  MAX_WRITE_ATTEMPTS,
+  isWriteConflict,
+  withWriteRetries
+};